@@ -0,0 +1,64 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Custom Fix Stages Tests - اختبارات المراحل المخصصة
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { loadCustomStages, validateStageConfigs } from '../fix-stages/custom-stages';
+
+let root: string;
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'oqool-stages-'));
+  await fs.outputJSON(path.join(root, '.oqool', 'fix-stages.json'), {
+    stages: [
+      {
+        id: 'banned-imports',
+        priority: 'P1',
+        action: 'auto',
+        rules: [
+          { pattern: "from 'lodash'", message: 'use lodash-es', replace: "from 'lodash-es'" },
+          { id: 'no-console', pattern: 'console\\.log\\(', message: 'use the logger' },
+        ],
+      },
+    ],
+  });
+});
+
+afterAll(async () => {
+  await fs.remove(root);
+});
+
+describe('custom fix stages', () => {
+  test('rule stages report matches and fix the replaceable ones', async () => {
+    const [stage] = await loadCustomStages(root);
+    const code = "import { map } from 'lodash';\nconsole.log(map);\n";
+
+    const issues = await stage.analyze(code, 'a.ts');
+    expect(issues.map((i) => [i.type, i.line, i.fix])).toEqual([
+      ['banned-imports-1', 1, 'replace'],
+      ['no-console', 2, undefined],
+    ]);
+
+    const fixed = await stage.fix!(code, issues, 'a.ts');
+    expect(fixed).toBe("import { map } from 'lodash-es';\nconsole.log(map);\n");
+    expect(stage).toMatchObject({ id: 'banned-imports', name: 'banned-imports', priority: 'P1' });
+  });
+
+  test('rejects invalid configs with every problem listed', () => {
+    expect(() =>
+      validateStageConfigs({
+        stages: [
+          { id: 'Bad', priority: 'P4', action: 'fix', rules: [{ pattern: '(' }] },
+          { id: 'both', priority: 'P1', action: 'auto', rules: [], module: 'x.js' },
+        ],
+      })
+    ).toThrow(/id[\s\S]*priority[\s\S]*action[\s\S]*message[\s\S]*pattern[\s\S]*both/);
+  });
+
+  test('no config file means no custom stages', async () => {
+    expect(await loadCustomStages(path.join(root, 'empty'))).toEqual([]);
+  });
+});
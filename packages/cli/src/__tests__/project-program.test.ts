@@ -0,0 +1,65 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Project Program Tests - اختبارات برنامج المشروع ورسم الاستيرادات
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ProjectProgram } from '../project-program';
+
+let root: string;
+const file = (name: string) => path.join(root, 'src', name).split(path.sep).join('/');
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'oqool-project-'));
+  await fs.writeJSON(path.join(root, 'tsconfig.json'), {
+    compilerOptions: { strict: true, module: 'ESNext', moduleResolution: 'Bundler', noEmit: true },
+    include: ['src'],
+  });
+  await fs.outputFile(
+    path.join(root, 'src/math.ts'),
+    'export function add(a: number, b: number): number {\n  return a + b;\n}\n'
+  );
+  await fs.outputFile(
+    path.join(root, 'src/app.ts'),
+    "import { add } from './math.js';\nimport './cycle-a.js';\nexport const total = add(1, 2);\n"
+  );
+  await fs.outputFile(path.join(root, 'src/cycle-a.ts'), "import './cycle-b.js';\nexport {};\n");
+  await fs.outputFile(path.join(root, 'src/cycle-b.ts'), "import './cycle-a.js';\nexport {};\n");
+});
+
+afterAll(async () => {
+  await fs.remove(root);
+});
+
+describe('ProjectProgram', () => {
+  test('orders files dependencies-first and reports cycles', () => {
+    const project = new ProjectProgram(root);
+    const { order, cycles } = project.getImportOrder();
+
+    expect(order).toHaveLength(4);
+    expect(order.indexOf(file('math.ts'))).toBeLessThan(order.indexOf(file('app.ts')));
+    expect(order.indexOf(file('cycle-a.ts'))).toBeLessThan(order.indexOf(file('app.ts')));
+    expect(cycles).toEqual([[file('cycle-a.ts'), file('cycle-b.ts')]]);
+  });
+
+  test('in-memory edits propagate to importing files', () => {
+    const project = new ProjectProgram(root);
+    expect(project.getDiagnostics(file('app.ts'))).toHaveLength(0);
+
+    // A signature change in math.ts breaks app.ts without touching the disk
+    project.updateFile(
+      file('math.ts'),
+      'export function sum(values: number[]): number {\n  return 0;\n}\n'
+    );
+    expect(project.countErrors([file('app.ts')])).toBe(1);
+
+    project.updateFile(
+      file('app.ts'),
+      "import { sum } from './math.js';\nexport const total = sum([1, 2]);\n"
+    );
+    expect(project.countErrors()).toBe(0);
+    expect(fs.readFileSync(file('math.ts'), 'utf-8')).toContain('add');
+  });
+});
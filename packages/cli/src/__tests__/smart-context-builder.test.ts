@@ -0,0 +1,128 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Smart Context Builder Tests - اختبارات الاسترجاع الهجين ورسم الاستيرادات
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { SmartContextBuilder } from '../smart-context-builder';
+import type { ScoredFile } from '../smart-context-builder';
+
+// exports حزمة shared تشير إلى dist بصيغة ESM فقط: نحمّل الوحدات المطلوبة من المصدر
+jest.mock(
+  '@oqool/shared/vector',
+  () => jest.requireActual('../../../shared/src/vector/bm25-index'),
+  { virtual: true }
+);
+jest.mock(
+  '@oqool/shared/ai-gateway',
+  () => jest.requireActual('../../../shared/src/ai-providers/utils/tokenizer'),
+  { virtual: true }
+);
+
+let root: string;
+
+const write = (file: string, content: string) => fs.outputFile(path.join(root, file), content);
+const byPath = (files: ScoredFile[], file: string) => files.find((f) => f.path === file)!;
+
+// يكفي من FileManager ما يقرأ ملفات المشروع المؤقت
+const fileManager = () =>
+  ({
+    getWorkingDir: () => root,
+    listFiles: async () =>
+      (await fs.readdir(path.join(root, 'src'))).map((name) => `src/${name}`),
+    readFile: (file: string) => fs.readFile(path.join(root, file), 'utf-8'),
+  }) as any;
+
+const builder = (semanticIndex?: any) =>
+  new SmartContextBuilder(
+    fileManager(),
+    undefined,
+    undefined,
+    { maxTokens: 20000, provider: 'claude' },
+    semanticIndex
+  );
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'oqool-context-'));
+  await write(
+    'src/validation-pipeline.ts',
+    "import { requireField } from './rules.js';\n" +
+      'export class ValidationPipeline {\n  run(input: object) {\n' +
+      "    return requireField(input, 'id');\n  }\n}\n"
+  );
+  await write(
+    'src/rules.ts',
+    'export function requireField(input: object, field: string) {\n  return field in input;\n}\n'
+  );
+  await write(
+    'src/api.ts',
+    "import { ValidationPipeline } from './validation-pipeline.js';\n" +
+      'export const pipeline = new ValidationPipeline();\n'
+  );
+  await write(
+    'src/cart.ts',
+    'export function calculateCartTotal(prices: number[]) {\n' +
+      '  return prices.reduce((sum, price) => sum + price, 0);\n}\n'
+  );
+});
+
+afterEach(async () => {
+  await fs.remove(root);
+});
+
+describe('SmartContextBuilder retrieval', () => {
+  test('explains BM25-only scores with matched terms and the total formula', async () => {
+    const { relevantFiles } = await builder().buildContext('sum the prices');
+
+    const cart = relevantFiles[0];
+    expect(cart.path).toBe('src/cart.ts');
+    expect(cart.score).toMatchObject({ lexical: 1, vector: 0, graph: 0 });
+    expect(cart.score.matchedTerms.length).toBeGreaterThan(0);
+    expect(cart.score.reasons[0]).toMatch(/^matches /);
+    expect(cart.score.total).toBeCloseTo(cart.similarity * 0.7 + cart.importance * 0.3);
+  });
+
+  test('boosts the imports and importers of a file the request names', async () => {
+    const { relevantFiles } = await builder().buildContext('refactor ValidationPipeline');
+
+    expect(byPath(relevantFiles, 'src/validation-pipeline.ts').score).toMatchObject({
+      graph: 0.3,
+      reasons: expect.arrayContaining(['defines ValidationPipeline']),
+    });
+    expect(byPath(relevantFiles, 'src/rules.ts').score).toMatchObject({
+      graph: 0.15,
+      reasons: ['imported by src/validation-pipeline.ts'],
+    });
+    expect(byPath(relevantFiles, 'src/api.ts').score.reasons).toContain(
+      'imports src/validation-pipeline.ts'
+    );
+    expect(relevantFiles.find((f) => f.path === 'src/cart.ts')).toBeUndefined();
+  });
+
+  test('fuses lexical and vector scores from the project index', async () => {
+    const semanticIndex = {
+      search: async () => [{ chunk: { metadata: { file: 'src/rules.ts' } }, score: 0.9 }],
+    };
+    const { relevantFiles } = await builder(semanticIndex).buildContext('mandatory inputs');
+
+    const rules = byPath(relevantFiles, 'src/rules.ts');
+    expect(rules.score.vector).toBeCloseTo(0.9);
+    expect(rules.score.reasons).toContain('semantic 0.90');
+    expect(rules.similarity).toBeCloseTo(rules.score.lexical * 0.5 + rules.score.vector * 0.5);
+  });
+
+  test('reuses one import program per builder and sees edited imports', async () => {
+    const context = builder();
+    await context.buildContext('refactor ValidationPipeline');
+    const program = (context as any).program;
+    expect(program).toBeTruthy();
+
+    await write('src/validation-pipeline.ts', 'export class ValidationPipeline {}\n');
+    const { relevantFiles } = await context.buildContext('refactor ValidationPipeline');
+
+    expect((context as any).program).toBe(program);
+    expect(relevantFiles.find((f) => f.path === 'src/rules.ts')).toBeUndefined();
+  });
+});
@@ -0,0 +1,44 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Stream Renderer Tests - اختبارات عرض البث
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect, jest } from '@jest/globals';
+import { PassThrough } from 'stream';
+import { renderStream } from '../stream-renderer';
+import type { UnifiedStreamEvent } from '@oqool/shared/ai-gateway';
+
+// chalk 5 حزمة ESM فقط لا يحمّلها jest؛ الألوان لا تهم هنا
+jest.mock('chalk', () => {
+  const paint: any = new Proxy((text: string) => text, { get: () => paint });
+  return { __esModule: true, default: paint };
+});
+
+async function* stream(events: UnifiedStreamEvent[]): AsyncIterable<UnifiedStreamEvent> {
+  yield* events;
+}
+
+describe('renderStream', () => {
+  test('drops the partial output of a provider call that is retried', async () => {
+    const rendered = await renderStream(
+      stream([
+        { type: 'tool_call_end', id: 't1', name: 'read_file', arguments: { path: 'a.ts' } },
+        { type: 'usage', inputTokens: 10, outputTokens: 5 },
+        { type: 'tool_result', id: 't1', name: 'read_file', result: 'ok' },
+        { type: 'text_delta', text: 'Half an ans' },
+        { type: 'usage', inputTokens: 20, outputTokens: 3 },
+        { type: 'error', error: 'socket hang up', retryable: true },
+        { type: 'text_delta', text: 'The answer.' },
+        { type: 'usage', inputTokens: 20, outputTokens: 4 },
+        { type: 'done' },
+      ]),
+      new PassThrough()
+    );
+
+    expect(rendered).toEqual({
+      text: 'The answer.',
+      toolCalls: 1,
+      inputTokens: 30,
+      outputTokens: 9,
+    });
+  });
+});
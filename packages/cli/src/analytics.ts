@@ -6,6 +6,7 @@
 import fs from 'fs-extra';
 import path from 'path';
 import chalk from 'chalk';
+import { readCacheStats } from '@oqool/shared/ai-gateway';
 
 export interface UsageLog {
   command: string;
@@ -34,10 +35,12 @@ export interface Insights {
 }
 
 export class Analytics {
+  private workingDirectory: string;
   private dataPath: string;
   private data: AnalyticsData;
 
   constructor(workingDirectory: string) {
+    this.workingDirectory = workingDirectory;
     this.dataPath = path.join(workingDirectory, '.oqool', 'analytics.json');
     this.data = this.loadData();
   }
@@ -204,6 +207,24 @@ export class Analytics {
       });
     }
 
+    // كاش الردود (يُحفظ مع OQOOL_CACHE_PERSIST=1)
+    const cache = await readCacheStats(this.workingDirectory);
+    if (cache) {
+      const lookups = cache.hits + cache.misses;
+      const hitRate = lookups > 0 ? Math.round((cache.hits / lookups) * 100) : 0;
+      console.log(chalk.cyan('\n💾 كاش الردود:'));
+      console.log(
+        chalk.white(`  إصابات: ${chalk.green(cache.hits.toString())}`) +
+          chalk.gray(` (منها ${cache.semanticHits} طلب مشابه)`) +
+          chalk.white(` | إخفاقات: ${cache.misses}`) +
+          chalk.yellow(` | ${hitRate}%`)
+      );
+      console.log(chalk.white(`  التوفير: ${chalk.green('$' + cache.savings.toFixed(4))}`));
+      if (cache.invalidations > 0) {
+        console.log(chalk.gray(`  أُبطلت ${cache.invalidations} إجابة لتغيّر ملفاتها`));
+      }
+    }
+
     // Insights
     const insights = this.generateInsights();
     console.log(chalk.cyan('\n💡 Insights:\n'));
@@ -6,6 +6,8 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import inquirer from 'inquirer';
+import path from 'path';
+import { glob } from 'glob';
 import { SyntaxFixer } from './fix-stages/syntax-fixer.js';
 import { TypeFixer } from './fix-stages/type-fixer.js';
 import { SecurityFixer } from './fix-stages/security-fixer.js';
@@ -13,6 +15,8 @@ import { PerformanceOptimizer } from './fix-stages/performance-optimizer.js';
 import { StyleFixer } from './fix-stages/style-fixer.js';
 import { createFileManager } from './file-manager.js';
 import { createClientFromConfig } from './api-client.js';
+import { ProjectProgram } from './project-program.js';
+import { loadCustomStages } from './fix-stages/custom-stages.js';
 
 // ============================================
 // 📊 واجهات البيانات
@@ -28,6 +32,24 @@ export interface FixStage {
   description: string;
 }
 
+/**
+ * What a stage does: find issues, and optionally fix them. `fix` is used for
+ * `auto` stages and for `ask` stages once the user agrees.
+ */
+export interface FixStageHandler {
+  analyze(code: string, file: string): Promise<FixIssue[]> | FixIssue[];
+  fix?(code: string, issues: FixIssue[], file: string): Promise<string> | string;
+}
+
+/**
+ * A stage registered with AutoFixSystem. `id` is the name used by
+ * `--only-stages` / `--skip-stages`.
+ */
+export interface FixStageDefinition extends FixStage, FixStageHandler {
+  id: string;
+  custom?: boolean; // loaded from .oqool/fix-stages.json
+}
+
 export interface FixIssue {
   stage: string;
   priority: Priority;
@@ -40,6 +62,7 @@ export interface FixIssue {
 }
 
 export interface FixResult {
+  file?: string; // set in project mode
   success: boolean;
   totalIssues: number;
   fixedIssues: number;
@@ -54,6 +77,7 @@ export interface FixResult {
     };
   };
   finalCode?: string;
+  error?: string;
 }
 
 export interface AutoFixOptions {
@@ -64,6 +88,36 @@ export interface AutoFixOptions {
   interactive?: boolean;
 }
 
+export interface ProjectFixOptions {
+  pattern?: string; // glob of files to fix (default: every file in the project)
+  tsconfig?: string;
+  autoApply?: boolean;
+  skipStages?: string[];
+  onlyStages?: string[];
+  interactive?: boolean;
+}
+
+export interface ProjectFixSummary {
+  totalFiles: number;
+  changedFiles: number;
+  failedFiles: number;
+  totalIssues: number;
+  fixedIssues: number;
+  suggestedIssues: number;
+  skippedIssues: number;
+  typeErrorsBefore: number;
+  typeErrorsAfter: number;
+}
+
+export interface ProjectFixResult {
+  success: boolean;
+  files: FixResult[]; // one per file, in the order they were fixed
+  order: string[]; // dependencies before the files that import them
+  cycles: string[][]; // import cycles (fixed as a group)
+  summary: ProjectFixSummary;
+  saved: boolean;
+}
+
 // ============================================
 // 🔧 نظام الإصلاح التلقائي
 // ============================================
@@ -71,7 +125,8 @@ export interface AutoFixOptions {
 export class AutoFixSystem {
   private workingDir: string;
   private fileManager: any;
-  private stages: Map<string, FixStage>;
+  private stages: Map<string, FixStageDefinition>;
+  private customStagesLoaded = false;
 
   private syntaxFixer: SyntaxFixer;
   private typeFixer: TypeFixer;
@@ -84,15 +139,15 @@ export class AutoFixSystem {
     this.fileManager = createFileManager(workingDir);
     this.stages = new Map();
 
-    // تهيئة المراحل
-    this.initializeStages();
-
     // تهيئة الأدوات
     this.syntaxFixer = new SyntaxFixer(workingDir);
     this.typeFixer = new TypeFixer(workingDir);
     this.securityFixer = new SecurityFixer(workingDir);
     this.performanceOptimizer = new PerformanceOptimizer(workingDir);
     this.styleFixer = new StyleFixer(workingDir);
+
+    // تهيئة المراحل
+    this.initializeStages();
   }
 
   /**
@@ -100,44 +155,93 @@ export class AutoFixSystem {
    */
   private initializeStages() {
     // ✅ المرحلة 1 (P1): Syntax + Security - إصلاح تلقائي
-    this.stages.set('syntax', {
+    this.registerStage({
+      id: 'syntax',
       name: 'Syntax Fixing',
       priority: 'P1',
       action: 'auto',
       description: 'إصلاح أخطاء البناء اللغوي تلقائياً',
+      analyze: (code, file) => this.syntaxFixer.analyze(code, file),
+      fix: (code, issues) => this.syntaxFixer.fix(code, issues),
     });
 
-    this.stages.set('security', {
+    this.registerStage({
+      id: 'security',
       name: 'Security Fixing',
       priority: 'P1',
       action: 'ask',
       description: 'إصلاح الثغرات الأمنية (يسأل المستخدم)',
+      analyze: (code, file) => this.securityFixer.analyze(code, file),
+      fix: (code, issues) => this.securityFixer.fix(code, issues),
     });
 
     // ✅ المرحلة 2 (P2): Types - إصلاح تلقائي
-    this.stages.set('types', {
+    this.registerStage({
+      id: 'types',
       name: 'Type Fixing',
       priority: 'P2',
       action: 'auto',
       description: 'إصلاح أخطاء الأنواع تلقائياً',
+      analyze: (code, file) => this.typeFixer.analyze(code, file),
+      fix: (code, issues, file) => this.typeFixer.fix(code, issues, file),
     });
 
     // ✅ المرحلة 3 (P3): Performance + Style - اقتراحات
-    this.stages.set('performance', {
+    this.registerStage({
+      id: 'performance',
       name: 'Performance Optimization',
       priority: 'P3',
       action: 'suggest',
       description: 'اقتراحات لتحسين الأداء',
+      analyze: (code, file) => this.performanceOptimizer.analyze(code, file),
     });
 
-    this.stages.set('style', {
+    this.registerStage({
+      id: 'style',
       name: 'Style Fixing',
       priority: 'P3',
       action: 'auto',
       description: 'إصلاح أسلوب الكود تلقائياً',
+      analyze: (code, file) => this.styleFixer.analyze(code, file),
+      fix: (code, issues) => this.styleFixer.fix(code, issues),
     });
   }
 
+  /**
+   * تسجيل مرحلة إصلاح (مدمجة أو مخصصة)
+   */
+  registerStage(stage: FixStageDefinition): void {
+    if (this.stages.has(stage.id)) {
+      throw new Error(`المرحلة ${stage.id} مسجلة مسبقاً`);
+    }
+    if (stage.action !== 'suggest' && !stage.fix) {
+      throw new Error(`المرحلة ${stage.id} (${stage.action}) تحتاج دالة fix`);
+    }
+
+    this.stages.set(stage.id, stage);
+  }
+
+  unregisterStage(id: string): boolean {
+    return this.stages.delete(id);
+  }
+
+  /**
+   * تحميل المراحل المخصصة من .oqool/fix-stages.json (مرة واحدة)
+   */
+  async loadCustomStages(): Promise<FixStageDefinition[]> {
+    if (this.customStagesLoaded) {
+      return this.getStages().filter((s) => s.custom);
+    }
+
+    const custom = await loadCustomStages(this.workingDir);
+    for (const stage of custom) {
+      this.registerStage({ ...stage, custom: true });
+    }
+
+    this.customStagesLoaded = true;
+    return custom;
+  }
+
   /**
    * تشغيل نظام الإصلاح التلقائي
    */
@@ -154,51 +258,232 @@ export class AutoFixSystem {
     console.log(chalk.cyan('   نظام الإصلاح التلقائي المتقدم'));
     console.log(chalk.cyan('════════════════════════════════════════════════\n'));
 
+    await this.loadCustomStages();
+
     // قراءة الملف
     const fileContent = await this.fileManager.readFile(file);
     if (!fileContent) {
       throw new Error(`فشل في قراءة الملف: ${file}`);
     }
 
-    let currentCode = fileContent;
-    const result: FixResult = {
-      success: true,
-      totalIssues: 0,
-      fixedIssues: 0,
-      suggestedIssues: 0,
-      skippedIssues: 0,
-      stages: {},
+    // تحديد المراحل المطلوبة
+    const stagesToRun = this.selectStages(skipStages, onlyStages);
+
+    console.log(chalk.yellow('📋 المراحل المحددة:\n'));
+    this.displayStageList(stagesToRun);
+    console.log('');
+
+    // تشغيل المراحل
+    const result = await this.runStages(file, fileContent, stagesToRun, interactive && !autoApply);
+    const currentCode = result.finalCode!;
+
+    // النتيجة النهائية
+    console.log(chalk.cyan('\n════════════════════════════════════════════════'));
+    console.log(chalk.cyan('   📊 ملخص النتائج'));
+    console.log(chalk.cyan('════════════════════════════════════════════════\n'));
+
+    this.displayFinalResults(result);
+
+    // حفظ التعديلات
+    if (result.fixedIssues > 0) {
+      if (autoApply || (await this.confirmSave(result))) {
+        await this.fileManager.writeFile(file, currentCode);
+        console.log(chalk.green(`\n✅ تم حفظ التعديلات في: ${file}`));
+      } else {
+        console.log(chalk.yellow('\n⏭️  تم إلغاء حفظ التعديلات'));
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * إصلاح المشروع كامل بترتيب الاستيرادات
+   *
+   * Files are fixed dependencies-first against one whole-project tsc program,
+   * so a type fix in a module is already visible when its importers are checked.
+   */
+  async fixProject(options: ProjectFixOptions = {}): Promise<ProjectFixResult> {
+    const {
+      pattern,
+      tsconfig,
+      autoApply = false,
+      skipStages = [],
+      onlyStages = [],
+      interactive = true,
+    } = options;
+
+    console.log(chalk.cyan('\n🔧 ════════════════════════════════════════════════'));
+    console.log(chalk.cyan('   الإصلاح التلقائي للمشروع كامل'));
+    console.log(chalk.cyan('════════════════════════════════════════════════\n'));
+
+    await this.loadCustomStages();
+    const stagesToRun = this.selectStages(skipStages, onlyStages);
+
+    // بناء برنامج TypeScript ورسم الاستيرادات
+    const spinner = ora('جاري بناء رسم الاستيرادات...').start();
+
+    const matched = pattern
+      ? await glob(pattern, {
+          cwd: this.workingDir,
+          absolute: true,
+          nodir: true,
+          ignore: ['**/node_modules/**', '**/dist/**', '**/build/**'],
+        })
+      : [];
+
+    const project = new ProjectProgram(this.workingDir, { files: matched, tsconfig });
+    const targets = pattern ? matched : project.getFiles();
+
+    if (targets.length === 0) {
+      spinner.fail('لا توجد ملفات');
+      throw new Error(pattern ? `لا توجد ملفات تطابق: ${pattern}` : 'لا توجد ملفات في المشروع');
+    }
+
+    const { order, cycles } = project.getImportOrder(targets);
+    const typeErrorsBefore = project.countErrors(order);
+    spinner.succeed(`${order.length} ملف - ${typeErrorsBefore} خطأ أنواع`);
+
+    if (cycles.length > 0) {
+      console.log(chalk.yellow(`\n⚠️  ${cycles.length} حلقة استيراد (تُصلح ملفاتها متتالية):`));
+      for (const cycle of cycles) {
+        console.log(chalk.gray(`   ${cycle.map((f) => this.relative(f)).join(' ↔ ')}`));
+      }
+    }
+
+    console.log(chalk.yellow('\n📋 المراحل المحددة:\n'));
+    this.displayStageList(stagesToRun);
+
+    // إصلاح الملفات بالترتيب
+    const files: FixResult[] = [];
+    const changes = new Map<string, string>();
+
+    this.typeFixer.setProject(project);
+    try {
+      for (const [index, file] of order.entries()) {
+        const relativePath = this.relative(file);
+        console.log(chalk.cyan.bold(`\n📄 [${index + 1}/${order.length}] ${relativePath}`));
+
+        const content = project.getContent(file);
+        if (content === undefined) {
+          files.push({ ...this.emptyResult(relativePath), success: false, error: 'تعذرت القراءة' });
+          continue;
+        }
+
+        try {
+          const result = await this.runStages(
+            file,
+            content,
+            stagesToRun,
+            interactive && !autoApply
+          );
+          result.file = relativePath;
+          files.push(result);
+
+          if (result.finalCode !== content) {
+            changes.set(file, result.finalCode!);
+            project.updateFile(file, result.finalCode!);
+          }
+        } catch (error: any) {
+          console.log(chalk.red(`❌ فشل إصلاح ${relativePath}: ${error.message}`));
+          files.push({ ...this.emptyResult(relativePath), success: false, error: error.message });
+        }
+      }
+    } finally {
+      this.typeFixer.setProject(null);
+    }
+
+    const summary: ProjectFixSummary = {
+      totalFiles: files.length,
+      changedFiles: changes.size,
+      failedFiles: files.filter((f) => !f.success).length,
+      totalIssues: files.reduce((sum, f) => sum + f.totalIssues, 0),
+      fixedIssues: files.reduce((sum, f) => sum + f.fixedIssues, 0),
+      suggestedIssues: files.reduce((sum, f) => sum + f.suggestedIssues, 0),
+      skippedIssues: files.reduce((sum, f) => sum + f.skippedIssues, 0),
+      typeErrorsBefore,
+      typeErrorsAfter: project.countErrors(order),
     };
 
-    // تحديد المراحل المطلوبة
+    const projectResult: ProjectFixResult = {
+      success: summary.failedFiles === 0,
+      files,
+      order: order.map((f) => this.relative(f)),
+      cycles: cycles.map((cycle) => cycle.map((f) => this.relative(f))),
+      summary,
+      saved: false,
+    };
+
+    this.displayProjectResults(projectResult);
+
+    // حفظ كل التعديلات مرة واحدة
+    if (changes.size > 0) {
+      if (autoApply || (await this.confirmProjectSave(summary))) {
+        for (const [file, code] of changes) {
+          await this.fileManager.writeFile(this.relative(file), code);
+        }
+        projectResult.saved = true;
+        console.log(chalk.green(`\n✅ تم حفظ التعديلات في ${changes.size} ملف`));
+      } else {
+        console.log(chalk.yellow('\n⏭️  تم إلغاء حفظ التعديلات'));
+      }
+    }
+
+    return projectResult;
+  }
+
+  /**
+   * تحديد المراحل وترتيبها حسب الأولوية
+   */
+  private selectStages(skipStages: string[], onlyStages: string[]): string[] {
+    const unknown = [...onlyStages, ...skipStages].filter((s) => !this.stages.has(s));
+    if (unknown.length > 0) {
+      const available = Array.from(this.stages.keys()).join(', ');
+      throw new Error(`مراحل غير معروفة: ${unknown.join(', ')}. المتاحة: ${available}`);
+    }
+
     let stagesToRun: string[] = [];
     if (onlyStages.length > 0) {
-      stagesToRun = onlyStages;
+      stagesToRun = [...new Set(onlyStages)];
     } else {
       stagesToRun = Array.from(this.stages.keys()).filter((s) => !skipStages.includes(s));
     }
 
     // ترتيب المراحل حسب الأولوية
-    stagesToRun.sort((a, b) => {
-      const priorityOrder = { P1: 1, P2: 2, P3: 3 };
+    const priorityOrder = { P1: 1, P2: 2, P3: 3 };
+    return stagesToRun.sort((a, b) => {
       const stageA = this.stages.get(a)!;
       const stageB = this.stages.get(b)!;
       return priorityOrder[stageA.priority] - priorityOrder[stageB.priority];
     });
+  }
 
-    console.log(chalk.yellow('📋 المراحل المحددة:\n'));
+  private displayStageList(stagesToRun: string[]) {
     stagesToRun.forEach((stageName, index) => {
       const stage = this.stages.get(stageName)!;
       const priorityColor =
         stage.priority === 'P1' ? chalk.red : stage.priority === 'P2' ? chalk.yellow : chalk.blue;
       const actionEmoji = stage.action === 'auto' ? '⚡' : stage.action === 'ask' ? '❓' : '💡';
+      const label = stage.custom ? `${stage.name} ${chalk.magenta('(مخصصة)')}` : stage.name;
       console.log(
-        `   ${index + 1}. ${actionEmoji} ${stage.name} ${priorityColor(`[${stage.priority}]`)} - ${stage.description}`
+        `   ${index + 1}. ${actionEmoji} ${label} ${priorityColor(`[${stage.priority}]`)} - ` +
+          stage.description
       );
     });
-    console.log('');
+  }
+
+  /**
+   * تشغيل المراحل على ملف واحد وجمع النتائج في FixResult واحد
+   */
+  private async runStages(
+    file: string,
+    code: string,
+    stagesToRun: string[],
+    interactive: boolean
+  ): Promise<FixResult> {
+    let currentCode = code;
+    const result = this.emptyResult();
 
-    // تشغيل المراحل
     for (const stageName of stagesToRun) {
       const stage = this.stages.get(stageName)!;
 
@@ -215,7 +500,7 @@ export class AutoFixSystem {
           currentCode,
           file,
           stage.action,
-          interactive && !autoApply
+          interactive
         );
 
         // تحديث الإحصائيات
@@ -243,26 +528,24 @@ export class AutoFixSystem {
       }
     }
 
-    // النتيجة النهائية
     result.finalCode = currentCode;
+    return result;
+  }
 
-    console.log(chalk.cyan('\n════════════════════════════════════════════════'));
-    console.log(chalk.cyan('   📊 ملخص النتائج'));
-    console.log(chalk.cyan('════════════════════════════════════════════════\n'));
-
-    this.displayFinalResults(result);
-
-    // حفظ التعديلات
-    if (result.fixedIssues > 0) {
-      if (autoApply || (await this.confirmSave(result))) {
-        await this.fileManager.writeFile(file, currentCode);
-        console.log(chalk.green(`\n✅ تم حفظ التعديلات في: ${file}`));
-      } else {
-        console.log(chalk.yellow('\n⏭️  تم إلغاء حفظ التعديلات'));
-      }
-    }
+  private emptyResult(file?: string): FixResult {
+    return {
+      file,
+      success: true,
+      totalIssues: 0,
+      fixedIssues: 0,
+      suggestedIssues: 0,
+      skippedIssues: 0,
+      stages: {},
+    };
+  }
 
-    return result;
+  private relative(file: string): string {
+    return path.relative(this.workingDir, file).split(path.sep).join('/');
   }
 
   /**
@@ -288,45 +571,20 @@ export class AutoFixSystem {
       let modifiedCode = code;
 
       // تشغيل الفاحص المناسب
-      switch (stageName) {
-        case 'syntax':
-          issues = await this.syntaxFixer.analyze(code, file);
-          if (action === 'auto' && issues.length > 0) {
-            spinner.text = 'جاري الإصلاح التلقائي...';
-            modifiedCode = await this.syntaxFixer.fix(code, issues);
-          }
-          break;
-
-        case 'security':
-          issues = await this.securityFixer.analyze(code, file);
-          if (action === 'ask' && issues.length > 0 && interactive) {
-            spinner.stop();
-            modifiedCode = await this.handleInteractiveSecurityFixes(code, issues);
-            spinner.start();
-          }
-          break;
-
-        case 'types':
-          issues = await this.typeFixer.analyze(code, file);
-          if (action === 'auto' && issues.length > 0) {
-            spinner.text = 'جاري إصلاح الأنواع...';
-            modifiedCode = await this.typeFixer.fix(code, issues);
-          }
-          break;
-
-        case 'performance':
-          issues = await this.performanceOptimizer.analyze(code, file);
-          // فقط اقتراحات - لا إصلاح
-          break;
-
-        case 'style':
-          issues = await this.styleFixer.analyze(code, file);
-          if (action === 'auto' && issues.length > 0) {
-            spinner.text = 'جاري تحسين الأسلوب...';
-            modifiedCode = await this.styleFixer.fix(code, issues);
-          }
-          break;
+      const stage = this.stages.get(stageName)!;
+      issues = await stage.analyze(code, file);
+
+      if (issues.length > 0 && stage.fix) {
+        if (action === 'auto') {
+          spinner.text = 'جاري الإصلاح التلقائي...';
+          modifiedCode = await stage.fix(code, issues, file);
+        } else if (action === 'ask' && interactive) {
+          spinner.stop();
+          modifiedCode = await this.handleInteractiveFixes(stage, code, issues, file);
+          spinner.start();
+        }
       }
+      // suggest: اقتراحات فقط - لا إصلاح
 
       spinner.succeed(`تم الفحص - وجد ${issues.length} مشكلة`);
 
@@ -341,7 +599,7 @@ export class AutoFixSystem {
       } else if (action === 'suggest') {
         issuesSuggested = issuesFound;
       } else if (action === 'ask') {
-        issuesFixed = issues.filter((i) => i.fix).length;
+        issuesFixed = modifiedCode !== code ? issues.filter((i) => i.fix).length : 0;
         issuesSkipped = issuesFound - issuesFixed;
       }
 
@@ -359,10 +617,17 @@ export class AutoFixSystem {
   }
 
   /**
-   * معالجة إصلاحات الأمان التفاعلية
+   * معالجة الإصلاحات التفاعلية (مراحل ask)
    */
-  private async handleInteractiveSecurityFixes(code: string, issues: FixIssue[]): Promise<string> {
-    console.log(chalk.yellow('\n⚠️  تم اكتشاف مشاكل أمنية:\n'));
+  private async handleInteractiveFixes(
+    stage: FixStageDefinition,
+    code: string,
+    issues: FixIssue[],
+    file: string
+  ): Promise<string> {
+    const isSecurity = stage.id === 'security';
+    const title = isSecurity ? 'مشاكل أمنية' : `مشاكل (${stage.name})`;
+    console.log(chalk.yellow(`\n⚠️  تم اكتشاف ${title}:\n`));
 
     for (const issue of issues) {
       console.log(chalk.red(`   🔴 ${issue.message}`));
@@ -379,13 +644,15 @@ export class AutoFixSystem {
       {
         type: 'confirm',
         name: 'shouldFix',
-        message: 'هل تريد إصلاح هذه المشاكل الأمنية؟',
+        message: isSecurity
+          ? 'هل تريد إصلاح هذه المشاكل الأمنية؟'
+          : `هل تريد إصلاح مشاكل ${stage.name}؟`,
         default: true,
       },
     ]);
 
     if (shouldFix) {
-      return await this.securityFixer.fix(code, issues);
+      return await stage.fix!(code, issues, file);
     }
 
     return code;
@@ -453,17 +720,71 @@ export class AutoFixSystem {
     return confirm;
   }
 
+  /**
+   * عرض ملخص المشروع
+   */
+  private displayProjectResults(result: ProjectFixResult) {
+    const { summary } = result;
+
+    console.log(chalk.cyan('\n════════════════════════════════════════════════'));
+    console.log(chalk.cyan('   📊 ملخص المشروع'));
+    console.log(chalk.cyan('════════════════════════════════════════════════\n'));
+
+    for (const file of result.files) {
+      const status = file.error
+        ? chalk.red(`❌ ${file.error}`)
+        : file.totalIssues === 0
+          ? chalk.green('✅ نظيف')
+          : chalk.white(`${file.fixedIssues}/${file.totalIssues} مصلحة`) +
+            (file.suggestedIssues > 0 ? chalk.cyan(` · ${file.suggestedIssues} اقتراح`) : '');
+      console.log(`   ${chalk.gray(file.file)}  ${status}`);
+    }
+
+    console.log(chalk.gray('\n───────────────────────────────────────────────\n'));
+    console.log(chalk.white(`📁 الملفات: ${summary.totalFiles} (تغيّر ${summary.changedFiles})`));
+    console.log(chalk.white(`📊 إجمالي المشاكل المكتشفة: ${summary.totalIssues}`));
+    console.log(chalk.green(`✅ تم الإصلاح: ${summary.fixedIssues}`));
+    console.log(chalk.cyan(`💡 الاقتراحات: ${summary.suggestedIssues}`));
+    console.log(chalk.yellow(`⏭️  المتخطى: ${summary.skippedIssues}`));
+
+    const typeColor =
+      summary.typeErrorsAfter < summary.typeErrorsBefore ? chalk.green : chalk.yellow;
+    console.log(
+      typeColor(`🏷️  أخطاء الأنواع (tsc): ${summary.typeErrorsBefore} → ${summary.typeErrorsAfter}`)
+    );
+
+    if (summary.failedFiles > 0) {
+      console.log(chalk.red(`❌ فشل: ${summary.failedFiles} ملف`));
+    }
+  }
+
+  /**
+   * تأكيد حفظ تعديلات المشروع
+   */
+  private async confirmProjectSave(summary: ProjectFixSummary): Promise<boolean> {
+    const { confirm } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: `هل تريد حفظ التعديلات في ${summary.changedFiles} ملف؟`,
+        default: true,
+      },
+    ]);
+
+    return confirm;
+  }
+
   /**
    * الحصول على معلومات المراحل
    */
-  getStages(): FixStage[] {
+  getStages(): FixStageDefinition[] {
     return Array.from(this.stages.values());
   }
 
   /**
    * الحصول على مرحلة محددة
    */
-  getStage(name: string): FixStage | undefined {
+  getStage(name: string): FixStageDefinition | undefined {
     return this.stages.get(name);
   }
 }
@@ -15,19 +15,23 @@ import { ui } from './ui.js';
  */
 export function addAutoFixCommand(program: Command) {
   const autoFixCommand = program
-    .command('auto-fix <file>')
+    .command('auto-fix [file]')
     .description('🔧 نظام الإصلاح التلقائي المتقدم بالمراحل والأولويات')
+    .option('-p, --project [glob]', 'إصلاح المشروع كامل بترتيب الاستيرادات (أو الملفات المطابقة)')
+    .option('--tsconfig <path>', 'ملف tsconfig للمشروع (افتراضياً الأقرب)')
     .option('-a, --auto-apply', 'تطبيق الإصلاحات تلقائياً بدون سؤال')
     .option('-i, --interactive', 'وضع تفاعلي (يسأل عن كل إصلاح)', true)
-    .option('--only <stages>', 'تشغيل مراحل محددة فقط (مفصولة بفواصل)')
-    .option('--skip <stages>', 'تخطي مراحل معينة (مفصولة بفواصل)')
+    .option('--only-stages <stages>', 'تشغيل مراحل محددة فقط، مدمجة أو مخصصة (مفصولة بفواصل)')
+    .option('--skip-stages <stages>', 'تخطي مراحل معينة، مدمجة أو مخصصة (مفصولة بفواصل)')
+    .option('--only <stages>', 'مثل --only-stages')
+    .option('--skip <stages>', 'مثل --skip-stages')
     .option('--no-syntax', 'تخطي مرحلة Syntax')
     .option('--no-security', 'تخطي مرحلة Security')
     .option('--no-types', 'تخطي مرحلة Types')
     .option('--no-performance', 'تخطي مرحلة Performance')
     .option('--no-style', 'تخطي مرحلة Style')
     .option('-s, --show-stages', 'عرض المراحل المتاحة فقط')
-    .action(async (file: string, options: any) => {
+    .action(async (file: string | undefined, options: any) => {
       await handleAutoFix(file, options);
     });
 
@@ -37,7 +41,7 @@ export function addAutoFixCommand(program: Command) {
 /**
  * معالج أمر auto-fix
  */
-async function handleAutoFix(file: string, options: any) {
+async function handleAutoFix(file: string | undefined, options: any) {
   try {
     // التحقق من تسجيل الدخول
     if (!(await hasApiKey())) {
@@ -48,12 +52,21 @@ async function handleAutoFix(file: string, options: any) {
 
     const autoFix = createAutoFixSystem();
 
+    // المراحل المخصصة من .oqool/fix-stages.json
+    await autoFix.loadCustomStages();
+
     // عرض المراحل فقط
     if (options.showStages) {
       displayStages(autoFix);
       return;
     }
 
+    if (!file && !options.project) {
+      console.log(chalk.yellow('⚠️  حدد ملفاً أو استخدم --project'));
+      console.log(chalk.cyan('مثال: oqool-code auto-fix --project "src/**/*.ts"\n'));
+      return;
+    }
+
     // عرض البانر
     ui.printHeader('🔧 نظام الإصلاح التلقائي المتقدم', 'Oqool Auto-Fix System');
 
@@ -61,10 +74,13 @@ async function handleAutoFix(file: string, options: any) {
     let skipStages: string[] = [];
     let onlyStages: string[] = [];
 
-    if (options.only) {
-      onlyStages = options.only.split(',').map((s: string) => s.trim());
-    } else if (options.skip) {
-      skipStages = options.skip.split(',').map((s: string) => s.trim());
+    const only = options.onlyStages || options.only;
+    const skip = options.skipStages || options.skip;
+
+    if (only) {
+      onlyStages = splitStages(only);
+    } else if (skip) {
+      skipStages = splitStages(skip);
     } else {
       // استخدام الخيارات الفردية
       if (options.syntax === false) skipStages.push('syntax');
@@ -74,13 +90,19 @@ async function handleAutoFix(file: string, options: any) {
       if (options.style === false) skipStages.push('style');
     }
 
+    const target = options.project
+      ? typeof options.project === 'string'
+        ? `الملفات المطابقة ${options.project}`
+        : 'المشروع كامل'
+      : file;
+
     // تأكيد من المستخدم إذا لم يكن auto-apply
     if (!options.autoApply && options.interactive) {
       const { confirm } = await inquirer.prompt([
         {
           type: 'confirm',
           name: 'confirm',
-          message: `هل تريد بدء الإصلاح التلقائي لـ ${file}؟`,
+          message: `هل تريد بدء الإصلاح التلقائي لـ ${target}؟`,
           default: true,
         },
       ]);
@@ -93,8 +115,31 @@ async function handleAutoFix(file: string, options: any) {
 
     // تشغيل الإصلاح
     console.log(''); // سطر فارغ
+
+    if (options.project) {
+      const projectResult = await autoFix.fixProject({
+        pattern: typeof options.project === 'string' ? options.project : undefined,
+        tsconfig: options.tsconfig,
+        autoApply: options.autoApply,
+        skipStages,
+        onlyStages,
+        interactive: options.interactive,
+      });
+
+      // الملخص الإجمالي لكل الملفات
+      displayFinalSummary(projectResult.summary);
+
+      if (projectResult.summary.suggestedIssues > 0) {
+        displaySuggestions();
+      }
+      if (!projectResult.success) {
+        process.exitCode = 1;
+      }
+      return;
+    }
+
     const result = await autoFix.fix({
-      file,
+      file: file!,
       autoApply: options.autoApply,
       skipStages,
       onlyStages,
@@ -146,7 +191,8 @@ function displayStages(autoFix: any) {
         : stage.action === 'ask'
           ? '❓ يسأل المستخدم'
           : '💡 اقتراحات';
-    console.log(chalk.white(`   • ${stage.name}`));
+    const id = chalk.gray(` [${stage.id}]`);
+    console.log(chalk.white(`   • ${stage.name}`) + id + customTag(stage));
     console.log(chalk.gray(`     ${actionEmoji}`));
     console.log(chalk.gray(`     ${stage.description}\n`));
   });
@@ -160,7 +206,8 @@ function displayStages(autoFix: any) {
         : stage.action === 'ask'
           ? '❓ يسأل المستخدم'
           : '💡 اقتراحات';
-    console.log(chalk.white(`   • ${stage.name}`));
+    const id = chalk.gray(` [${stage.id}]`);
+    console.log(chalk.white(`   • ${stage.name}`) + id + customTag(stage));
     console.log(chalk.gray(`     ${actionEmoji}`));
     console.log(chalk.gray(`     ${stage.description}\n`));
   });
@@ -174,7 +221,8 @@ function displayStages(autoFix: any) {
         : stage.action === 'ask'
           ? '❓ يسأل المستخدم'
           : '💡 اقتراحات';
-    console.log(chalk.white(`   • ${stage.name}`));
+    const id = chalk.gray(` [${stage.id}]`);
+    console.log(chalk.white(`   • ${stage.name}`) + id + customTag(stage));
     console.log(chalk.gray(`     ${actionEmoji}`));
     console.log(chalk.gray(`     ${stage.description}\n`));
   });
@@ -187,16 +235,36 @@ function displayStages(autoFix: any) {
   console.log(chalk.gray('   $ oqool-code auto-fix src/app.ts --auto-apply\n'));
 
   console.log(chalk.white('   # إصلاح P1 فقط (Syntax + Security)'));
-  console.log(chalk.gray('   $ oqool-code auto-fix src/app.ts --only syntax,security\n'));
+  console.log(chalk.gray('   $ oqool-code auto-fix src/app.ts --only-stages syntax,security\n'));
 
   console.log(chalk.white('   # إصلاح كل شيء ماعدا Performance'));
-  console.log(chalk.gray('   $ oqool-code auto-fix src/app.ts --skip performance\n'));
+  console.log(chalk.gray('   $ oqool-code auto-fix src/app.ts --skip-stages performance\n'));
 
   console.log(chalk.white('   # وضع تفاعلي (يسأل عن كل شيء)'));
   console.log(chalk.gray('   $ oqool-code auto-fix src/app.ts --interactive\n'));
 
   console.log(chalk.white('   # تخطي مراحل معينة'));
   console.log(chalk.gray('   $ oqool-code auto-fix src/app.ts --no-performance --no-style\n'));
+
+  console.log(chalk.white('   # إصلاح المشروع كامل بترتيب الاستيرادات'));
+  console.log(chalk.gray('   $ oqool-code auto-fix --project "src/**/*.ts"\n'));
+
+  console.log(chalk.white('   # مراحل مخصصة (قواعد الفريق) تُعرّف في .oqool/fix-stages.json'));
+  console.log(chalk.gray('   $ oqool-code auto-fix src/app.ts --only-stages banned-imports\n'));
+}
+
+/**
+ * تقسيم قائمة المراحل المفصولة بفواصل
+ */
+function splitStages(value: string): string[] {
+  return value
+    .split(',')
+    .map((s: string) => s.trim())
+    .filter(Boolean);
+}
+
+function customTag(stage: any): string {
+  return stage.custom ? chalk.magenta(' (مخصصة)') : '';
 }
 
 /**
@@ -231,7 +299,7 @@ function displayFinalSummary(result: any) {
   console.log('\n' + createProgressBar(result.fixedIssues, result.totalIssues));
 
   // تفاصيل المراحل
-  if (Object.keys(result.stages).length > 0) {
+  if (result.stages && Object.keys(result.stages).length > 0) {
     console.log(chalk.gray('\n───────────────────────────────────────────────'));
     console.log(chalk.white('📋 تفاصيل المراحل:\n'));
 
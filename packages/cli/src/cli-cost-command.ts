@@ -0,0 +1,172 @@
+// cli-cost-command.ts
+// ============================================
+// 💰 أوامر التكاليف والميزانيات (~/.oqool/costs.jsonl)
+// ============================================
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import fs from 'fs-extra';
+import { resolve } from 'path';
+import { costReportToCSV, getBudgetGuard, getCostLedger } from '@oqool/shared/ai-gateway';
+import type { BudgetLimits, BudgetPolicy, CostReportGroup } from '@oqool/shared/ai-gateway';
+
+const REPORT_GROUPS: CostReportGroup[] = ['provider', 'project', 'command', 'model', 'role'];
+const POLICIES: BudgetPolicy[] = ['block', 'downgrade', 'confirm'];
+
+export function registerCostCommand(program: Command) {
+  const ledger = getCostLedger();
+
+  // كل تكلفة تُنسب للأمر الذي يعمل حالياً (مثل "chat" أو "plan resume")
+  program.hook('preAction', (_root, action) => {
+    ledger.setContext({ command: commandPath(action) });
+  });
+
+  // سياسة confirm: نسأل المستخدم فقط في طرفية تفاعلية، وإلا يُرفض الطلب
+  if (process.stdin.isTTY) {
+    getBudgetGuard().setConfirmHandler(async (check, provider) => {
+      const { proceed } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'proceed',
+          message:
+            `الطلب إلى ${provider} (~$${check.estimatedCost.toFixed(4)}) يتجاوز ميزانية ` +
+            `${check.exceeded.map((e) => e.period).join(', ')}. متابعة؟`,
+          default: false,
+        },
+      ]);
+      return proceed;
+    });
+  }
+
+  const cost = program.command('cost').description('💰 تقارير التكاليف والميزانيات');
+
+  // ============================================
+  // أمر: oqool cost report
+  // ============================================
+  cost
+    .command('report')
+    .description('تقرير التكاليف من السجل الدائم')
+    .option('-b, --by <group>', 'التجميع حسب (provider|project|command|model|role)', 'provider')
+    .option('-d, --days <n>', 'آخر n يوم فقط')
+    .option('--project <path>', 'مشروع واحد فقط')
+    .option('--csv [file]', 'تصدير CSV (إلى ملف أو stdout)')
+    .action(async (options) => {
+      try {
+        const by = options.by as CostReportGroup;
+        if (!REPORT_GROUPS.includes(by)) {
+          throw new Error(`تجميع غير معروف: ${by} (المتاح: ${REPORT_GROUPS.join(', ')})`);
+        }
+
+        const since = options.days
+          ? new Date(Date.now() - parseInt(options.days) * 24 * 60 * 60 * 1000)
+          : undefined;
+        const project = options.project ? resolve(options.project) : undefined;
+        const rows = await ledger.report(by, { since, project });
+
+        if (options.csv) {
+          const csv = costReportToCSV(by, rows);
+          if (typeof options.csv === 'string') {
+            await fs.writeFile(options.csv, csv);
+            console.log(chalk.green(`\n✅ تم التصدير إلى ${options.csv}\n`));
+          } else {
+            process.stdout.write(csv);
+          }
+          return;
+        }
+
+        if (rows.length === 0) {
+          console.log(chalk.yellow('\n📭 لا توجد تكاليف مسجلة\n'));
+          return;
+        }
+
+        const total = rows.reduce((sum, row) => sum + row.cost, 0);
+        console.log(chalk.cyan.bold(`\n💰 التكاليف حسب ${by}:\n`));
+        for (const row of rows) {
+          const share = total > 0 ? ((row.cost / total) * 100).toFixed(1) : '0.0';
+          console.log(
+            `   ${chalk.white.bold(row.key)}\n` +
+              chalk.gray(
+                `      $${row.cost.toFixed(4)} (${share}%) • ${row.calls} طلب • ` +
+                  `${row.inputTokens + row.outputTokens} token`
+              )
+          );
+        }
+        console.log(chalk.gray('─'.repeat(60)));
+        console.log(chalk.white(`   المجموع: $${total.toFixed(4)}\n`));
+      } catch (error: any) {
+        console.error(chalk.red('\n❌ فشل إنشاء التقرير:'), error.message);
+        process.exitCode = 1;
+      }
+    });
+
+  // ============================================
+  // أمر: oqool cost budget
+  // ============================================
+  cost
+    .command('budget')
+    .description('عرض/تعديل الميزانيات (تُفحص قبل كل طلب)')
+    .option('--daily <usd>', 'ميزانية يومية')
+    .option('--monthly <usd>', 'ميزانية شهرية')
+    .option('--session <usd>', 'ميزانية لكل جلسة (تشغيل واحد)')
+    .option('--policy <policy>', 'عند التجاوز: block|downgrade|confirm')
+    .option('--clear', 'إزالة جميع الميزانيات')
+    .action(async (options) => {
+      try {
+        let limits: BudgetLimits = options.clear
+          ? { policy: 'block' }
+          : await ledger.loadBudgets();
+
+        if (options.policy) {
+          if (!POLICIES.includes(options.policy)) {
+            throw new Error(`سياسة غير معروفة: ${options.policy} (المتاح: ${POLICIES.join(', ')})`);
+          }
+          limits.policy = options.policy;
+        }
+        for (const period of ['daily', 'monthly', 'session'] as const) {
+          if (options[period] === undefined) continue;
+          const limit = parseFloat(options[period]);
+          if (isNaN(limit) || limit < 0) {
+            throw new Error(`قيمة غير صالحة لـ --${period}: ${options[period]}`);
+          }
+          limits = { ...limits, [period]: limit };
+        }
+
+        const changed =
+          options.clear || options.policy || options.daily || options.monthly || options.session;
+        if (changed) {
+          await ledger.saveBudgets(limits);
+          console.log(chalk.green('\n✅ تم حفظ الميزانيات'));
+        }
+
+        console.log(chalk.cyan.bold('\n💰 الميزانيات:\n'));
+        for (const period of ['daily', 'monthly'] as const) {
+          const limit = limits[period];
+          const spent = await ledger.spent(period);
+          console.log(
+            `   ${period.padEnd(8)} ` +
+              (limit === undefined
+                ? chalk.gray(`غير محددة (المصروف: $${spent.toFixed(4)})`)
+                : chalk.white(`$${spent.toFixed(4)} / $${limit}`))
+          );
+        }
+        const session = limits.session === undefined ? 'غير محددة' : `$${limits.session}`;
+        console.log(`   ${'session'.padEnd(8)} ${chalk.white(session)}`);
+        console.log(chalk.gray(`\n   السياسة عند التجاوز: ${limits.policy}\n`));
+      } catch (error: any) {
+        console.error(chalk.red('\n❌ فشل تحديث الميزانيات:'), error.message);
+        process.exitCode = 1;
+      }
+    });
+}
+
+/**
+ * "cost report" for a nested command, "chat" for a top-level one
+ */
+function commandPath(command: Command): string {
+  const names: string[] = [];
+  for (let current: Command | null = command; current?.parent; current = current.parent) {
+    names.unshift(current.name());
+  }
+  return names.join(' ') || command.name();
+}
@@ -0,0 +1,170 @@
+// cli-index-command.ts
+// ============================================
+// 🧭 أوامر الفهرس الدلالي (.oqool/index)
+// ============================================
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import { join } from 'path';
+import { FileWatcher } from '@oqool/shared/core';
+import {
+  CodeVectorDB,
+  IncrementalIndexer,
+  parseEmbeddingProviderId,
+  readIndexProviderId,
+} from '@oqool/shared/vector';
+import type {
+  EmbeddingProviderConfig,
+  EmbeddingProviderName,
+  IncrementalIndexResult,
+  IndexProgress,
+} from '@oqool/shared/vector';
+
+const INDEX_DIR = join('.oqool', 'index');
+const EMBEDDING_PROVIDERS: EmbeddingProviderName[] = ['hashing', 'ollama', 'openai'];
+
+export interface ProjectIndex {
+  db: CodeVectorDB;
+  indexer: IncrementalIndexer;
+}
+
+export interface ProjectIndexOptions {
+  // default: the provider the index was built with, then OQOOL_EMBEDDINGS, then hashing
+  embeddings?: string;
+  onProgress?: (progress: IndexProgress) => void;
+}
+
+/**
+ * Open the project's semantic index. Without an explicit provider the index
+ * is reopened with the one it was built with; a different provider rebuilds
+ * it from scratch.
+ */
+export async function openProjectIndex(
+  workingDir: string = process.cwd(),
+  options: ProjectIndexOptions = {}
+): Promise<ProjectIndex> {
+  const indexDir = join(workingDir, INDEX_DIR);
+  const providerId = await readIndexProviderId(indexDir);
+  let stored: EmbeddingProviderConfig | null = providerId
+    ? parseEmbeddingProviderId(providerId)
+    : null;
+  if (options.embeddings && options.embeddings !== stored?.provider) {
+    stored = null; // مزود آخر صراحة: يُعاد بناء الفهرس
+  }
+
+  const embeddings =
+    options.embeddings || stored?.provider || process.env.OQOOL_EMBEDDINGS || 'hashing';
+  if (!EMBEDDING_PROVIDERS.includes(embeddings as EmbeddingProviderName)) {
+    throw new Error(
+      `مزود embeddings غير معروف: ${embeddings} (المتاح: ${EMBEDDING_PROVIDERS.join(', ')})`
+    );
+  }
+
+  const db = new CodeVectorDB({
+    indexDir,
+    embeddingProvider: embeddings as EmbeddingProviderName,
+    openaiApiKey: process.env.OPENAI_API_KEY,
+    ollamaUrl: process.env.OLLAMA_HOST,
+    // نفس فضاء المتجهات الذي بُني به الفهرس
+    ollamaModel: stored?.ollamaModel,
+    embeddingModel: stored?.openaiModel,
+    vectorSize: stored?.dimensions,
+  });
+  await db.initialize();
+
+  const indexer = new IncrementalIndexer(db, { workingDir, onProgress: options.onProgress });
+  return { db, indexer };
+}
+
+export async function hasProjectIndex(workingDir: string = process.cwd()): Promise<boolean> {
+  return fs.pathExists(join(workingDir, INDEX_DIR, 'meta.json'));
+}
+
+export function registerIndexCommand(program: Command) {
+  // ============================================
+  // أمر: oqool index
+  // ============================================
+  program
+    .command('index')
+    .description('🧭 بناء/تحديث الفهرس الدلالي للمشروع (الملفات المتغيرة فقط)')
+    .option('-w, --watch', 'متابعة التغييرات وتحديث الفهرس في الخلفية')
+    .option('-e, --embeddings <provider>', 'مزود الـ embeddings (hashing|ollama|openai)')
+    .option('--clear', 'حذف الفهرس الحالي')
+    .action(async (options) => {
+      try {
+        let watching = false;
+        const { db, indexer } = await openProjectIndex(process.cwd(), {
+          embeddings: options.embeddings,
+          onProgress: (progress) => {
+            if (progress.phase === 'indexing' && !watching) {
+              process.stdout.write(`\r🔍 تقدم: ${progress.processed}/${progress.total}`);
+            } else if (progress.phase === 'done' && watching && progress.result) {
+              displayIndexResult(progress.result, true);
+            }
+          },
+        });
+
+        if (options.clear) {
+          await db.deleteCollection();
+          console.log(chalk.green('\n✅ تم حذف الفهرس\n'));
+          return;
+        }
+
+        console.log(chalk.cyan('\n🧭 تحديث الفهرس الدلالي...\n'));
+        const result = await indexer.sync();
+        process.stdout.write('\n');
+        displayIndexResult(result);
+
+        if (!options.watch) return;
+
+        const watcher = new FileWatcher(process.cwd(), { verbose: false });
+        watching = true;
+        indexer.watch(watcher);
+        await watcher.start();
+        console.log(chalk.gray('   اضغط Ctrl+C للإيقاف\n'));
+
+        process.once('SIGINT', () => {
+          watcher.stop();
+          // the pending batch is flushed before exiting
+          void indexer.stop().finally(() => process.exit(0));
+        });
+      } catch (error: any) {
+        console.error(chalk.red('\n❌ فشل تحديث الفهرس:'), error.message);
+        process.exitCode = 1;
+      }
+    });
+}
+
+function displayIndexResult(result: IncrementalIndexResult, compact = false): void {
+  const updated = result.added.length + result.changed.length + result.removed.length;
+
+  if (compact) {
+    if (updated > 0 || result.failed.length > 0) {
+      console.log(
+        chalk.gray(
+          `🧭 الفهرس: +${result.added.length} ✏️${result.changed.length} ` +
+            `-${result.removed.length} (${result.chunksUpserted} مقطع)`
+        )
+      );
+    }
+    return;
+  }
+
+  console.log(chalk.cyan('📊 نتائج الفهرسة:'));
+  console.log(chalk.gray('─'.repeat(60)));
+  console.log(chalk.green(`➕ جديد: ${result.added.length}`));
+  console.log(chalk.yellow(`📝 معدل: ${result.changed.length}`));
+  console.log(chalk.red(`➖ محذوف: ${result.removed.length}`));
+  console.log(chalk.gray(`✓ بدون تغيير: ${result.unchanged}`));
+  console.log(chalk.white(`🧩 مقاطع أعيد تضمينها: ${result.chunksUpserted}`));
+  console.log(chalk.white(`⏱️  الوقت: ${(result.duration / 1000).toFixed(2)}s`));
+  console.log(chalk.gray('─'.repeat(60)));
+
+  if (result.failed.length > 0) {
+    const count = result.failed.length;
+    console.log(chalk.red(`\n❌ فشل ${count} ملف (ستُعاد المحاولة في المرة القادمة):`));
+    result.failed.forEach((file) => console.log(chalk.white(`  • ${file}`)));
+  }
+  console.log();
+}
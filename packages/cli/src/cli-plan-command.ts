@@ -0,0 +1,215 @@
+// cli-plan-command.ts
+// ============================================
+// 🗺️ أوامر الخطط القابلة للاستئناف (.oqool/plans)
+// ============================================
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { IntelligentPlanner, PlanExecutor, PlanStore } from '@oqool/shared/core';
+import type { PersistedPlan, PlanTask } from '@oqool/shared/core';
+import { getUnifiedExecutor } from '@oqool/shared/ai-gateway';
+
+const STATUS_ICONS: Record<PlanTask['status'], string> = {
+  pending: '⏳',
+  in_progress: '🔄',
+  completed: '✅',
+  failed: '❌',
+  replaced: '♻️',
+  cancelled: '⛔',
+};
+
+export function registerPlanCommand(program: Command) {
+  const plan = program.command('plan').description('🗺️ خطط المهام القابلة للاستئناف');
+
+  // ============================================
+  // أمر: oqool plan run <request>
+  // ============================================
+  plan
+    .command('run <request...>')
+    .description('تخطيط طلب وتنفيذ مهامه المستقلة بالتوازي')
+    .option('-c, --concurrency <n>', 'عدد المهام المتزامنة', '3')
+    .action(async (words: string[], options) => {
+      try {
+        const request = words.join(' ');
+        const planner = new IntelligentPlanner();
+        const store = new PlanStore(process.cwd());
+        const created = await store.create(
+          await planner.createPlan(request, `المشروع: ${process.cwd()}`)
+        );
+
+        console.log(chalk.gray(`💾 ${created.id}`));
+        await executePlan(store, created, planner, parseInt(options.concurrency));
+      } catch (error: any) {
+        console.error(chalk.red('\n❌ فشل تنفيذ الخطة:'), error.message);
+        process.exitCode = 1;
+      }
+    });
+
+  // ============================================
+  // أمر: oqool plan show [id]
+  // ============================================
+  plan
+    .command('show [id]')
+    .description('عرض خطة محفوظة، أو قائمة الخطط')
+    .action(async (id?: string) => {
+      try {
+        const store = new PlanStore(process.cwd());
+
+        if (!id) {
+          const plans = await store.list();
+          if (plans.length === 0) {
+            console.log(chalk.yellow('\n📭 لا توجد خطط محفوظة\n'));
+            return;
+          }
+
+          console.log(chalk.cyan.bold('\n🗺️ الخطط:\n'));
+          for (const stored of plans) {
+            console.log(
+              `   ${chalk.white.bold(stored.id)} ${chalk.gray(`[${stored.status}]`)} ` +
+                `${progress(stored)}\n` +
+                chalk.gray(`      ${stored.goal}`)
+            );
+          }
+          console.log();
+          return;
+        }
+
+        printPlan(await store.load(id));
+      } catch (error: any) {
+        console.error(chalk.red('\n❌'), error.message);
+        process.exitCode = 1;
+      }
+    });
+
+  // ============================================
+  // أمر: oqool plan resume <id>
+  // ============================================
+  plan
+    .command('resume <id>')
+    .description('استئناف خطة بعد توقف أو Ctrl-C (المهام المكتملة لا تُعاد)')
+    .option('-c, --concurrency <n>', 'عدد المهام المتزامنة', '3')
+    .action(async (id: string, options) => {
+      try {
+        const store = new PlanStore(process.cwd());
+        const stored = await store.load(id);
+        if (stored.status === 'completed' || stored.status === 'aborted') {
+          console.log(chalk.yellow(`\n⚠️ الخطة ${id} ${stored.status} ولا يمكن استئنافها\n`));
+          return;
+        }
+
+        const planner = new IntelligentPlanner();
+        await executePlan(store, stored, planner, parseInt(options.concurrency));
+      } catch (error: any) {
+        console.error(chalk.red('\n❌ فشل استئناف الخطة:'), error.message);
+        process.exitCode = 1;
+      }
+    });
+
+  // ============================================
+  // أمر: oqool plan abort <id>
+  // ============================================
+  plan
+    .command('abort <id>')
+    .description('إلغاء خطة (وإيقافها إن كانت تعمل في طرفية أخرى)')
+    .action(async (id: string) => {
+      try {
+        const aborted = await new PlanStore(process.cwd()).abort(id);
+        const cancelled = aborted.tasks.filter((t) => t.status === 'cancelled').length;
+        console.log(chalk.green(`\n✅ تم إلغاء الخطة ${id} (${cancelled} مهمة لم تُنفذ)\n`));
+      } catch (error: any) {
+        console.error(chalk.red('\n❌ فشل إلغاء الخطة:'), error.message);
+        process.exitCode = 1;
+      }
+    });
+}
+
+async function executePlan(
+  store: PlanStore,
+  stored: PersistedPlan,
+  planner: IntelligentPlanner,
+  concurrency: number
+): Promise<void> {
+  const executor = new PlanExecutor(store, {
+    concurrency: concurrency > 0 ? concurrency : 3,
+    runTask,
+    replan: (failed, subtree, current) =>
+      planner.replanSubtree(
+        current.goal,
+        failed,
+        subtree,
+        current.tasks.filter((t) => t.status === 'completed')
+      ),
+  });
+
+  executor.on('task-started', (task: PlanTask) => {
+    console.log(chalk.blue(`🔄 ${task.id}. ${task.description}`));
+  });
+  executor.on('task-completed', (task: PlanTask) => {
+    console.log(chalk.green(`✅ ${task.id}. ${task.description}`));
+  });
+  executor.on('task-failed', (task: PlanTask) => {
+    console.log(chalk.red(`❌ ${task.id}. ${task.description}: ${task.error}`));
+  });
+
+  // Ctrl-C يوقف الخطة مؤقتاً؛ المهام الجارية تُعاد عند الاستئناف
+  const interrupt = new AbortController();
+  const pause = () => interrupt.abort();
+  process.on('SIGINT', pause);
+
+  const result = await executor
+    .run(stored, interrupt.signal)
+    .finally(() => process.off('SIGINT', pause));
+
+  printPlan(result);
+  if (result.status === 'paused' || result.status === 'failed') {
+    console.log(chalk.cyan(`💡 للمتابعة: oqool plan resume ${result.id}\n`));
+  }
+}
+
+// كل مهمة تُنفذ عبر المنفذ الموحد، مع نتائج المهام التي تعتمد عليها
+async function runTask(task: PlanTask, plan: PersistedPlan, signal: AbortSignal): Promise<string> {
+  const dependencies = plan.tasks.filter((t) => task.dependencies?.includes(t.id) && t.result);
+  const prompt = [
+    `الهدف العام: ${plan.goal}`,
+    ...dependencies.map(
+      (t) => `نتيجة المهمة ${t.id} (${t.description}):\n${t.result!.slice(0, 2000)}`
+    ),
+    `المهمة الحالية: ${task.description}`,
+  ].join('\n\n');
+
+  // المهام تعمل بالتوازي: التقدم يعرضه هذا الأمر، لا المنفذ
+  const result = await getUnifiedExecutor().execute(prompt, {
+    signal,
+    quiet: true,
+    metadata: { planId: plan.id, taskId: task.id }, // يُسجل مع التكلفة
+  });
+  if (!result.success) throw new Error(result.error || `Task ${task.id} failed`);
+  return result.response ?? '';
+}
+
+function progress(plan: PersistedPlan): string {
+  const active = plan.tasks.filter((t) => t.status !== 'replaced');
+  const done = active.filter((t) => t.status === 'completed').length;
+  return chalk.white(`${done}/${active.length}`);
+}
+
+function printPlan(plan: PersistedPlan): void {
+  console.log(chalk.cyan.bold(`\n🗺️ ${plan.goal}`));
+  console.log(chalk.gray(`   ${plan.id} • ${plan.status} • ${progress(plan)}`));
+  console.log(chalk.gray('━'.repeat(60)));
+
+  for (const task of plan.tasks) {
+    const deps = task.dependencies?.length
+      ? chalk.gray(` (depends on: ${task.dependencies.join(', ')})`)
+      : '';
+    const line = `  ${STATUS_ICONS[task.status]} ${chalk.blue(`${task.id}.`)} ${task.description}`;
+    console.log(line + deps);
+
+    if (task.error) console.log(chalk.red(`       ${task.error}`));
+    if (task.replaces) console.log(chalk.gray(`       بديل عن المهمة ${task.replaces}`));
+  }
+
+  console.log(chalk.gray('━'.repeat(60)));
+  if (plan.error) console.log(chalk.red(`   ${plan.error}`));
+  console.log();
+}
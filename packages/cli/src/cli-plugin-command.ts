@@ -0,0 +1,146 @@
+// cli-plugin-command.ts
+// ============================================
+// 🔌 أوامر إدارة الـ Plugins
+// ============================================
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { resolve } from 'path';
+import { ADVISORY_PLUGIN_PERMISSIONS } from '@oqool/shared/core';
+import type { PluginManager } from '@oqool/shared/core';
+
+export function registerPluginCommands(program: Command, pluginManager: PluginManager) {
+  const plugin = program.command('plugin').description('🔌 إدارة الـ Plugins');
+
+  // ============================================
+  // أمر: oqool plugin install <path>
+  // ============================================
+  plugin
+    .command('install <path>')
+    .description('تثبيت plugin من مجلد يحتوي على plugin.json')
+    .action(async (path: string) => {
+      try {
+        const manifest = await pluginManager.install(resolve(path));
+
+        console.log(chalk.green(`\n✅ تم تثبيت ${manifest.name}@${manifest.version}`));
+        if (manifest.description) {
+          console.log(chalk.gray(`   ${manifest.description}`));
+        }
+
+        console.log(chalk.cyan('\n🔐 الصلاحيات المطلوبة:'));
+        if (manifest.permissions.length === 0) {
+          console.log(chalk.gray('   (لا شيء)'));
+        }
+        for (const permission of manifest.permissions) {
+          const advisory = ADVISORY_PLUGIN_PERMISSIONS.includes(permission)
+            ? chalk.gray(' (إعلام فقط)')
+            : '';
+          console.log(chalk.white(`   • ${permission}`) + advisory);
+        }
+        console.log(
+          chalk.yellow(
+            '\n⚠️  الـ plugin يعمل داخل oqool بكامل صلاحياته: fs:write و exec و network ' +
+              'للإعلام فقط ولا تُفرض. ثبّت فقط plugins تثق بمصدرها.'
+          )
+        );
+        console.log(chalk.gray('\n💡 سيتم تحميله عند التشغيل القادم\n'));
+      } catch (error: any) {
+        console.error(chalk.red('\n❌ فشل التثبيت:'), error.message);
+        process.exitCode = 1;
+      }
+    });
+
+  // ============================================
+  // أمر: oqool plugin list
+  // ============================================
+  plugin
+    .command('list')
+    .alias('ls')
+    .description('عرض الـ Plugins المثبتة')
+    .action(async () => {
+      try {
+        const installed = await pluginManager.listInstalled();
+
+        if (installed.length === 0) {
+          console.log(chalk.yellow('\n📭 لا توجد plugins مثبتة\n'));
+          return;
+        }
+
+        console.log(chalk.cyan.bold('\n🔌 الـ Plugins المثبتة:\n'));
+
+        for (const item of installed) {
+          const status = item.error
+            ? chalk.red('تالف')
+            : !item.compatible
+              ? chalk.red('غير متوافق')
+              : item.enabled
+                ? chalk.green('مفعّل')
+                : chalk.gray('معطّل');
+
+          console.log(`   ${chalk.white.bold(item.name)}@${item.version}  ${status}`);
+
+          if (item.manifest?.description) {
+            console.log(chalk.gray(`      ${item.manifest.description}`));
+          }
+          if (item.manifest) {
+            const permissions = item.manifest.permissions.join(', ') || '-';
+            console.log(chalk.gray(`      الصلاحيات: ${permissions}`));
+          }
+          if (item.error) {
+            console.log(chalk.red(`      ${item.error}`));
+          }
+        }
+
+        console.log();
+      } catch (error: any) {
+        console.error(chalk.red('\n❌'), error.message);
+        process.exitCode = 1;
+      }
+    });
+
+  // ============================================
+  // أمر: oqool plugin enable/disable <name>
+  // ============================================
+  plugin
+    .command('enable <name>')
+    .description('تفعيل plugin مثبت')
+    .action(async (name: string) => {
+      try {
+        await pluginManager.setEnabled(name, true);
+        console.log(chalk.green(`\n✅ تم تفعيل ${name}\n`));
+      } catch (error: any) {
+        console.error(chalk.red('\n❌'), error.message);
+        process.exitCode = 1;
+      }
+    });
+
+  plugin
+    .command('disable <name>')
+    .description('تعطيل plugin دون حذفه')
+    .action(async (name: string) => {
+      try {
+        await pluginManager.setEnabled(name, false);
+        console.log(chalk.yellow(`\n⏸️  تم تعطيل ${name}\n`));
+      } catch (error: any) {
+        console.error(chalk.red('\n❌'), error.message);
+        process.exitCode = 1;
+      }
+    });
+
+  // ============================================
+  // أمر: oqool plugin remove <name>
+  // ============================================
+  plugin
+    .command('remove <name>')
+    .alias('rm')
+    .description('حذف plugin مثبت')
+    .action(async (name: string) => {
+      try {
+        await pluginManager.remove(name);
+        console.log(chalk.yellow(`\n🗑️  تم حذف ${name}\n`));
+      } catch (error: any) {
+        console.error(chalk.red('\n❌'), error.message);
+        process.exitCode = 1;
+      }
+    });
+}
@@ -23,6 +23,7 @@ import { SmartContextBuilder } from './smart-context-builder.js';
 import { EnhancedAIAdapter } from './enhanced-ai-adapter.js';
 import { ChangeReviewer, createChangeReviewer } from './change-reviewer.js';
 import { intentParser } from './intent-parser.js';
+import { hasProjectIndex, openProjectIndex } from './cli-index-command.js';
 
 /**
  * Register Smart Chat command
@@ -35,7 +36,7 @@ export function registerSmartChatCommand(program: Command): void {
     .option('-i, --interactive', 'وضع المحادثة التفاعلي')
     .option('--auto-apply', 'تطبيق التغييرات تلقائياً بدون مراجعة')
     .option('--no-embeddings', 'تعطيل البحث الدلالي')
-    .option('--max-tokens <number>', 'حد أقصى للـ tokens', '100000')
+    .option('--max-tokens <number>', 'حد أقصى للـ tokens (افتراضياً: حسب نافذة سياق النموذج)')
     .option('--max-history <number>', 'حد أقصى لتاريخ المحادثة', '20')
     .action(async (message: string | undefined, options: any) => {
       try {
@@ -63,17 +64,29 @@ export function registerSmartChatCommand(program: Command): void {
         // هنا نفترض أنه تم إنشاؤه مسبقاً
         const unifiedAdapter = await createAIAdapter();
 
-        // Smart Context Builder
+        // الفهرس الدلالي للمشروع (oqool index) إن وُجد: يُدمج مع بحث BM25
+        const projectIndex =
+          options.embeddings !== false && (await hasProjectIndex())
+            ? await openProjectIndex().catch(() => null)
+            : null;
+
+        // Smart Context Builder: الـ tokenizer ونافذة السياق من مزود المحول الفعلي
+        const provider = unifiedAdapter.getDefaultProvider();
+        const capabilities = unifiedAdapter.getCapabilities(provider);
         const contextBuilder = new SmartContextBuilder(
           fileManager,
           undefined, // embeddings يمكن إضافته لاحقاً
           undefined, // treeSitter يمكن إضافته لاحقاً
           {
-            maxTokens: parseInt(options.maxTokens),
+            maxTokens: options.maxTokens ? parseInt(options.maxTokens) : undefined,
+            provider,
+            model: capabilities.availableModels[0],
+            contextWindow: capabilities.contextWindow,
             useEmbeddings: !options.noEmbeddings,
             maxFiles: 25,
             minSimilarity: 0.5,
-          }
+          },
+          projectIndex?.db
         );
 
         // Create Smart Chat
@@ -42,12 +42,23 @@ import { createAICodeCompletion } from './ai-code-completion.js';
 import { createDatabaseIntegration } from './database-integration.js';
 import { createAPITesting } from './api-testing.js';
 import { createCodeLibrary } from './code-library.js';
-import { createAgentTeam } from './agent-team.js';
-import { createGodMode } from '@oqool/shared/core';
+import { createGodMode, GodModeCheckpoints, GOD_MODE_PHASES } from '@oqool/shared/core';
+import type { GodModePhase } from '@oqool/shared/core';
+import { createAgentTeam, parseRoleModels } from '@oqool/shared/core';
+import { extractUnifiedDiff } from '@oqool/shared/core';
+import { PluginManager, FileWatcher } from '@oqool/shared/core';
 import { createAnalytics } from './analytics.js';
 import { createSelfLearningSystem } from './self-learning-system.js';
 import { registerNewCommands } from './cli-new-commands.js';
 import { registerMultiProviderCommand } from './cli-multi-provider-command.js';
+import { registerPluginCommands } from './cli-plugin-command.js';
+import { registerIndexCommand, hasProjectIndex, openProjectIndex } from './cli-index-command.js';
+import { registerCostCommand } from './cli-cost-command.js';
+import { registerPlanCommand } from './cli-plan-command.js';
+import { renderStream } from './stream-renderer.js';
+import { getUnifiedExecutor } from '@oqool/shared/ai-gateway';
+import type { UnifiedMessage } from '@oqool/shared/ai-gateway';
+import type { ProjectIndex } from './cli-index-command.js';
 import { readFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
@@ -56,6 +67,9 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const packageJson = JSON.parse(readFileSync(join(__dirname, '../package.json'), 'utf-8'));
 
+// مدير الـ Plugins (يُحمّل الـ plugins المفعلة في runCLI)
+const pluginManager = new PluginManager(process.cwd(), { hostVersion: packageJson.version });
+
 // تحميل .env من مجلد المشروع (3 levels up from dist/cli.js)
 const projectRoot = join(__dirname, '../../..');
 dotenv.config({ path: join(projectRoot, '.env') });
@@ -332,6 +346,9 @@ program
   .command('chat')
   .description('بدء محادثة تفاعلية مع AI مع أدوات حقيقية')
   .action(async () => {
+    let projectIndex: ProjectIndex | null = null;
+    let watcher: FileWatcher | null = null;
+
     try {
       // التحقق من وجود أي API Key
       const hasAnyKey = !!(
@@ -353,13 +370,6 @@ program
         return;
       }
 
-      // اختيار أي API Key متاح
-      const apiKey = process.env.GEMINI_API_KEY ||
-                     process.env.DEEPSEEK_API_KEY ||
-                     process.env.OPENAI_API_KEY ||
-                     process.env.ANTHROPIC_API_KEY ||
-                     'ollama_key';
-
       // تحديد المزود المستخدم
       let provider = 'anthropic';
       if (process.env.GEMINI_API_KEY) provider = 'gemini';
@@ -369,15 +379,9 @@ program
 
       ui.info(`استخدام ${provider} API`);
 
-      // استخدام MultiProviderAgent بدلاً من AgentClient
-      const { createMultiProviderAgent } = await import('./multi-provider-agent.js');
-      const agent = createMultiProviderAgent({
-        provider: provider as any,
-        workingDirectory: process.cwd(),
-        enablePlanning: true,
-        enableContext: true,
-        enableLearning: true,
-      });
+      // المنفذ الموحد: توجيه ذكي + أدوات + بث حي للنص واستدعاءات الأدوات
+      const executor = getUnifiedExecutor();
+      const conversationHistory: UnifiedMessage[] = [];
 
       ui.printBanner();
 
@@ -408,6 +412,24 @@ program
           chalk.gray(' للخروج\n')
       );
 
+      // إبقاء الفهرس الدلالي محدثاً أثناء المحادثة (إن كان المشروع مفهرساً)
+      if (await hasProjectIndex()) {
+        projectIndex = await openProjectIndex().catch(() => null);
+      }
+
+      // إبلاغ الـ plugins بتغييرات الملفات أثناء المحادثة
+      if (pluginManager.hasHook('onFileChange') || projectIndex) {
+        watcher = new FileWatcher(process.cwd(), { verbose: false });
+        if (pluginManager.hasHook('onFileChange')) {
+          pluginManager.attachFileWatcher(watcher);
+        }
+        // تحديث في الخلفية: لا ينتظر المستخدم الفهرسة
+        projectIndex?.indexer.start(watcher).catch(() => {
+          // الملفات التي فشلت تُعاد فهرستها في المرة القادمة
+        });
+        await watcher.start();
+      }
+
       // حلقة المحادثة
       while (true) {
         const { message } = await inquirer.prompt([
@@ -437,7 +459,6 @@ program
           console.log(chalk.bold.red('\n🔥 مهمة معقدة مكتشفة - تفعيل GOD MODE!\n'));
 
           const team = createAgentTeam({
-            apiKey: apiKey!, // استخدم apiKey الموجود
             verbose: false, // quiet mode في chat
           });
 
@@ -449,17 +470,40 @@ program
           console.log(chalk.cyan('💡 للحصول على المشروع الكامل، استخدم:\n'));
           console.log(chalk.yellow(`   oqool god "${userMessage}"\n`));
         } else {
-          // استخدام Agent عادي للمهام البسيطة
-          const response = await agent.chat(userMessage);
+          // المهام البسيطة: عرض الرد والأدوات أثناء وصولها
+          // Ctrl-C أثناء الرد يلغي هذا الدور فقط وتبقى الجلسة
+          const turn = new AbortController();
+          const cancelTurn = () => turn.abort();
+          process.on('SIGINT', cancelTurn);
 
           console.log(chalk.magenta('\n🤖 Oqool:'));
-          console.log(chalk.white(response));
+          const rendered = await renderStream(
+            executor.execute(userMessage, {
+              streaming: true,
+              conversationHistory: conversationHistory.slice(-20),
+              signal: turn.signal,
+            })
+          ).finally(() => process.off('SIGINT', cancelTurn));
           console.log();
+
+          if (rendered.cancelled) {
+            console.log(chalk.yellow('⏹️  تم إلغاء الرد\n'));
+          } else if (!rendered.error) {
+            conversationHistory.push(
+              { role: 'user', content: userMessage },
+              { role: 'assistant', content: rendered.text }
+            );
+          }
         }
       }
     } catch (error: any) {
       ui.failSpinner('حدث خطأ');
       console.error(chalk.red('\n❌'), error.message);
+      await pluginManager.reportError(error);
+    } finally {
+      // الخروج أو أي خطأ: لا يبقى المراقب مفتوحاً، والدفعة المعلقة تُفهرس
+      watcher?.stop();
+      await projectIndex?.indexer.stop().catch(() => undefined);
     }
   });
 
@@ -531,6 +575,7 @@ program
   .description('تعديل دقيق للملفات باستخدام Patch')
   .option('-f, --files <paths...>', 'ملفات محددة للتعديل')
   .option('-p, --preview', 'معاينة قبل التطبيق')
+  .option('--fuzz <lines>', 'أسطر السياق التي يمكن تجاهلها عند المطابقة', '2')
   .option('--no-git', 'تعطيل Git integration')
   .action(async (prompt: string, options) => {
     try {
@@ -560,37 +605,30 @@ program
         }
       }
 
-      // إعداد رسالة للـ AI مع تعليمات Patch
+      // إعداد رسالة للـ AI مع تعليمات unified diff
       const systemPrompt = `أنت مساعد برمجة متخصص في تعديل الملفات بدقة.
 
-عند تعديل ملف، استخدم صيغة PATCH التالية:
-
-PATCH: path/to/file.js
-LINE: 45
-REMOVE: 2
-ADD:
-\`\`\`
-const result = await db.query(...);
-console.log(result);
+أعد التعديلات كـ unified diff (مثل git diff) داخل كتلة \`\`\`diff واحدة:
+
+\`\`\`diff
+--- a/path/to/file.js
++++ b/path/to/file.js
+@@ -45,3 +45,4 @@
+ const db = connect();
+-const result = db.query(sql);
++const result = await db.query(sql);
++console.log(result);
+ return result;
 \`\`\`
 
-أو للاستبدال:
-PATCH: path/to/file.js
-LINE: 10
-REPLACE:
-\`\`\`
-const newCode = "updated";
-\`\`\`
+قواعد مهمة:
+1. ضع 3 أسطر سياق غير متغيرة قبل وبعد كل تعديل، منسوخة حرفياً من الملف
+2. استخدم --- /dev/null لإنشاء ملف جديد و +++ /dev/null لحذف ملف
+3. يمكن أن يحتوي الـ diff على عدة ملفات
+4. أرقام الأسطر تبدأ من 1
 
 الملفات المتاحة:
-${fileContext.map((f) => `- ${f.path} (${f.content.split('\n').length} سطر)`).join('\n')}
-
-قواعد مهمة:
-1. استخدم LINE لتحديد رقم السطر بدقة
-2. استخدم REMOVE لحذف أسطر
-3. استخدم ADD لإضافة أسطر جديدة
-4. استخدم REPLACE لاستبدال سطر واحد
-5. رقم السطر يبدأ من 1 (وليس 0)`;
+${fileContext.map((f) => `### ${f.path}\n\`\`\`\n${f.content}\n\`\`\``).join('\n\n')}`;
 
       const messages = [
         { role: 'system' as const, content: systemPrompt },
@@ -609,32 +647,38 @@ ${fileContext.map((f) => `- ${f.path} (${f.content.split('\n').length} سطر)`)
 
       ui.succeedSpinner('تم توليد التعديلات!');
 
-      // استخراج الـ patches
-      const filePatches = fileManager.extractPatchesFromResponse(response.message);
+      // استخراج الـ diff
+      const diff = extractUnifiedDiff(response.message);
 
-      if (filePatches.length === 0) {
+      if (!diff) {
         ui.info('لم يتم العثور على تعديلات للتطبيق');
         console.log(chalk.yellow('\n💡 تلميح: تأكد من طلب تعديلات محددة للملفات\n'));
         return;
       }
 
-      // عرض ملخص التعديلات
-      console.log(chalk.yellow(`\n📝 تم اكتشاف ${filePatches.length} ملف(ات) للتعديل:\n`));
+      // فحص التطبيق بدون تعديل الملفات
+      const fuzz = parseInt(options.fuzz);
+      const check = await fileManager.applyUnifiedDiff(diff, { fuzz, dryRun: true });
 
-      for (const filePatch of filePatches) {
-        console.log(chalk.cyan(`  📄 ${filePatch.path} - ${filePatch.patches.length} تعديل(ات)`));
-      }
+      console.log(chalk.yellow(`\n📝 تم اكتشاف ${check.files.length} ملف(ات) للتعديل:\n`));
+      fileManager.printPatchReport(check);
 
       // معاينة إذا طُلب
       if (options.preview) {
         console.log(chalk.blue('\n🔍 معاينة التعديلات:\n'));
-        for (const filePatch of filePatches) {
-          for (const patch of filePatch.patches) {
-            await fileManager.previewPatch(filePatch.path, patch);
-          }
+        for (const line of diff.split('\n')) {
+          if (line.startsWith('+') && !line.startsWith('+++')) console.log(chalk.green(line));
+          else if (line.startsWith('-') && !line.startsWith('---')) console.log(chalk.red(line));
+          else if (line.startsWith('@@')) console.log(chalk.cyan(line));
+          else console.log(chalk.gray(line));
         }
       }
 
+      if (!check.success) {
+        console.log(chalk.red(`\n❌ ${check.rejectedHunks} مقطع مرفوض - لن يتم تطبيق أي تعديل\n`));
+        return;
+      }
+
       // سؤال المستخدم
       const { confirm } = await inquirer.prompt([
         {
@@ -648,8 +692,12 @@ ${fileContext.map((f) => `- ${f.path} (${f.content.split('\n').length} سطر)`)
       if (confirm) {
         ui.startSpinner('تطبيق التعديلات...');
 
-        for (const filePatch of filePatches) {
-          await fileManager.applyPatches(filePatch.path, filePatch.patches);
+        const result = await fileManager.applyUnifiedDiff(diff, { fuzz });
+
+        if (!result.applied) {
+          ui.failSpinner('فشل تطبيق التعديلات - لم يتغير أي ملف');
+          fileManager.printPatchReport(result);
+          return;
         }
 
         ui.succeedSpinner('تم تطبيق جميع التعديلات بنجاح! ✨');
@@ -2617,11 +2665,37 @@ program
 // ============================================
 
 program
-  .command('god <task>')
+  .command('god [task]')
   .description('🚀 God Mode - بناء مشروع كامل بذكاء خارق')
   .option('-o, --output <path>', 'مسار المشروع', './god-mode-project')
-  .action(async (task: string, options: any) => {
-    try {
+  .option('--resume <run>', 'استئناف تشغيل سابق من آخر checkpoint')
+  .option('--from-phase <phase>', `إعادة التنفيذ من مرحلة (${GOD_MODE_PHASES.join(', ')})`)
+  .option('--edit-architecture', 'تعديل architecture.json يدوياً قبل توليد الكود')
+  .action(async (task: string | undefined, options: any) => {
+    try {
+      // بدون مهمة ولا --resume: عرض التشغيلات المحفوظة
+      if (!task && !options.resume) {
+        const runs = await new GodModeCheckpoints(process.cwd()).list();
+        if (runs.length === 0) {
+          console.log(chalk.yellow('\n📭 لا توجد تشغيلات محفوظة\n'));
+          return;
+        }
+
+        console.log(chalk.cyan.bold('\n🔥 تشغيلات God Mode:\n'));
+        for (const run of runs) {
+          const failed = run.failedPhase ? chalk.red(` ✗ ${run.failedPhase}`) : '';
+          console.log(
+            `   ${chalk.white.bold(run.id)} ${chalk.gray(`[${run.status}]`)} ` +
+              chalk.green(run.phases.join(' → ')) +
+              failed +
+              '\n' +
+              chalk.gray(`      ${run.task}`)
+          );
+        }
+        console.log();
+        return;
+      }
+
       // Check for any available API key (prefer DeepSeek for cost-effectiveness)
       const apiKey =
         process.env.DEEPSEEK_API_KEY || process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY;
@@ -2649,7 +2723,18 @@ program
         verbose: true,
       });
 
-      const result = await godMode.execute(task);
+      const result = await godMode.execute(task ?? '', {
+        resume: options.resume,
+        fromPhase: options.fromPhase as GodModePhase | undefined,
+        editArchitecture: options.editArchitecture
+          ? async (architecturePath) => {
+              console.log(chalk.cyan(`\n✏️  عدّل التصميم ثم تابع: ${architecturePath}\n`));
+              await inquirer.prompt([
+                { type: 'input', name: 'continue', message: 'اضغط Enter لمتابعة توليد الكود' },
+              ]);
+            }
+          : undefined,
+      });
 
       // عرض النتائج
       console.log(chalk.bold.green('\n🎉 God Mode Complete!\n'));
@@ -2664,7 +2749,8 @@ program
       console.log(chalk.white(`   Security Score: ${result.security.score}/100`));
       console.log(chalk.white(`   Quality Score: ${result.review.score}/100`));
       console.log(chalk.white(`   Duration: ${(result.duration / 1000).toFixed(2)}s`));
-      console.log(chalk.cyan(`\n📁 Project: ${result.projectPath}\n`));
+      console.log(chalk.cyan(`\n📁 Project: ${result.projectPath}`));
+      console.log(chalk.gray(`💾 Checkpoints: .oqool/god/${result.runId}\n`));
 
       console.log(chalk.yellow('🚀 Quick Start:'));
       console.log(chalk.white(`   cd ${result.projectPath}`));
@@ -2798,15 +2884,14 @@ program
   .description('تشغيل فريق Agents للعمل على مهمة')
   .option('-o, --output <path>', 'مسار حفظ النتيجة', './team-output')
   .option('-q, --quiet', 'إخفاء التفاصيل (عرض النتيجة فقط)')
+  .option(
+    '--role-model <spec...>',
+    'نموذج لكل دور، مثل tester=deepseek architect=claude:claude-3-5-sonnet-20241022'
+  )
   .action(async (task: string, options: any) => {
     try {
-      if (!process.env.ANTHROPIC_API_KEY) {
-        console.log(chalk.red('\n❌ ANTHROPIC_API_KEY غير موجود في .env\n'));
-        return;
-      }
-
       const team = createAgentTeam({
-        apiKey: process.env.ANTHROPIC_API_KEY,
+        roles: parseRoleModels(options.roleModel || []),
         verbose: !options.quiet,
       });
 
@@ -3018,13 +3103,37 @@ registerNewCommands(program);
 // تسجيل أوامر Multi-Provider
 registerMultiProviderCommand(program);
 
+// تسجيل أوامر إدارة الـ Plugins
+registerPluginCommands(program, pluginManager);
+
+// تسجيل أوامر الفهرس الدلالي
+registerIndexCommand(program);
+
+// تسجيل أوامر التكاليف والميزانيات
+registerCostCommand(program);
+
+// تسجيل أوامر الخطط القابلة للاستئناف
+registerPlanCommand(program);
+
 // معالجة الأوامر
-export function runCLI(): void {
+export async function runCLI(): Promise<void> {
   // إذا لم يتم تمرير أي أوامر، بدء المحادثة التفاعلية تلقائياً
   if (process.argv.length === 2) {
     // إضافة أمر chat تلقائياً للدخول للأداة مباشرة
     process.argv.push('chat');
   }
 
-  program.parse(process.argv);
+  // تحميل الـ plugins المفعلة وتسجيل أوامرها: oqool <plugin> <command>
+  await pluginManager.loadFromConfig();
+  pluginManager.mountCommands(program);
+
+  // إبلاغ الـ plugins بالأخطاء غير المعالجة
+  process.on('unhandledRejection', (reason) => {
+    console.error(chalk.red('\n❌'), reason instanceof Error ? reason.message : reason);
+    void pluginManager.reportError(reason).finally(() => {
+      process.exitCode = 1;
+    });
+  });
+
+  await program.parseAsync(process.argv);
 }
@@ -8,6 +8,7 @@ import path from 'path';
 import chalk from 'chalk';
 import ora from 'ora';
 import Table from 'cli-table3';
+import { computeFileDiff } from '@oqool/shared/core';
 
 export interface FileSnapshot {
   snapshotId: string;
@@ -281,20 +282,33 @@ export class FileArchaeology {
 
       const oldLines = oldContent.split('\n').length;
       const newLines = newContent.split('\n').length;
-      const linesDiff = newLines - oldLines;
+      const diff = computeFileDiff(filePath, oldContent, newContent);
 
       spinner.succeed('تمت المقارنة');
 
       console.log(chalk.cyan('\n📊 نتيجة المقارنة:\n'));
       console.log(chalk.white(`   الإصدار القديم:  ${oldLines} سطر`));
       console.log(chalk.white(`   الإصدار الحالي:   ${newLines} سطر`));
-
-      const diffColor = linesDiff >= 0 ? chalk.green : chalk.red;
       console.log(
         chalk.white(
-          `   الفرق:            ${diffColor((linesDiff >= 0 ? '+' : '') + linesDiff)} سطر\n`
+          `   الفرق:            ${chalk.green(`+${diff.additions}`)} ${chalk.red(`-${diff.deletions}`)} في ${diff.hunks.length} مقطع\n`
         )
       );
+
+      // عرض المقاطع المتغيرة مع سياقها
+      for (const hunk of diff.hunks) {
+        console.log(chalk.magenta(`   ${hunk.header}`));
+        for (const line of hunk.lines) {
+          if (line.type === 'add') {
+            console.log(chalk.green(`   +${line.content}`));
+          } else if (line.type === 'remove') {
+            console.log(chalk.red(`   -${line.content}`));
+          } else {
+            console.log(chalk.gray(`    ${line.content}`));
+          }
+        }
+      }
+      if (diff.hunks.length > 0) console.log();
     } catch (error) {
       spinner.fail('فشلت المقارنة');
       throw error;
@@ -8,6 +8,12 @@ import path from 'path';
 import { glob } from 'glob';
 import ignore from 'ignore';
 import chalk from 'chalk';
+import {
+  applyUnifiedPatch,
+  UnifiedPatchOptions,
+  UnifiedPatchResult,
+  WorkspacePolicy,
+} from '@oqool/shared/core';
 
 export interface FileInfo {
   path: string;
@@ -83,6 +89,11 @@ export class FileManager {
     this.loadIgnorePatterns();
   }
 
+  // جذر المشروع الذي تُقرأ منه الملفات
+  getWorkingDir(): string {
+    return this.workingDir;
+  }
+
   // تحميل قواعد .gitignore
   private async loadIgnorePatterns(): Promise<void> {
     // إضافة القواعد الافتراضية
@@ -520,6 +531,70 @@ export class FileManager {
     }
   }
 
+  // ============================================
+  // 🩹 Unified Diff
+  // ============================================
+
+  /**
+   * تطبيق unified diff على ملف أو أكثر بشكل ذري: إما أن تتغير كل الملفات
+   * أو لا يتغير أي منها
+   */
+  async applyUnifiedDiff(
+    diff: string,
+    options: Omit<UnifiedPatchOptions, 'root'> = {}
+  ): Promise<UnifiedPatchResult> {
+    // مسارات الـ diff تمر بسياسة مساحة العمل: لا كتابة خارج المشروع ولا في .env/.git
+    const policy = new WorkspacePolicy({ root: this.workingDir });
+    const result = await applyUnifiedPatch(diff, {
+      resolvePath: (filePath) => policy.resolvePath(filePath, 'write'),
+      ...options,
+      root: this.workingDir,
+    });
+
+    if (result.applied) {
+      for (const file of result.files) {
+        this.changedFiles.add(file.path);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * عرض نتيجة تطبيق الـ patch: حالة كل ملف والمقاطع المرفوضة وسبب رفضها
+   */
+  printPatchReport(result: UnifiedPatchResult): void {
+    const icons = { modify: '✏️ ', create: '➕', delete: '🗑️ ' };
+
+    for (const file of result.files) {
+      const status = file.ok ? chalk.green('✓') : chalk.red('✗');
+      console.log(`  ${status} ${icons[file.action]} ${file.path}`);
+
+      for (const hunk of file.hunks) {
+        if (hunk.status === 'applied') {
+          const notes = [
+            hunk.offset !== 0 ? `إزاحة ${hunk.offset}` : '',
+            hunk.fuzz > 0 ? `fuzz ${hunk.fuzz}` : '',
+            hunk.ignoredWhitespace ? 'بتجاهل المسافات' : '',
+          ].filter(Boolean);
+          if (notes.length > 0) {
+            console.log(chalk.gray(`      ${hunk.header} (${notes.join('، ')})`));
+          }
+        } else {
+          console.log(chalk.red(`      ${hunk.header} مرفوض: ${hunk.reason}`));
+        }
+      }
+
+      if (file.error) {
+        console.log(chalk.yellow(`      ${file.error}`));
+      }
+    }
+
+    if (result.error) {
+      console.log(chalk.red(`\n❌ ${result.error}`));
+    }
+  }
+
   // ============================================
   // 📊 تتبع الملفات المتغيرة (لـ Git Integration)
   // ============================================
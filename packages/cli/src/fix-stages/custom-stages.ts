@@ -0,0 +1,230 @@
+// fix-stages/custom-stages.ts
+// ============================================
+// 🧩 مراحل إصلاح مخصصة من .oqool/fix-stages.json
+// ============================================
+
+import fs from 'fs-extra';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import type {
+  FixAction,
+  FixIssue,
+  FixStageDefinition,
+  FixStageHandler,
+  Priority,
+} from '../auto-fix-system.js';
+
+// ============================================
+// 📊 واجهات البيانات
+// ============================================
+
+export const CUSTOM_STAGES_FILE = 'fix-stages.json';
+
+/**
+ * A house rule: every match of `pattern` is an issue; `replace` (with `$1`
+ * style groups) makes it auto-fixable.
+ */
+export interface FixRuleConfig {
+  id?: string;
+  pattern: string; // regular expression, matched per line
+  flags?: string; // extra regex flags, e.g. "i"
+  message: string;
+  replace?: string;
+  suggestion?: string;
+}
+
+/**
+ * One entry of `.oqool/fix-stages.json`. A stage is either declarative
+ * (`rules`) or a JS module exporting `analyze` and optionally `fix`.
+ */
+export interface FixStageConfig {
+  id: string;
+  name?: string;
+  description?: string;
+  priority: Priority;
+  action: FixAction;
+  rules?: FixRuleConfig[];
+  module?: string; // relative to .oqool/
+}
+
+const PRIORITIES: Priority[] = ['P1', 'P2', 'P3'];
+const ACTIONS: FixAction[] = ['auto', 'ask', 'suggest'];
+
+// ============================================
+// 📖 تحميل المراحل
+// ============================================
+
+/**
+ * Read `.oqool/fix-stages.json`. No file means no custom stages; an invalid
+ * file throws with every problem found.
+ */
+export async function loadCustomStages(workingDir: string): Promise<FixStageDefinition[]> {
+  const oqoolDir = path.join(workingDir, '.oqool');
+  const configPath = path.join(oqoolDir, CUSTOM_STAGES_FILE);
+
+  if (!(await fs.pathExists(configPath))) {
+    return [];
+  }
+
+  const raw = await fs.readJSON(configPath);
+  const configs = validateStageConfigs(raw);
+  const stages: FixStageDefinition[] = [];
+
+  for (const config of configs) {
+    const handler = config.module
+      ? await importStageModule(path.resolve(oqoolDir, config.module), config.id)
+      : createRuleHandler(config.id, config.priority, config.rules || []);
+
+    stages.push({
+      id: config.id,
+      name: config.name || config.id,
+      description: config.description || `مرحلة مخصصة: ${config.id}`,
+      priority: config.priority,
+      action: config.action,
+      analyze: handler.analyze.bind(handler),
+      fix: handler.fix?.bind(handler),
+    });
+  }
+
+  return stages;
+}
+
+export function validateStageConfigs(raw: any): FixStageConfig[] {
+  const errors: string[] = [];
+  const stages = raw?.stages;
+
+  if (!Array.isArray(stages)) {
+    throw new Error(`${CUSTOM_STAGES_FILE} يجب أن يحتوي على مصفوفة stages`);
+  }
+
+  const seen = new Set<string>();
+
+  stages.forEach((stage: any, index: number) => {
+    const label = typeof stage?.id === 'string' ? stage.id : `#${index + 1}`;
+
+    if (typeof stage?.id !== 'string' || !/^[a-z0-9][a-z0-9-_]*$/.test(stage.id)) {
+      errors.push(`${label}: id مطلوب (أحرف صغيرة وأرقام و - أو _)`);
+    } else if (seen.has(stage.id)) {
+      errors.push(`${label}: id مكرر`);
+    }
+    seen.add(stage?.id);
+
+    if (!PRIORITIES.includes(stage?.priority)) {
+      errors.push(`${label}: priority يجب أن تكون ${PRIORITIES.join(' | ')}`);
+    }
+    if (!ACTIONS.includes(stage?.action)) {
+      errors.push(`${label}: action يجب أن يكون ${ACTIONS.join(' | ')}`);
+    }
+
+    if (!!stage?.rules === !!stage?.module) {
+      errors.push(`${label}: حدد rules أو module (واحد فقط)`);
+    }
+
+    if (stage?.rules) {
+      if (!Array.isArray(stage.rules)) {
+        errors.push(`${label}: rules يجب أن تكون مصفوفة`);
+      } else {
+        stage.rules.forEach((rule: any, ruleIndex: number) => {
+          const ruleLabel = `${label}.rules[${ruleIndex}]`;
+          if (typeof rule?.message !== 'string') {
+            errors.push(`${ruleLabel}: message مطلوب`);
+          }
+          if (typeof rule?.pattern !== 'string') {
+            errors.push(`${ruleLabel}: pattern مطلوب`);
+          } else {
+            try {
+              new RegExp(rule.pattern, rule.flags);
+            } catch {
+              errors.push(`${ruleLabel}: pattern غير صالح`);
+            }
+          }
+        });
+      }
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`${CUSTOM_STAGES_FILE} غير صالح:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return stages;
+}
+
+// ============================================
+// 📏 مراحل القواعد
+// ============================================
+
+export function createRuleHandler(
+  stageId: string,
+  priority: Priority,
+  rules: FixRuleConfig[]
+): FixStageHandler {
+  const compile = (rule: FixRuleConfig, global: boolean) =>
+    new RegExp(rule.pattern, unique((rule.flags || '').replace(/g/g, '') + (global ? 'g' : '')));
+
+  return {
+    analyze(code: string): FixIssue[] {
+      const issues: FixIssue[] = [];
+      const lines = code.split('\n');
+
+      rules.forEach((rule, ruleIndex) => {
+        const regex = compile(rule, false);
+
+        lines.forEach((line, lineIndex) => {
+          const match = regex.exec(line);
+          if (!match) return;
+
+          issues.push({
+            stage: stageId,
+            priority,
+            type: rule.id || `${stageId}-${ruleIndex + 1}`,
+            message: rule.message,
+            line: lineIndex + 1,
+            column: match.index + 1,
+            fix: rule.replace !== undefined ? 'replace' : undefined,
+            suggestion: rule.suggestion,
+          });
+        });
+      });
+
+      return issues;
+    },
+
+    fix(code: string, issues: FixIssue[]): string {
+      const lines = code.split('\n');
+
+      rules.forEach((rule, ruleIndex) => {
+        if (rule.replace === undefined) return;
+
+        const type = rule.id || `${stageId}-${ruleIndex + 1}`;
+        const targets = new Set(issues.filter((i) => i.type === type).map((i) => i.line));
+
+        for (const line of targets) {
+          if (line === undefined || line < 1 || line > lines.length) continue;
+          lines[line - 1] = lines[line - 1].replace(compile(rule, true), rule.replace);
+        }
+      });
+
+      return lines.join('\n');
+    },
+  };
+}
+
+async function importStageModule(modulePath: string, stageId: string): Promise<FixStageHandler> {
+  if (!(await fs.pathExists(modulePath))) {
+    throw new Error(`${stageId}: الملف غير موجود: ${modulePath}`);
+  }
+
+  const imported = await import(pathToFileURL(modulePath).href);
+  const handler: FixStageHandler = imported.default || imported;
+
+  if (typeof handler.analyze !== 'function') {
+    throw new Error(`${stageId}: الوحدة يجب أن تصدّر analyze(code, file)`);
+  }
+
+  return handler;
+}
+
+function unique(flags: string): string {
+  return Array.from(new Set(flags)).join('');
+}
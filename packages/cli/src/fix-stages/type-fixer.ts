@@ -6,18 +6,32 @@
 import * as ts from 'typescript';
 import { FixIssue } from '../auto-fix-system.js';
 import { createClientFromConfig } from '../api-client.js';
+import { ProjectProgram } from '../project-program.js';
 
 export class TypeFixer {
   private workingDir: string;
+  private project: ProjectProgram | null = null;
 
   constructor(workingDir: string = process.cwd()) {
     this.workingDir = workingDir;
   }
 
+  /**
+   * Check files against a whole-project program instead of in isolation.
+   * Pass null to go back to single-file mode.
+   */
+  setProject(project: ProjectProgram | null): void {
+    this.project = project;
+  }
+
   /**
    * تحليل الكود للبحث عن أخطاء Types
    */
   async analyze(code: string, file: string): Promise<FixIssue[]> {
+    if (this.project && file && this.project.hasFile(file)) {
+      return this.analyzeInProject(code, file, this.project);
+    }
+
     const issues: FixIssue[] = [];
 
     // إنشاء ملف TypeScript مؤقت
@@ -47,6 +61,31 @@ export class TypeFixer {
     const diagnostics = ts.getPreEmitDiagnostics(program, sourceFile);
 
     // تحويل التشخيصات إلى issues
+    issues.push(...this.toIssues(diagnostics));
+
+    // فحوصات إضافية
+    issues.push(...this.detectCommonTypeIssues(code, sourceFile));
+
+    return issues;
+  }
+
+  /**
+   * تحليل ملف ضمن برنامج المشروع كامل (الاستيرادات والأنواع الحقيقية)
+   */
+  private analyzeInProject(code: string, file: string, project: ProjectProgram): FixIssue[] {
+    project.updateFile(file, code);
+
+    const sourceFile = ts.createSourceFile(file, code, ts.ScriptTarget.Latest, true);
+
+    return [
+      ...this.toIssues(project.getDiagnostics(file)),
+      ...this.detectCommonTypeIssues(code, sourceFile),
+    ];
+  }
+
+  private toIssues(diagnostics: readonly ts.Diagnostic[]): FixIssue[] {
+    const issues: FixIssue[] = [];
+
     for (const diagnostic of diagnostics) {
       if (diagnostic.file && diagnostic.start !== undefined) {
         const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
@@ -63,25 +102,27 @@ export class TypeFixer {
       }
     }
 
-    // فحوصات إضافية
-    issues.push(...this.detectCommonTypeIssues(code, sourceFile));
-
     return issues;
   }
 
   /**
    * إصلاح أخطاء Types
    */
-  async fix(code: string, issues: FixIssue[]): Promise<string> {
+  async fix(code: string, issues: FixIssue[], file: string = ''): Promise<string> {
     let fixedCode = code;
 
     // الإصلاحات البسيطة أولاً
     fixedCode = this.applySimpleTypeFixes(fixedCode, issues);
 
     // إذا بقيت أخطاء، استخدم AI
-    const remainingIssues = await this.analyze(fixedCode, '');
+    const remainingIssues = await this.analyze(fixedCode, file);
     if (remainingIssues.length > 0) {
-      fixedCode = await this.fixWithAI(fixedCode, remainingIssues);
+      fixedCode = await this.fixWithAI(fixedCode, remainingIssues, file);
+    }
+
+    // إبقاء برنامج المشروع على آخر نسخة حتى تراها الملفات التي تستورد هذا الملف
+    if (this.project && file && this.project.hasFile(file)) {
+      this.project.updateFile(file, fixedCode);
     }
 
     return fixedCode;
@@ -208,14 +249,21 @@ export class TypeFixer {
   /**
    * إصلاح باستخدام AI
    */
-  private async fixWithAI(code: string, issues: FixIssue[]): Promise<string> {
+  private async fixWithAI(code: string, issues: FixIssue[], file: string = ''): Promise<string> {
     const client = await createClientFromConfig();
     if (!client) {
       throw new Error('فشل الاتصال بـ AI');
     }
 
-    const systemPrompt = `أنت خبير في TypeScript وإصلاح أخطاء الأنواع.
+    // في وضع المشروع: الأخطاء قد تأتي من تغيير في ملف مستورد
+    const projectNote =
+      this.project && file
+        ? `\nالملف: ${file} - الأخطاء محسوبة مقابل المشروع كامل، وقد تكون بسبب تغيير` +
+          ` في ملف مستورد؛ عدّل هذا الملف ليتوافق مع الأسماء والتوقيعات الحالية.\n`
+        : '';
 
+    const systemPrompt = `أنت خبير في TypeScript وإصلاح أخطاء الأنواع.
+${projectNote}
 الكود الحالي به مشاكل الأنواع التالية:
 ${issues.map((i) => `- السطر ${i.line}: ${i.message}`).join('\n')}
 
@@ -6,7 +6,10 @@
 import { runCLI } from './cli.js';
 
 // تشغيل CLI
-runCLI();
+runCLI().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
 
 // تصدير الوحدات للاستخدام البرمجي
 // Note: CLI has local versions of these files for its own use
@@ -5,8 +5,12 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import chalk from 'chalk';
+import { getBudgetGuard, pricedEstimator } from '@oqool/shared/ai-gateway';
 import { Message, ChatResponse } from './api-client.js';
 
+const MODEL = 'claude-3-5-haiku-20241022';
+const PRICES: [number, number] = [0.8, 4.0]; // دولار لكل مليون توكن (إدخال/إخراج)
+
 export class LocalClaudeClient {
   private client: Anthropic;
   private apiKey: string;
@@ -32,14 +36,32 @@ export class LocalClaudeClient {
       // استخراج system message إذا وجدت
       const systemMessage = messages.find((msg) => msg.role === 'system');
 
+      // فحص الميزانية قبل الإرسال
+      const guard = getBudgetGuard();
+      const authorization = await guard.authorize(
+        { name: 'claude', provider: pricedEstimator(PRICES) },
+        messages
+      );
+
       // إرسال للـ API
       const response = await this.client.messages.create({
-        model: 'claude-3-5-haiku-20241022',
+        model: MODEL,
         max_tokens: 8192,
         system: systemMessage?.content,
         messages: claudeMessages,
       });
 
+      const { input_tokens: inputTokens, output_tokens: outputTokens } = response.usage;
+      await guard
+        .settle(authorization, {
+          usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+          metadata: {
+            model: response.model,
+            cost: (inputTokens * PRICES[0] + outputTokens * PRICES[1]) / 1_000_000,
+          },
+        })
+        .catch(() => undefined);
+
       // استخراج النص من الرد
       const content = response.content[0];
       const messageText = content.type === 'text' ? content.text : '';
@@ -161,7 +183,7 @@ ${contextMessage}
     try {
       // اختبار بسيط للتحقق من صحة المفتاح
       const response = await this.client.messages.create({
-        model: 'claude-3-5-haiku-20241022',
+        model: MODEL,
         max_tokens: 10,
         messages: [{ role: 'user', content: 'test' }],
       });
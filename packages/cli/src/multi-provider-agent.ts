@@ -6,7 +6,7 @@
 import { UnifiedAIAdapter, UnifiedAIAdapterConfig } from '@oqool/shared/ai-gateway';
 import { TOOL_DEFINITIONS, executeTool } from './tools.js';
 import { ContextManager } from './context-manager.js';
-import { IntelligentPlanner } from './planner.js';
+import { IntelligentPlanner } from '@oqool/shared/core';
 import { LearningSystem } from './learning-system.js';
 import chalk from 'chalk';
 import dotenv from 'dotenv';
@@ -70,13 +70,8 @@ export class MultiProviderAgent {
     }
 
     if (this.config.enablePlanning) {
-      // Planner يحتاج API key - استخدم أي key متاح
-      const anyKey = process.env.GEMINI_API_KEY ||
-                     process.env.DEEPSEEK_API_KEY ||
-                     process.env.OPENAI_API_KEY ||
-                     process.env.ANTHROPIC_API_KEY ||
-                     'dummy_key';
-      this.planner = new IntelligentPlanner(anyKey);
+      // Planner يعمل عبر المنفذ الموحد مع أي مزود متاح
+      this.planner = new IntelligentPlanner();
     }
 
     if (this.config.enableLearning) {
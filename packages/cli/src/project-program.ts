@@ -0,0 +1,310 @@
+// project-program.ts
+// ============================================
+// 🕸️ برنامج TypeScript للمشروع كامل + رسم الاستيرادات
+// ============================================
+
+import * as ts from 'typescript';
+import path from 'path';
+
+// ============================================
+// 📊 واجهات البيانات
+// ============================================
+
+export interface ProjectProgramOptions {
+  files?: string[]; // extra root files (absolute) on top of tsconfig's
+  tsconfig?: string; // default: nearest tsconfig.json
+}
+
+export interface ImportOrder {
+  order: string[]; // dependencies before the files that import them
+  cycles: string[][]; // groups of files importing each other
+}
+
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  strict: true,
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  esModuleInterop: true,
+  skipLibCheck: true,
+  allowJs: true,
+};
+
+// ============================================
+// 🕸️ ProjectProgram
+// ============================================
+
+/**
+ * A whole-project `ts.Program` whose files can be edited in memory, so a fix
+ * in one module is visible to the type check of every module importing it.
+ */
+export class ProjectProgram {
+  private rootDir: string;
+  private rootNames: string[];
+  private options: ts.CompilerOptions;
+  private host: ts.CompilerHost;
+  private overrides: Map<string, string> = new Map();
+  private sourceFiles: Map<string, ts.SourceFile> = new Map();
+  private program: ts.Program | null = null;
+  private lastProgram?: ts.Program; // reused by the next rebuild
+
+  constructor(rootDir: string, options: ProjectProgramOptions = {}) {
+    this.rootDir = path.resolve(rootDir);
+
+    const config = this.readConfig(options.tsconfig);
+    this.options = { ...config.options, noEmit: true };
+    this.rootNames = unique([...config.fileNames, ...(options.files || [])].map(normalize));
+
+    this.host = this.createHost();
+  }
+
+  /**
+   * Project files (not declarations, not node_modules) in the program.
+   */
+  getFiles(): string[] {
+    return this.getProgram()
+      .getSourceFiles()
+      .map((sf) => normalize(sf.fileName))
+      .filter((file) => this.isProjectFile(file));
+  }
+
+  hasFile(file: string): boolean {
+    return this.getProgram().getSourceFile(normalize(file)) !== undefined;
+  }
+
+  /**
+   * Replace a file's contents in memory (nothing is written to disk).
+   */
+  updateFile(file: string, content: string): void {
+    const key = normalize(file);
+    if (this.overrides.get(key) === content) return;
+
+    this.overrides.set(key, content);
+    this.sourceFiles.delete(key);
+    this.program = null;
+  }
+
+  getContent(file: string): string | undefined {
+    const key = normalize(file);
+    return this.overrides.get(key) ?? this.host.readFile(key);
+  }
+
+  /**
+   * Syntactic and semantic diagnostics for one file, checked against the
+   * rest of the project.
+   */
+  getDiagnostics(file: string): ts.Diagnostic[] {
+    const program = this.getProgram();
+    const sourceFile = program.getSourceFile(normalize(file));
+    if (!sourceFile) return [];
+
+    return [
+      ...program.getSyntacticDiagnostics(sourceFile),
+      ...program.getSemanticDiagnostics(sourceFile),
+    ];
+  }
+
+  /**
+   * Number of error diagnostics across the given files (default: all).
+   */
+  countErrors(files: string[] = this.getFiles()): number {
+    return files.reduce(
+      (total, file) =>
+        total +
+        this.getDiagnostics(file).filter((d) => d.category === ts.DiagnosticCategory.Error)
+          .length,
+      0
+    );
+  }
+
+  // ============================================
+  // 🔗 رسم الاستيرادات
+  // ============================================
+
+  /**
+   * Project files each file imports (static, dynamic, re-exports, require).
+   */
+  getImportGraph(files: string[] = this.getFiles()): Map<string, string[]> {
+    const graph = new Map<string, string[]>();
+
+    for (const file of files.map(normalize)) {
+      const content = this.getContent(file);
+      if (content === undefined) continue;
+
+      const imports = ts
+        .preProcessFile(content, true, true)
+        .importedFiles.map((ref) => {
+          const resolved = ts.resolveModuleName(ref.fileName, file, this.options, this.host)
+            .resolvedModule;
+          return resolved && !resolved.isExternalLibraryImport
+            ? normalize(resolved.resolvedFileName)
+            : null;
+        })
+        .filter((dep): dep is string => !!dep && dep !== file && this.isProjectFile(dep));
+
+      graph.set(file, unique(imports));
+    }
+
+    return graph;
+  }
+
+  /**
+   * Order files so every file comes after the files it imports. Import cycles
+   * are kept together and reported.
+   */
+  getImportOrder(files: string[] = this.getFiles()): ImportOrder {
+    const selected = new Set(files.map(normalize));
+    const graph = this.getImportGraph(this.getFiles());
+    const components = stronglyConnected(graph);
+
+    const order: string[] = [];
+    const cycles: string[][] = [];
+
+    for (const component of components) {
+      if (component.length > 1) {
+        cycles.push(component);
+      }
+      order.push(...component.filter((file) => selected.has(file)));
+    }
+
+    // Files outside the program (e.g. not covered by tsconfig) go last
+    for (const file of [...selected].sort()) {
+      if (!order.includes(file)) order.push(file);
+    }
+
+    return { order, cycles };
+  }
+
+  // ============================================
+  // 🛠️ Helpers
+  // ============================================
+  private getProgram(): ts.Program {
+    if (!this.program) {
+      this.program = ts.createProgram({
+        rootNames: this.rootNames,
+        options: this.options,
+        host: this.host,
+        oldProgram: this.lastProgram,
+      });
+      this.lastProgram = this.program;
+    }
+    return this.program;
+  }
+
+  private createHost(): ts.CompilerHost {
+    const host = ts.createCompilerHost(this.options, true);
+    const getSourceFile = host.getSourceFile.bind(host);
+    const readFile = host.readFile.bind(host);
+    const fileExists = host.fileExists.bind(host);
+
+    host.readFile = (fileName) => this.overrides.get(normalize(fileName)) ?? readFile(fileName);
+    host.fileExists = (fileName) => this.overrides.has(normalize(fileName)) || fileExists(fileName);
+
+    // Hand back the same SourceFile for unchanged files so rebuilds reuse them
+    host.getSourceFile = (fileName, languageVersion, onError) => {
+      const key = normalize(fileName);
+      const cached = this.sourceFiles.get(key);
+      if (cached) return cached;
+
+      const override = this.overrides.get(key);
+      const sourceFile =
+        override !== undefined
+          ? ts.createSourceFile(fileName, override, languageVersion, true)
+          : getSourceFile(fileName, languageVersion, onError);
+
+      if (sourceFile) this.sourceFiles.set(key, sourceFile);
+      return sourceFile;
+    };
+
+    return host;
+  }
+
+  private readConfig(tsconfig?: string): { options: ts.CompilerOptions; fileNames: string[] } {
+    const configPath = tsconfig
+      ? path.resolve(this.rootDir, tsconfig)
+      : ts.findConfigFile(this.rootDir, ts.sys.fileExists, 'tsconfig.json');
+
+    if (!configPath) {
+      return { options: DEFAULT_COMPILER_OPTIONS, fileNames: [] };
+    }
+
+    const parsed = ts.getParsedCommandLineOfConfigFile(configPath, {}, {
+      ...ts.sys,
+      onUnRecoverableConfigFileDiagnostic: (diagnostic) => {
+        throw new Error(ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+      },
+    });
+
+    if (!parsed) {
+      return { options: DEFAULT_COMPILER_OPTIONS, fileNames: [] };
+    }
+
+    return { options: parsed.options, fileNames: parsed.fileNames };
+  }
+
+  private isProjectFile(file: string): boolean {
+    const relative = path.relative(this.rootDir, file);
+    return (
+      !file.includes('/node_modules/') &&
+      !file.endsWith('.d.ts') &&
+      relative !== '..' &&
+      !relative.startsWith('..' + path.sep) &&
+      !path.isAbsolute(relative)
+    );
+  }
+}
+
+/**
+ * Tarjan's algorithm. Components come out dependencies-first: a component is
+ * emitted only after every component it can reach.
+ */
+function stronglyConnected(graph: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  const visit = (node: string) => {
+    index.set(node, counter);
+    lowlink.set(node, counter);
+    counter++;
+    stack.push(node);
+    onStack.add(node);
+
+    for (const dep of graph.get(node) || []) {
+      if (!index.has(dep)) {
+        visit(dep);
+        lowlink.set(node, Math.min(lowlink.get(node)!, lowlink.get(dep)!));
+      } else if (onStack.has(dep)) {
+        lowlink.set(node, Math.min(lowlink.get(node)!, index.get(dep)!));
+      }
+    }
+
+    if (lowlink.get(node) === index.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      components.push(component.sort());
+    }
+  };
+
+  for (const node of [...graph.keys()].sort()) {
+    if (!index.has(node)) visit(node);
+  }
+
+  return components;
+}
+
+function normalize(file: string): string {
+  return path.resolve(file).split(path.sep).join('/');
+}
+
+function unique<T>(items: T[]): T[] {
+  return Array.from(new Set(items));
+}
@@ -19,6 +19,7 @@ import { UnifiedAIAdapter } from '@oqool/shared/ai-gateway';
 import { FileManager } from './file-manager.js';
 import { intentParser, type ParsedIntent } from './intent-parser.js';
 import { SmartContextBuilder, type BuiltContext } from './smart-context-builder.js';
+import { renderStream } from './stream-renderer.js';
 
 /**
  * Message interface
@@ -102,26 +103,22 @@ export class SmartChat {
 
       // 3. AI request with streaming
       console.log(chalk.cyan('\n💭 Claude:\n'));
-      let response = '';
 
-      try {
-        const stream = await this.ai.streamComplete({
-          message,
-          context: contextData,
-          history: this.history.slice(-this.config.maxHistory),
-        });
-
-        for await (const chunk of stream) {
-          process.stdout.write(chunk);
-          response += chunk;
-        }
-      } catch (error: any) {
-        spinner.fail('AI request failed');
-        console.error(chalk.red(`\n❌ Error: ${error.message}`));
+      const rendered = await renderStream(
+        this.ai.stream([
+          { role: 'system', content: contextData },
+          ...this.history
+            .slice(-this.config.maxHistory)
+            .map(({ role, content }) => ({ role, content })),
+          { role: 'user', content: message },
+        ])
+      );
+      if (rendered.error) {
         return;
       }
+      const response = rendered.text;
 
-      console.log('\n');
+      console.log();
 
       // 4. Parse response for actions
       const actions = this.parseActions(response);
@@ -187,6 +184,11 @@ export class SmartChat {
         contextParts.push('---\n');
       }
 
+      // Files that did not fit the token budget
+      if (builtContext.files.omitted.length > 0) {
+        contextParts.push(`Omitted (token budget): ${builtContext.files.omitted.join(', ')}\n`);
+      }
+
       // Add metadata in verbose mode
       if (this.config.verbose) {
         const { metadata } = builtContext;
@@ -194,7 +196,27 @@ export class SmartChat {
         contextParts.push(`- Files analyzed: ${metadata.totalFilesAnalyzed}`);
         contextParts.push(`- Files included: ${metadata.filesIncluded}`);
         contextParts.push(`- Compression ratio: ${(metadata.compressionRatio * 100).toFixed(1)}%`);
+        contextParts.push(
+          `- Tokens: ${builtContext.files.totalTokens}/${builtContext.files.budget} ` +
+            `(${builtContext.files.tokenizer})`
+        );
         contextParts.push(`- Build time: ${metadata.buildTime}ms`);
+
+        // لماذا اختيرت هذه الملفات
+        console.log(chalk.gray('\n🔎 Top files:'));
+        for (const file of builtContext.relevantFiles.slice(0, 5)) {
+          const { score } = file;
+          console.log(
+            chalk.gray(
+              `   ${score.total.toFixed(2)}  ${file.path}  ` +
+                `(lexical ${score.lexical.toFixed(2)}, vector ${score.vector.toFixed(2)}, ` +
+                `graph ${score.graph.toFixed(2)}, importance ${score.importance.toFixed(2)})`
+            )
+          );
+          if (score.reasons.length > 0) {
+            console.log(chalk.gray(`         ${score.reasons.join('; ')}`));
+          }
+        }
       }
 
       return contextParts.join('\n');
@@ -4,14 +4,20 @@
  * نظام متقدم لبناء السياق الذكي للـ AI
  * يدعم:
  * - Project analysis
- * - Semantic search for relevant files
- * - Relevance ranking
- * - Token limit management
- * - Context compression
+ * - Hybrid retrieval: BM25 over symbols and text + vector similarity
+ * - Import-graph boost around the files a request mentions
+ * - Relevance ranking with an explainable score breakdown
+ * - Token budget from the target model's context window, counted with its tokenizer
+ * - Stepwise compression: full → signatures → summary → omitted
  * - Tree-sitter integration
  */
 
 import { FileManager } from './file-manager.js';
+import { ProjectProgram } from './project-program.js';
+import { BM25Index } from '@oqool/shared/vector';
+import { getContextWindow, loadTokenizer } from '@oqool/shared/ai-gateway';
+import type { Tokenizer } from '@oqool/shared/ai-gateway';
+import type { CodeVectorDB } from '@oqool/shared/vector';
 
 // Temporary interfaces until these are properly implemented
 interface TreeSitterAnalyzer {
@@ -21,6 +27,9 @@ interface TreeSitterAnalyzer {
 interface EmbeddingsService {
   createEmbedding(text: string): Promise<number[]>;
 }
+
+// The project's persistent chunk index (see `oqool index`)
+type SemanticIndex = Pick<CodeVectorDB, 'search'>;
 import path from 'path';
 import fs from 'fs-extra';
 
@@ -52,16 +61,39 @@ export interface ProjectStructure {
   totalLines: number;
 }
 
+/**
+ * How a file's score was put together
+ */
+export interface ScoreBreakdown {
+  lexical: number;        // BM25, relative to the best match (0-1)
+  vector: number;         // Semantic similarity (0-1), 0 without embeddings
+  graph: number;          // Import-graph boost
+  importance: number;
+  total: number;          // (fused relevance + graph) * 0.7 + importance * 0.3
+  matchedTerms: string[];
+  reasons: string[];
+}
+
 /**
  * File with relevance score
  */
 export interface ScoredFile {
   path: string;
   content: string;
-  similarity: number;
+  similarity: number;     // Fused lexical + vector relevance
   importance: number;
   size: number;
   language: string;
+  score: ScoreBreakdown;
+}
+
+/**
+ * File considered for retrieval
+ */
+interface CandidateFile {
+  path: string;
+  content: string;
+  symbols: string[];
 }
 
 /**
@@ -71,7 +103,10 @@ export interface CompressedContext {
   fullFiles: string[];           // Files included fully
   signatures: string[];          // Files with signatures only
   summaries: string[];          // File summaries
+  omitted: string[];            // Paths left out to stay within the budget
   totalTokens: number;
+  budget: number;               // Token budget the files were fitted into
+  tokenizer: string;            // Tokenizer used for counting
   compressionRatio: number;
 }
 
@@ -94,13 +129,19 @@ export interface BuiltContext {
  * Smart Context Builder Configuration
  */
 export interface ContextBuilderConfig {
-  maxTokens?: number;              // Maximum tokens in context
+  maxTokens?: number;              // Token budget for files (default: context window - reserved)
+  provider?: string;               // Target provider: picks the tokenizer and context window
+  model?: string;                  // Target model
+  contextWindow?: number;          // Overrides the model's context window
+  reservedTokens?: number;         // Left for prompt, history and the answer
   maxFiles?: number;               // Maximum files to include
   minSimilarity?: number;          // Minimum similarity threshold
   includeTests?: boolean;          // Include test files
   includeConfig?: boolean;         // Include config files
   compressionEnabled?: boolean;    // Enable context compression
   useEmbeddings?: boolean;         // Use semantic search
+  lexicalWeight?: number;          // Share of BM25 when fused with vectors (0-1)
+  graphBoost?: number;             // Boost for import neighbours of mentioned files
 }
 
 /**
@@ -108,30 +149,48 @@ export interface ContextBuilderConfig {
  */
 export class SmartContextBuilder {
   private embeddings?: EmbeddingsService;
+  private semanticIndex?: SemanticIndex;
   private treeSitter?: TreeSitterAnalyzer;
   private fileManager: FileManager;
   private config: Required<ContextBuilderConfig>;
   private projectInfo?: ProjectInfo;
+  private tokenizer?: Promise<Tokenizer>;
+  private program?: ProjectProgram | null; // null: no usable tsconfig
 
   constructor(
     fileManager: FileManager,
     embeddingsService?: EmbeddingsService,
     treeSitterAnalyzer?: TreeSitterAnalyzer,
-    config?: ContextBuilderConfig
+    config?: ContextBuilderConfig,
+    semanticIndex?: SemanticIndex
   ) {
     this.fileManager = fileManager;
     this.embeddings = embeddingsService;
+    this.semanticIndex = semanticIndex;
     this.treeSitter = treeSitterAnalyzer; // Don't instantiate - use if provided
 
+    // Budget follows the target model unless set explicitly
+    const provider = config?.provider || 'claude';
+    const model = config?.model || '';
+    const contextWindow = config?.contextWindow || getContextWindow(provider, model);
+    const reservedTokens =
+      config?.reservedTokens ?? Math.min(16384, Math.floor(contextWindow / 4));
+
     // Default config
     this.config = {
-      maxTokens: config?.maxTokens || 100000, // ~75k words
+      maxTokens: config?.maxTokens || contextWindow - reservedTokens,
+      provider,
+      model,
+      contextWindow,
+      reservedTokens,
       maxFiles: config?.maxFiles || 20,
       minSimilarity: config?.minSimilarity || 0.3,
       includeTests: config?.includeTests ?? true,
       includeConfig: config?.includeConfig ?? true,
       compressionEnabled: config?.compressionEnabled ?? true,
       useEmbeddings: config?.useEmbeddings ?? true,
+      lexicalWeight: config?.lexicalWeight ?? 0.5,
+      graphBoost: config?.graphBoost ?? 0.15,
     };
   }
 
@@ -146,17 +205,11 @@ export class SmartContextBuilder {
       this.projectInfo = await this.analyzeProject();
     }
 
-    // 2. Find relevant files
-    let relevantFiles: ScoredFile[];
-
-    if (this.config.useEmbeddings && this.embeddings) {
-      relevantFiles = await this.findRelevantFilesWithEmbeddings(userRequest);
-    } else {
-      relevantFiles = await this.findRelevantFilesWithKeywords(userRequest);
-    }
+    // 2. Find relevant files (lexical + semantic + import graph)
+    const relevantFiles = await this.findRelevantFiles(userRequest);
 
     // 3. Rank by relevance and importance
-    const rankedFiles = this.rankByRelevance(relevantFiles, userRequest);
+    const rankedFiles = this.rankByRelevance(relevantFiles);
 
     // 4. Compress context to fit token limit
     const compressedContext = await this.compressContext(
@@ -182,7 +235,7 @@ export class SmartContextBuilder {
    * Analyze project structure and metadata
    */
   private async analyzeProject(): Promise<ProjectInfo> {
-    const rootDir = process.cwd();
+    const rootDir = this.fileManager.getWorkingDir();
 
     // Read package.json if exists
     let packageJson: any = {};
@@ -317,23 +370,66 @@ export class SmartContextBuilder {
   }
 
   /**
-   * Find relevant files using embeddings (semantic search)
+   * Hybrid retrieval: BM25 and vector scores are fused, then files next to
+   * the ones the request mentions (in the import graph) get a boost.
    */
-  private async findRelevantFilesWithEmbeddings(query: string): Promise<ScoredFile[]> {
-    if (!this.embeddings) {
-      return this.findRelevantFilesWithKeywords(query);
+  private async findRelevantFiles(query: string): Promise<ScoredFile[]> {
+    const candidates = await this.loadCandidates();
+
+    const lexical = this.scoreLexical(query, candidates);
+    const vector = await this.scoreVector(query, candidates);
+    const graph = this.scoreGraph(query, candidates);
+
+    const lexicalWeight = vector.size > 0 ? this.config.lexicalWeight : 1;
+    const scored: ScoredFile[] = [];
+
+    for (const file of candidates) {
+      const lex = lexical.get(file.path);
+      const lexicalScore = lex?.score || 0;
+      const vectorScore = vector.get(file.path) || 0;
+      const boost = graph.get(file.path);
+
+      if (lexicalScore === 0 && vectorScore < this.config.minSimilarity && !boost) continue;
+
+      const similarity = lexicalScore * lexicalWeight + vectorScore * (1 - lexicalWeight);
+      const importance = this.calculateImportance(file.path, file.content);
+      const graphScore = boost?.score || 0;
+
+      const reasons: string[] = [];
+      if (lex) reasons.push(`matches ${lex.terms.join(', ')}`);
+      if (vectorScore > 0) reasons.push(`semantic ${vectorScore.toFixed(2)}`);
+      if (boost) reasons.push(...boost.reasons);
+
+      scored.push({
+        path: file.path,
+        content: file.content,
+        similarity,
+        importance,
+        size: file.content.length,
+        language: this.detectLanguage(file.path),
+        score: {
+          lexical: lexicalScore,
+          vector: vectorScore,
+          graph: graphScore,
+          importance,
+          total: (similarity + graphScore) * 0.7 + importance * 0.3,
+          matchedTerms: lex?.terms || [],
+          reasons,
+        },
+      });
     }
 
-    // Create query embedding
-    const queryEmbedding = await this.embeddings.createEmbedding(query);
+    return scored;
+  }
 
-    // Get all files
+  /**
+   * Files eligible for the context, with their declared symbols
+   */
+  private async loadCandidates(): Promise<CandidateFile[]> {
     const allFiles = await this.fileManager.listFiles();
-    const scored: ScoredFile[] = [];
+    const candidates: CandidateFile[] = [];
 
-    // Score each file
     for (const filePath of allFiles) {
-      // Skip ignored files
       if (this.shouldIgnoreFile(filePath)) continue;
 
       try {
@@ -342,145 +438,265 @@ export class SmartContextBuilder {
         // Skip empty or very large files
         if (!content || content.length > 100000) continue;
 
-        // Create file embedding
-        const fileEmbedding = await this.embeddings.createEmbedding(
-          this.extractKeyContent(content, filePath)
-        );
-
-        // Calculate similarity
-        const similarity = this.cosineSimilarity(queryEmbedding, fileEmbedding);
-
-        // Skip low similarity
-        if (similarity < this.config.minSimilarity) continue;
-
-        // Calculate importance based on file characteristics
-        const importance = this.calculateImportance(filePath, content);
-
-        scored.push({
-          path: filePath,
-          content,
-          similarity,
-          importance,
-          size: content.length,
-          language: this.detectLanguage(filePath),
-        });
+        candidates.push({ path: filePath, content, symbols: this.extractSymbols(content) });
       } catch (error) {
         // Ignore errors for individual files
         continue;
       }
     }
 
-    return scored;
+    return candidates;
   }
 
   /**
-   * Find relevant files using keywords (fallback)
+   * BM25 over path, declared symbols and file text, normalized to the best match
    */
-  private async findRelevantFilesWithKeywords(query: string): Promise<ScoredFile[]> {
-    const keywords = this.extractKeywords(query);
-    const allFiles = await this.fileManager.listFiles();
-    const scored: ScoredFile[] = [];
+  private scoreLexical(
+    query: string,
+    candidates: CandidateFile[]
+  ): Map<string, { score: number; terms: string[] }> {
+    const index = new BM25Index();
+
+    for (const file of candidates) {
+      index.add(file.path, [
+        { text: file.path, weight: 2 },
+        { text: file.symbols.join(' '), weight: 3 },
+        { text: file.content },
+      ]);
+    }
 
-    for (const filePath of allFiles) {
-      if (this.shouldIgnoreFile(filePath)) continue;
+    const matches = index.search(query, candidates.length);
+    const best = matches[0]?.score || 1;
 
-      try {
-        const content = await this.fileManager.readFile(filePath);
+    return new Map(
+      matches.map((match) => [match.id, { score: match.score / best, terms: match.terms }])
+    );
+  }
 
-        if (!content || content.length > 100000) continue;
+  /**
+   * Semantic similarity per file: from the project index when there is one,
+   * otherwise by embedding each file with the embeddings service.
+   */
+  private async scoreVector(
+    query: string,
+    candidates: CandidateFile[]
+  ): Promise<Map<string, number>> {
+    const scores = new Map<string, number>();
+    if (!this.config.useEmbeddings) return scores;
+
+    try {
+      if (this.semanticIndex) {
+        const results = await this.semanticIndex.search(query, this.config.maxFiles * 5);
+
+        // A file is as relevant as its best chunk
+        for (const { chunk, score } of results) {
+          const file = chunk.metadata.file;
+          const similarity = Math.min(Math.max(score, 0), 1);
+          scores.set(file, Math.max(scores.get(file) || 0, similarity));
+        }
+      } else if (this.embeddings) {
+        const queryEmbedding = await this.embeddings.createEmbedding(query);
+
+        for (const file of candidates) {
+          const fileEmbedding = await this.embeddings.createEmbedding(
+            this.extractKeyContent(file.content, file.path)
+          );
+          const similarity = this.cosineSimilarity(queryEmbedding, fileEmbedding);
+          scores.set(file.path, Math.max(similarity, 0));
+        }
+      }
+    } catch (error) {
+      // Semantic search unavailable: lexical ranking alone
+      scores.clear();
+    }
 
-        // Calculate keyword match score
-        let score = 0;
-        const lowerContent = content.toLowerCase();
-        const lowerPath = filePath.toLowerCase();
+    return scores;
+  }
 
-        for (const keyword of keywords) {
-          const keywordLower = keyword.toLowerCase();
+  /**
+   * Files the request names (by path or a symbol they declare) and their
+   * direct imports and importers.
+   */
+  private scoreGraph(
+    query: string,
+    candidates: CandidateFile[]
+  ): Map<string, { score: number; reasons: string[] }> {
+    const boosts = new Map<string, { score: number; reasons: string[] }>();
+    const mentioned = this.findMentionedFiles(query, candidates);
+    if (mentioned.size === 0) return boosts;
+
+    const maxBoost = this.config.graphBoost * 2;
+    const add = (file: string, score: number, reason: string) => {
+      const boost = boosts.get(file) || { score: 0, reasons: [] };
+      boost.score = Math.min(boost.score + score, maxBoost);
+      boost.reasons.push(reason);
+      boosts.set(file, boost);
+    };
 
-          // Path matches are more important
-          if (lowerPath.includes(keywordLower)) {
-            score += 2;
-          }
+    for (const [file, reason] of mentioned) {
+      add(file, maxBoost, reason);
+    }
 
-          // Content matches
-          const matches = (lowerContent.match(new RegExp(keywordLower, 'g')) || []).length;
-          score += Math.min(matches * 0.1, 2); // Cap at 2 points
+    const graph = this.buildImportGraph(candidates);
+    for (const seed of mentioned.keys()) {
+      for (const dependency of graph.get(seed) || []) {
+        if (!mentioned.has(dependency)) {
+          add(dependency, this.config.graphBoost, `imported by ${seed}`);
         }
-
-        if (score > 0) {
-          const importance = this.calculateImportance(filePath, content);
-
-          scored.push({
-            path: filePath,
-            content,
-            similarity: score / (keywords.length * 2), // Normalize 0-1
-            importance,
-            size: content.length,
-            language: this.detectLanguage(filePath),
-          });
+      }
+      for (const [importer, dependencies] of graph) {
+        if (!mentioned.has(importer) && dependencies.includes(seed)) {
+          add(importer, this.config.graphBoost, `imports ${seed}`);
         }
-      } catch (error) {
+      }
+    }
+
+    return boosts;
+  }
+
+  /**
+   * Files named in the request, or declaring an identifier it spells out
+   * (e.g. `ValidationPipeline`)
+   */
+  private findMentionedFiles(query: string, candidates: CandidateFile[]): Map<string, string> {
+    const mentioned = new Map<string, string>();
+    const lowerQuery = query.toLowerCase();
+    const identifiers = new Set(
+      (query.match(/[A-Za-z_$][\w$]{3,}/g) || []).filter((word) => /[A-Z_]/.test(word.slice(1)))
+    );
+
+    for (const file of candidates) {
+      const lowerPath = file.path.toLowerCase();
+      const baseName = path.basename(lowerPath);
+      const stem = baseName.replace(/\.[^.]+$/, '');
+      const escaped = stem.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const stemPattern = new RegExp(`(^|[^\\w-])${escaped}($|[^\\w-])`);
+
+      if (
+        lowerQuery.includes(lowerPath) ||
+        lowerQuery.includes(baseName) ||
+        (stem.length >= 4 && !this.isMainFile(file.path) && stemPattern.test(lowerQuery))
+      ) {
+        mentioned.set(file.path, 'mentioned in request');
         continue;
       }
+
+      const symbol = file.symbols.find((name) => identifiers.has(name));
+      if (symbol) {
+        mentioned.set(file.path, `defines ${symbol}`);
+      }
     }
 
-    return scored;
+    return mentioned;
   }
 
   /**
-   * Rank files by combined relevance and importance
+   * Import graph between candidate JS/TS files (relative paths). The program
+   * is built once per builder and fed the files' current contents each time.
    */
-  private rankByRelevance(files: ScoredFile[], query: string): ScoredFile[] {
-    return files.sort((a, b) => {
-      // Combined score: 70% similarity + 30% importance
-      const scoreA = a.similarity * 0.7 + a.importance * 0.3;
-      const scoreB = b.similarity * 0.7 + b.importance * 0.3;
-      return scoreB - scoreA;
+  private buildImportGraph(candidates: CandidateFile[]): Map<string, string[]> {
+    const rootDir = this.fileManager.getWorkingDir();
+    const toRelative = (file: string) => path.relative(rootDir, file).split(path.sep).join('/');
+    const graph = new Map<string, string[]>();
+
+    const codeFiles = candidates.filter((file) => /\.(ts|tsx|js|jsx|mjs|cjs)$/.test(file.path));
+    if (codeFiles.length === 0) return graph;
+
+    if (this.program === undefined) {
+      try {
+        this.program = new ProjectProgram(rootDir);
+      } catch (error) {
+        // No usable tsconfig: no graph boost
+        this.program = null;
+      }
+    }
+    const program = this.program;
+    if (!program) return graph;
+
+    const files = codeFiles.map((file) => {
+      const absolute = path.resolve(rootDir, file.path);
+      program.updateFile(absolute, file.content);
+      return absolute;
     });
+
+    for (const [file, dependencies] of program.getImportGraph(files)) {
+      graph.set(toRelative(file), dependencies.map(toRelative));
+    }
+
+    return graph;
   }
 
   /**
-   * Compress context to fit token limit
+   * Names declared in a file: classes, functions, types, constants...
+   */
+  private extractSymbols(content: string): string[] {
+    const keywords = 'class|interface|type|enum|function|const|let|var|def|func|fn|struct|trait';
+    const pattern = new RegExp(`\\b(?:${keywords})\\s+([A-Za-z_$][\\w$]*)`, 'g');
+    const symbols = new Set<string>();
+
+    for (const match of content.matchAll(pattern)) {
+      symbols.add(match[1]);
+    }
+
+    return Array.from(symbols);
+  }
+
+  /**
+   * Rank files by combined relevance, graph boost and importance
+   */
+  private rankByRelevance(files: ScoredFile[]): ScoredFile[] {
+    return files.sort((a, b) => b.score.total - a.score.total);
+  }
+
+  /**
+   * Fit files into the token budget in ranking order. Each file degrades
+   * step by step (full → signatures → summary) until it fits, else it is omitted.
    */
   private async compressContext(files: ScoredFile[]): Promise<CompressedContext> {
+    const tokenizer = await this.getTokenizer();
+    const budget = this.config.maxTokens;
+    // a single file may not take more than half the budget in full
+    const maxFullTokens = this.config.compressionEnabled ? Math.floor(budget / 2) : budget;
+
     const fullFiles: string[] = [];
     const signatures: string[] = [];
     const summaries: string[] = [];
+    const omitted: string[] = [];
     let totalTokens = 0;
     let originalTokens = 0;
 
     for (const file of files) {
-      const estimatedTokens = this.estimateTokens(file.content);
-      originalTokens += estimatedTokens;
-
-      // Small files: include fully
-      if (file.size < 2000) {
-        fullFiles.push(`// ${file.path}\n${file.content}`);
-        totalTokens += estimatedTokens;
+      const full = `// ${file.path}\n${file.content}`;
+      const fullTokens = tokenizer.count(full);
+      const remaining = budget - totalTokens;
+      originalTokens += fullTokens;
+
+      if (fullTokens <= Math.min(remaining, maxFullTokens)) {
+        fullFiles.push(full);
+        totalTokens += fullTokens;
         continue;
       }
 
-      // Medium files: extract signatures if compression enabled and treeSitter available
-      if (this.config.compressionEnabled && this.treeSitter && file.size < 10000) {
-        try {
-          const sig = await this.treeSitter.extractSignatures(file.content, file.language);
-          signatures.push(`// ${file.path} (signatures)\n${sig}`);
-          totalTokens += this.estimateTokens(sig);
+      if (this.config.compressionEnabled) {
+        const sig = await this.extractSignatures(file);
+        const signatureText = sig ? `// ${file.path} (signatures)\n${sig}` : '';
+        const signatureTokens = signatureText ? tokenizer.count(signatureText) : Infinity;
+        if (signatureTokens <= remaining) {
+          signatures.push(signatureText);
+          totalTokens += signatureTokens;
           continue;
-        } catch (error) {
-          // Fallback to summary
         }
-      }
-
-      // Large files: create summary
-      const summary = this.createFileSummary(file);
-      summaries.push(summary);
-      totalTokens += this.estimateTokens(summary);
 
-      // Stop if we exceed token limit
-      if (totalTokens > this.config.maxTokens) {
-        break;
+        const summary = this.createFileSummary(file);
+        const summaryTokens = tokenizer.count(summary);
+        if (summaryTokens <= remaining) {
+          summaries.push(summary);
+          totalTokens += summaryTokens;
+          continue;
+        }
       }
+
+      omitted.push(file.path);
     }
 
     const compressionRatio = originalTokens > 0 ? totalTokens / originalTokens : 1;
@@ -489,11 +705,49 @@ export class SmartContextBuilder {
       fullFiles,
       signatures,
       summaries,
+      omitted,
       totalTokens,
+      budget,
+      tokenizer: tokenizer.id,
       compressionRatio,
     };
   }
 
+  /**
+   * Tokenizer of the target provider/model, loaded once
+   */
+  private getTokenizer(): Promise<Tokenizer> {
+    if (!this.tokenizer) {
+      this.tokenizer = loadTokenizer(this.config.provider, this.config.model);
+    }
+    return this.tokenizer;
+  }
+
+  /**
+   * Declarations only: tree-sitter when available, otherwise declaration lines
+   */
+  private async extractSignatures(file: ScoredFile): Promise<string | null> {
+    if (this.treeSitter) {
+      try {
+        return await this.treeSitter.extractSignatures(file.content, file.language);
+      } catch (error) {
+        // Fallback to declaration lines
+      }
+    }
+
+    if (!this.isCodeFile(file.path)) return null;
+
+    const keywords = 'export|async|function|class|interface|type|enum|def|func|fn|pub|struct|' +
+      'trait|public|private|protected|static|abstract';
+    const declaration = new RegExp(`^\\s*(?:${keywords})\\s`);
+    const lines = file.content
+      .split('\n')
+      .filter((line) => declaration.test(line))
+      .map((line) => line.replace(/\s*\{\s*$/, ''));
+
+    return lines.length > 0 ? lines.join('\n') : null;
+  }
+
   /**
    * Calculate cosine similarity between two embeddings
    */
@@ -573,27 +827,6 @@ export class SmartContextBuilder {
     return content.substring(0, 5000);
   }
 
-  /**
-   * Extract keywords from query
-   */
-  private extractKeywords(query: string): string[] {
-    // Remove common words
-    const stopWords = new Set(['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for']);
-
-    return query
-      .toLowerCase()
-      .split(/\s+/)
-      .filter(word => word.length > 2 && !stopWords.has(word));
-  }
-
-  /**
-   * Estimate tokens from text
-   */
-  private estimateTokens(text: string): number {
-    // Rough estimation: 1 token ≈ 4 characters
-    return Math.ceil(text.length / 4);
-  }
-
   /**
    * Create file summary
    */
@@ -775,10 +1008,11 @@ export class SmartContextBuilder {
   }
 
   /**
-   * Clear cached project info
+   * Clear cached project info and import graph program
    */
   clearCache(): void {
     this.projectInfo = undefined;
+    this.program = undefined;
   }
 }
 
@@ -789,7 +1023,14 @@ export function createSmartContextBuilder(
   fileManager: FileManager,
   embeddingsService?: EmbeddingsService,
   treeSitterAnalyzer?: TreeSitterAnalyzer,
-  config?: ContextBuilderConfig
+  config?: ContextBuilderConfig,
+  semanticIndex?: SemanticIndex
 ): SmartContextBuilder {
-  return new SmartContextBuilder(fileManager, embeddingsService, treeSitterAnalyzer, config);
+  return new SmartContextBuilder(
+    fileManager,
+    embeddingsService,
+    treeSitterAnalyzer,
+    config,
+    semanticIndex
+  );
 }
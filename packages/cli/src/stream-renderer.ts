@@ -0,0 +1,95 @@
+// stream-renderer.ts
+// ============================================
+// 🌊 عرض أحداث البث الموحدة في الطرفية (chat / smart-chat)
+// ============================================
+
+import chalk from 'chalk';
+import type { UnifiedStreamEvent } from '@oqool/shared/ai-gateway';
+
+const PREVIEW_LENGTH = 80;
+
+export interface RenderedStream {
+  text: string;
+  toolCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  error?: string;
+  cancelled?: boolean; // the turn ended with stopReason 'cancelled'
+}
+
+/**
+ * Print tokens as they arrive and a line per tool call, and return what was
+ * rendered. Errors are shown, not thrown: the caller decides what to do.
+ * A retryable error drops what the failed provider call streamed, so the
+ * returned text holds each reply once.
+ */
+export async function renderStream(
+  events: AsyncIterable<UnifiedStreamEvent>,
+  out: NodeJS.WritableStream = process.stdout
+): Promise<RenderedStream> {
+  const rendered: RenderedStream = { text: '', toolCalls: 0, inputTokens: 0, outputTokens: 0 };
+  let atLineStart = true;
+  // ما اكتمل قبل استدعاء المزود الحالي (الجولات السابقة لا تُعاد)
+  let committed = { ...rendered };
+
+  const write = (chunk: string) => {
+    if (!chunk) return;
+    out.write(chunk);
+    atLineStart = chunk.endsWith('\n');
+  };
+  const line = (chunk: string) => write((atLineStart ? '' : '\n') + chunk + '\n');
+
+  for await (const event of events) {
+    switch (event.type) {
+      case 'text_delta':
+        rendered.text += event.text;
+        write(chalk.white(event.text));
+        break;
+
+      case 'tool_call_start':
+        line(chalk.cyan(`🔧 ${event.name}...`));
+        break;
+
+      case 'tool_call_end':
+        rendered.toolCalls++;
+        line(chalk.gray(`   ${event.name}(${preview(event.arguments)})`));
+        break;
+
+      case 'tool_result': {
+        const mark = event.isError ? chalk.red('   ✗ ') : chalk.green('   ✓ ');
+        line(mark + chalk.gray(preview(event.result)));
+        committed = { ...rendered };
+        break;
+      }
+
+      case 'usage':
+        rendered.inputTokens += event.inputTokens;
+        rendered.outputTokens += event.outputTokens;
+        break;
+
+      case 'error':
+        if (event.retryable) {
+          Object.assign(rendered, committed);
+          line(chalk.yellow(`⚠️  ${event.error} - إعادة المحاولة...`));
+        } else {
+          rendered.error = event.error;
+          line(chalk.red(`❌ ${event.error}`));
+        }
+        break;
+
+      case 'done':
+        if (event.stopReason === 'cancelled') rendered.cancelled = true;
+        break;
+    }
+  }
+
+  if (!atLineStart) out.write('\n');
+  return rendered;
+}
+
+function preview(value: unknown): string {
+  const text = (typeof value === 'string' ? value : JSON.stringify(value) ?? '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > PREVIEW_LENGTH ? text.slice(0, PREVIEW_LENGTH - 3) + '...' : text;
+}
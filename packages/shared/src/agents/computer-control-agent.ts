@@ -6,6 +6,20 @@
 // ============================================
 
 import { UnifiedAIAdapter, type AIProvider } from '../ai-gateway/index.js';
+import { AbortError, abortable } from '../core/abort.js';
+import {
+  DEFAULT_SANDBOX_EXCLUDE,
+  SandboxRunError,
+  SandboxWorkspace,
+  type SandboxRunResult,
+} from '../core/sandbox-workspace.js';
+import {
+  FsJournal,
+  pathsTouchedBy,
+  type JournalRecoveryConfirm,
+  type JournalSummary,
+  type JournalTarget,
+} from '../core/fs-journal.js';
 import { EventEmitter } from 'events';
 import * as fs from 'fs-extra';
 import * as path from 'path';
@@ -124,6 +138,7 @@ export interface EmergencyStopResult {
   level: StopLevel;
   stoppedOperations: Operation[];
   rollbacks: RollbackResult[];
+  rolledBackOperations: string[]; // ids whose journal was replayed successfully
   systemState: SystemState;
   recommendations: string[];
   reportPath: string;
@@ -133,6 +148,7 @@ export interface RollbackResult {
   operationId: string;
   success: boolean;
   restoredFiles?: string[];
+  skippedFiles?: string[]; // changed after the operation, left untouched
   error?: string;
 }
 
@@ -189,6 +205,13 @@ export class ComputerControlAgent extends EventEmitter {
   private monitoringInterval?: NodeJS.Timeout;
   private snapshots: Map<string, any>;
   private processHandles: Map<string, ChildProcess>;
+  // isolated copies of the project kept until promoted or discarded
+  private sandboxes: Map<string, SandboxWorkspace>;
+  // pre-images of every path an operation touches, written before it runs
+  private journal: FsJournal;
+  private recovery: Promise<JournalSummary[]>;
+  // aborted by hard/emergency stops: cancels AI calls and running commands
+  private abortController: AbortController;
 
   constructor(config: AgentConfig) {
     super();
@@ -211,6 +234,8 @@ export class ComputerControlAgent extends EventEmitter {
     this.stopRequested = false;
     this.snapshots = new Map();
     this.processHandles = new Map();
+    this.sandboxes = new Map();
+    this.abortController = new AbortController();
 
     // Initialize security policy
     this.securityPolicy = this.initializeSecurityPolicy(config.securityPolicy);
@@ -218,6 +243,10 @@ export class ComputerControlAgent extends EventEmitter {
     // Setup directories
     this.setupDirectories();
 
+    // Report operations interrupted by a crash of a previous run
+    this.journal = new FsJournal(path.join(this.logDirectory, 'journal'));
+    this.recovery = this.findInterrupted();
+
     // Setup monitoring
     this.setupMonitoring();
 
@@ -241,7 +270,7 @@ export class ComputerControlAgent extends EventEmitter {
    */
   async execute(
     command: string,
-    options: { force?: boolean; sandbox?: boolean } = {}
+    options: { force?: boolean; sandbox?: boolean; unjournaled?: boolean } = {}
   ): Promise<any> {
     if (!this.isActive) {
       throw new Error('Agent is not active. Use resume() to reactivate.');
@@ -256,6 +285,7 @@ export class ComputerControlAgent extends EventEmitter {
     }
 
     try {
+      await this.recovery;
       this.log('info', `Executing command: "${command}"`);
 
       // Parse natural language to operation
@@ -280,9 +310,9 @@ export class ComputerControlAgent extends EventEmitter {
         }
       }
 
-      // Create snapshot if rollback possible
-      if (classification.canRollback) {
-        await this.createSnapshot(operation.id);
+      // Journal the touched paths if rollback possible (a sandbox changes nothing real)
+      if (classification.canRollback && !options.sandbox) {
+        await this.createSnapshot(operation, options.unjournaled);
       }
 
       // Execute operation
@@ -612,6 +642,10 @@ export class ComputerControlAgent extends EventEmitter {
         result = await this.executeReal(operation);
       }
 
+      if (operation.rollbackData) {
+        await this.journal.commit(operation.id);
+      }
+
       operation.status = 'completed';
       operation.endTime = Date.now();
       operation.result = result;
@@ -673,15 +707,83 @@ export class ComputerControlAgent extends EventEmitter {
     }
   }
 
-  private async executeSandboxed(operation: Operation): Promise<any> {
+  /**
+   * Runs the operation's command in a temp copy of the working directory.
+   * The copy is kept so the diff can be inspected and promoted (or discarded).
+   * A non-zero exit or a timeout throws SandboxRunError with the full result.
+   */
+  private async executeSandboxed(operation: Operation): Promise<SandboxRunResult> {
     this.log('info', `Executing in sandbox mode: ${operation.id}`);
 
-    // Simulate execution without actual changes
-    return {
-      simulated: true,
-      operation: operation.description,
-      message: 'Executed in sandbox mode - no real changes made',
-    };
+    const sandbox = await SandboxWorkspace.create({
+      root: this.workingDirectory,
+      exclude: [...DEFAULT_SANDBOX_EXCLUDE, path.basename(this.logDirectory)],
+    });
+    this.sandboxes.set(operation.id, sandbox);
+    if (sandbox.skippedLinks.length > 0) {
+      this.log(
+        'warn',
+        `Sandbox ${sandbox.id}: links outside the project not mirrored: ` +
+          sandbox.skippedLinks.join(', ')
+      );
+    }
+
+    const result = await sandbox.run(operation.command, { signal: this.abortController.signal });
+    if (result.cancelled) {
+      await this.discardSandbox(operation.id);
+      throw new AbortError(`Sandboxed operation cancelled: ${operation.id}`);
+    }
+
+    this.log(
+      'info',
+      `Sandbox ${sandbox.id}: exit ${result.exitCode}${result.timedOut ? ' (timed out)' : ''}, ` +
+        `${result.changes.length} file(s) changed`
+    );
+    this.emit('sandbox-completed', operation, result);
+
+    // الفشل لا يُحسب نجاحاً؛ المساحة تبقى لفحص فروقاتها
+    if (result.timedOut || result.exitCode !== 0) {
+      throw new SandboxRunError(result);
+    }
+    return result;
+  }
+
+  /**
+   * Copy a sandboxed operation's changes (all, or only `paths`) into the
+   * working directory. Throws SandboxConflictError when those files changed
+   * in the meantime, unless `force` is set.
+   */
+  public async promoteSandbox(
+    operationId: string,
+    paths?: string[],
+    options: { force?: boolean } = {}
+  ): Promise<string[]> {
+    const sandbox = this.sandboxes.get(operationId);
+    if (!sandbox) {
+      throw new Error(`No sandbox for operation: ${operationId}`);
+    }
+
+    const promoted = await sandbox.promote(paths, options);
+    this.log('info', `Promoted ${promoted.length} file(s) from sandbox ${sandbox.id}`);
+    this.emit('sandbox-promoted', operationId, promoted);
+
+    if (!paths) {
+      await this.discardSandbox(operationId);
+    }
+    return promoted;
+  }
+
+  public async discardSandbox(operationId: string): Promise<void> {
+    const sandbox = this.sandboxes.get(operationId);
+    if (!sandbox) return;
+
+    this.sandboxes.delete(operationId);
+    await sandbox.dispose();
+    this.log('info', `Sandbox discarded: ${sandbox.id}`);
+  }
+
+  public getSandbox(operationId: string): SandboxWorkspace | undefined {
+    return this.sandboxes.get(operationId);
   }
 
   // ============================================
@@ -714,7 +816,7 @@ export class ComputerControlAgent extends EventEmitter {
   }
 
   private async executeFileOperation(cmd: string): Promise<string> {
-    const { stdout, stderr } = await execAsync(cmd);
+    const { stdout, stderr } = await execAsync(cmd, { signal: this.abortController.signal });
     if (stderr) {
       this.log('warn', `Command stderr: ${stderr}`);
     }
@@ -730,7 +832,7 @@ export class ComputerControlAgent extends EventEmitter {
     const program = parts[0];
     const args = parts.slice(1);
 
-    const process = spawn(program, args);
+    const process = spawn(program, args, { signal: this.abortController.signal });
     const processId = this.generateOperationId();
     this.processHandles.set(processId, process);
 
@@ -750,6 +852,7 @@ export class ComputerControlAgent extends EventEmitter {
     const { stdout, stderr } = await execAsync(cmd, {
       cwd: this.workingDirectory,
       timeout: 300000, // 5 minutes
+      signal: this.abortController.signal,
     });
 
     if (stderr) {
@@ -763,65 +866,88 @@ export class ComputerControlAgent extends EventEmitter {
   // 💾 Snapshot & Rollback System
   // ============================================
 
-  private async createSnapshot(operationId: string): Promise<void> {
+  /**
+   * Writes the pre-image of every path the operation will touch to the
+   * journal before it runs. A command whose paths cannot be known is refused
+   * unless the caller accepts running it without rollback.
+   */
+  private async createSnapshot(operation: Operation, unjournaled = false): Promise<void> {
+    const targets = await this.journalTargets(operation);
+    if (targets === null) {
+      if (!unjournaled) {
+        throw new Error(
+          `Cannot tell which paths "${operation.command}" touches, so it cannot be rolled ` +
+            'back. Run it with { sandbox: true } to review its changes first, or with ' +
+            '{ unjournaled: true } to run it without rollback.'
+        );
+      }
+      this.log('warn', `Running without a journal (no rollback): ${operation.command}`);
+      return;
+    }
+
+    await this.journal.begin(operation.id, operation.command, targets);
+
     const snapshot = {
-      id: operationId,
+      id: operation.id,
       timestamp: Date.now(),
       workingDirectory: this.workingDirectory,
-      files: await this.captureFileSystem(),
-      processes: await this.captureProcesses(),
+      paths: targets.map((target) => target.path),
     };
+    operation.rollbackData = { journal: operation.id, paths: snapshot.paths };
 
-    this.snapshots.set(operationId, snapshot);
-    this.log('info', `Snapshot created: ${operationId}`);
+    this.snapshots.set(operation.id, snapshot);
+    this.log('info', `Journal opened: ${operation.id} (${targets.length} path(s))`);
   }
 
-  private async captureFileSystem(): Promise<any> {
-    // Capture current file system state
-    // In production, this would be more sophisticated
-    return {
-      timestamp: Date.now(),
-      files: [], // List of files
-    };
-  }
+  private async journalTargets(operation: Operation): Promise<JournalTarget[] | null> {
+    const resolve = (p: string) => path.resolve(this.workingDirectory, p);
 
-  private async captureProcesses(): Promise<any> {
-    return {
-      timestamp: Date.now(),
-      processes: [], // List of running processes
-    };
+    switch (operation.type) {
+      case 'file-write': {
+        const { filePath } = this.extractFileWriteParams(operation.command);
+        return filePath ? [{ kind: 'write', path: resolve(filePath) }] : [];
+      }
+      case 'file-delete':
+        return [{ kind: 'delete', path: resolve(this.extractFilePath(operation.command)) }];
+      default:
+        return pathsTouchedBy(operation.command, this.workingDirectory);
+    }
   }
 
+  /**
+   * Replays the operation's journal in reverse. Works for operations from a
+   * previous run too, as long as their journal is still on disk.
+   */
   public async rollbackOperation(operationId: string): Promise<RollbackResult> {
     const operation = this.operations.get(operationId);
-    if (!operation) {
-      throw new Error(`Operation not found: ${operationId}`);
-    }
 
-    const snapshot = this.snapshots.get(operationId);
-    if (!snapshot) {
+    if (!(await this.journal.has(operationId))) {
       return {
         operationId,
         success: false,
-        error: 'No snapshot available for rollback',
+        error: 'No journal available for rollback',
       };
     }
 
     try {
       this.log('info', `Rolling back operation: ${operationId}`);
 
-      // Restore from snapshot
-      // Implementation would restore files, processes, etc.
+      const replay = await this.journal.rollback(operationId);
 
-      operation.status = 'rolled-back';
+      if (operation) operation.status = 'rolled-back';
       this.snapshots.delete(operationId);
 
-      this.log('info', `Rollback successful: ${operationId}`);
+      this.log('info', `Rollback successful: ${operationId} (${replay.restored.length} path(s))`);
+
+      if (replay.skipped.length > 0) {
+        this.log('warn', `Left ${replay.skipped.length} path(s) changed since ${operationId}`);
+      }
 
       return {
         operationId,
         success: true,
-        restoredFiles: [],
+        restoredFiles: replay.restored,
+        skippedFiles: replay.skipped,
       };
     } catch (error: any) {
       this.log('error', `Rollback failed: ${error.message}`);
@@ -833,6 +959,50 @@ export class ComputerControlAgent extends EventEmitter {
     }
   }
 
+  /**
+   * Nothing is replayed at startup: interrupted operations are only reported
+   * until recoverInterrupted() is called.
+   */
+  private async findInterrupted(): Promise<JournalSummary[]> {
+    try {
+      const journals = await this.journal.interrupted();
+      for (const journal of journals) {
+        this.log(
+          'warn',
+          `Interrupted operation: ${journal.operationId} (${journal.command}, ${journal.startedAt})`
+        );
+      }
+      if (journals.length > 0) this.emit('journal-interrupted', journals);
+
+      return journals;
+    } catch (error: any) {
+      this.log('error', `Journal recovery failed: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Roll back the operations a previous run left half done, each one only if
+   * `confirm` approves it
+   */
+  public async recoverInterrupted(confirm: JournalRecoveryConfirm): Promise<RollbackResult[]> {
+    await this.recovery;
+    const replays = await this.journal.recover(confirm);
+
+    for (const replay of replays) {
+      this.log('warn', `Rolled back interrupted operation: ${replay.operationId}`);
+    }
+    const results = replays.map((replay) => ({
+      operationId: replay.operationId,
+      success: true,
+      restoredFiles: replay.restored,
+      skippedFiles: replay.skipped,
+    }));
+    if (results.length > 0) this.emit('journal-recovered', results);
+
+    return results;
+  }
+
   // ============================================
   // 🛑 Emergency Stop System
   // ============================================
@@ -870,14 +1040,14 @@ export class ComputerControlAgent extends EventEmitter {
   public async hardStop(): Promise<EmergencyStopResult> {
     this.log('warn', 'Hard stop initiated');
     this.stopRequested = true;
+    this.abortController.abort(new AbortError('Hard stop'));
 
     // Kill all running operations
-    for (const opId of this.runningOperations) {
-      const operation = this.operations.get(opId);
-      if (operation) {
-        operation.status = 'cancelled';
-        await this.rollbackOperation(opId);
-      }
+    const stopped = this.stoppedOperations();
+    const rollbacks: RollbackResult[] = [];
+    for (const operation of stopped) {
+      operation.status = 'cancelled';
+      rollbacks.push(await this.rollbackOperation(operation.id));
     }
 
     // Kill all processes
@@ -888,7 +1058,7 @@ export class ComputerControlAgent extends EventEmitter {
 
     this.runningOperations.clear();
 
-    return await this.finalizeStop('hard', 'User requested hard stop');
+    return await this.finalizeStop('hard', 'User requested hard stop', rollbacks, stopped);
   }
 
   /**
@@ -898,6 +1068,7 @@ export class ComputerControlAgent extends EventEmitter {
     this.log('error', `EMERGENCY STOP: ${reason || 'Unknown reason'}`);
     this.stopRequested = true;
     this.isActive = false;
+    this.abortController.abort(new AbortError(`Emergency stop: ${reason || 'unknown'}`));
 
     // Immediate stop of everything
     for (const [id, process] of this.processHandles) {
@@ -906,15 +1077,20 @@ export class ComputerControlAgent extends EventEmitter {
     }
 
     // Rollback all operations
+    const stopped = this.stoppedOperations();
     const rollbacks: RollbackResult[] = [];
-    for (const opId of this.runningOperations) {
-      const result = await this.rollbackOperation(opId);
-      rollbacks.push(result);
+    for (const operation of stopped) {
+      rollbacks.push(await this.rollbackOperation(operation.id));
     }
 
     this.runningOperations.clear();
 
-    return await this.finalizeStop('emergency', reason || 'Emergency stop requested', rollbacks);
+    return await this.finalizeStop(
+      'emergency',
+      reason || 'Emergency stop requested',
+      rollbacks,
+      stopped
+    );
   }
 
   /**
@@ -924,7 +1100,7 @@ export class ComputerControlAgent extends EventEmitter {
     this.log('error', 'PANIC MODE ACTIVATED');
 
     // Kill everything immediately
-    await this.emergencyStop('Panic mode activated');
+    const emergency = await this.emergencyStop('Panic mode activated');
 
     // Clear all state
     this.operations.clear();
@@ -937,22 +1113,31 @@ export class ComputerControlAgent extends EventEmitter {
 
     this.emit('panic-stop');
 
-    return await this.finalizeStop('panic', 'Panic mode - complete shutdown');
+    return await this.finalizeStop(
+      'panic',
+      'Panic mode - complete shutdown',
+      emergency.rollbacks,
+      emergency.stoppedOperations
+    );
+  }
+
+  private stoppedOperations(): Operation[] {
+    return Array.from(this.operations.values()).filter((op) => this.runningOperations.has(op.id));
   }
 
   private async finalizeStop(
     level: StopLevel,
     reason: string,
-    rollbacks: RollbackResult[] = []
+    rollbacks: RollbackResult[] = [],
+    stopped: Operation[] = this.stoppedOperations()
   ): Promise<EmergencyStopResult> {
     const result: EmergencyStopResult = {
       timestamp: new Date().toISOString(),
       reason,
       level,
-      stoppedOperations: Array.from(this.operations.values()).filter((op) =>
-        this.runningOperations.has(op.id)
-      ),
+      stoppedOperations: stopped,
       rollbacks,
+      rolledBackOperations: rollbacks.filter((r) => r.success).map((r) => r.operationId),
       systemState: await this.getSystemState(),
       recommendations: this.generateRecommendations(level),
       reportPath: await this.generateStopReport(level, reason),
@@ -1103,6 +1288,9 @@ export class ComputerControlAgent extends EventEmitter {
     this.isPaused = false;
     this.stopRequested = false;
     this.isActive = true;
+    if (this.abortController.signal.aborted) {
+      this.abortController = new AbortController();
+    }
     this.log('info', 'Agent resumed');
     this.emit('resumed');
   }
@@ -1251,11 +1439,9 @@ export class ComputerControlAgent extends EventEmitter {
   }
 
   private async callAI(prompt: string): Promise<string> {
-    const result = await this.aiAdapter.processWithPersonality(
-      'coder',
-      prompt,
-      undefined,
-      this.provider
+    const result = await abortable(
+      this.aiAdapter.processWithPersonality('coder', prompt, undefined, this.provider),
+      this.abortController.signal
     );
     return result.response;
   }
@@ -1294,6 +1480,10 @@ export class ComputerControlAgent extends EventEmitter {
 
     await this.softStop();
 
+    for (const operationId of [...this.sandboxes.keys()]) {
+      await this.discardSandbox(operationId);
+    }
+
     this.log('info', 'Agent shutdown complete');
   }
 }
@@ -24,6 +24,8 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import crypto from 'crypto';
+import type { UnifiedStreamEvent } from '../ai-providers/interfaces/unified-types.interface.js';
+import { mapAnthropicStream, openStream, textDeltas } from '../ai-providers/utils/stream-events.js';
 
 // ════════════════════════════════════════════════════════════════════════════
 // 📊 Types & Interfaces
@@ -52,6 +54,7 @@ export interface ToolDefinition {
   name: string;
   description: string;
   parameters: Record<string, any>;
+  required?: string[]; // defaults to every parameter
 }
 
 export interface ToolCall {
@@ -1082,6 +1085,22 @@ export class ClaudeService {
     messages: Message[],
     options: ChatCompletionOptions = {}
   ): AsyncGenerator<string, void, unknown> {
+    try {
+      yield* textDeltas(this.chatCompletionEvents(messages, options));
+    } catch (error: any) {
+      console.error('Claude Stream Error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * أحداث البث الموحدة: نص، استدعاءات أدوات (بدون تنفيذها) واستهلاك
+   */
+  async *chatCompletionEvents(
+    messages: Message[],
+    options: ChatCompletionOptions = {},
+    tools: ToolDefinition[] = []
+  ): AsyncGenerator<UnifiedStreamEvent, void, unknown> {
     const model = this.modelSelector.selectOptimalModel(
       messages[messages.length - 1]?.content || '',
       options,
@@ -1098,24 +1117,18 @@ export class ClaudeService {
     const systemPrompt =
       options.systemPrompt || messages.find((m) => m.role === 'system')?.content;
 
-    try {
-      const stream = await this.client.messages.stream({
-        model,
-        max_tokens: options.maxTokens || 4096,
-        temperature: options.temperature || 0.7,
-        ...(systemPrompt && { system: systemPrompt }),
-        messages: claudeMessages,
-      });
-
-      for await (const event of stream) {
-        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
-          yield event.delta.text;
-        }
-      }
-    } catch (error: any) {
-      console.error('Claude Stream Error:', error);
-      throw error;
-    }
+    yield* mapAnthropicStream(
+      openStream(() =>
+        this.client.messages.stream({
+          model,
+          max_tokens: options.maxTokens || 4096,
+          temperature: options.temperature || 0.7,
+          ...(systemPrompt && { system: systemPrompt }),
+          messages: claudeMessages,
+          ...(tools.length > 0 && { tools: this.adaptToolsForClaude(tools) }),
+        })
+      )
+    );
   }
 
   // ════════════════════════════════════════════════════════════════════════
@@ -1132,7 +1145,7 @@ export class ClaudeService {
       input_schema: {
         type: 'object',
         properties: tool.parameters,
-        required: Object.keys(tool.parameters),
+        required: tool.required ?? Object.keys(tool.parameters),
       },
     }));
   }
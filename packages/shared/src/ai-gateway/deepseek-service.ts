@@ -4,6 +4,15 @@
  * ✅ يدعم كل الميزات المتقدمة حتى بدون دعم رسمي للأدوات
  */
 
+import type { UnifiedStreamEvent } from '../ai-providers/interfaces/unified-types.interface.js';
+import {
+  mapOpenAIStream,
+  openStream,
+  parseSSE,
+  textDeltas,
+  type OpenAIStreamChunk,
+} from '../ai-providers/utils/stream-events.js';
+
 export interface Message {
   role: 'system' | 'user' | 'assistant';
   content: string;
@@ -499,6 +508,64 @@ export class DeepSeekIntelligentService {
     };
   }
 
+  /**
+   * 🌊 محادثة مع streaming
+   */
+  async *chatCompletionStream(
+    messages: Message[],
+    options: ChatCompletionOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    yield* textDeltas(this.chatCompletionEvents(messages, options));
+  }
+
+  /**
+   * 🌊 أحداث البث الموحدة: نص، استدعاءات أدوات (بدون تنفيذها) واستهلاك
+   */
+  async *chatCompletionEvents(
+    messages: Message[],
+    options: ChatCompletionOptions = {},
+    tools: any[] = []
+  ): AsyncGenerator<UnifiedStreamEvent, void, unknown> {
+    // واجهة DeepSeek متوافقة مع OpenAI: نفس صيغة الأدوات والـ chunks
+    const openaiTools = tools.map((tool) => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: {
+          type: 'object',
+          properties: tool.parameters,
+          required: tool.required ?? Object.keys(tool.parameters || {}),
+        },
+      },
+    }));
+
+    yield* mapOpenAIStream(openStream(async () => {
+      const response = await fetch(`${this.baseURL}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({
+          model: options.model || 'deepseek-chat',
+          messages: messages.map(m => ({ role: m.role, content: m.content })),
+          max_tokens: options.maxTokens || 4096,
+          temperature: options.temperature || 0.7,
+          ...(openaiTools.length > 0 && { tools: openaiTools }),
+          stream: true,
+          stream_options: { include_usage: true },
+        }),
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`DeepSeek API Error: ${response.statusText}`);
+      }
+
+      return parseSSE<OpenAIStreamChunk>(response.body as unknown as AsyncIterable<Uint8Array>);
+    }));
+  }
+
   /**
    * 🎯 محاكاة تكامل الأدوات بذكاء
    */
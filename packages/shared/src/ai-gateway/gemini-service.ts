@@ -24,6 +24,8 @@
 
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import crypto from 'crypto';
+import type { UnifiedStreamEvent } from '../ai-providers/interfaces/unified-types.interface.js';
+import { mapGeminiStream, openStream, textDeltas } from '../ai-providers/utils/stream-events.js';
 
 // ════════════════════════════════════════════════════════════════════════════
 // 📊 Types & Interfaces
@@ -51,6 +53,7 @@ export interface ToolDefinition {
   name: string;
   description: string;
   parameters: Record<string, any>;
+  required?: string[]; // defaults to every parameter
 }
 
 export interface ToolCall {
@@ -806,47 +809,57 @@ export class GeminiService {
     messages: Message[],
     options: ChatCompletionOptions = {}
   ): AsyncGenerator<string, void, unknown> {
+    try {
+      yield* textDeltas(this.chatCompletionEvents(messages, options));
+    } catch (error: any) {
+      console.error('Gemini Stream Error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * أحداث البث الموحدة: نص، استدعاءات أدوات (بدون تنفيذها) واستهلاك
+   */
+  async *chatCompletionEvents(
+    messages: Message[],
+    options: ChatCompletionOptions = {},
+    tools: ToolDefinition[] = []
+  ): AsyncGenerator<UnifiedStreamEvent, void, unknown> {
     const model = this.modelSelector.selectOptimalModel(
       messages[messages.length - 1]?.content || '',
       options,
       messages.length
     );
 
-    try {
-      const genModel = this.client.getGenerativeModel({ model });
-
-      const systemMessage = messages.find((m) => m.role === 'system');
-      const conversationMessages = messages.filter((m) => m.role !== 'system');
+    yield* mapGeminiStream(
+      openStream(async () => {
+        const genModel = this.client.getGenerativeModel({ model });
 
-      const history = conversationMessages.slice(0, -1).map((m) => ({
-        role: m.role === 'user' ? 'user' : 'model',
-        parts: [{ text: m.content }],
-      }));
+        const systemMessage = messages.find((m) => m.role === 'system');
+        const conversationMessages = messages.filter((m) => m.role !== 'system');
 
-      const chat = genModel.startChat({
-        history,
-        generationConfig: {
-          maxOutputTokens: options.maxTokens || 8192,
-          temperature: options.temperature || 0.7,
-        },
-        ...(systemMessage && {
-          systemInstruction: systemMessage.content,
-        }),
-      });
+        const history = conversationMessages.slice(0, -1).map((m) => ({
+          role: m.role === 'user' ? 'user' : 'model',
+          parts: [{ text: m.content }],
+        }));
 
-      const lastMessage = conversationMessages[conversationMessages.length - 1];
-      const result = await chat.sendMessageStream(lastMessage.content);
+        const chat = genModel.startChat({
+          history,
+          generationConfig: {
+            maxOutputTokens: options.maxTokens || 8192,
+            temperature: options.temperature || 0.7,
+          },
+          ...(systemMessage && {
+            systemInstruction: systemMessage.content,
+          }),
+          ...(tools.length > 0 && { tools: this.adaptToolsForGemini(tools) }),
+        });
 
-      for await (const chunk of result.stream) {
-        const text = chunk.text();
-        if (text) {
-          yield text;
-        }
-      }
-    } catch (error: any) {
-      console.error('Gemini Stream Error:', error);
-      throw error;
-    }
+        const lastMessage = conversationMessages[conversationMessages.length - 1];
+        const result = await chat.sendMessageStream(lastMessage.content);
+        return result.stream;
+      })
+    );
   }
 
   // ════════════════════════════════════════════════════════════════════════
@@ -862,7 +875,7 @@ export class GeminiService {
           parameters: {
             type: 'object',
             properties: tool.parameters,
-            required: Object.keys(tool.parameters),
+            required: tool.required ?? Object.keys(tool.parameters),
           },
         })),
       },
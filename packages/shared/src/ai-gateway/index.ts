@@ -22,3 +22,58 @@ export { default as GeminiService } from './gemini-service.js';
 export { default as OpenAIService } from './openai-service.js';
 export { default as DeepSeekIntelligentService } from './deepseek-service.js';
 export { default as OllamaService } from './ollama-service.js';
+
+// Token counting and context windows per provider model
+export {
+  HeuristicTokenizer,
+  TiktokenTokenizer,
+  loadTokenizer,
+  getContextWindow,
+  type Tokenizer,
+  type TokenizerProvider
+} from '../ai-providers/utils/tokenizer.js';
+
+// Persistent cost ledger and budgets (~/.oqool)
+export {
+  CostLedger,
+  BudgetGuard,
+  BudgetExceededError,
+  getCostLedger,
+  getBudgetGuard,
+  pricedEstimator,
+  costReportToCSV,
+  type LedgerEntry,
+  type BudgetLimits,
+  type BudgetPolicy,
+  type BudgetCheck,
+  type CostEstimator,
+  type CostReportGroup,
+  type CostReportRow
+} from '../ai-providers/monitoring/cost-ledger.js';
+
+// Response cache: exact and near-duplicate prompts, optionally kept in .oqool/cache
+export {
+  getCacheLayer,
+  readCacheStats,
+  DEFAULT_CACHE_TTL,
+  type CacheStats,
+  type SemanticCacheOptions
+} from '../ai-providers/cache-layer.js';
+
+// Streaming: one event protocol for every provider, and the executor that exposes it
+export {
+  collectStream,
+  textDeltas,
+  responseToEvents,
+  type CollectedStream
+} from '../ai-providers/utils/stream-events.js';
+export type {
+  UnifiedMessage,
+  UnifiedStreamEvent
+} from '../ai-providers/interfaces/unified-types.interface.js';
+export {
+  getUnifiedExecutor,
+  type ExecutionOptions,
+  type ExecutionResult,
+  type ExecutionStream
+} from '../ai-providers/unified-executor-pro.js';
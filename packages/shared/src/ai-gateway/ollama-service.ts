@@ -24,6 +24,8 @@
 
 import { Ollama } from 'ollama';
 import crypto from 'crypto';
+import type { UnifiedStreamEvent } from '../ai-providers/interfaces/unified-types.interface.js';
+import { mapOllamaStream, openStream, textDeltas } from '../ai-providers/utils/stream-events.js';
 
 // ════════════════════════════════════════════════════════════════════════════
 // 📊 Types & Interfaces
@@ -50,6 +52,7 @@ export interface ToolDefinition {
   name: string;
   description: string;
   parameters: Record<string, any>;
+  required?: string[]; // defaults to every parameter
 }
 
 export interface ToolCall {
@@ -823,6 +826,22 @@ export class OllamaService {
     messages: Message[],
     options: ChatCompletionOptions = {}
   ): AsyncGenerator<string, void, unknown> {
+    try {
+      yield* textDeltas(this.chatCompletionEvents(messages, options));
+    } catch (error: any) {
+      console.error('Ollama Stream Error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * أحداث البث الموحدة: نص، استدعاءات أدوات (بدون تنفيذها) واستهلاك
+   */
+  async *chatCompletionEvents(
+    messages: Message[],
+    options: ChatCompletionOptions = {},
+    tools: ToolDefinition[] = []
+  ): AsyncGenerator<UnifiedStreamEvent, void, unknown> {
     const model = this.modelSelector.selectOptimalModel(
       messages[messages.length - 1]?.content || '',
       options,
@@ -830,26 +849,20 @@ export class OllamaService {
       this.availableModels
     );
 
-    try {
-      const stream = await this.client.chat({
-        model,
-        messages: messages.map((m) => ({ role: m.role, content: m.content })),
-        stream: true,
-        options: {
-          temperature: options.temperature || 0.7,
-          num_predict: options.maxTokens || 4096,
-        },
-      });
-
-      for await (const chunk of stream) {
-        if (chunk.message?.content) {
-          yield chunk.message.content;
-        }
-      }
-    } catch (error: any) {
-      console.error('Ollama Stream Error:', error);
-      throw error;
-    }
+    yield* mapOllamaStream(
+      openStream(() =>
+        this.client.chat({
+          model,
+          messages: messages.map((m) => ({ role: m.role, content: m.content })),
+          stream: true,
+          ...(tools.length > 0 && { tools: this.adaptToolsForOllama(tools) }),
+          options: {
+            temperature: options.temperature || 0.7,
+            num_predict: options.maxTokens || 4096,
+          },
+        })
+      )
+    );
   }
 
   // ════════════════════════════════════════════════════════════════════════
@@ -865,7 +878,7 @@ export class OllamaService {
         parameters: {
           type: 'object',
           properties: tool.parameters,
-          required: Object.keys(tool.parameters),
+          required: tool.required ?? Object.keys(tool.parameters),
         },
       },
     }));
@@ -24,6 +24,8 @@
 
 import OpenAI from 'openai';
 import crypto from 'crypto';
+import type { UnifiedStreamEvent } from '../ai-providers/interfaces/unified-types.interface.js';
+import { mapOpenAIStream, openStream, textDeltas } from '../ai-providers/utils/stream-events.js';
 
 // ════════════════════════════════════════════════════════════════════════════
 // 📊 Types & Interfaces
@@ -51,6 +53,7 @@ export interface ToolDefinition {
   name: string;
   description: string;
   parameters: Record<string, any>;
+  required?: string[]; // defaults to every parameter
 }
 
 export interface ToolCall {
@@ -777,31 +780,41 @@ export class OpenAIService {
     messages: Message[],
     options: ChatCompletionOptions = {}
   ): AsyncGenerator<string, void, unknown> {
+    try {
+      yield* textDeltas(this.chatCompletionEvents(messages, options));
+    } catch (error: any) {
+      console.error('OpenAI Stream Error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * أحداث البث الموحدة: نص، استدعاءات أدوات (بدون تنفيذها) واستهلاك
+   */
+  async *chatCompletionEvents(
+    messages: Message[],
+    options: ChatCompletionOptions = {},
+    tools: ToolDefinition[] = []
+  ): AsyncGenerator<UnifiedStreamEvent, void, unknown> {
     const model = this.modelSelector.selectOptimalModel(
       messages[messages.length - 1]?.content || '',
       options,
       messages.length
     );
 
-    try {
-      const stream = await this.client.chat.completions.create({
-        model,
-        messages: messages.map((m) => ({ role: m.role, content: m.content })),
-        max_tokens: options.maxTokens || 4096,
-        temperature: options.temperature || 0.7,
-        stream: true,
-      });
-
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content;
-        if (content) {
-          yield content;
-        }
-      }
-    } catch (error: any) {
-      console.error('OpenAI Stream Error:', error);
-      throw error;
-    }
+    yield* mapOpenAIStream(
+      openStream(() =>
+        this.client.chat.completions.create({
+          model,
+          messages: messages.map((m) => ({ role: m.role, content: m.content })),
+          max_tokens: options.maxTokens || 4096,
+          temperature: options.temperature || 0.7,
+          ...(tools.length > 0 && { tools: this.adaptToolsForOpenAI(tools) }),
+          stream: true,
+          stream_options: { include_usage: true },
+        })
+      )
+    );
   }
 
   // ════════════════════════════════════════════════════════════════════════
@@ -817,7 +830,7 @@ export class OpenAIService {
         parameters: {
           type: 'object',
           properties: tool.parameters,
-          required: Object.keys(tool.parameters),
+          required: tool.required ?? Object.keys(tool.parameters),
         },
       },
     }));
@@ -6,6 +6,24 @@ import Anthropic from '@anthropic-ai/sdk';
 import OpenAI from 'openai';
 import { GoogleGenerativeAI, SchemaType } from '@google/generative-ai';
 import { Ollama } from 'ollama';
+import {
+  getBudgetGuard,
+  pricedEstimator,
+  type BudgetAuthorization,
+  type BudgetCandidate,
+  type CostEstimator,
+} from '../ai-providers/monitoring/cost-ledger.js';
+import { abortable, throwIfAborted } from '../core/abort.js';
+import type { UnifiedStreamEvent } from '../ai-providers/interfaces/unified-types.interface.js';
+import type { ProviderCapabilities } from '../ai-providers/interfaces/iai-provider.interface.js';
+import { getContextWindow } from '../ai-providers/utils/tokenizer.js';
+import {
+  mapAnthropicStream,
+  mapGeminiStream,
+  mapOllamaStream,
+  mapOpenAIStream,
+  openStream,
+} from '../ai-providers/utils/stream-events.js';
 
 // ═══════════════════════════════════════════════════════
 // 📋 Types - الأنواع الموحدة
@@ -22,6 +40,7 @@ export interface UnifiedToolDefinition {
   name: string;
   description: string;
   parameters: Record<string, any>;
+  required?: string[]; // defaults to every parameter
 }
 
 export interface ToolCall {
@@ -35,6 +54,7 @@ export interface UnifiedRequest {
   tools?: UnifiedToolDefinition[];
   maxTokens?: number;
   temperature?: number;
+  signal?: AbortSignal; // cancels the request (and an open stream)
 }
 
 export interface UnifiedResponse {
@@ -44,6 +64,30 @@ export interface UnifiedResponse {
   provider: AIProvider;
   model: string;
   cost: number;
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+// النموذج المستخدم لكل مزود وسعره لكل مليون توكن (إدخال/إخراج)
+const PROVIDER_MODELS: Record<Exclude<AIProvider, 'auto'>, string> = {
+  claude: 'claude-3-5-haiku-20241022',
+  openai: 'gpt-4-turbo',
+  deepseek: 'deepseek-chat',
+  gemini: 'gemini-2.0-flash-exp',
+  ollama: 'llama3.2',
+};
+
+const PROVIDER_PRICES: Record<Exclude<AIProvider, 'auto'>, [number, number]> = {
+  claude: [3.0, 15.0],
+  openai: [10.0, 30.0], // GPT-4 Turbo
+  deepseek: [0.14, 0.28],
+  gemini: [0.1, 0.4], // Gemini 2.0 Flash
+  ollama: [0, 0], // مجاني!
+};
+
+function providerCost(provider: AIProvider, inputTokens: number, outputTokens: number): number {
+  if (provider === 'auto') return 0;
+  const [input, output] = PROVIDER_PRICES[provider];
+  return (inputTokens * input + outputTokens * output) / 1_000_000;
 }
 
 // ═══════════════════════════════════════════════════════
@@ -56,6 +100,7 @@ class AIProviderAdapter {
   private deepseekClient?: OpenAI;
   private geminiClient?: GoogleGenerativeAI;
   private ollamaClient?: Ollama;
+  private budgetGuard = getBudgetGuard();
 
   constructor(config: {
     claude?: string;
@@ -91,6 +136,35 @@ class AIProviderAdapter {
   async send(
     provider: AIProvider,
     request: UnifiedRequest
+  ): Promise<UnifiedResponse> {
+    // فحص الميزانية قبل الإرسال، ثم تسجيل التكلفة الفعلية (~/.oqool/costs.jsonl)
+    const authorization = await this.budgetGuard.authorize(
+      this.budgetCandidate(provider),
+      request.messages
+    );
+    const response = await this.dispatch(provider, request);
+
+    await this.budgetGuard
+      .settle(authorization, {
+        usage: response.usage && {
+          ...response.usage,
+          totalTokens: response.usage.inputTokens + response.usage.outputTokens,
+        },
+        metadata: { model: response.model, cost: response.cost },
+      })
+      .catch(() => undefined);
+
+    return response;
+  }
+
+  private budgetCandidate(provider: AIProvider): BudgetCandidate<CostEstimator> {
+    const prices: [number, number] = provider === 'auto' ? [0, 0] : PROVIDER_PRICES[provider];
+    return { name: provider, provider: pricedEstimator(prices) };
+  }
+
+  private async dispatch(
+    provider: AIProvider,
+    request: UnifiedRequest
   ): Promise<UnifiedResponse> {
     switch (provider) {
       case 'claude':
@@ -118,25 +192,202 @@ class AIProviderAdapter {
     }
   }
 
-  // ─────────────────────────────────────────────────────
-  // 🔵 Claude Adapter
-  // ─────────────────────────────────────────────────────
+  // ═══════════════════════════════════════════════════════
+  // 🌊 البث الموحد - نفس الأحداث لكل المزودين
+  // ═══════════════════════════════════════════════════════
 
-  private async sendToClaude(request: UnifiedRequest): Promise<UnifiedResponse> {
-    // 1. استخراج system prompt
+  async *stream(
+    provider: AIProvider,
+    request: UnifiedRequest
+  ): AsyncGenerator<UnifiedStreamEvent> {
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let authorization: BudgetAuthorization<CostEstimator>;
+
+    try {
+      authorization = await this.budgetGuard.authorize(
+        this.budgetCandidate(provider),
+        request.messages
+      );
+      for await (const event of this.dispatchStream(provider, request)) {
+        if (event.type === 'usage') {
+          inputTokens = event.inputTokens;
+          outputTokens = event.outputTokens;
+        }
+        yield event;
+      }
+    } catch (error: any) {
+      // تجاوز الميزانية، أو مزود غير مُعد أو غير معروف
+      yield { type: 'error', error: error.message };
+      return;
+    }
+
+    if (provider === 'auto') return;
+    await this.budgetGuard
+      .settle(authorization, {
+        usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+        metadata: {
+          model: PROVIDER_MODELS[provider],
+          cost: providerCost(provider, inputTokens, outputTokens),
+        },
+      })
+      .catch(() => undefined);
+  }
+
+  private async *dispatchStream(
+    provider: AIProvider,
+    request: UnifiedRequest
+  ): AsyncGenerator<UnifiedStreamEvent> {
     const systemMessage = request.messages.find((m) => m.role === 'system');
     const userMessages = request.messages.filter((m) => m.role !== 'system');
+    const maxTokens = request.maxTokens || 4096;
+    const temperature = request.temperature || 0.7;
 
-    // 2. تحويل Tools لصيغة Claude
-    const claudeTools = request.tools?.map((tool) => ({
+    switch (provider) {
+      case 'claude': {
+        if (!this.claudeClient) throw new Error('Claude not configured');
+        const client = this.claudeClient;
+        yield* mapAnthropicStream(
+          openStream(() =>
+            client.messages.stream({
+              model: PROVIDER_MODELS.claude,
+              max_tokens: maxTokens,
+              temperature,
+              system: systemMessage?.content,
+              messages: userMessages.map((m) => ({
+                role: m.role as 'user' | 'assistant',
+                content: m.content,
+              })),
+              tools: this.toClaudeTools(request.tools),
+            }, { signal: request.signal })
+          )
+        );
+        return;
+      }
+
+      case 'openai':
+      case 'deepseek': {
+        const client = provider === 'openai' ? this.openaiClient : this.deepseekClient;
+        if (!client) {
+          throw new Error(`${provider === 'openai' ? 'OpenAI' : 'DeepSeek'} not configured`);
+        }
+        yield* mapOpenAIStream(
+          openStream(() =>
+            client.chat.completions.create({
+              model: PROVIDER_MODELS[provider],
+              max_tokens: maxTokens,
+              temperature,
+              messages: request.messages.map((m) => ({ role: m.role, content: m.content })),
+              tools: this.toOpenAITools(request.tools),
+              stream: true,
+              stream_options: { include_usage: true },
+            }, { signal: request.signal })
+          )
+        );
+        return;
+      }
+
+      case 'gemini': {
+        if (!this.geminiClient) throw new Error('Gemini not configured');
+        const model = this.geminiClient.getGenerativeModel({ model: PROVIDER_MODELS.gemini });
+        yield* mapGeminiStream(
+          openStream(async () => {
+            const result = await model.generateContentStream({
+              contents: userMessages.map((m) => ({
+                role: m.role === 'assistant' ? 'model' : 'user',
+                parts: [{ text: m.content }],
+              })),
+              systemInstruction: systemMessage?.content,
+              tools: this.toGeminiTools(request.tools),
+              generationConfig: { maxOutputTokens: maxTokens, temperature },
+            }, { signal: request.signal });
+            return result.stream;
+          })
+        );
+        return;
+      }
+
+      case 'ollama': {
+        if (!this.ollamaClient) throw new Error('Ollama not configured');
+        const client = this.ollamaClient;
+        throwIfAborted(request.signal);
+        yield* mapOllamaStream(
+          openStream(() =>
+            client.chat({
+              model: PROVIDER_MODELS.ollama,
+              messages: request.messages.map((m) => ({ role: m.role, content: m.content })),
+              tools: this.toOpenAITools(request.tools),
+              stream: true,
+            })
+          )
+        );
+        return;
+      }
+
+      default:
+        throw new Error(`Unknown provider: ${provider}`);
+    }
+  }
+
+  // ─────────────────────────────────────────────────────
+  // 🧰 تحويل الأدوات لصيغ المزودين
+  // ─────────────────────────────────────────────────────
+
+  private toClaudeTools(tools?: UnifiedToolDefinition[]) {
+    return tools?.map((tool) => ({
       name: tool.name,
       description: tool.description,
       input_schema: {
         type: 'object' as const,
         properties: tool.parameters,
-        required: Object.keys(tool.parameters),
+        required: tool.required ?? Object.keys(tool.parameters),
       },
     }));
+  }
+
+  private toOpenAITools(tools?: UnifiedToolDefinition[]) {
+    return tools?.map((tool) => ({
+      type: 'function' as const,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: {
+          type: 'object' as const,
+          properties: tool.parameters,
+          required: tool.required ?? Object.keys(tool.parameters),
+        },
+      },
+    }));
+  }
+
+  private toGeminiTools(tools?: UnifiedToolDefinition[]) {
+    if (!tools) return undefined;
+    return [
+      {
+        functionDeclarations: tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: {
+            type: SchemaType.OBJECT,
+            properties: tool.parameters,
+            required: tool.required ?? Object.keys(tool.parameters),
+          },
+        })),
+      },
+    ];
+  }
+
+  // ─────────────────────────────────────────────────────
+  // 🔵 Claude Adapter
+  // ─────────────────────────────────────────────────────
+
+  private async sendToClaude(request: UnifiedRequest): Promise<UnifiedResponse> {
+    // 1. استخراج system prompt
+    const systemMessage = request.messages.find((m) => m.role === 'system');
+    const userMessages = request.messages.filter((m) => m.role !== 'system');
+
+    // 2. تحويل Tools لصيغة Claude
+    const claudeTools = this.toClaudeTools(request.tools);
 
     // 3. تحويل Messages
     const claudeMessages = userMessages.map((m) => ({
@@ -146,13 +397,13 @@ class AIProviderAdapter {
 
     // 4. إرسال الطلب
     const response = await this.claudeClient!.messages.create({
-      model: 'claude-3-5-haiku-20241022',
+      model: PROVIDER_MODELS.claude,
       max_tokens: request.maxTokens || 4096,
       temperature: request.temperature || 0.7,
       system: systemMessage?.content,
       messages: claudeMessages,
       tools: claudeTools,
-    });
+    }, { signal: request.signal });
 
     // 5. معالجة الرد
     return this.normalizeClaudeResponse(response);
@@ -178,7 +429,7 @@ class AIProviderAdapter {
     // حساب التكلفة التقريبية
     const inputTokens = response.usage?.input_tokens || 0;
     const outputTokens = response.usage?.output_tokens || 0;
-    const cost = (inputTokens * 3.0 + outputTokens * 15.0) / 1_000_000;
+    const cost = providerCost('claude', inputTokens, outputTokens);
 
     return {
       text,
@@ -187,6 +438,7 @@ class AIProviderAdapter {
       provider: 'claude',
       model: response.model,
       cost,
+      usage: { inputTokens, outputTokens },
     };
   }
 
@@ -201,18 +453,7 @@ class AIProviderAdapter {
     const client = type === 'openai' ? this.openaiClient! : this.deepseekClient!;
 
     // 1. تحويل Tools لصيغة OpenAI
-    const openaiTools = request.tools?.map((tool) => ({
-      type: 'function' as const,
-      function: {
-        name: tool.name,
-        description: tool.description,
-        parameters: {
-          type: 'object' as const,
-          properties: tool.parameters,
-          required: Object.keys(tool.parameters),
-        },
-      },
-    }));
+    const openaiTools = this.toOpenAITools(request.tools);
 
     // 2. تحويل Messages (System في messages)
     const openaiMessages = request.messages.map((m) => ({
@@ -222,12 +463,12 @@ class AIProviderAdapter {
 
     // 3. إرسال الطلب
     const response = await client.chat.completions.create({
-      model: type === 'openai' ? 'gpt-4-turbo' : 'deepseek-chat',
+      model: PROVIDER_MODELS[type],
       max_tokens: request.maxTokens || 4096,
       temperature: request.temperature || 0.7,
       messages: openaiMessages as any,
       tools: openaiTools,
-    });
+    }, { signal: request.signal });
 
     // 4. معالجة الرد
     return this.normalizeOpenAIResponse(response, type);
@@ -253,12 +494,7 @@ class AIProviderAdapter {
     const inputTokens = response.usage?.prompt_tokens || 0;
     const outputTokens = response.usage?.completion_tokens || 0;
 
-    let cost = 0;
-    if (type === 'openai') {
-      cost = (inputTokens * 10.0 + outputTokens * 30.0) / 1_000_000; // GPT-4 Turbo
-    } else {
-      cost = (inputTokens * 0.14 + outputTokens * 0.28) / 1_000_000; // DeepSeek
-    }
+    const cost = providerCost(type, inputTokens, outputTokens);
 
     return {
       text,
@@ -267,6 +503,7 @@ class AIProviderAdapter {
       provider: type === 'openai' ? 'openai' : 'deepseek',
       model: response.model,
       cost,
+      usage: { inputTokens, outputTokens },
     };
   }
 
@@ -276,25 +513,11 @@ class AIProviderAdapter {
 
   private async sendToGemini(request: UnifiedRequest): Promise<UnifiedResponse> {
     const model = this.geminiClient!.getGenerativeModel({
-      model: 'gemini-2.0-flash-exp',
+      model: PROVIDER_MODELS.gemini,
     });
 
     // 1. تحويل Tools لصيغة Gemini
-    const geminiTools = request.tools
-      ? [
-          {
-            functionDeclarations: request.tools.map((tool) => ({
-              name: tool.name,
-              description: tool.description,
-              parameters: {
-                type: SchemaType.OBJECT,
-                properties: tool.parameters,
-                required: Object.keys(tool.parameters),
-              },
-            })),
-          },
-        ]
-      : undefined;
+    const geminiTools = this.toGeminiTools(request.tools);
 
     // 2. تحويل Messages لصيغة Gemini
     const systemMessage = request.messages.find((m) => m.role === 'system');
@@ -314,7 +537,7 @@ class AIProviderAdapter {
         maxOutputTokens: request.maxTokens || 4096,
         temperature: request.temperature || 0.7,
       },
-    });
+    }, { signal: request.signal });
 
     // 4. معالجة الرد
     return this.normalizeGeminiResponse(result);
@@ -343,15 +566,16 @@ class AIProviderAdapter {
     // حساب التكلفة التقريبية
     const inputTokens = response.usageMetadata?.promptTokenCount || 0;
     const outputTokens = response.usageMetadata?.candidatesTokenCount || 0;
-    const cost = (inputTokens * 0.1 + outputTokens * 0.4) / 1_000_000; // Gemini 2.0 Flash
+    const cost = providerCost('gemini', inputTokens, outputTokens);
 
     return {
       text,
       toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
       needsToolResults: toolCalls.length > 0,
       provider: 'gemini',
-      model: 'gemini-2.0-flash-exp',
+      model: PROVIDER_MODELS.gemini,
       cost,
+      usage: { inputTokens, outputTokens },
     };
   }
 
@@ -370,22 +594,26 @@ class AIProviderAdapter {
       content: msg.content,
     }));
 
-    // استدعاء Ollama
-    const response = await this.ollamaClient!.chat({
-      model: 'llama3.2', // النموذج الافتراضي
-      messages: systemMessage
-        ? [{ role: 'system', content: systemMessage.content }, ...messages]
-        : messages,
-      stream: false,
-    });
+    // استدعاء Ollama (مكتبته لا تقبل signal لكل طلب، فنتوقف عن الانتظار فقط)
+    const response = await abortable(
+      this.ollamaClient!.chat({
+        model: PROVIDER_MODELS.ollama, // النموذج الافتراضي
+        messages: systemMessage
+          ? [{ role: 'system', content: systemMessage.content }, ...messages]
+          : messages,
+        stream: false,
+      }),
+      request.signal
+    );
 
     return {
       text: response.message.content,
       toolCalls: undefined, // Ollama tools تحتاج تكامل إضافي
       needsToolResults: false,
       provider: 'ollama',
-      model: 'llama3.2',
+      model: PROVIDER_MODELS.ollama,
       cost: 0, // مجاني!
+      usage: { inputTokens: response.prompt_eval_count, outputTokens: response.eval_count },
     };
   }
 }
@@ -421,6 +649,26 @@ export class UnifiedAIAdapterWithTools {
     return await this.adapter.send(selectedProvider, { messages });
   }
 
+  getDefaultProvider(): AIProvider {
+    return this.defaultProvider;
+  }
+
+  /**
+   * قدرات المزود كما يستدعيه هذا المحول (نموذجه ونافذة سياقه)
+   */
+  getCapabilities(provider: AIProvider = this.defaultProvider): ProviderCapabilities {
+    const model = provider === 'auto' ? '' : PROVIDER_MODELS[provider];
+    return {
+      supportsTools: provider !== 'ollama', // Ollama tools تحتاج تكامل إضافي
+      supportsStreaming: true,
+      supportsVision: false,
+      availableModels: model ? [model] : [],
+      maxTokens: 4096, // max_tokens الافتراضي لكل طلب
+      maxToolsPerCall: 10,
+      contextWindow: getContextWindow(provider, model),
+    };
+  }
+
   // ═══════════════════════════════════════════════════════
   // 🎭 معالجة مع شخصية (للـ Agents)
   // ═══════════════════════════════════════════════════════
@@ -473,7 +721,8 @@ export class UnifiedAIAdapterWithTools {
   async chatWithTools(
     messages: Message[],
     tools: UnifiedToolDefinition[],
-    provider?: AIProvider
+    provider?: AIProvider,
+    signal?: AbortSignal
   ): Promise<UnifiedResponse> {
     // اختيار المزود - إذا طلب tools، استخدم مزود يدعمها
     let selectedProvider = provider || this.selectProviderForTools();
@@ -481,9 +730,30 @@ export class UnifiedAIAdapterWithTools {
     return await this.adapter.send(selectedProvider, {
       messages,
       tools,
+      signal,
     });
   }
 
+  // ═══════════════════════════════════════════════════════
+  // 🌊 بث موحد (نص + استدعاءات أدوات + استهلاك)
+  // ═══════════════════════════════════════════════════════
+
+  stream(
+    messages: Message[],
+    options: {
+      tools?: UnifiedToolDefinition[];
+      provider?: AIProvider;
+      maxTokens?: number;
+      signal?: AbortSignal;
+    } = {}
+  ): AsyncGenerator<UnifiedStreamEvent> {
+    const { tools, provider, maxTokens, signal } = options;
+    const hasTools = !!tools && tools.length > 0;
+    const selectedProvider =
+      provider || (hasTools ? this.selectProviderForTools() : this.defaultProvider);
+    return this.adapter.stream(selectedProvider, { messages, tools, maxTokens, signal });
+  }
+
   // ═══════════════════════════════════════════════════════
   // 🔄 معالجة Loop كامل مع Tools
   // ═══════════════════════════════════════════════════════
@@ -493,7 +763,8 @@ export class UnifiedAIAdapterWithTools {
     tools: UnifiedToolDefinition[],
     toolExecutor: (name: string, args: any) => Promise<string>,
     maxIterations: number = 10,
-    provider?: AIProvider
+    provider?: AIProvider,
+    signal?: AbortSignal
   ): Promise<{ text: string; iterations: number; totalCost: number }> {
     const conversationHistory = [...messages];
     let iterations = 0;
@@ -501,9 +772,10 @@ export class UnifiedAIAdapterWithTools {
 
     while (iterations < maxIterations) {
       iterations++;
+      throwIfAborted(signal);
 
       // 1. إرسال الطلب
-      const response = await this.chatWithTools(conversationHistory, tools, provider);
+      const response = await this.chatWithTools(conversationHistory, tools, provider, signal);
       totalCost += response.cost;
 
       // 2. إذا لا توجد tool calls، انتهينا
@@ -521,6 +793,7 @@ export class UnifiedAIAdapterWithTools {
         console.log(`🔧 تنفيذ: ${toolCall.name}(${JSON.stringify(toolCall.arguments)})`);
         const result = await toolExecutor(toolCall.name, toolCall.arguments);
         toolResults.push(result);
+        throwIfAborted(signal);
       }
 
       // 4. إضافة النتائج للمحادثة
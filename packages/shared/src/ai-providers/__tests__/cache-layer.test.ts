@@ -0,0 +1,124 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Cache Layer Tests - اختبارات الكاش الدلالي
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CacheLayer, readCacheStats } from '../cache-layer';
+import { HashingEmbeddingProvider } from '../../vector/embedding-providers';
+
+let root: string;
+
+// يمثل نموذج تضمين حقيقياً: hashing نفسه لا يفعّل التطابق الدلالي
+const hashing = new HashingEmbeddingProvider();
+const embeddings = { id: 'test-embeddings', embed: (texts: string[]) => hashing.embed(texts) };
+
+const answer = (content: string, cost = 0.02) => ({
+  content,
+  cost,
+  provider: 'claude',
+  timestamp: Date.now(),
+});
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'oqool-cache-'));
+});
+
+afterEach(async () => {
+  await fs.remove(root);
+});
+
+describe('CacheLayer', () => {
+  test('answers near-duplicate prompts within the same conversation context', async () => {
+    const cache = new CacheLayer({ projectRoot: root, semantic: true, embeddings });
+    await cache.saveToCache('explain the useEffect cleanup function in React', answer('cleanup'));
+
+    const similar = await cache.checkCache('Explain the React useEffect cleanup function');
+    expect(similar).toMatchObject({ content: 'cleanup', provider: 'claude' });
+    expect(similar!.similarity).toBeGreaterThan(0.92);
+    expect(similar!.similarity).toBeLessThan(1);
+
+    expect(await cache.checkCache('write a binary search in rust')).toBeNull();
+    expect(
+      await cache.checkCache('explain the useEffect cleanup function in React', {
+        context: 'another conversation',
+      })
+    ).toBeNull();
+
+    expect(cache.getStats()).toMatchObject({
+      hits: 1,
+      semanticHits: 1,
+      misses: 2,
+      savings: '$0.0200',
+    });
+  });
+
+  test('never answers prompts that differ in numbers or identifiers', async () => {
+    const cache = new CacheLayer({ projectRoot: root, semantic: true, embeddings });
+    const pairs = [
+      ['write a function that returns 5', 'write a function that returns 7'],
+      ['set the request timeout to 1 second', 'set the request timeout to 9 second'],
+      ['convert x to y', 'convert y to x'],
+      ['rename getUser to fetchUser', 'rename getUsers to fetchUser'],
+    ];
+
+    for (const [saved, asked] of pairs) {
+      await cache.saveToCache(saved, answer(saved));
+      expect(await cache.checkCache(asked)).toBeNull();
+    }
+    expect(cache.getStats()).toMatchObject({ hits: 0, semanticHits: 0 });
+  });
+
+  test('serves exact matches only unless semantic hits are enabled with a real model', async () => {
+    const prompt = 'explain the useEffect cleanup function in React';
+    const near = 'Explain the React useEffect cleanup function';
+
+    for (const options of [{}, { semantic: true }, { semantic: true, embeddings: hashing }]) {
+      const cache = new CacheLayer({ projectRoot: root, ...options });
+      await cache.saveToCache(prompt, answer('cleanup'));
+      expect(await cache.checkCache(near)).toBeNull();
+      expect(await cache.checkCache(prompt)).toMatchObject({ content: 'cleanup' });
+    }
+  });
+
+  test('drops answers when a referenced file changes or the task TTL passes', async () => {
+    await fs.outputFile(path.join(root, 'src/api.ts'), 'export const a = 1;');
+    await fs.outputFile(path.join(root, 'src/db.ts'), 'export const b = 2;');
+    const cache = new CacheLayer({ projectRoot: root, ttl: { complex: 0 } });
+
+    await cache.saveToCache('review src/api.ts for bugs', answer('looks fine'));
+    await cache.saveToCache('design a plugin system', answer('plan'), { taskType: 'complex' });
+
+    // same words, different file: never a semantic hit
+    expect(await cache.checkCache('review src/db.ts for bugs')).toBeNull();
+    expect(await cache.checkCache('review src/api.ts for bugs')).toMatchObject({
+      files: { [path.join('src', 'api.ts')]: expect.any(String) },
+    });
+
+    await fs.outputFile(path.join(root, 'src/api.ts'), 'export const a = 2;');
+    expect(await cache.checkCache('review src/api.ts for bugs')).toBeNull();
+    expect(await cache.checkCache('design a plugin system')).toBeNull();
+    expect(cache.getStats()).toMatchObject({ hits: 1, invalidations: 1, storedEntries: 0 });
+  });
+
+  test('persists entries and stats in .oqool/cache across instances', async () => {
+    const first = new CacheLayer({ projectRoot: root, persist: true });
+    await first.saveToCache('how do I configure eslint with prettier', answer('use the plugin'));
+    await first.checkCache('something unrelated entirely');
+    await first.flush();
+
+    const second = new CacheLayer({ projectRoot: root, persist: true });
+    const cached = await second.checkCache('how do I configure eslint with prettier');
+    await second.flush();
+
+    expect(cached?.content).toBe('use the plugin');
+    expect(await readCacheStats(root)).toMatchObject({ hits: 1, misses: 1, savings: 0.02 });
+
+    await second.clear();
+    const third = new CacheLayer({ projectRoot: root, persist: true });
+    expect(await third.checkCache('how do I configure eslint with prettier')).toBeNull();
+    await third.flush();
+  });
+});
@@ -0,0 +1,109 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Cassette Tests - اختبارات التسجيل وإعادة التشغيل
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CassetteMissError, CassetteProvider } from '../testing/cassette';
+import { ScriptedProvider } from '../testing/scripted-provider';
+import { ProviderFactory } from '../registry/provider-factory';
+import { collectStream } from '../utils/stream-events';
+import type { UnifiedTool } from '../interfaces/unified-types.interface';
+
+let dir: string;
+let cassette: string;
+
+const readFile: UnifiedTool = {
+  name: 'read_file',
+  description: 'Read a file',
+  parameters: { path: { type: 'string', description: 'File path' } },
+  execute: async () => '',
+};
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'oqool-cassette-'));
+  cassette = path.join(dir, 'claude.json');
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe('CassetteProvider', () => {
+  test('replays a recording without the provider, matching normalized content', async () => {
+    const live = new ScriptedProvider({
+      name: 'claude',
+      script: [
+        'مرحباً!',
+        { content: 'Reading', toolCalls: [{ name: 'read_file', arguments: { path: 'a.ts' } }] },
+      ],
+    });
+    const recorder = new CassetteProvider(live, { path: cassette, mode: 'record' });
+    await recorder.chat([{ role: 'user', content: 'قل مرحباً' }]);
+    await collectStream(
+      recorder.streamEvents([{ role: 'user', content: 'open a.ts' }], [readFile])
+    );
+    await recorder.flush();
+
+    const replay = new CassetteProvider(undefined, { path: cassette, mode: 'replay' });
+    const hello = await replay.chat([{ role: 'user', content: '  قل   مرحباً\n' }]);
+    expect(hello.content).toBe('مرحباً!');
+
+    // recorded as a stream, asked for as a chat: tool calls survive both ways
+    const withTools = await replay.chatWithTools(
+      [{ role: 'user', content: 'open a.ts' }],
+      [readFile]
+    );
+    expect(withTools.toolCalls).toMatchObject([{ name: 'read_file', arguments: { path: 'a.ts' } }]);
+    expect(live.calls).toHaveLength(2);
+
+    await expect(replay.chat([{ role: 'user', content: 'something new' }])).rejects.toBeInstanceOf(
+      CassetteMissError
+    );
+  });
+
+  test('auto mode records misses, replays hits and keeps recorded failures', async () => {
+    const live = new ScriptedProvider({
+      script: ['first', { error: 'rate limit', status: 429 }],
+    });
+    const auto = new CassetteProvider(live, { path: cassette, mode: 'auto' });
+    const question = [{ role: 'user' as const, content: 'q' }];
+
+    expect((await auto.chat(question)).content).toBe('first');
+    expect((await auto.chat(question)).content).toBe('first');
+    expect(live.calls).toHaveLength(1);
+
+    await expect(auto.chat([{ role: 'user', content: 'busy?' }])).rejects.toThrow('rate limit');
+    await auto.flush();
+
+    const replay = new CassetteProvider(undefined, { path: cassette, mode: 'replay' });
+    await expect(replay.chat([{ role: 'user', content: 'busy?' }])).rejects.toMatchObject({
+      status: 429,
+    });
+    expect((await fs.readJson(cassette)).interactions).toHaveLength(2);
+  });
+});
+
+describe('ScriptedProvider', () => {
+  test('is created by the factory and follows its script', async () => {
+    const fake = ProviderFactory.createProvider('fake', {
+      apiKey: '',
+      script: [(messages) => `echo: ${messages[messages.length - 1].content}`],
+    });
+
+    const response = await fake.chat([{ role: 'user', content: 'ping' }]);
+    expect(response).toMatchObject({ content: 'echo: ping', metadata: { provider: 'fake' } });
+    await expect(fake.chat([{ role: 'user', content: 'again' }])).rejects.toThrow('no step left');
+  });
+
+  test('streams failures as error events', async () => {
+    const fake = new ScriptedProvider({ script: [{ error: 'boom' }] });
+    const events = [];
+    for await (const event of fake.streamEvents([{ role: 'user', content: 'x' }])) {
+      events.push(event);
+    }
+    expect(events).toEqual([{ type: 'error', error: 'boom', retryable: false }]);
+  });
+});
@@ -0,0 +1,194 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Cost Ledger Tests - اختبارات سجل التكاليف والميزانيات
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {
+  BudgetExceededError,
+  BudgetGuard,
+  CostLedger,
+  costReportToCSV,
+  pricedEstimator,
+} from '../monitoring/cost-ledger';
+import type { IAIProvider } from '../interfaces/iai-provider.interface';
+import { UnifiedAIAdapterWithTools } from '../../ai-gateway/unified-ai-adapter';
+
+let dir: string;
+
+function fakeProvider(estimatedCost: number): IAIProvider {
+  return {
+    estimateCost: () => ({
+      estimatedInputTokens: 100,
+      estimatedOutputTokens: 50,
+      estimatedCost,
+      currency: 'USD',
+    }),
+  } as unknown as IAIProvider;
+}
+
+const messages = [{ role: 'user' as const, content: 'hello' }];
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'oqool-costs-'));
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe('CostLedger', () => {
+  test('persists entries with attribution and reports by group', async () => {
+    const ledger = new CostLedger({ dir, project: '/work/app', command: 'chat' });
+    await ledger.record({ provider: 'claude', model: 'haiku', cost: 0.02, inputTokens: 10 });
+    ledger.setContext({ command: 'god' });
+    await ledger.record({ provider: 'openai', model: 'gpt-4o', cost: 0.05, outputTokens: 5 });
+    await ledger.record({ provider: 'claude', model: 'haiku', cost: 0.01 });
+
+    // a second process sees the same ledger
+    const other = new CostLedger({ dir });
+    const byProvider = await other.report('provider');
+    expect(byProvider.map((row) => [row.key, row.calls])).toEqual([
+      ['openai', 1],
+      ['claude', 2],
+    ]);
+    expect((await other.report('command')).map((row) => row.key)).toEqual(['god', 'chat']);
+    expect(await other.read({ project: '/work/app' })).toHaveLength(3);
+
+    expect(costReportToCSV('provider', byProvider).split('\n')).toEqual([
+      'provider,calls,input_tokens,output_tokens,cost_usd',
+      'openai,1,0,5,0.050000',
+      'claude,2,10,0,0.030000',
+      '',
+    ]);
+  });
+
+  test('skips corrupted lines and picks up entries appended later', async () => {
+    const ledger = new CostLedger({ dir });
+    await ledger.record({ provider: 'claude', model: 'haiku', cost: 0.01 });
+    await fs.appendFile(path.join(dir, 'costs.jsonl'), '{not json\n');
+    expect(await ledger.read()).toHaveLength(1);
+
+    await new CostLedger({ dir }).record({ provider: 'gemini', model: 'flash', cost: 0.02 });
+    expect((await ledger.read()).map((entry) => entry.provider)).toEqual(['claude', 'gemini']);
+  });
+
+  test('checks daily and session budgets before spending', async () => {
+    const ledger = new CostLedger({ dir });
+    await ledger.saveBudgets({ daily: 0.1, session: 0.05, policy: 'block' });
+    await ledger.record({ provider: 'claude', model: 'haiku', cost: 0.04 });
+
+    expect((await ledger.checkBudget(0.005)).allowed).toBe(true);
+
+    const check = await ledger.checkBudget(0.02);
+    expect(check.allowed).toBe(false);
+    expect(check.exceeded).toEqual([{ period: 'session', limit: 0.05, spent: 0.04 }]);
+
+    // a new session only counts against the daily budget
+    expect((await new CostLedger({ dir }).checkBudget(0.02)).allowed).toBe(true);
+  });
+});
+
+describe('BudgetGuard', () => {
+  test('blocks, downgrades or asks depending on the policy', async () => {
+    const ledger = new CostLedger({ dir });
+    const guard = new BudgetGuard(ledger);
+    const claude = { name: 'claude', provider: fakeProvider(0.08) };
+    const deepseek = { name: 'deepseek', provider: fakeProvider(0.01) };
+
+    await ledger.saveBudgets({ session: 0.05, policy: 'block' });
+    await expect(guard.authorize(claude, messages, [deepseek])).rejects.toBeInstanceOf(
+      BudgetExceededError
+    );
+
+    await ledger.saveBudgets({ session: 0.05, policy: 'downgrade' });
+    const downgraded = await guard.authorize(claude, messages, [claude, deepseek]);
+    expect(downgraded).toMatchObject({ name: 'deepseek', downgradedFrom: 'claude' });
+
+    await guard.settle(downgraded, {
+      usage: { inputTokens: 120, outputTokens: 40, totalTokens: 160 },
+      metadata: {
+        provider: 'deepseek',
+        model: 'deepseek-chat',
+        cost: 0.012,
+        tokens: 160,
+        duration: 1,
+      },
+    });
+    expect(await ledger.read()).toMatchObject([
+      { provider: 'deepseek', cost: 0.012, inputTokens: 120, downgradedFrom: 'claude' },
+    ]);
+
+    await ledger.saveBudgets({ session: 0.05, policy: 'confirm' });
+    await expect(guard.authorize(claude, messages)).rejects.toBeInstanceOf(BudgetExceededError);
+    guard.setConfirmHandler(async () => true);
+    expect((await guard.authorize(claude, messages)).name).toBe('claude');
+  });
+
+  test('attributes settled calls to the caller metadata', async () => {
+    const ledger = new CostLedger({ dir });
+    const guard = new BudgetGuard(ledger);
+    const claude = { name: 'claude', provider: fakeProvider(0.01) };
+    const calls = [
+      ['tester', 0.001],
+      ['architect', 0.03],
+      ['tester', 0.002],
+    ] as const;
+
+    for (const [role, cost] of calls) {
+      await guard.settle(await guard.authorize(claude, messages), { metadata: { cost } }, { role });
+    }
+    await guard.settle(await guard.authorize(claude, messages), {});
+
+    expect((await ledger.report('role')).map((row) => [row.key, row.calls])).toEqual([
+      ['architect', 1],
+      ['unknown', 1],
+      ['tester', 2],
+    ]);
+    expect((await ledger.read())[0].metadata).toEqual({ role: 'tester' });
+  });
+});
+
+describe('UnifiedAIAdapterWithTools budget', () => {
+  test('checks the estimate before sending and records token counts after', async () => {
+    const ledger = new CostLedger({ dir });
+    const adapter = new UnifiedAIAdapterWithTools({ deepseek: 'sk-test' });
+    const inner = (adapter as any).adapter;
+    inner.budgetGuard = new BudgetGuard(ledger);
+
+    let sent = 0;
+    inner.deepseekClient = {
+      chat: {
+        completions: {
+          create: async () => {
+            sent++;
+            return {
+              model: 'deepseek-chat',
+              choices: [{ message: { content: 'hi' } }],
+              usage: { prompt_tokens: 1000, completion_tokens: 500 },
+            };
+          },
+        },
+      },
+    };
+
+    const prompt = [{ role: 'user' as const, content: 'x'.repeat(4000) }];
+    expect(pricedEstimator([0.14, 0.28]).estimateCost(prompt)).toMatchObject({
+      estimatedInputTokens: 1000,
+      estimatedOutputTokens: 500,
+    });
+
+    await ledger.saveBudgets({ session: 0.0001, policy: 'block' });
+    await expect(adapter.chat(prompt, 'deepseek')).rejects.toBeInstanceOf(BudgetExceededError);
+    expect(sent).toBe(0);
+
+    await ledger.saveBudgets({ session: 1, policy: 'block' });
+    await adapter.chat(prompt, 'deepseek');
+    expect(sent).toBe(1);
+    expect(await ledger.read()).toMatchObject([
+      { provider: 'deepseek', model: 'deepseek-chat', inputTokens: 1000, outputTokens: 500 },
+    ]);
+  });
+});
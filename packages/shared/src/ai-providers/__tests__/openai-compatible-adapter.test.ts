@@ -0,0 +1,171 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 OpenAI-Compatible Adapter Tests - اختبارات المحول المتوافق مع OpenAI
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { OpenAICompatibleAdapter } from '../adapters/openai-compatible-adapter';
+import { ProviderRegistry } from '../registry/provider-registry';
+import { ProviderSelector } from '../router/provider-selector';
+import { collectStream } from '../utils/stream-events';
+import type { UnifiedTool } from '../interfaces/unified-types.interface';
+
+let server: http.Server;
+let baseURL: string;
+const requests: any[] = [];
+
+const listFiles: UnifiedTool = {
+  name: 'list_files',
+  description: 'List a directory',
+  parameters: { dir: { type: 'string', description: 'Directory' } },
+  execute: async () => [],
+};
+
+function sse(res: http.ServerResponse, chunks: object[]): void {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  for (const chunk of chunks) res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+  res.end('data: [DONE]\n\n');
+}
+
+// a minimal vLLM / llama.cpp stand-in
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    if (req.url === '/v1/models') {
+      res.end(JSON.stringify({ data: [{ id: 'qwen-coder' }] }));
+      return;
+    }
+
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const body = JSON.parse(raw);
+      requests.push({ body, authorization: req.headers.authorization });
+
+      if (body.model === 'overloaded') {
+        res.writeHead(429).end('slow down');
+      } else if (body.stream) {
+        sse(res, [
+          { model: body.model, choices: [{ delta: { content: 'Listing' } }] },
+          {
+            choices: [
+              {
+                delta: {
+                  tool_calls: [
+                    {
+                      index: 0,
+                      id: 'c1',
+                      function: { name: 'list_files', arguments: '{"dir":"src"}' },
+                    },
+                  ],
+                },
+                finish_reason: 'tool_calls',
+              },
+            ],
+          },
+          { choices: [], usage: { prompt_tokens: 20, completion_tokens: 6 } },
+        ]);
+      } else {
+        res.end(
+          JSON.stringify({
+            model: body.model,
+            choices: [
+              {
+                message: {
+                  content: 'ok',
+                  tool_calls: body.tools && [
+                    { id: 'c2', function: { name: 'list_files', arguments: '{"dir":"."}' } },
+                  ],
+                },
+                finish_reason: body.tools ? 'tool_calls' : 'stop',
+              },
+            ],
+            usage: {
+              prompt_tokens: 1_000_000,
+              completion_tokens: 500_000,
+              total_tokens: 1_500_000,
+            },
+          })
+        );
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('OpenAICompatibleAdapter', () => {
+  test('chat with tools, configured pricing and no API key', async () => {
+    const adapter = new OpenAICompatibleAdapter({
+      name: 'vllm',
+      baseURL,
+      defaultModel: 'qwen-coder',
+      pricing: { 'qwen-coder': { input: 0.1, output: 0.2 } },
+    });
+
+    const response = await adapter.chatWithTools([{ role: 'user', content: 'ls' }], [listFiles]);
+
+    expect(response.toolCalls).toEqual([{ id: 'c2', name: 'list_files', arguments: { dir: '.' } }]);
+    expect(response.metadata).toMatchObject({ provider: 'vllm', model: 'qwen-coder' });
+    expect(response.metadata.cost).toBeCloseTo(0.2);
+    expect(requests[requests.length - 1].authorization).toBeUndefined();
+    expect(await adapter.validate()).toBe(true);
+  });
+
+  test('streams text and tool calls, and reports HTTP status on errors', async () => {
+    const adapter = new OpenAICompatibleAdapter({
+      name: 'llama',
+      baseURL,
+      apiKey: 'local-key',
+      defaultModel: 'qwen-coder',
+    });
+
+    const collected = await collectStream(
+      adapter.streamEvents([{ role: 'user', content: 'ls src' }], [listFiles])
+    );
+    expect(collected).toMatchObject({
+      content: 'Listing',
+      toolCalls: [{ id: 'c1', name: 'list_files', arguments: { dir: 'src' } }],
+      usage: { inputTokens: 20, outputTokens: 6 },
+    });
+    expect(requests[requests.length - 1]).toMatchObject({
+      authorization: 'Bearer local-key',
+      body: { stream: true, stream_options: { include_usage: true } },
+    });
+
+    await expect(
+      adapter.chat([{ role: 'user', content: 'hi' }], { model: 'overloaded' })
+    ).rejects.toMatchObject({ statusCode: 429 });
+  });
+
+  test('is registered by name and routable by ProviderSelector', async () => {
+    const registry = new ProviderRegistry();
+    const local = registry.registerOpenAICompatible({
+      name: 'lmstudio',
+      baseURL,
+      defaultModel: 'qwen-coder',
+      capabilities: { contextWindow: 32_768 },
+    });
+    const noTools = new OpenAICompatibleAdapter({
+      name: 'tiny',
+      baseURL,
+      defaultModel: 'tiny',
+      capabilities: { tools: false },
+    });
+
+    const selector = new ProviderSelector(() => undefined);
+    selector.registerProvider('lmstudio', registry.getProvider('lmstudio'));
+    selector.registerProvider('tiny', noTools);
+
+    const result = await selector.select(
+      { messages: [{ role: 'user', content: 'refactor this' }] },
+      { requiredCapabilities: { toolCalling: true, contextWindow: 16_000 } }
+    );
+    expect(result.selected.provider).toBe('lmstudio');
+    expect(local.getCapabilities().maxToolsPerCall).toBeGreaterThan(0);
+  });
+});
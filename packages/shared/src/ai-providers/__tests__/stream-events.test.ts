@@ -0,0 +1,220 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Stream Events Tests - اختبارات بروتوكول البث الموحد
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  collectStream,
+  mapAnthropicStream,
+  mapGeminiStream,
+  mapOllamaStream,
+  mapOpenAIStream,
+  openStream,
+  parseSSE,
+  StreamChannel,
+  textDeltas,
+} from '../utils/stream-events';
+import type { UnifiedStreamEvent } from '../interfaces/unified-types.interface';
+
+async function* from<T>(items: T[], failWith?: Error): AsyncGenerator<T> {
+  for (const item of items) yield item;
+  if (failWith) throw failWith;
+}
+
+async function drain<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) result.push(item);
+  return result;
+}
+
+describe('provider mappers', () => {
+  test('Anthropic: text, tool_use with partial JSON, usage', async () => {
+    const events = await drain(
+      mapAnthropicStream(
+        from([
+          {
+            type: 'message_start',
+            message: { model: 'claude-x', usage: { input_tokens: 12, output_tokens: 1 } },
+          },
+          { type: 'content_block_start', index: 0, content_block: { type: 'text' } },
+          { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hi' } },
+          { type: 'content_block_stop', index: 0 },
+          {
+            type: 'content_block_start',
+            index: 1,
+            content_block: { type: 'tool_use', id: 'tu_1', name: 'read_file' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 1,
+            delta: { type: 'input_json_delta', partial_json: '{"path":' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 1,
+            delta: { type: 'input_json_delta', partial_json: '"a.ts"}' },
+          },
+          { type: 'content_block_stop', index: 1 },
+          {
+            type: 'message_delta',
+            delta: { stop_reason: 'tool_use' },
+            usage: { output_tokens: 9 },
+          },
+        ])
+      )
+    );
+
+    expect(events).toEqual([
+      { type: 'text_delta', text: 'Hi' },
+      { type: 'tool_call_start', id: 'tu_1', name: 'read_file', index: 0 },
+      { type: 'tool_call_delta', id: 'tu_1', argumentsDelta: '{"path":' },
+      { type: 'tool_call_delta', id: 'tu_1', argumentsDelta: '"a.ts"}' },
+      { type: 'tool_call_end', id: 'tu_1', name: 'read_file', arguments: { path: 'a.ts' } },
+      { type: 'usage', inputTokens: 12, outputTokens: 9, model: 'claude-x' },
+      { type: 'done', stopReason: 'tool_use' },
+    ]);
+  });
+
+  test('OpenAI: tool call deltas by index and usage in the last chunk', async () => {
+    const events = await drain(
+      mapOpenAIStream(
+        from([
+          {
+            model: 'gpt-x',
+            choices: [
+              {
+                delta: {
+                  tool_calls: [
+                    { index: 0, id: 'c1', function: { name: 'list_files', arguments: '{"dir"' } },
+                  ],
+                },
+              },
+            ],
+          },
+          {
+            choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: ':"."}' } }] } }],
+          },
+          { choices: [{ delta: {}, finish_reason: 'tool_calls' }] },
+          { choices: [], usage: { prompt_tokens: 30, completion_tokens: 7 } },
+        ])
+      )
+    );
+
+    expect(events).toEqual([
+      { type: 'tool_call_start', id: 'c1', name: 'list_files', index: 0 },
+      { type: 'tool_call_delta', id: 'c1', argumentsDelta: '{"dir"' },
+      { type: 'tool_call_delta', id: 'c1', argumentsDelta: ':"."}' },
+      { type: 'tool_call_end', id: 'c1', name: 'list_files', arguments: { dir: '.' } },
+      { type: 'usage', inputTokens: 30, outputTokens: 7, model: 'gpt-x' },
+      { type: 'done', stopReason: 'tool_calls' },
+    ]);
+  });
+
+  test('Gemini and Ollama: whole function calls get generated ids', async () => {
+    const gemini = await collectStream(
+      mapGeminiStream(
+        from([
+          { candidates: [{ content: { parts: [{ text: 'Let me look' }] } }] },
+          {
+            candidates: [
+              {
+                content: { parts: [{ functionCall: { name: 'read_file', args: { path: 'x' } } }] },
+                finishReason: 'STOP',
+              },
+            ],
+            usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 3 },
+          },
+        ])
+      )
+    );
+    expect(gemini).toMatchObject({
+      content: 'Let me look',
+      toolCalls: [{ id: 'call_0', name: 'read_file', arguments: { path: 'x' } }],
+      usage: { inputTokens: 5, outputTokens: 3, totalTokens: 8 },
+      stopReason: 'STOP',
+    });
+
+    const ollama = await collectStream(
+      mapOllamaStream(
+        from([
+          { model: 'llama', message: { content: 'Hel' } },
+          { model: 'llama', message: { content: 'lo' } },
+          { done: true, done_reason: 'stop', prompt_eval_count: 4, eval_count: 2 },
+        ])
+      )
+    );
+    expect(ollama).toMatchObject({ content: 'Hello', model: 'llama', stopReason: 'stop' });
+  });
+
+  test('a failing stream becomes an error event instead of throwing', async () => {
+    const events = await drain(
+      mapOpenAIStream(
+        openStream(() => from([{ choices: [{ delta: { content: 'par' } }] }], new Error('429')))
+      )
+    );
+    expect(events).toEqual([
+      { type: 'text_delta', text: 'par' },
+      { type: 'error', error: '429' },
+    ]);
+
+    const refused = await drain(
+      mapAnthropicStream(
+        openStream(() => {
+          throw new Error('invalid x-api-key');
+        })
+      )
+    );
+    expect(refused).toEqual([{ type: 'error', error: 'invalid x-api-key' }]);
+
+    await expect(drain(textDeltas(from(events)))).rejects.toThrow('429');
+  });
+
+  test('malformed tool arguments are passed through as a string', async () => {
+    const events = await drain(
+      mapOpenAIStream(
+        from([
+          {
+            choices: [
+              {
+                delta: {
+                  tool_calls: [{ index: 0, id: 'c1', function: { name: 'x', arguments: '{' } }],
+                },
+              },
+            ],
+          },
+        ])
+      )
+    );
+    expect(events).toContainEqual({ type: 'tool_call_end', id: 'c1', name: 'x', arguments: '{' });
+  });
+});
+
+describe('parseSSE', () => {
+  test('splits data lines across chunks and stops at [DONE]', async () => {
+    const encoder = new TextEncoder();
+    const body = from([
+      encoder.encode('data: {"a":1}\n\n: keep-alive\ndata: {"a"'),
+      ':2}\n\n',
+      encoder.encode('data: [DONE]\n\ndata: {"a":3}\n'),
+    ]);
+    expect(await drain(parseSSE(body))).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+});
+
+describe('StreamChannel', () => {
+  test('buffers pushes until the consumer catches up and ends on close', async () => {
+    const channel = new StreamChannel<UnifiedStreamEvent>();
+    channel.push({ type: 'text_delta', text: 'a' });
+
+    const consumed = drain(channel);
+    await Promise.resolve();
+    channel.push({ type: 'text_delta', text: 'b' });
+    channel.close();
+    channel.push({ type: 'text_delta', text: 'ignored' });
+
+    expect(await consumed).toEqual([
+      { type: 'text_delta', text: 'a' },
+      { type: 'text_delta', text: 'b' },
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Tokenizer Tests - اختبارات عدّ التوكنز
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect } from '@jest/globals';
+import { getContextWindow, HeuristicTokenizer, loadTokenizer } from '../utils/tokenizer';
+
+describe('loadTokenizer', () => {
+  test('counts OpenAI models exactly with their encoding', async () => {
+    const gpt4 = await loadTokenizer('openai', 'gpt-4-turbo');
+    const gpt4o = await loadTokenizer('openai', 'gpt-4o-mini');
+
+    expect(gpt4).toMatchObject({ id: 'cl100k_base', exact: true });
+    expect(gpt4o).toMatchObject({ id: 'o200k_base', exact: true });
+    expect(gpt4.count('hello world')).toBe(2);
+    expect(gpt4.count('')).toBe(0);
+    // special tokens in user content are plain text, not a crash
+    expect(gpt4.count('<|endoftext|>')).toBeGreaterThan(1);
+  });
+
+  test('approximates Claude and Gemini on the safe side of cl100k', async () => {
+    const code = 'export function add(a: number, b: number): number {\n  return a + b;\n}\n';
+    const openai = await loadTokenizer('openai', 'gpt-4');
+    const claude = await loadTokenizer('claude', 'claude-3-5-sonnet-20241022');
+    const gemini = await loadTokenizer('gemini', 'gemini-1.5-pro');
+
+    expect(claude.exact).toBe(false);
+    expect(claude.count(code)).toBeGreaterThan(openai.count(code));
+    expect(gemini.count(code)).toBeGreaterThan(openai.count(code));
+  });
+
+  test('falls back to the heuristic for local and unknown providers', async () => {
+    expect((await loadTokenizer('ollama', 'llama3.2')).id).toBe('heuristic');
+    expect((await loadTokenizer('something-else')).id).toBe('heuristic');
+
+    const heuristic = new HeuristicTokenizer();
+    expect(heuristic.count('abcdefgh')).toBe(2);
+    expect(heuristic.count('مرحبا')).toBe(3);
+  });
+});
+
+describe('getContextWindow', () => {
+  test('matches the most specific model prefix', () => {
+    expect(getContextWindow('claude', 'claude-3-haiku-20240307')).toBe(200_000);
+    expect(getContextWindow('openai', 'gpt-4o-mini')).toBe(128_000);
+    expect(getContextWindow('openai', 'gpt-4')).toBe(8_192);
+    expect(getContextWindow('openai', 'o1-mini')).toBe(128_000);
+    expect(getContextWindow('gemini', 'gemini-1.5-pro-latest')).toBe(2_097_152);
+    expect(getContextWindow('ollama', 'llama3.2')).toBe(4_096);
+  });
+});
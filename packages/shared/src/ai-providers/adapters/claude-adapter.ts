@@ -1,8 +1,20 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { BaseAdapter } from './base-adapter';
-import { ProviderCapabilities, PricingInfo } from '../interfaces/iai-provider.interface';
-import { UnifiedMessage, UnifiedTool, UnifiedResponse, UnifiedToolCall } from '../interfaces/unified-types.interface';
+import {
+  ProviderCapabilities,
+  PricingInfo,
+  RequestOptions,
+} from '../interfaces/iai-provider.interface';
+import {
+  UnifiedMessage,
+  UnifiedTool,
+  UnifiedResponse,
+  UnifiedToolCall,
+  UnifiedStreamEvent
+} from '../interfaces/unified-types.interface';
 import { ErrorHandler } from '../utils/error-handler';
+import { getContextWindow } from '../utils/tokenizer';
+import { mapAnthropicStream, openStream, textDeltas } from '../utils/stream-events';
 
 export class ClaudeAdapter extends BaseAdapter {
   private client: Anthropic;
@@ -13,7 +25,7 @@ export class ClaudeAdapter extends BaseAdapter {
     this.defaultModel = config.defaultModel || 'claude-3-haiku-20240307';
   }
 
-  async chat(messages: UnifiedMessage[]): Promise<UnifiedResponse> {
+  async chat(messages: UnifiedMessage[], options: RequestOptions = {}): Promise<UnifiedResponse> {
     const startTime = Date.now();
 
     try {
@@ -25,7 +37,7 @@ export class ClaudeAdapter extends BaseAdapter {
         messages: claudeMessages,
         system: systemMessage || undefined,
         max_tokens: 4096
-      });
+      }, { signal: options.signal });
 
       const duration = Date.now() - startTime;
       return this.fromClaudeFormat(response, duration);
@@ -34,7 +46,11 @@ export class ClaudeAdapter extends BaseAdapter {
     }
   }
 
-  async chatWithTools(messages: UnifiedMessage[], tools: UnifiedTool[]): Promise<UnifiedResponse> {
+  async chatWithTools(
+    messages: UnifiedMessage[],
+    tools: UnifiedTool[],
+    options: RequestOptions = {}
+  ): Promise<UnifiedResponse> {
     const startTime = Date.now();
 
     try {
@@ -48,7 +64,7 @@ export class ClaudeAdapter extends BaseAdapter {
         system: systemMessage || undefined,
         tools: claudeTools,
         max_tokens: 4096
-      });
+      }, { signal: options.signal });
 
       const duration = Date.now() - startTime;
       return this.fromClaudeFormat(response, duration);
@@ -57,22 +73,28 @@ export class ClaudeAdapter extends BaseAdapter {
     }
   }
 
-  async *streamChat(messages: UnifiedMessage[]): AsyncGenerator<string> {
+  async *streamChat(
+    messages: UnifiedMessage[],
+    options: RequestOptions = {}
+  ): AsyncGenerator<string> {
+    yield* textDeltas(this.streamEvents(messages, undefined, options));
+  }
+
+  async *streamEvents(
+    messages: UnifiedMessage[],
+    tools?: UnifiedTool[],
+    options: RequestOptions = {}
+  ): AsyncGenerator<UnifiedStreamEvent> {
     const claudeMessages = this.toClaudeFormat(messages);
     const systemMessage = this.extractSystemMessage(messages);
 
-    const stream = await this.client.messages.stream({
+    yield* mapAnthropicStream(openStream(() => this.client.messages.stream({
       model: this.defaultModel,
       messages: claudeMessages,
       system: systemMessage || undefined,
+      ...(tools && tools.length > 0 && { tools: this.toClaudeTools(tools) }),
       max_tokens: 4096
-    });
-
-    for await (const chunk of stream) {
-      if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
-        yield chunk.delta.text;
-      }
-    }
+    }, { signal: options.signal })));
   }
 
   getCapabilities(): ProviderCapabilities {
@@ -87,7 +109,8 @@ export class ClaudeAdapter extends BaseAdapter {
         'claude-3-sonnet-20240229'
       ],
       maxTokens: 200000,
-      maxToolsPerCall: 10
+      maxToolsPerCall: 10,
+      contextWindow: getContextWindow('claude', this.config.defaultModel)
     };
   }
 
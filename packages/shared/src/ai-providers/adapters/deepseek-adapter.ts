@@ -1,7 +1,24 @@
 import { BaseAdapter } from './base-adapter';
-import { ProviderCapabilities, PricingInfo } from '../interfaces/iai-provider.interface';
-import { UnifiedMessage, UnifiedTool, UnifiedResponse } from '../interfaces/unified-types.interface';
+import {
+  ProviderCapabilities,
+  PricingInfo,
+  RequestOptions,
+} from '../interfaces/iai-provider.interface';
+import {
+  UnifiedMessage,
+  UnifiedTool,
+  UnifiedResponse,
+  UnifiedStreamEvent
+} from '../interfaces/unified-types.interface';
 import { ErrorHandler } from '../utils/error-handler';
+import { getContextWindow } from '../utils/tokenizer';
+import {
+  mapOpenAIStream,
+  openStream,
+  parseSSE,
+  textDeltas,
+  type OpenAIStreamChunk
+} from '../utils/stream-events';
 
 export class DeepSeekAdapter extends BaseAdapter {
   constructor(apiKey: string, config: any = {}) {
@@ -10,7 +27,7 @@ export class DeepSeekAdapter extends BaseAdapter {
     this.defaultModel = config.defaultModel || 'deepseek-chat';
   }
 
-  async chat(messages: UnifiedMessage[]): Promise<UnifiedResponse> {
+  async chat(messages: UnifiedMessage[], options: RequestOptions = {}): Promise<UnifiedResponse> {
     const startTime = Date.now();
 
     try {
@@ -24,7 +41,8 @@ export class DeepSeekAdapter extends BaseAdapter {
           model: this.defaultModel,
           messages: this.toDeepSeekFormat(messages),
           max_tokens: 4096
-        })
+        }),
+        signal: options.signal
       });
 
       if (!response.ok) {
@@ -41,14 +59,38 @@ export class DeepSeekAdapter extends BaseAdapter {
     }
   }
 
-  async chatWithTools(messages: UnifiedMessage[], tools: UnifiedTool[]): Promise<UnifiedResponse> {
+  async chatWithTools(
+    messages: UnifiedMessage[],
+    tools: UnifiedTool[],
+    options: RequestOptions = {}
+  ): Promise<UnifiedResponse> {
     // DeepSeek D' J/9E Tools 13EJ'K F3*./E E-'C')
     const enhancedMessages = this.simulateToolsInMessages(messages, tools);
-    return this.chat(enhancedMessages);
+    return this.chat(enhancedMessages, options);
   }
 
-  async *streamChat(messages: UnifiedMessage[]): AsyncGenerator<string> {
+  async *streamChat(
+    messages: UnifiedMessage[],
+    options: RequestOptions = {}
+  ): AsyncGenerator<string> {
     try {
+      yield* textDeltas(this.streamEvents(messages, undefined, options));
+    } catch (error: any) {
+      throw this.normalizeError(error);
+    }
+  }
+
+  async *streamEvents(
+    messages: UnifiedMessage[],
+    tools?: UnifiedTool[],
+    options: RequestOptions = {}
+  ): AsyncGenerator<UnifiedStreamEvent> {
+    // DeepSeek لا يدعم Tools رسمياً: نستخدم المحاكاة كما في chatWithTools
+    const requestMessages = tools && tools.length > 0
+      ? this.simulateToolsInMessages(messages, tools)
+      : messages;
+
+    yield* mapOpenAIStream(openStream(async () => {
       const response = await fetch(`${this.baseURL}/chat/completions`, {
         method: 'POST',
         headers: {
@@ -57,48 +99,20 @@ export class DeepSeekAdapter extends BaseAdapter {
         },
         body: JSON.stringify({
           model: this.defaultModel,
-          messages: this.toDeepSeekFormat(messages),
+          messages: this.toDeepSeekFormat(requestMessages),
           max_tokens: 4096,
-          stream: true
-        })
+          stream: true,
+          stream_options: { include_usage: true }
+        }),
+        signal: options.signal
       });
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         throw new Error(`DeepSeek API Error: ${response.statusText}`);
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-
-      if (!reader) {
-        throw new Error('Response body is null');
-      }
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n').filter(line => line.trim().startsWith('data:'));
-
-        for (const line of lines) {
-          const data = line.replace('data: ', '').trim();
-          if (data === '[DONE]') continue;
-
-          try {
-            const parsed = JSON.parse(data);
-            const content = parsed.choices[0]?.delta?.content;
-            if (content) {
-              yield content;
-            }
-          } catch {
-            // *,'GD 'D#.7'! AJ *-DJD JSON
-          }
-        }
-      }
-    } catch (error: any) {
-      throw this.normalizeError(error);
-    }
+      return parseSSE<OpenAIStreamChunk>(response.body as unknown as AsyncIterable<Uint8Array>);
+    }));
   }
 
   getCapabilities(): ProviderCapabilities {
@@ -108,7 +122,8 @@ export class DeepSeekAdapter extends BaseAdapter {
       supportsVision: false,
       availableModels: ['deepseek-chat', 'deepseek-coder'],
       maxTokens: 32768,
-      maxToolsPerCall: 0
+      maxToolsPerCall: 0,
+      contextWindow: getContextWindow('deepseek', this.config.defaultModel)
     };
   }
 
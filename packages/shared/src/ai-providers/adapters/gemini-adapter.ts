@@ -1,6 +1,12 @@
 import { BaseAdapter } from './base-adapter';
 import { ProviderCapabilities, PricingInfo } from '../interfaces/iai-provider.interface';
-import { UnifiedMessage, UnifiedTool, UnifiedResponse } from '../interfaces/unified-types.interface';
+import {
+  UnifiedMessage,
+  UnifiedTool,
+  UnifiedResponse,
+  UnifiedStreamEvent
+} from '../interfaces/unified-types.interface';
+import { getContextWindow } from '../utils/tokenizer';
 
 /**
  * E-HD Gemini - ,'G2 DDE3*B(D
@@ -25,6 +31,13 @@ export class GeminiAdapter extends BaseAdapter {
     throw new Error('Gemini adapter is not implemented yet. Coming soon!');
   }
 
+  async *streamEvents(
+    messages: UnifiedMessage[],
+    tools?: UnifiedTool[]
+  ): AsyncGenerator<UnifiedStreamEvent> {
+    throw new Error('Gemini adapter is not implemented yet. Coming soon!');
+  }
+
   getCapabilities(): ProviderCapabilities {
     return {
       supportsTools: true,
@@ -32,7 +45,8 @@ export class GeminiAdapter extends BaseAdapter {
       supportsVision: true,
       availableModels: ['gemini-pro', 'gemini-pro-vision'],
       maxTokens: 30720,
-      maxToolsPerCall: 10
+      maxToolsPerCall: 10,
+      contextWindow: getContextWindow('gemini', this.config.defaultModel)
     };
   }
 
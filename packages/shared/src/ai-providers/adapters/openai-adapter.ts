@@ -7,10 +7,24 @@ import type {
   ProviderCapabilities,
   PricingInfo,
   ProviderStatus,
-  CostEstimate
+  CostEstimate,
+  RequestOptions
 } from '../interfaces/iai-provider.interface.js';
-import type { UnifiedMessage, UnifiedTool, UnifiedResponse } from '../interfaces/unified-types.interface.js';
+import type {
+  UnifiedMessage,
+  UnifiedTool,
+  UnifiedResponse,
+  UnifiedStreamEvent
+} from '../interfaces/unified-types.interface.js';
+import { getContextWindow } from '../utils/tokenizer.js';
 import { ErrorHandler } from '../utils/error-handler.js';
+import {
+  mapOpenAIStream,
+  openStream,
+  parseSSE,
+  textDeltas,
+  type OpenAIStreamChunk
+} from '../utils/stream-events.js';
 
 export class OpenAIAdapter implements IAIProvider {
   private apiKey: string;
@@ -23,7 +37,7 @@ export class OpenAIAdapter implements IAIProvider {
     this.defaultModel = model;
   }
 
-  async chat(messages: UnifiedMessage[]): Promise<UnifiedResponse> {
+  async chat(messages: UnifiedMessage[], options: RequestOptions = {}): Promise<UnifiedResponse> {
     const startTime = Date.now();
 
     try {
@@ -39,7 +53,8 @@ export class OpenAIAdapter implements IAIProvider {
             role: m.role,
             content: m.content
           }))
-        })
+        }),
+        signal: options.signal
       });
 
       if (!response.ok) {
@@ -65,7 +80,11 @@ export class OpenAIAdapter implements IAIProvider {
     }
   }
 
-  async chatWithTools(messages: UnifiedMessage[], tools: UnifiedTool[]): Promise<UnifiedResponse> {
+  async chatWithTools(
+    messages: UnifiedMessage[],
+    tools: UnifiedTool[],
+    options: RequestOptions = {}
+  ): Promise<UnifiedResponse> {
     const startTime = Date.now();
 
     try {
@@ -82,7 +101,8 @@ export class OpenAIAdapter implements IAIProvider {
             content: m.content
           })),
           tools: this.toOpenAITools(tools)
-        })
+        }),
+        signal: options.signal
       });
 
       if (!response.ok) {
@@ -109,8 +129,48 @@ export class OpenAIAdapter implements IAIProvider {
     }
   }
 
-  async *streamChat(messages: UnifiedMessage[]): AsyncGenerator<string> {
-    throw new Error('Streaming not yet implemented for OpenAI');
+  async *streamChat(
+    messages: UnifiedMessage[],
+    options: RequestOptions = {}
+  ): AsyncGenerator<string> {
+    try {
+      yield* textDeltas(this.streamEvents(messages, undefined, options));
+    } catch (error) {
+      throw this.normalizeError(error);
+    }
+  }
+
+  async *streamEvents(
+    messages: UnifiedMessage[],
+    tools?: UnifiedTool[],
+    options: RequestOptions = {}
+  ): AsyncGenerator<UnifiedStreamEvent> {
+    yield* mapOpenAIStream(openStream(async () => {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.apiKey}`
+        },
+        body: JSON.stringify({
+          model: this.defaultModel,
+          messages: messages.map(m => ({
+            role: m.role,
+            content: m.content
+          })),
+          ...(tools && tools.length > 0 && { tools: this.toOpenAITools(tools) }),
+          stream: true,
+          stream_options: { include_usage: true }
+        }),
+        signal: options.signal
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`OpenAI API Error: ${response.status}`);
+      }
+
+      return parseSSE<OpenAIStreamChunk>(response.body as unknown as AsyncIterable<Uint8Array>);
+    }));
   }
 
   getCapabilities(): ProviderCapabilities {
@@ -120,7 +180,8 @@ export class OpenAIAdapter implements IAIProvider {
       supportsVision: this.defaultModel.includes('vision'),
       availableModels: ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-3.5-turbo'],
       maxTokens: 128000,
-      maxToolsPerCall: 20
+      maxToolsPerCall: 20,
+      contextWindow: getContextWindow('openai', this.defaultModel)
     };
   }
 
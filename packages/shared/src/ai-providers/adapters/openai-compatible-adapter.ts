@@ -0,0 +1,292 @@
+// ============================================
+// 🔌 OpenAI-Compatible Adapter - محول الخوادم المتوافقة مع OpenAI
+// ============================================
+// One configurable adapter for every /v1/chat/completions server (vLLM,
+// llama.cpp server, LM Studio, internal gateways). Name, base URL, models,
+// pricing and capabilities all come from OpenAICompatibleConfig.
+
+import type {
+  IAIProvider,
+  ProviderCapabilities,
+  PricingInfo,
+  ProviderStatus,
+  CostEstimate,
+  RequestOptions
+} from '../interfaces/iai-provider.interface.js';
+import type {
+  UnifiedMessage,
+  UnifiedTool,
+  UnifiedResponse,
+  UnifiedToolCall,
+  UnifiedStreamEvent
+} from '../interfaces/unified-types.interface.js';
+import type { OpenAICompatibleConfig } from '../interfaces/provider-config.interface.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import {
+  mapOpenAIStream,
+  openStream,
+  parseSSE,
+  responseToEvents,
+  textDeltas,
+  type OpenAIStreamChunk
+} from '../utils/stream-events.js';
+
+export class OpenAICompatibleAdapter implements IAIProvider {
+  readonly name: string;
+  private baseUrl: string;
+  private lastLatency = 0;
+
+  constructor(private config: OpenAICompatibleConfig) {
+    if (!config.baseURL) {
+      throw new Error(`OpenAI-compatible provider '${config.name}' needs a baseURL`);
+    }
+    this.name = config.name;
+    this.baseUrl = config.baseURL.replace(/\/+$/, '');
+  }
+
+  async chat(messages: UnifiedMessage[], options: RequestOptions = {}): Promise<UnifiedResponse> {
+    return this.complete(messages, undefined, options);
+  }
+
+  async chatWithTools(
+    messages: UnifiedMessage[],
+    tools: UnifiedTool[],
+    options: RequestOptions = {}
+  ): Promise<UnifiedResponse> {
+    return this.complete(messages, this.supportsTools ? tools : undefined, options);
+  }
+
+  async *streamChat(
+    messages: UnifiedMessage[],
+    options: RequestOptions = {}
+  ): AsyncGenerator<string> {
+    try {
+      yield* textDeltas(this.streamEvents(messages, undefined, options));
+    } catch (error) {
+      throw this.normalizeError(error);
+    }
+  }
+
+  async *streamEvents(
+    messages: UnifiedMessage[],
+    tools?: UnifiedTool[],
+    options: RequestOptions = {}
+  ): AsyncGenerator<UnifiedStreamEvent> {
+    if (this.config.capabilities?.streaming === false) {
+      // الخادم لا يبث: نرسل الرد كاملاً كأحداث
+      try {
+        yield* responseToEvents(await this.complete(messages, tools, options));
+      } catch (error: any) {
+        yield { type: 'error', error: error.message };
+      }
+      return;
+    }
+
+    yield* mapOpenAIStream(openStream(async () => {
+      const response = await this.post(
+        {
+          ...this.buildBody(messages, tools, options),
+          stream: true,
+          ...(this.config.streamUsage !== false && { stream_options: { include_usage: true } })
+        },
+        options.signal
+      );
+
+      if (!response.body) {
+        throw new Error(`${this.name} API Error: empty stream`);
+      }
+
+      return parseSSE<OpenAIStreamChunk>(response.body as unknown as AsyncIterable<Uint8Array>);
+    }));
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    const caps = this.config.capabilities || {};
+    return {
+      supportsTools: this.supportsTools,
+      supportsStreaming: caps.streaming !== false,
+      supportsVision: caps.vision === true,
+      availableModels: this.config.models || [this.config.defaultModel],
+      maxTokens: caps.maxTokens || 4096,
+      maxToolsPerCall: this.supportsTools ? caps.maxToolsPerCall || 20 : 0,
+      contextWindow: caps.contextWindow || 8192
+    };
+  }
+
+  getPricing(): PricingInfo {
+    const modelPricing = this.config.pricing || {};
+    const current = modelPricing[this.config.defaultModel] || { input: 0, output: 0 };
+    return {
+      inputCostPerToken: current.input / 1_000_000,
+      outputCostPerToken: current.output / 1_000_000,
+      currency: 'USD',
+      modelPricing
+    };
+  }
+
+  getStatus(): ProviderStatus {
+    return {
+      available: true,
+      latency: this.lastLatency,
+      lastChecked: new Date(),
+      rateLimitRemaining: Infinity
+    };
+  }
+
+  /**
+   * /v1/models is served by vLLM, llama.cpp and LM Studio alike
+   */
+  async validate(): Promise<boolean> {
+    try {
+      return (await this.listModels()).length > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    const response = await fetch(`${this.baseUrl}/models`, { headers: this.headers() });
+    if (!response.ok) {
+      throw this.httpError(response.status, await response.text());
+    }
+    const data: any = await response.json();
+    return (data.data || []).map((model: { id: string }) => model.id);
+  }
+
+  estimateCost(messages: UnifiedMessage[]): CostEstimate {
+    const totalChars = messages.reduce((sum, msg) => sum + (msg.content?.length || 0), 0);
+    const estimatedInputTokens = Math.ceil(totalChars / 4);
+    const estimatedOutputTokens = Math.ceil(estimatedInputTokens * 0.5);
+    const pricing = this.getPricing();
+
+    return {
+      estimatedInputTokens,
+      estimatedOutputTokens,
+      estimatedCost:
+        estimatedInputTokens * pricing.inputCostPerToken +
+        estimatedOutputTokens * pricing.outputCostPerToken,
+      currency: 'USD'
+    };
+  }
+
+  // ─────────────────────────────────────────────────────
+  // 🔒 Helpers
+  // ─────────────────────────────────────────────────────
+
+  private get supportsTools(): boolean {
+    return this.config.capabilities?.tools !== false;
+  }
+
+  private async complete(
+    messages: UnifiedMessage[],
+    tools: UnifiedTool[] | undefined,
+    options: RequestOptions
+  ): Promise<UnifiedResponse> {
+    const startTime = Date.now();
+
+    try {
+      const response = await this.post(this.buildBody(messages, tools, options), options.signal);
+      const data: any = await response.json();
+      const duration = Date.now() - startTime;
+      this.lastLatency = duration;
+
+      const choice = data.choices?.[0];
+      const usage = data.usage || {};
+      const inputTokens = usage.prompt_tokens || 0;
+      const outputTokens = usage.completion_tokens || 0;
+      const pricing = this.getPricing();
+
+      return {
+        content: choice?.message?.content || '',
+        toolCalls: this.extractToolCalls(choice?.message),
+        usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+        metadata: {
+          provider: this.name,
+          model: data.model || this.config.defaultModel,
+          cost:
+            inputTokens * pricing.inputCostPerToken + outputTokens * pricing.outputCostPerToken,
+          tokens: usage.total_tokens || inputTokens + outputTokens,
+          duration,
+          stopReason: choice?.finish_reason
+        }
+      };
+    } catch (error) {
+      throw this.normalizeError(error);
+    }
+  }
+
+  private buildBody(
+    messages: UnifiedMessage[],
+    tools: UnifiedTool[] | undefined,
+    options: RequestOptions
+  ): Record<string, any> {
+    return {
+      model: options.model || this.config.defaultModel,
+      messages: messages.map((m) => ({ role: m.role, content: m.content })),
+      max_tokens: options.maxTokens || this.config.capabilities?.maxTokens || 4096,
+      ...(options.temperature !== undefined && { temperature: options.temperature }),
+      ...(options.stop && { stop: options.stop }),
+      ...(tools && tools.length > 0 && this.supportsTools && { tools: this.toOpenAITools(tools) })
+    };
+  }
+
+  private async post(body: Record<string, any>, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (!response.ok) {
+      throw this.httpError(response.status, await response.text());
+    }
+    return response;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.config.apiKey && { 'Authorization': `Bearer ${this.config.apiKey}` }),
+      ...this.config.customHeaders
+    };
+  }
+
+  private httpError(status: number, body: string): Error {
+    // status lets ErrorHandler and FallbackManager tell rate limits from outages
+    return Object.assign(new Error(`${this.name} API Error: ${status} ${body}`.trim()), { status });
+  }
+
+  private toOpenAITools(tools: UnifiedTool[]): any[] {
+    return tools.map((tool) => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: {
+          type: 'object',
+          properties: tool.parameters,
+          required: tool.required ?? Object.keys(tool.parameters)
+        }
+      }
+    }));
+  }
+
+  private extractToolCalls(message: any): UnifiedToolCall[] | undefined {
+    if (!message?.tool_calls?.length) return undefined;
+
+    return message.tool_calls.map((tc: any) => {
+      let args: any = tc.function.arguments;
+      try {
+        args = JSON.parse(tc.function.arguments || '{}');
+      } catch {
+        // نماذج محلية تعيد أحياناً JSON غير صالح: نمرر النص كما هو
+      }
+      return { id: tc.id, name: tc.function.name, arguments: args };
+    });
+  }
+
+  private normalizeError(error: any): Error {
+    return ErrorHandler.normalizeError(error, this.name);
+  }
+}
@@ -3,8 +3,30 @@
 // 💾 طبقة التخزين المؤقت - Cache Layer
 // توفير 30-50% من تكاليف API
 // ============================================
+// Exact matches are served from the in-memory strategy (LRU/LFU/TTL).
+// Semantic matching is opt-in and needs a real embedding model: a
+// near-duplicate prompt is answered only within the same conversation
+// context, with the same file references and the same numbers and
+// identifiers in the same order ("returns 5" never answers "returns 7").
+// Entries expire per task type and are dropped when a file the prompt refers
+// to changes. With `persist`, entries and hit/miss
+// stats live in <project>/.oqool/cache and are shared across runs.
 
 import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import type { TaskType } from './dynamic-router.js';
+import {
+  cosineSimilarity,
+  createEmbeddingProvider,
+  HashingEmbeddingProvider,
+  type EmbeddingProvider,
+  type EmbeddingProviderName,
+} from '../vector/embedding-providers.js';
+
+const CACHE_VERSION = 2;
+const ENTRIES_FILE = 'responses.json';
+const STATS_FILE = 'stats.json';
 
 /**
  * استراتيجية Cache
@@ -30,6 +52,62 @@ export interface CachedResponse {
   provider: string;
   timestamp: number;
   expiresAt?: number;
+  taskType?: TaskType;
+  files?: Record<string, string>; // project-relative path → sha256 when cached
+  similarity?: number; // set on semantic hits (< 1)
+}
+
+/**
+ * ما يميز الطلب غير نصه: لا تُشارك الإجابة بين سياقات مختلفة
+ */
+export interface CacheContext {
+  context?: string; // system prompt + conversation history
+  taskType?: TaskType; // picks the TTL when saving
+}
+
+export interface SemanticCacheOptions {
+  persist?: boolean; // keep entries and stats in `dir`
+  dir?: string; // default: <projectRoot>/.oqool/cache
+  projectRoot?: string; // resolves file references; default: process.cwd()
+  semantic?: boolean; // near-duplicate hits; off by default
+  similarityThreshold?: number; // cosine similarity for a semantic hit, default 0.92
+  ttl?: Partial<Record<TaskType, number>>; // ms, merged over DEFAULT_CACHE_TTL
+  maxEntries?: number; // entries kept, oldest evicted first
+  embeddings?: EmbeddingProvider; // required for semantic hits; hashing does not count
+}
+
+export interface CacheStats {
+  hits: number;
+  semanticHits: number;
+  misses: number;
+  invalidations: number; // entries dropped because a referenced file changed
+  savings: number; // USD not spent thanks to hits
+  updatedAt?: string; // ISO
+}
+
+/**
+ * الردود المعقدة تعتمد على حالة أكثر في المشروع فتنتهي أسرع
+ */
+export const DEFAULT_CACHE_TTL: Record<TaskType, number> = {
+  simple: 24 * 60 * 60 * 1000,
+  medium: 6 * 60 * 60 * 1000,
+  complex: 60 * 60 * 1000,
+};
+
+interface SemanticEntry {
+  key: string; // exact hash of context + request
+  context: string; // context hash
+  request: string;
+  refs: string; // referenced paths: "fix a.ts" never answers "fix b.ts"
+  literals: string; // numbers and identifiers, in order
+  embedder?: string; // vectors from different embedders never compare
+  vector?: number[];
+  response: CachedResponse;
+}
+
+interface CacheFile {
+  version: number;
+  entries: SemanticEntry[];
 }
 
 /**
@@ -65,6 +143,10 @@ class LRUCache {
     });
   }
 
+  delete(key: string): void {
+    this.cache.delete(key);
+  }
+
   private findLRU(): string | null {
     let oldest = Date.now();
     let oldestKey: string | null = null;
@@ -120,6 +202,10 @@ class LFUCache {
     });
   }
 
+  delete(key: string): void {
+    this.cache.delete(key);
+  }
+
   private findLFU(): string | null {
     let minFreq = Infinity;
     let lfuKey: string | null = null;
@@ -153,8 +239,8 @@ class TTLCache {
   constructor(ttl: number = 3600000) { // ساعة واحدة افتراضياً
     this.ttl = ttl;
 
-    // تنظيف دوري
-    setInterval(() => this.cleanup(), 60000); // كل دقيقة
+    // تنظيف دوري (لا يُبقي العملية حية)
+    setInterval(() => this.cleanup(), 60000).unref(); // كل دقيقة
   }
 
   get(key: string): CachedResponse | null {
@@ -171,10 +257,14 @@ class TTLCache {
   }
 
   set(key: string, value: CachedResponse): void {
-    const expiresAt = Date.now() + this.ttl;
+    const expiresAt = Math.min(value.expiresAt ?? Infinity, Date.now() + this.ttl);
     this.cache.set(key, { ...value, expiresAt });
   }
 
+  delete(key: string): void {
+    this.cache.delete(key);
+  }
+
   private cleanup(): void {
     const now = Date.now();
     for (const [key, value] of this.cache) {
@@ -193,6 +283,37 @@ class TTLCache {
   }
 }
 
+
+/**
+ * إعدادات الكاش من OQOOL_CACHE_PERSIST و OQOOL_CACHE_SEMANTIC و OQOOL_EMBEDDINGS
+ */
+export function cacheOptionsFromEnv(): SemanticCacheOptions {
+  const enabled = (name: string) => ['1', 'true'].includes(process.env[name] || '');
+  const provider = process.env.OQOOL_EMBEDDINGS as EmbeddingProviderName | undefined;
+
+  let embeddings: EmbeddingProvider | undefined;
+  try {
+    embeddings =
+      enabled('OQOOL_CACHE_SEMANTIC') && provider
+        ? createEmbeddingProvider({ provider, openaiApiKey: process.env.OPENAI_API_KEY })
+        : undefined;
+  } catch {
+    // مزود التضمين غير مهيأ: تطابق تام فقط
+  }
+
+  return { persist: enabled('OQOOL_CACHE_PERSIST'), semantic: !!embeddings, embeddings };
+}
+
+/**
+ * إحصائيات الكاش المحفوظة لمشروع (لـ oqool analytics)
+ */
+export async function readCacheStats(
+  projectRoot: string = process.cwd()
+): Promise<CacheStats | null> {
+  const file = path.join(projectRoot, '.oqool', 'cache', STATS_FILE);
+  return (await fs.readJson(file).catch(() => null)) as CacheStats | null;
+}
+
 /**
  * طبقة التخزين المؤقت
  */
@@ -208,22 +329,60 @@ export class CacheLayer {
   private currentStrategy: CacheStrategy = 'lru';
   private enabled = true;
 
-  // إحصائيات
-  private stats = {
-    hits: 0,
-    misses: 0,
-    savings: 0
+  // الكاش الدلالي
+  private settings!: {
+    persist: boolean;
+    dir: string;
+    projectRoot: string;
+    semantic: boolean;
+    similarityThreshold: number;
+    ttl: Record<TaskType, number>;
+    maxEntries: number;
   };
+  private embeddings?: EmbeddingProvider;
+  private entries: SemanticEntry[] = [];
+  private loaded?: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+
+  // إحصائيات
+  private stats: CacheStats = emptyStats();
 
-  private constructor() {}
+  constructor(options: SemanticCacheOptions = {}) {
+    this.configure(options);
+  }
 
   static getInstance(): CacheLayer {
     if (!CacheLayer.instance) {
-      CacheLayer.instance = new CacheLayer();
+      CacheLayer.instance = new CacheLayer(cacheOptionsFromEnv());
     }
     return CacheLayer.instance;
   }
 
+  /**
+   * إعداد الكاش الدلالي والحفظ (يبدأ بكاش فارغ)
+   */
+  configure(options: SemanticCacheOptions): void {
+    const projectRoot = path.resolve(options.projectRoot || process.cwd());
+    this.settings = {
+      persist: options.persist === true,
+      dir: options.dir || path.join(projectRoot, '.oqool', 'cache'),
+      projectRoot,
+      // hashing vectors ignore word order: "x to y" would answer "y to x"
+      semantic:
+        options.semantic === true &&
+        !!options.embeddings &&
+        !(options.embeddings instanceof HashingEmbeddingProvider),
+      similarityThreshold: options.similarityThreshold ?? 0.92,
+      ttl: { ...DEFAULT_CACHE_TTL, ...options.ttl },
+      maxEntries: options.maxEntries ?? 500,
+    };
+    this.embeddings = this.settings.semantic ? options.embeddings : undefined;
+    Object.values(this.strategies).forEach(cache => cache.clear());
+    this.entries = [];
+    this.stats = emptyStats();
+    this.loaded = undefined;
+  }
+
   /**
    * تعيين الاستراتيجية
    */
@@ -239,44 +398,232 @@ export class CacheLayer {
   }
 
   /**
-   * التحقق من Cache
+   * التحقق من Cache: تطابق تام أولاً ثم أقرب طلب مشابه في نفس السياق
    */
-  checkCache(request: string): CachedResponse | null {
+  async checkCache(request: string, context: CacheContext = {}): Promise<CachedResponse | null> {
     if (!this.enabled) return null;
+    await this.load();
 
-    const hash = this.hashRequest(request);
-    const cache = this.strategies[this.currentStrategy];
-    const result = cache.get(hash);
+    const contextHash = hash(context.context || '');
+    const key = this.hashRequest(request, contextHash);
+    const result =
+      (await this.findExact(key)) ?? (await this.findSimilar(request, contextHash, key));
 
     if (result) {
       this.stats.hits++;
+      if (result.similarity !== undefined) this.stats.semanticHits++;
       this.stats.savings += result.cost;
-      return result;
+    } else {
+      this.stats.misses++;
     }
-
-    this.stats.misses++;
-    return null;
+    this.persistStats();
+    return result;
   }
 
   /**
    * حفظ في Cache
    */
-  saveToCache(request: string, response: CachedResponse): void {
+  async saveToCache(
+    request: string,
+    response: CachedResponse,
+    context: CacheContext = {}
+  ): Promise<void> {
     if (!this.enabled) return;
+    await this.load();
+
+    const contextHash = hash(context.context || '');
+    const key = this.hashRequest(request, contextHash);
+    const taskType = context.taskType ?? response.taskType ?? 'medium';
+    const entry: CachedResponse = {
+      content: response.content,
+      cost: response.cost,
+      provider: response.provider,
+      timestamp: response.timestamp,
+      expiresAt: response.expiresAt ?? response.timestamp + this.settings.ttl[taskType],
+      taskType,
+      files: await this.hashReferencedFiles(request),
+    };
 
-    const hash = this.hashRequest(request);
-    const cache = this.strategies[this.currentStrategy];
-    cache.set(hash, response);
+    this.strategies[this.currentStrategy].set(key, entry);
+
+    const vector = await this.embed(request);
+    this.entries = this.entries.filter(e => e.key !== key);
+    this.entries.push({
+      key,
+      context: contextHash,
+      request,
+      refs: this.referenceKey(request),
+      literals: literalsOf(request),
+      embedder: vector && this.embeddings?.id,
+      vector: vector?.map(v => Math.round(v * 1e4) / 1e4),
+      response: entry,
+    });
+    if (this.entries.length > this.settings.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.settings.maxEntries);
+    }
+    this.persistEntries();
+  }
+
+  /**
+   * انتظار انتهاء الكتابة على القرص
+   */
+  async flush(): Promise<void> {
+    await this.writing;
   }
 
   /**
    * إنشاء Hash للطلب
    */
-  private hashRequest(request: string): string {
-    return crypto
-      .createHash('sha256')
-      .update(request.toLowerCase().trim())
-      .digest('hex');
+  private hashRequest(request: string, contextHash: string): string {
+    return hash(`${contextHash}\0${request.toLowerCase().trim()}`);
+  }
+
+  private async findExact(key: string): Promise<CachedResponse | null> {
+    const cached =
+      this.strategies[this.currentStrategy].get(key) ??
+      this.entries.find(e => e.key === key)?.response;
+    if (!cached) return null;
+
+    if (await this.stillValid(cached)) return cached;
+    this.forget(key);
+    return null;
+  }
+
+  private async findSimilar(
+    request: string,
+    contextHash: string,
+    key: string
+  ): Promise<CachedResponse | null> {
+    if (!this.embeddings) return null;
+
+    const refs = this.referenceKey(request);
+    const literals = literalsOf(request);
+    const candidates = this.entries.filter(
+      e =>
+        e.context === contextHash &&
+        e.refs === refs &&
+        e.literals === literals &&
+        e.embedder === this.embeddings!.id &&
+        e.key !== key
+    );
+    if (candidates.length === 0) return null;
+
+    const vector = await this.embed(request);
+    if (!vector) return null;
+
+    const ranked = candidates
+      .map(entry => ({ entry, similarity: cosineSimilarity(vector, entry.vector!) }))
+      .filter(match => match.similarity >= this.settings.similarityThreshold)
+      .sort((a, b) => b.similarity - a.similarity);
+
+    for (const { entry, similarity } of ranked) {
+      if (await this.stillValid(entry.response)) {
+        return { ...entry.response, similarity: Math.min(similarity, 1) };
+      }
+      this.forget(entry.key);
+    }
+    return null;
+  }
+
+  /**
+   * منتهي الصلاحية أو تغيّر ملف ذكره الطلب = غير صالح
+   */
+  private async stillValid(response: CachedResponse): Promise<boolean> {
+    if (response.expiresAt && response.expiresAt <= Date.now()) return false;
+
+    for (const [file, digest] of Object.entries(response.files || {})) {
+      if ((await hashFile(path.resolve(this.settings.projectRoot, file))) !== digest) {
+        this.stats.invalidations++;
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private forget(key: string): void {
+    Object.values(this.strategies).forEach(cache => cache.delete(key));
+    const before = this.entries.length;
+    this.entries = this.entries.filter(e => e.key !== key);
+    if (this.entries.length !== before) this.persistEntries();
+  }
+
+  private projectPath(file: string): string {
+    const { projectRoot } = this.settings;
+    return path.relative(projectRoot, path.resolve(projectRoot, file));
+  }
+
+  private referenceKey(request: string): string {
+    return referencedFiles(request)
+      .map(file => this.projectPath(file))
+      .sort()
+      .join('\n');
+  }
+
+  private async hashReferencedFiles(
+    request: string
+  ): Promise<Record<string, string> | undefined> {
+    const files: Record<string, string> = {};
+
+    for (const reference of referencedFiles(request)) {
+      const file = this.projectPath(reference);
+      const digest = await hashFile(path.resolve(this.settings.projectRoot, file));
+      if (digest) files[file] = digest;
+    }
+
+    return Object.keys(files).length > 0 ? files : undefined;
+  }
+
+  private async embed(text: string): Promise<number[] | undefined> {
+    if (!this.embeddings) return undefined;
+    try {
+      const [vector] = await this.embeddings.embed([text]);
+      return vector;
+    } catch {
+      // مزود التضمين غير متاح: يبقى التطابق التام
+      return undefined;
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.settings.persist ? this.readDisk() : Promise.resolve();
+    }
+    return this.loaded;
+  }
+
+  private async readDisk(): Promise<void> {
+    const { dir } = this.settings;
+    const file = (await fs.readJson(path.join(dir, ENTRIES_FILE)).catch(() => null)) as
+      | CacheFile
+      | null;
+    const stats = (await fs.readJson(path.join(dir, STATS_FILE)).catch(() => null)) as
+      | CacheStats
+      | null;
+
+    const now = Date.now();
+    if (file?.version === CACHE_VERSION) {
+      this.entries = file.entries.filter(e => !e.response.expiresAt || e.response.expiresAt > now);
+    }
+    if (stats) this.stats = { ...emptyStats(), ...stats };
+  }
+
+  private persistEntries(): void {
+    if (!this.settings.persist) return;
+    const file: CacheFile = { version: CACHE_VERSION, entries: [...this.entries] };
+    this.write(ENTRIES_FILE, file);
+  }
+
+  private persistStats(): void {
+    if (!this.settings.persist) return;
+    this.write(STATS_FILE, { ...this.stats, updatedAt: new Date().toISOString() });
+  }
+
+  // كتابات متتالية؛ فشل الكتابة لا يُفشل الطلب
+  private write(name: string, data: unknown): void {
+    const target = path.join(this.settings.dir, name);
+    this.writing = this.writing
+      .then(() => fs.outputJson(target, data))
+      .catch(() => undefined);
   }
 
   /**
@@ -288,37 +635,99 @@ export class CacheLayer {
 
     return {
       hits: this.stats.hits,
+      semanticHits: this.stats.semanticHits,
       misses: this.stats.misses,
+      invalidations: this.stats.invalidations,
       hitRate: hitRate.toFixed(2) + '%',
       savings: `$${this.stats.savings.toFixed(4)}`,
-      cacheSize: this.strategies[this.currentStrategy].size()
+      cacheSize: this.strategies[this.currentStrategy].size(),
+      storedEntries: this.entries.length
     };
   }
 
   /**
    * تنظيف Cache
    */
-  clear(strategy?: CacheStrategy): void {
+  async clear(strategy?: CacheStrategy): Promise<void> {
     if (strategy) {
       this.strategies[strategy].clear();
-    } else {
-      // تنظيف الكل
-      Object.values(this.strategies).forEach(cache => cache.clear());
+      return;
     }
+
+    // تنظيف الكل
+    Object.values(this.strategies).forEach(cache => cache.clear());
+    await this.load();
+    this.entries = [];
+    this.persistEntries();
+    await this.flush();
   }
 
   /**
    * إعادة تعيين الإحصائيات
    */
   resetStats(): void {
-    this.stats = {
-      hits: 0,
-      misses: 0,
-      savings: 0
-    };
+    this.stats = emptyStats();
+    this.persistStats();
   }
 }
 
 export function getCacheLayer(): CacheLayer {
   return CacheLayer.getInstance();
 }
+
+// ─────────────────────────────────────────────────────
+// 🔒 Helpers
+// ─────────────────────────────────────────────────────
+
+function emptyStats(): CacheStats {
+  return { hits: 0, semanticHits: 0, misses: 0, invalidations: 0, savings: 0 };
+}
+
+/**
+ * Numbers, one-letter names and code identifiers (camelCase, snake_case,
+ * dotted, with digits) in the order they appear. Two prompts that differ in
+ * any of them ask different questions however close their embeddings are.
+ */
+export function literalsOf(request: string): string {
+  const literals = request.match(/\d+(?:\.\d+)?|[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*/g) || [];
+  return literals
+    .filter(
+      word =>
+        /^\d/.test(word) ||
+        word.length === 1 ||
+        /[\d_$.]/.test(word) ||
+        /.[A-Z]/.test(word)
+    )
+    .join(' ');
+}
+
+function hash(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+async function hashFile(file: string): Promise<string | undefined> {
+  try {
+    return hash((await fs.readFile(file)).toString('utf-8'));
+  } catch {
+    return undefined; // حُذف أو ليس ملفاً
+  }
+}
+
+/**
+ * مسارات تشبه الملفات في نص الطلب ("fix src/a.ts", "./lib/util.js.")
+ */
+const FILE_REFERENCE = new RegExp(
+  String.raw`(?:^|[\s'"\`(\[])` +
+    String.raw`((?:\.{0,2}\/)?(?:[\w@-][\w.@-]*\/)*[\w@-][\w.@-]*\.[A-Za-z0-9]{1,8})` +
+    String.raw`(?=$|[\s'"\`)\],:;!?،]|\.(?:\s|$))`,
+  'g'
+);
+
+function referencedFiles(text: string): string[] {
+  const found = new Set<string>();
+  for (const match of text.matchAll(FILE_REFERENCE)) {
+    found.add(match[1]);
+    if (found.size >= 20) break;
+  }
+  return [...found];
+}
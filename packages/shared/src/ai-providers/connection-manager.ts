@@ -4,9 +4,11 @@
 // الربط الثابت للبنية التحتية
 // ============================================
 
+import fs from 'fs-extra';
 import { ui } from '../core/ui.js';
-import { executeTool, TOOL_DEFINITIONS } from '../core/tools.js';
+import { executeTool, toolRegistry } from '../core/tools.js';
 import type { IAIProvider } from './interfaces/iai-provider.interface.js';
+import { CassetteProvider, cassetteFromEnv } from './testing/cassette.js';
 
 /**
  * الاتصالات الثابتة للنظام
@@ -23,7 +25,7 @@ export class ConnectionManager {
   private uiConnection = ui;
   private toolsConnection = {
     execute: executeTool,
-    definitions: TOOL_DEFINITIONS
+    registry: toolRegistry
   };
 
   private aiProviders: Map<string, IAIProvider> = new Map();
@@ -128,12 +130,43 @@ export class ConnectionManager {
         }
       }
 
+      this.loadCassettes();
+
       this.uiConnection.success(`✅ Loaded ${this.aiProviders.size} AI Providers successfully`);
     } catch (error) {
       this.uiConnection.warning('❌ AI Providers loading failed', String(error));
     }
   }
 
+  /**
+   * تسجيل/إعادة تشغيل الردود عند ضبط OQOOL_CASSETTES (للاختبارات و CI).
+   * في وضع replay يُحمَّل كل مزود له شريط حتى بدون API key
+   */
+  private loadCassettes(): void {
+    for (const name of ['claude', 'gemini', 'openai', 'deepseek']) {
+      const cassette = cassetteFromEnv(name);
+      if (!cassette) return;
+
+      const provider = this.aiProviders.get(name);
+      if (!provider && (cassette.mode !== 'replay' || !fs.existsSync(cassette.path))) continue;
+
+      try {
+        const inner = cassette.mode === 'replay' ? undefined : provider;
+        this.aiProviders.set(name, new CassetteProvider(inner, cassette));
+        this.uiConnection.debug(`📼 ${name}: cassette ${cassette.mode} (${cassette.path})`);
+      } catch (e: any) {
+        this.uiConnection.warning(`❌ Cassette for ${name}: ${e.message}`);
+      }
+    }
+  }
+
+  /**
+   * تسجيل مزود يدوياً (مزود وهمي في الاختبارات مثلاً)
+   */
+  registerAIProvider(name: string, provider: IAIProvider): void {
+    this.aiProviders.set(name, provider);
+  }
+
   /**
    * الحصول على اتصال UI (ثابت)
    */
@@ -176,7 +209,7 @@ export class ConnectionManager {
     return {
       initialized: this.isInitialized,
       ui: !!this.uiConnection,
-      tools: this.toolsConnection.definitions.length,
+      tools: this.toolsConnection.registry.names().length,
       aiProviders: this.aiProviders.size,
       providers: this.getAvailableProviders()
     };
@@ -5,6 +5,8 @@
 // ============================================
 
 import { getConnectionManager } from './connection-manager.js';
+import { getBudgetGuard } from './monitoring/cost-ledger.js';
+import { throwIfAborted } from '../core/abort.js';
 import type { UnifiedMessage, UnifiedResponse } from '../ai-providers/interfaces/unified-types.interface.js';
 import type { IAIProvider } from '../ai-providers/interfaces/iai-provider.interface.js';
 
@@ -45,6 +47,7 @@ export interface FallbackResult {
 export class FallbackSystem {
   private static instance: FallbackSystem;
   private connectionManager = getConnectionManager();
+  private budgetGuard = getBudgetGuard();
   private ui = this.connectionManager.getUI();
 
   // ترتيب الأولويات الافتراضي
@@ -77,7 +80,8 @@ export class FallbackSystem {
    */
   async execute(
     messages: UnifiedMessage[],
-    priorities?: Partial<ProviderPriority>
+    priorities?: Partial<ProviderPriority>,
+    signal?: AbortSignal
   ): Promise<FallbackResult> {
     const startTime = Date.now();
     const attempts: FallbackAttempt[] = [];
@@ -98,6 +102,7 @@ export class FallbackSystem {
 
     // المحاولة مع كل Provider
     for (const providerName of providerSequence) {
+      throwIfAborted(signal);
       const attemptStart = Date.now();
 
       try {
@@ -130,8 +135,13 @@ export class FallbackSystem {
           continue;
         }
 
-        // التنفيذ
-        const response = await provider.chat(messages);
+        // التنفيذ (مزود يتجاوز الميزانية يُتخطى إلى التالي)
+        const authorization = await this.budgetGuard.authorize(
+          { name: providerName, provider },
+          messages
+        );
+        const response = await provider.chat(messages, { signal });
+        await this.budgetGuard.settle(authorization, response).catch(() => undefined);
 
         // نجح!
         attempts.push({
@@ -151,6 +161,9 @@ export class FallbackSystem {
           totalDuration: Date.now() - startTime
         };
       } catch (error) {
+        // الإلغاء ليس فشلاً في المزود: لا نجرب التالي
+        throwIfAborted(signal);
+
         // فشل - نجرب التالي
         this.ui.warning(`Failed with ${providerName}: ${error}`, 'Fallback');
 
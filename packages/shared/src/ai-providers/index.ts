@@ -2,6 +2,11 @@
 // 'D*5/J1 'D1&J3J DF8'E AI Providers
 // ========================================
 
+// used by the factory helpers below
+import type { IAIProvider } from './interfaces/iai-provider.interface';
+import { ProviderRegistry } from './registry/provider-registry';
+import { ProviderFactory, ProviderType } from './registry/provider-factory';
+
 // 'DH',G'*
 export {
   IAIProvider,
@@ -15,14 +20,16 @@ export {
   UnifiedMessage,
   UnifiedTool,
   UnifiedResponse,
-  UnifiedToolCall
+  UnifiedToolCall,
+  UnifiedStreamEvent
 } from './interfaces/unified-types.interface';
 
 export {
   ProviderConfig,
   ClaudeConfig,
   DeepSeekConfig,
-  GeminiConfig
+  GeminiConfig,
+  OpenAICompatibleConfig
 } from './interfaces/provider-config.interface';
 
 // 'DE-HD'*
@@ -30,19 +37,81 @@ export { BaseAdapter } from './adapters/base-adapter';
 export { ClaudeAdapter } from './adapters/claude-adapter';
 export { DeepSeekAdapter } from './adapters/deepseek-adapter';
 export { GeminiAdapter } from './adapters/gemini-adapter';
+export { OpenAICompatibleAdapter } from './adapters/openai-compatible-adapter';
 
 // 'D3,D H'DE5F9
 export { ProviderRegistry } from './registry/provider-registry';
 export { ProviderFactory, ProviderType, ProviderFactoryConfig } from './registry/provider-factory';
 
+// Testing: scripted provider and record/replay cassettes
+export {
+  ScriptedProvider,
+  ScriptedProviderOptions,
+  ScriptedReply,
+  ScriptStep,
+  ScriptedCall
+} from './testing/scripted-provider';
+export {
+  CassetteProvider,
+  CassetteMissError,
+  CassetteMode,
+  CassetteOptions,
+  CassetteFile,
+  CassetteInteraction,
+  cassetteFromEnv,
+  normalizeContent
+} from './testing/cassette';
+
 // Utils
 export { ErrorHandler, ProviderError, ProviderErrorType } from './utils/error-handler';
 export { MessageConverter } from './utils/message-converter';
 export { ToolAdapter } from './utils/tool-adapter';
+export {
+  Tokenizer,
+  TokenizerProvider,
+  HeuristicTokenizer,
+  TiktokenTokenizer,
+  loadTokenizer,
+  getContextWindow
+} from './utils/tokenizer';
+export {
+  mapAnthropicStream,
+  mapOpenAIStream,
+  mapGeminiStream,
+  mapOllamaStream,
+  parseSSE,
+  openStream,
+  collectStream,
+  textDeltas,
+  responseToEvents,
+  StreamChannel,
+  CollectedStream
+} from './utils/stream-events';
 
 // Monitoring
 export { ProviderMonitor, ProviderMetrics, HealthStatus, PerformanceReport } from './monitoring/provider-monitor';
 export { CostTracker, CostEntry, CostFilters, Budget, CostAlert, CostAlertType } from './monitoring/cost-tracker';
+export {
+  CostLedger,
+  BudgetGuard,
+  BudgetExceededError,
+  getCostLedger,
+  getBudgetGuard,
+  pricedEstimator,
+  costReportToCSV,
+  LedgerEntry,
+  LedgerRecord,
+  LedgerFilters,
+  BudgetLimits,
+  BudgetPolicy,
+  BudgetPeriod,
+  BudgetCheck,
+  BudgetCandidate,
+  BudgetAuthorization,
+  CostEstimator,
+  CostReportGroup,
+  CostReportRow
+} from './monitoring/cost-ledger';
 export { MetricsCollector, Metric, MetricType, MetricFilters, AggregatedMetrics, MetricStats, MetricsReport } from './monitoring/metrics-collector';
 
 // 'DEHH,G H'DE-// (Router)
@@ -121,6 +190,16 @@ export function createDefaultProviderRegistry(): any { // ProviderRegistry {
     }
   }
 
+  // OpenAI-compatible server (vLLM, llama.cpp, LM Studio) under OPENAI_COMPATIBLE_NAME
+  const compatible = ProviderFactory.openAICompatibleConfigFromEnv();
+  if (compatible) {
+    try {
+      registry.registerOpenAICompatible(compatible);
+    } catch (error) {
+      console.warn(`Failed to register ${compatible.name} provider:`, error);
+    }
+  }
+
   return registry;
 }
 
@@ -205,13 +284,24 @@ export {
   getPerformanceStats,
   type ExecutionOptions,
   type ExecutionResult,
+  type ExecutionStream,
   type PerformanceStats
 } from './unified-executor-pro';
 
 // الأنظمة الداعمة
 export { getConnectionManager } from './connection-manager';
 export { getDynamicRouter, type TaskAnalysis, type RoutingDecision } from './dynamic-router';
-export { getCacheLayer } from './cache-layer';
+export {
+  getCacheLayer,
+  CacheLayer,
+  cacheOptionsFromEnv,
+  readCacheStats,
+  DEFAULT_CACHE_TTL,
+  type CachedResponse,
+  type CacheContext,
+  type CacheStats,
+  type SemanticCacheOptions
+} from './cache-layer';
 export { getFallbackSystem } from './fallback-system';
 export { getMetricsSystem } from './metrics-system';
 export { getQueueSystem } from './queue-system';
@@ -1,4 +1,9 @@
-import { UnifiedMessage, UnifiedTool, UnifiedResponse } from './unified-types.interface';
+import {
+  UnifiedMessage,
+  UnifiedTool,
+  UnifiedResponse,
+  UnifiedStreamEvent
+} from './unified-types.interface';
 
 // Re-export UnifiedResponse for router use
 export { UnifiedResponse } from './unified-types.interface';
@@ -23,6 +28,7 @@ export interface RequestOptions {
   presencePenalty?: number;
   stop?: string[];
   model?: string;
+  signal?: AbortSignal; // cancels the request (and an open stream)
 }
 
 export interface ProviderConfig {
@@ -44,9 +50,19 @@ export interface RoutingDecision {
 
 export interface IAIProvider {
   // 'DH8'&A 'D#3'3J)
-  chat(messages: UnifiedMessage[]): Promise<UnifiedResponse>;
-  chatWithTools(messages: UnifiedMessage[], tools: UnifiedTool[]): Promise<UnifiedResponse>;
-  streamChat(messages: UnifiedMessage[]): AsyncGenerator<string>;
+  chat(messages: UnifiedMessage[], options?: RequestOptions): Promise<UnifiedResponse>;
+  chatWithTools(
+    messages: UnifiedMessage[],
+    tools: UnifiedTool[],
+    options?: RequestOptions
+  ): Promise<UnifiedResponse>;
+  streamChat(messages: UnifiedMessage[], options?: RequestOptions): AsyncGenerator<string>;
+  // text, tool calls and usage as they arrive (see UnifiedStreamEvent)
+  streamEvents(
+    messages: UnifiedMessage[],
+    tools?: UnifiedTool[],
+    options?: RequestOptions
+  ): AsyncGenerator<UnifiedStreamEvent>;
 
   // 'DE9DHE'* H'D%-5'&J'*
   getCapabilities(): ProviderCapabilities;
@@ -65,6 +81,7 @@ export interface ProviderCapabilities {
   availableModels: string[];
   maxTokens: number;
   maxToolsPerCall: number;
+  contextWindow: number; // input + output tokens of the configured model
 }
 
 export interface PricingInfo {
@@ -18,3 +18,25 @@ export interface DeepSeekConfig extends ProviderConfig {
 export interface GeminiConfig extends ProviderConfig {
   defaultModel?: 'gemini-pro' | 'gemini-pro-vision';
 }
+
+/**
+ * Any server speaking OpenAI's /v1/chat/completions (vLLM, llama.cpp server,
+ * LM Studio, ...). Prices are USD per 1M tokens; local servers default to 0.
+ */
+export interface OpenAICompatibleConfig extends Omit<ProviderConfig, 'apiKey'> {
+  name: string; // registry name and metadata.provider
+  baseURL: string; // up to and including /v1
+  apiKey?: string; // most local servers need none
+  defaultModel: string;
+  models?: string[]; // defaults to [defaultModel]
+  pricing?: Record<string, { input: number; output: number }>;
+  capabilities?: {
+    tools?: boolean; // default true
+    streaming?: boolean; // default true
+    vision?: boolean; // default false
+    maxTokens?: number; // max output tokens, default 4096
+    maxToolsPerCall?: number;
+    contextWindow?: number; // default 8192
+  };
+  streamUsage?: boolean; // send stream_options.include_usage (default true)
+}
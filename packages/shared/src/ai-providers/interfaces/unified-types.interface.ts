@@ -25,7 +25,7 @@ export interface UnifiedTool {
   description: string;
   parameters: Record<string, UnifiedToolParameter>;
   required?: string[];
-  execute: (args: Record<string, any>) => Promise<any>;
+  execute: (args: Record<string, any>, context?: { signal?: AbortSignal }) => Promise<any>;
 }
 
 export interface UnifiedResponse {
@@ -55,3 +55,19 @@ export interface UnifiedToolCall {
   arguments: any;
   confidence?: number;
 }
+
+/**
+ * One streaming protocol for every provider. Tool calls are announced with
+ * `tool_call_start`, their JSON arguments arrive as `tool_call_delta` chunks
+ * and `tool_call_end` carries the parsed arguments. `tool_result` is only
+ * emitted by executors that run the tools themselves.
+ */
+export type UnifiedStreamEvent =
+  | { type: 'text_delta'; text: string }
+  | { type: 'tool_call_start'; id: string; name: string; index: number }
+  | { type: 'tool_call_delta'; id: string; argumentsDelta: string }
+  | { type: 'tool_call_end'; id: string; name: string; arguments: any }
+  | { type: 'tool_result'; id: string; name: string; result: string; isError?: boolean }
+  | { type: 'usage'; inputTokens: number; outputTokens: number; model?: string }
+  | { type: 'error'; error: string; retryable?: boolean }
+  | { type: 'done'; stopReason?: string };
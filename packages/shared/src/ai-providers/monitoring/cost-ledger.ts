@@ -0,0 +1,409 @@
+// cost-ledger.ts
+// ============================================
+// 📒 سجل التكاليف الدائم - Cost Ledger (~/.oqool/costs.jsonl)
+// ============================================
+// Append-only JSONL ledger shared by every oqool process, with per-project,
+// per-provider and per-command attribution. Budgets are checked against the
+// provider's estimate *before* a request is sent (see BudgetGuard).
+
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import type { IAIProvider, CostEstimate } from '../interfaces/iai-provider.interface.js';
+import type { UnifiedMessage, UnifiedResponse } from '../interfaces/unified-types.interface.js';
+
+const LEDGER_FILE = 'costs.jsonl';
+const BUDGETS_FILE = 'budgets.json';
+
+export interface LedgerEntry {
+  id: string;
+  timestamp: string; // ISO
+  provider: string;
+  model: string;
+  cost: number; // USD
+  inputTokens: number;
+  outputTokens: number;
+  project: string; // project root
+  command: string; // CLI command, 'unknown' outside the CLI
+  sessionId: string;
+  downgradedFrom?: string;
+  metadata?: Record<string, unknown>; // caller attribution, e.g. { role } or { planId, taskId }
+}
+
+export type LedgerRecord = Pick<LedgerEntry, 'provider' | 'model' | 'cost'> &
+  Partial<Omit<LedgerEntry, 'id' | 'timestamp'>>;
+
+export type BudgetPeriod = 'daily' | 'monthly' | 'session';
+
+export type BudgetPolicy = 'block' | 'downgrade' | 'confirm';
+
+export interface BudgetLimits {
+  daily?: number;
+  monthly?: number;
+  session?: number;
+  policy: BudgetPolicy;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  estimatedCost: number;
+  policy: BudgetPolicy;
+  exceeded: Array<{ period: BudgetPeriod; limit: number; spent: number }>;
+}
+
+export type CostReportGroup = 'provider' | 'project' | 'command' | 'model' | 'role';
+
+export interface CostReportRow {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface LedgerFilters {
+  since?: Date;
+  until?: Date;
+  provider?: string;
+  project?: string;
+  command?: string;
+}
+
+export interface CostLedgerOptions {
+  dir?: string; // default: ~/.oqool
+  project?: string; // default: process.cwd()
+  command?: string;
+  sessionId?: string;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(public readonly check: BudgetCheck, public readonly provider: string) {
+    const estimate = check.estimatedCost.toFixed(4);
+    const details = check.exceeded
+      .map((e) => `${e.period} $${e.spent.toFixed(4)} + $${estimate} > $${e.limit}`)
+      .join(', ');
+    super(`Budget exceeded for ${provider}: ${details}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Persistent cost ledger. Entries are cached in memory and only the bytes
+ * appended since the last read (possibly by other processes) are parsed.
+ */
+export class CostLedger {
+  private dir: string;
+  private project: string;
+  private command: string;
+  private sessionId: string;
+  private entries: LedgerEntry[] = [];
+  private offset = 0;
+
+  constructor(options: CostLedgerOptions = {}) {
+    this.dir = options.dir || path.join(os.homedir(), '.oqool');
+    this.project = options.project || process.cwd();
+    this.command = options.command || 'unknown';
+    this.sessionId = options.sessionId || `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  /**
+   * Attribution for the entries recorded from now on
+   */
+  setContext(context: { project?: string; command?: string }): void {
+    if (context.project) this.project = context.project;
+    if (context.command) this.command = context.command;
+  }
+
+  getSessionId(): string {
+    return this.sessionId;
+  }
+
+  async record(record: LedgerRecord): Promise<LedgerEntry> {
+    const entry: LedgerEntry = {
+      inputTokens: 0,
+      outputTokens: 0,
+      project: this.project,
+      command: this.command,
+      sessionId: this.sessionId,
+      ...record,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+      timestamp: new Date().toISOString(),
+    };
+
+    await fs.ensureDir(this.dir);
+    await fs.appendFile(this.ledgerPath, JSON.stringify(entry) + '\n');
+    return entry;
+  }
+
+  async read(filters: LedgerFilters = {}): Promise<LedgerEntry[]> {
+    await this.sync();
+
+    const since = filters.since?.toISOString();
+    const until = filters.until?.toISOString();
+
+    return this.entries.filter((entry) => {
+      if (since && entry.timestamp < since) return false;
+      if (until && entry.timestamp > until) return false;
+      if (filters.provider && entry.provider !== filters.provider) return false;
+      if (filters.project && entry.project !== filters.project) return false;
+      if (filters.command && entry.command !== filters.command) return false;
+      return true;
+    });
+  }
+
+  /**
+   * Spent so far in the current day, month or session
+   */
+  async spent(period: BudgetPeriod, now: Date = new Date()): Promise<number> {
+    const entries =
+      period === 'session'
+        ? (await this.read()).filter((entry) => entry.sessionId === this.sessionId)
+        : await this.read({ since: periodStart(period, now) });
+
+    return entries.reduce((sum, entry) => sum + entry.cost, 0);
+  }
+
+  async report(by: CostReportGroup, filters: LedgerFilters = {}): Promise<CostReportRow[]> {
+    const rows = new Map<string, CostReportRow>();
+
+    for (const entry of await this.read(filters)) {
+      const key = String((by === 'role' ? entry.metadata?.role : entry[by]) || 'unknown');
+      const row = rows.get(key) || { key, calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+      row.calls++;
+      row.inputTokens += entry.inputTokens;
+      row.outputTokens += entry.outputTokens;
+      row.cost += entry.cost;
+      rows.set(key, row);
+    }
+
+    return Array.from(rows.values()).sort((a, b) => b.cost - a.cost);
+  }
+
+  async loadBudgets(): Promise<BudgetLimits> {
+    try {
+      return { policy: 'block', ...(await fs.readJson(this.budgetsPath)) };
+    } catch {
+      return { policy: 'block' };
+    }
+  }
+
+  async saveBudgets(limits: BudgetLimits): Promise<void> {
+    await fs.ensureDir(this.dir);
+    await fs.writeJson(this.budgetsPath, limits, { spaces: 2 });
+  }
+
+  /**
+   * Would spending `estimatedCost` more stay within every configured budget?
+   */
+  async checkBudget(estimatedCost: number): Promise<BudgetCheck> {
+    const limits = await this.loadBudgets();
+    const exceeded: BudgetCheck['exceeded'] = [];
+
+    for (const period of ['daily', 'monthly', 'session'] as const) {
+      const limit = limits[period];
+      if (limit === undefined) continue;
+
+      const spent = await this.spent(period);
+      if (spent + estimatedCost > limit) {
+        exceeded.push({ period, limit, spent });
+      }
+    }
+
+    return { allowed: exceeded.length === 0, estimatedCost, policy: limits.policy, exceeded };
+  }
+
+  private async sync(): Promise<void> {
+    let size: number;
+    try {
+      size = (await fs.stat(this.ledgerPath)).size;
+    } catch {
+      this.entries = [];
+      this.offset = 0;
+      return;
+    }
+
+    if (size < this.offset) {
+      // truncated or replaced: read from the start
+      this.entries = [];
+      this.offset = 0;
+    }
+    if (size === this.offset) return;
+
+    const handle = await fs.open(this.ledgerPath, 'r');
+    try {
+      const buffer = Buffer.alloc(size - this.offset);
+      await fs.read(handle, buffer, 0, buffer.length, this.offset);
+
+      // a concurrent writer may have left a partial last line
+      const text = buffer.toString('utf8');
+      const complete = text.lastIndexOf('\n') + 1;
+      this.offset += Buffer.byteLength(text.slice(0, complete));
+
+      for (const line of text.slice(0, complete).split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          this.entries.push(JSON.parse(line));
+        } catch {
+          // skip corrupted lines
+        }
+      }
+    } finally {
+      await fs.close(handle);
+    }
+  }
+
+  private get ledgerPath(): string {
+    return path.join(this.dir, LEDGER_FILE);
+  }
+
+  private get budgetsPath(): string {
+    return path.join(this.dir, BUDGETS_FILE);
+  }
+}
+
+// ============================================
+// 🛡️ Budget Guard - فحص الميزانية قبل الإرسال
+// ============================================
+
+// direct SDK clients and the Oqool backend only need to estimate their cost
+export type CostEstimator = Pick<IAIProvider, 'estimateCost'>;
+
+export interface BudgetCandidate<P extends CostEstimator = IAIProvider> {
+  name: string;
+  provider: P;
+}
+
+export interface BudgetAuthorization<P extends CostEstimator = IAIProvider>
+  extends BudgetCandidate<P> {
+  estimate: CostEstimate;
+  check: BudgetCheck;
+  downgradedFrom?: string;
+}
+
+export type BudgetConfirmHandler = (check: BudgetCheck, provider: string) => Promise<boolean>;
+
+/**
+ * Applies the budget policy before a provider call:
+ * - block: refuse the request
+ * - downgrade: switch to the cheapest alternative that fits the budget
+ * - confirm: ask the confirm handler; without one the request is refused
+ */
+export class BudgetGuard {
+  private confirmHandler?: BudgetConfirmHandler;
+
+  constructor(private ledger: CostLedger) {}
+
+  setConfirmHandler(handler: BudgetConfirmHandler | undefined): void {
+    this.confirmHandler = handler;
+  }
+
+  async authorize<P extends CostEstimator>(
+    requested: BudgetCandidate<P>,
+    messages: UnifiedMessage[],
+    alternatives: BudgetCandidate<P>[] = []
+  ): Promise<BudgetAuthorization<P>> {
+    const estimate = requested.provider.estimateCost(messages);
+    const check = await this.ledger.checkBudget(estimate.estimatedCost);
+    if (check.allowed) return { ...requested, estimate, check };
+
+    if (check.policy === 'confirm') {
+      if (this.confirmHandler && (await this.confirmHandler(check, requested.name))) {
+        return { ...requested, estimate, check };
+      }
+    } else if (check.policy === 'downgrade') {
+      const cheaper = alternatives
+        .filter((candidate) => candidate.name !== requested.name)
+        .map((candidate) => ({ ...candidate, estimate: candidate.provider.estimateCost(messages) }))
+        .filter((candidate) => candidate.estimate.estimatedCost < estimate.estimatedCost)
+        .sort((a, b) => a.estimate.estimatedCost - b.estimate.estimatedCost);
+
+      for (const candidate of cheaper) {
+        const candidateCheck = await this.ledger.checkBudget(candidate.estimate.estimatedCost);
+        if (candidateCheck.allowed) {
+          return { ...candidate, check: candidateCheck, downgradedFrom: requested.name };
+        }
+      }
+    }
+
+    throw new BudgetExceededError(check, requested.name);
+  }
+
+  /**
+   * Record what an authorized call actually cost, with the caller's metadata
+   */
+  async settle(
+    authorization: BudgetAuthorization<CostEstimator>,
+    response: { usage?: UnifiedResponse['usage']; metadata?: Partial<UnifiedResponse['metadata']> },
+    metadata?: Record<string, unknown>
+  ): Promise<LedgerEntry> {
+    const { estimate } = authorization;
+    return this.ledger.record({
+      provider: authorization.name,
+      model: response.metadata?.model || 'unknown',
+      cost: response.metadata?.cost ?? estimate.estimatedCost,
+      inputTokens: response.usage?.inputTokens ?? Math.round(estimate.estimatedInputTokens),
+      outputTokens: response.usage?.outputTokens ?? 0,
+      downgradedFrom: authorization.downgradedFrom,
+      metadata,
+    });
+  }
+}
+
+/**
+ * Estimate for a client outside the provider registry: ~4 characters per
+ * input token and a fixed reply size, at `[input, output]` USD per million
+ * tokens.
+ */
+export function pricedEstimator(
+  [input, output]: [number, number],
+  outputTokens = 500
+): CostEstimator {
+  return {
+    estimateCost(messages) {
+      const inputTokens = messages.reduce((sum, m) => sum + m.content.length / 4, 0);
+      return {
+        estimatedInputTokens: inputTokens,
+        estimatedOutputTokens: outputTokens,
+        estimatedCost: (inputTokens * input + outputTokens * output) / 1_000_000,
+        currency: 'USD',
+      };
+    },
+  };
+}
+
+function periodStart(period: Exclude<BudgetPeriod, 'session'>, now: Date): Date {
+  return period === 'daily'
+    ? new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    : new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+/**
+ * Render report rows as CSV
+ */
+export function costReportToCSV(by: CostReportGroup, rows: CostReportRow[]): string {
+  const escape = (value: string) =>
+    /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const lines = [`${by},calls,input_tokens,output_tokens,cost_usd`];
+  for (const row of rows) {
+    lines.push(
+      [escape(row.key), row.calls, row.inputTokens, row.outputTokens, row.cost.toFixed(6)].join(',')
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+let ledger: CostLedger | undefined;
+let guard: BudgetGuard | undefined;
+
+/**
+ * Process-wide ledger (one session per process)
+ */
+export function getCostLedger(): CostLedger {
+  if (!ledger) ledger = new CostLedger();
+  return ledger;
+}
+
+export function getBudgetGuard(): BudgetGuard {
+  if (!guard) guard = new BudgetGuard(getCostLedger());
+  return guard;
+}
@@ -1,3 +1,5 @@
+import type { CostLedger } from './cost-ledger';
+
 /**
  * E**(9 'D*CDA) 'DE*B/E
  */
@@ -6,6 +8,9 @@ export class CostTracker {
   private budgets: Map<string, Budget> = new Map();
   private alerts: CostAlert[] = [];
 
+  // with a ledger, every recorded cost is also persisted to ~/.oqool
+  constructor(private ledger?: CostLedger) {}
+
   /**
    * *3,JD *CDA)
    */
@@ -18,6 +23,21 @@ export class CostTracker {
 
     this.costs.push(costEntry);
 
+    if (this.ledger) {
+      this.ledger
+        .record({
+          provider: entry.provider,
+          model: entry.model,
+          cost: entry.cost,
+          inputTokens: entry.inputTokens,
+          outputTokens: entry.outputTokens,
+          project: entry.projectId,
+        })
+        .catch(() => {
+          // the in-memory record is kept even if the ledger is not writable
+        });
+    }
+
     // 'D*-BB EF 'DEJ2'FJ'*
     this.checkBudgets(costEntry);
 
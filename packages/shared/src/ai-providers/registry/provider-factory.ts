@@ -2,18 +2,35 @@ import { IAIProvider } from '../interfaces/iai-provider.interface';
 import { ClaudeAdapter } from '../adapters/claude-adapter';
 import { DeepSeekAdapter } from '../adapters/deepseek-adapter';
 import { GeminiAdapter } from '../adapters/gemini-adapter';
+import { OpenAICompatibleAdapter } from '../adapters/openai-compatible-adapter';
+import { OpenAICompatibleConfig } from '../interfaces/provider-config.interface';
+import { ScriptedProvider, ScriptStep } from '../testing/scripted-provider';
+import { CassetteProvider, CassetteOptions, cassetteFromEnv } from '../testing/cassette';
 
-export type ProviderType = 'claude' | 'deepseek' | 'gemini';
+// 'openai-compatible' is any /v1/chat/completions server (vLLM, llama.cpp, LM Studio);
+// 'fake' is the scripted provider used by tests and CI (no network)
+export type ProviderType = 'claude' | 'deepseek' | 'gemini' | 'openai-compatible' | 'fake';
 
 export interface ProviderFactoryConfig {
   apiKey: string;
   defaultModel?: string;
   baseURL?: string;
+  script?: ScriptStep[]; // 'fake' only
+  name?: string; // 'openai-compatible': registry name, see OpenAICompatibleConfig
+  cassette?: CassetteOptions; // record/replay this provider
   [key: string]: any;
 }
 
 export class ProviderFactory {
   static createProvider(type: ProviderType, config: ProviderFactoryConfig): IAIProvider {
+    if (config.cassette) {
+      // replay needs neither the API key nor the network
+      const { cassette, ...rest } = config;
+      const inner =
+        cassette.mode === 'replay' ? undefined : this.createProvider(type, rest);
+      return new CassetteProvider(inner, { name: type, ...cassette });
+    }
+
     switch (type) {
       case 'claude':
         return new ClaudeAdapter(config.apiKey, config);
@@ -24,6 +41,20 @@ export class ProviderFactory {
       case 'gemini':
         return new GeminiAdapter(config.apiKey, config);
 
+      case 'openai-compatible':
+        if (!config.baseURL || !config.defaultModel) {
+          throw new Error('openai-compatible provider needs baseURL and defaultModel');
+        }
+        return new OpenAICompatibleAdapter({
+          ...config,
+          name: config.name || 'openai-compatible',
+          baseURL: config.baseURL,
+          defaultModel: config.defaultModel
+        } as OpenAICompatibleConfig);
+
+      case 'fake':
+        return new ScriptedProvider({ name: 'fake', model: config.defaultModel, ...config });
+
       default:
         throw new Error(`Unknown provider type: ${type}`);
     }
@@ -33,19 +64,55 @@ export class ProviderFactory {
     const envKeyMap: Record<ProviderType, string> = {
       claude: 'ANTHROPIC_API_KEY',
       deepseek: 'DEEPSEEK_API_KEY',
-      gemini: 'GEMINI_API_KEY'
+      gemini: 'GEMINI_API_KEY',
+      'openai-compatible': '',
+      fake: ''
     };
 
-    const apiKey = process.env[envKeyMap[type]];
+    if (type === 'openai-compatible') {
+      const config = this.openAICompatibleConfigFromEnv();
+      if (!config) {
+        throw new Error('OPENAI_COMPATIBLE_BASE_URL and OPENAI_COMPATIBLE_MODEL are not set');
+      }
+      return this.createProvider(type, {
+        ...config,
+        apiKey: config.apiKey || '',
+        cassette: cassetteFromEnv(config.name)
+      });
+    }
+
+    // OQOOL_CASSETTES / OQOOL_CASSETTE_MODE, see testing/cassette.ts
+    const cassette = cassetteFromEnv(type);
+    const apiKey = envKeyMap[type] ? process.env[envKeyMap[type]] : '';
 
-    if (!apiKey) {
+    if (apiKey === undefined && cassette?.mode !== 'replay') {
       throw new Error(`${envKeyMap[type]} environment variable is not set`);
     }
 
-    return this.createProvider(type, { apiKey });
+    return this.createProvider(type, { apiKey: apiKey || '', cassette });
   }
 
   static getSupportedProviders(): ProviderType[] {
-    return ['claude', 'deepseek', 'gemini'];
+    return ['claude', 'deepseek', 'gemini', 'openai-compatible'];
+  }
+
+  /**
+   * OPENAI_COMPATIBLE_BASE_URL + OPENAI_COMPATIBLE_MODEL, with optional
+   * OPENAI_COMPATIBLE_NAME, OPENAI_COMPATIBLE_API_KEY and
+   * OPENAI_COMPATIBLE_CONTEXT_WINDOW
+   */
+  static openAICompatibleConfigFromEnv(): OpenAICompatibleConfig | undefined {
+    const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL;
+    const defaultModel = process.env.OPENAI_COMPATIBLE_MODEL;
+    if (!baseURL || !defaultModel) return undefined;
+
+    const contextWindow = Number(process.env.OPENAI_COMPATIBLE_CONTEXT_WINDOW) || undefined;
+    return {
+      name: process.env.OPENAI_COMPATIBLE_NAME || 'local',
+      baseURL,
+      defaultModel,
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+      ...(contextWindow && { capabilities: { contextWindow } })
+    };
   }
 }
@@ -1,4 +1,6 @@
 import { IAIProvider } from '../interfaces/iai-provider.interface';
+import { OpenAICompatibleConfig } from '../interfaces/provider-config.interface';
+import { OpenAICompatibleAdapter } from '../adapters/openai-compatible-adapter';
 
 export class ProviderRegistry {
   private providers: Map<string, IAIProvider> = new Map();
@@ -8,6 +10,15 @@ export class ProviderRegistry {
     this.providers.set(name, provider);
   }
 
+  /**
+   * Register an OpenAI-compatible server under `config.name`
+   */
+  registerOpenAICompatible(config: OpenAICompatibleConfig): OpenAICompatibleAdapter {
+    const adapter = new OpenAICompatibleAdapter(config);
+    this.registerProvider(config.name, adapter);
+    return adapter;
+  }
+
   getProvider(name: string): IAIProvider {
     const provider = this.providers.get(name);
     if (!provider) {
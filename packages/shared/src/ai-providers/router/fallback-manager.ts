@@ -6,6 +6,8 @@
 // circuit breaker pattern, and adaptive recovery mechanisms
 // ============================================
 
+import { isAbortError, sleep, abortable, throwIfAborted } from '../../core/abort.js';
+
 // ============================================
 // 📊 Core Types & Interfaces
 // ============================================
@@ -83,7 +85,7 @@ export interface ExecutionAttempt {
 export interface ExecutionError {
   code: string;
   message: string;
-  type: 'timeout' | 'rate_limit' | 'auth' | 'server' | 'network' | 'unknown';
+  type: 'timeout' | 'rate_limit' | 'auth' | 'server' | 'network' | 'cancelled' | 'unknown';
   retryable: boolean;
   provider: string;
   timestamp: Date;
@@ -195,10 +197,15 @@ export class FallbackManager {
   /**
    * Execute with fallback support
    * التنفيذ مع دعم الاحتياط
+   *
+   * `signal` is passed to every executor call; once it fires no further
+   * attempt, retry or fallback is started and the result has a `cancelled`
+   * error.
    */
   async executeWithFallback<T>(
     chain: FallbackChain,
-    executor: (provider: string) => Promise<T>
+    executor: (provider: string, signal?: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
   ): Promise<FallbackResult<T>> {
     const startTime = Date.now();
     const attempts: ExecutionAttempt[] = [];
@@ -217,23 +224,23 @@ export class FallbackManager {
 
       switch (chain.strategy) {
         case 'sequential':
-          result = await this.executeSequential(providers, executor, chain, attempts);
+          result = await this.executeSequential(providers, executor, chain, attempts, signal);
           break;
 
         case 'parallel':
-          result = await this.executeParallel(providers, executor, chain, attempts);
+          result = await this.executeParallel(providers, executor, chain, attempts, signal);
           break;
 
         case 'cascade':
-          result = await this.executeCascade(providers, executor, chain, attempts);
+          result = await this.executeCascade(providers, executor, chain, attempts, signal);
           break;
 
         case 'adaptive':
-          result = await this.executeAdaptive(providers, executor, chain, attempts);
+          result = await this.executeAdaptive(providers, executor, chain, attempts, signal);
           break;
 
         default:
-          result = await this.executeSequential(providers, executor, chain, attempts);
+          result = await this.executeSequential(providers, executor, chain, attempts, signal);
       }
 
       // Update health status
@@ -253,7 +260,11 @@ export class FallbackManager {
 
       return result;
     } catch (error: any) {
-      this.logger(`Execution failed catastrophically: ${error.message}`, 'error');
+      if (isAbortError(error)) {
+        this.logger('Execution cancelled', 'warn');
+      } else {
+        this.logger(`Execution failed catastrophically: ${error.message}`, 'error');
+      }
 
       return {
         success: false,
@@ -277,11 +288,14 @@ export class FallbackManager {
    */
   private async executeSequential<T>(
     providers: string[],
-    executor: (provider: string) => Promise<T>,
+    executor: (provider: string, signal?: AbortSignal) => Promise<T>,
     chain: FallbackChain,
-    attempts: ExecutionAttempt[]
+    attempts: ExecutionAttempt[],
+    signal?: AbortSignal
   ): Promise<FallbackResult<T>> {
     for (const provider of providers) {
+      throwIfAborted(signal);
+
       // Check circuit breaker
       if (this.isCircuitOpen(provider)) {
         this.logger(`Circuit breaker open for ${provider}, skipping`, 'warn');
@@ -290,7 +304,7 @@ export class FallbackManager {
       }
 
       // Try with retries
-      const result = await this.tryWithRetries(provider, executor, chain, attempts);
+      const result = await this.tryWithRetries(provider, executor, chain, attempts, signal);
 
       if (result.success) {
         return {
@@ -332,9 +346,10 @@ export class FallbackManager {
    */
   private async executeParallel<T>(
     providers: string[],
-    executor: (provider: string) => Promise<T>,
+    executor: (provider: string, signal?: AbortSignal) => Promise<T>,
     chain: FallbackChain,
-    attempts: ExecutionAttempt[]
+    attempts: ExecutionAttempt[],
+    signal?: AbortSignal
   ): Promise<FallbackResult<T>> {
     const parallelCount = Math.min(
       chain.parallelAttempts || 2,
@@ -371,7 +386,7 @@ export class FallbackManager {
 
     // Execute in parallel with race
     const promises = selectedProviders.map(async (provider) => {
-      const result = await this.tryWithRetries(provider, executor, chain, attempts);
+      const result = await this.tryWithRetries(provider, executor, chain, attempts, signal);
       return { provider, result };
     });
 
@@ -399,6 +414,8 @@ export class FallbackManager {
         metrics: this.buildMetrics(attempts),
       };
     } catch (error) {
+      if (isAbortError(error)) throw error;
+
       // All failed
       return {
         success: false,
@@ -418,9 +435,10 @@ export class FallbackManager {
    */
   private async executeCascade<T>(
     providers: string[],
-    executor: (provider: string) => Promise<T>,
+    executor: (provider: string, signal?: AbortSignal) => Promise<T>,
     chain: FallbackChain,
-    attempts: ExecutionAttempt[]
+    attempts: ExecutionAttempt[],
+    signal?: AbortSignal
   ): Promise<FallbackResult<T>> {
     // Sort providers by health
     const sortedProviders = this.sortProvidersByHealth(providers);
@@ -431,6 +449,8 @@ export class FallbackManager {
     );
 
     for (const provider of sortedProviders) {
+      throwIfAborted(signal);
+
       // Smart skip decision
       const shouldSkip = this.shouldSkipProvider(provider);
 
@@ -441,7 +461,7 @@ export class FallbackManager {
       }
 
       // Try provider
-      const result = await this.tryWithRetries(provider, executor, chain, attempts);
+      const result = await this.tryWithRetries(provider, executor, chain, attempts, signal);
 
       if (result.success) {
         this.recordSuccess(provider);
@@ -484,9 +504,10 @@ export class FallbackManager {
    */
   private async executeAdaptive<T>(
     providers: string[],
-    executor: (provider: string) => Promise<T>,
+    executor: (provider: string, signal?: AbortSignal) => Promise<T>,
     chain: FallbackChain,
-    attempts: ExecutionAttempt[]
+    attempts: ExecutionAttempt[],
+    signal?: AbortSignal
   ): Promise<FallbackResult<T>> {
     // Analyze historical patterns
     const recommendations = this.analyzeHistoricalPatterns(providers);
@@ -497,7 +518,7 @@ export class FallbackManager {
     );
 
     // Use cascade with adaptive ordering
-    return this.executeCascade(recommendations, executor, chain, attempts);
+    return this.executeCascade(recommendations, executor, chain, attempts, signal);
   }
 
   // ============================================
@@ -510,9 +531,10 @@ export class FallbackManager {
    */
   private async tryWithRetries<T>(
     provider: string,
-    executor: (provider: string) => Promise<T>,
+    executor: (provider: string, signal?: AbortSignal) => Promise<T>,
     chain: FallbackChain,
-    attempts: ExecutionAttempt[]
+    attempts: ExecutionAttempt[],
+    signal?: AbortSignal
   ): Promise<{ success: boolean; data?: T; error?: ExecutionError }> {
     const retryStrategy = chain.retryStrategy || this.defaultRetryStrategy;
     let lastError: ExecutionError | undefined;
@@ -530,8 +552,9 @@ export class FallbackManager {
 
         // Execute with timeout
         const result = await this.executeWithTimeout(
-          () => executor(provider),
-          chain.timeout || 30000
+          () => executor(provider, signal),
+          chain.timeout || 30000,
+          signal
         );
 
         attemptRecord.success = true;
@@ -549,6 +572,11 @@ export class FallbackManager {
         attemptRecord.duration = attemptRecord.endTime - attemptRecord.startTime;
         attempts.push(attemptRecord);
 
+        // Cancellation is not the provider's fault: stop without retrying
+        if (lastError.type === 'cancelled') {
+          throw error;
+        }
+
         this.logger(
           `Attempt ${attempt} failed for ${provider}: ${lastError.message}`,
           'warn'
@@ -565,7 +593,7 @@ export class FallbackManager {
           );
 
           this.logger(`Waiting ${delay}ms before retry`, 'debug');
-          await this.sleep(delay);
+          await sleep(delay, signal);
         } else {
           break;
         }
@@ -978,6 +1006,17 @@ export class FallbackManager {
    * تصنيف الخطأ
    */
   private categorizeError(error: any, provider: string): ExecutionError {
+    if (isAbortError(error)) {
+      return {
+        code: 'CANCELLED',
+        message: error.message || 'Operation cancelled',
+        type: 'cancelled',
+        retryable: false,
+        provider,
+        timestamp: new Date(),
+      };
+    }
+
     const errorTypes = {
       timeout: ['timeout', 'etimedout', 'time out'],
       rate_limit: ['rate limit', 'too many requests', '429'],
@@ -1019,22 +1058,18 @@ export class FallbackManager {
    */
   private async executeWithTimeout<T>(
     fn: () => Promise<T>,
-    timeout: number
+    timeout: number,
+    signal?: AbortSignal
   ): Promise<T> {
-    return Promise.race([
-      fn(),
-      new Promise<T>((_, reject) =>
-        setTimeout(() => reject(new Error('Request timeout')), timeout)
-      ),
-    ]);
-  }
-
-  /**
-   * Sleep utility
-   * أداة النوم
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+    return abortable(
+      Promise.race([
+        fn(),
+        new Promise<T>((_, reject) =>
+          setTimeout(() => reject(new Error('Request timeout')), timeout)
+        ),
+      ]),
+      signal
+    );
   }
 
   /**
@@ -532,12 +532,8 @@ export class ProviderSelector {
         const caps = criteria.requiredCapabilities;
 
         // Context window
-        if (caps.contextWindow) {
-          const model = this.latencyModels.get(name);
-          if (!model || caps.contextWindow > 100000) {
-            // Assume 100k max for simplicity
-            meetsRequirements = false;
-          }
+        if (caps.contextWindow && provider.getCapabilities().contextWindow < caps.contextWindow) {
+          meetsRequirements = false;
         }
 
         // Streaming
@@ -904,30 +900,32 @@ export class ProviderSelector {
   }
 
   private supportsStreaming(provider: string): boolean {
-    // Implement based on provider capabilities
-    return true; // Assume all support streaming
+    return this.providers.get(provider)?.getCapabilities().supportsStreaming ?? false;
   }
 
   private supportsToolCalling(provider: string): boolean {
-    // Implement based on provider capabilities
-    return ['claude', 'openai', 'gemini'].includes(provider);
+    return this.providers.get(provider)?.getCapabilities().supportsTools ?? false;
   }
 
   private supportsVision(provider: string): boolean {
-    // Implement based on provider capabilities
-    return ['claude', 'openai', 'gemini'].includes(provider);
+    return this.providers.get(provider)?.getCapabilities().supportsVision ?? false;
   }
 
   // ============================================
   // 🔧 Provider Management
   // ============================================
 
+  /**
+   * Register a provider for selection. Models that are not given are derived
+   * from the provider itself (pricing, last latency) with neutral quality, so
+   * any IAIProvider - an OpenAI-compatible server included - is routable.
+   */
   registerProvider(
     name: string,
     provider: IAIProvider,
-    costModel: CostModel,
-    qualityModel: QualityModel,
-    latencyModel: LatencyModel
+    costModel: CostModel = this.defaultCostModel(name, provider),
+    qualityModel: QualityModel = this.defaultQualityModel(name),
+    latencyModel: LatencyModel = this.defaultLatencyModel(name, provider)
   ): void {
     this.providers.set(name, provider);
     this.costModels.set(name, costModel);
@@ -961,6 +959,54 @@ export class ProviderSelector {
     this.logger(`Registered provider: ${name}`, 'info');
   }
 
+  private defaultCostModel(name: string, provider: IAIProvider): CostModel {
+    const pricing = provider.getPricing();
+    return {
+      provider: name,
+      pricing: {
+        inputCostPerMToken: pricing.inputCostPerToken * 1_000_000,
+        outputCostPerMToken: pricing.outputCostPerToken * 1_000_000,
+      },
+      estimateCost: (inputTokens, outputTokens) =>
+        inputTokens * pricing.inputCostPerToken + outputTokens * pricing.outputCostPerToken,
+    };
+  }
+
+  private defaultQualityModel(name: string): QualityModel {
+    const taskSpecificQuality = new Map<string, number>();
+    return {
+      provider: name,
+      baseQuality: 0.7,
+      strengthAreas: [],
+      weaknessAreas: [],
+      taskSpecificQuality,
+      predictQuality: (taskType) => taskSpecificQuality.get(taskType) ?? 0.7,
+    };
+  }
+
+  private defaultLatencyModel(name: string, provider: IAIProvider): LatencyModel {
+    const overhead = provider.getStatus().latency || 500;
+    const tokenProcessingRate = 50; // tokens per second
+    return {
+      provider: name,
+      baseLatency: overhead,
+      tokenProcessingRate,
+      overhead,
+      variability: 0.3,
+      predictLatency: (tokens, streaming) => {
+        // streaming: time to first token, not to the whole answer
+        const expected = Math.round(
+          overhead + (streaming ? 0 : (tokens / tokenProcessingRate) * 1000)
+        );
+        return {
+          expected,
+          min: Math.round(expected * 0.7),
+          max: Math.round(expected * 1.3),
+        };
+      },
+    };
+  }
+
   updateStatistics(provider: string, outcome: {
     success: boolean;
     cost: number;
@@ -5,8 +5,47 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import OpenAI from 'openai';
-import type { IAIProvider, ProviderCapabilities, PricingInfo, ProviderStatus, CostEstimate } from './interfaces/iai-provider.interface';
-import type { UnifiedMessage, UnifiedResponse, UnifiedTool } from './interfaces/unified-types.interface';
+import type {
+  IAIProvider,
+  ProviderCapabilities,
+  PricingInfo,
+  ProviderStatus,
+  CostEstimate,
+  RequestOptions
+} from './interfaces/iai-provider.interface';
+import type {
+  UnifiedMessage,
+  UnifiedResponse,
+  UnifiedStreamEvent,
+  UnifiedTool
+} from './interfaces/unified-types.interface';
+import { getContextWindow } from './utils/tokenizer';
+import {
+  mapAnthropicStream,
+  mapGeminiStream,
+  mapOpenAIStream,
+  openStream,
+  textDeltas
+} from './utils/stream-events';
+
+/**
+ * JSON schema of a tool's input (same shape as the gateway services send)
+ */
+function toolSchema(tool: UnifiedTool) {
+  return {
+    type: 'object' as const,
+    properties: tool.parameters,
+    required: tool.required ?? Object.keys(tool.parameters)
+  };
+}
+
+function toOpenAITools(tools?: UnifiedTool[]) {
+  if (!tools || tools.length === 0) return undefined;
+  return tools.map(tool => ({
+    type: 'function' as const,
+    function: { name: tool.name, description: tool.description, parameters: toolSchema(tool) }
+  }));
+}
 
 // ============================================
 // 🤖 Claude Provider
@@ -20,7 +59,7 @@ export class SimpleClaudeProvider implements IAIProvider {
     this.model = model;
   }
 
-  async chat(messages: UnifiedMessage[]): Promise<UnifiedResponse> {
+  async chat(messages: UnifiedMessage[], options: RequestOptions = {}): Promise<UnifiedResponse> {
     const startTime = Date.now();
 
     const anthropicMessages = messages
@@ -33,11 +72,11 @@ export class SimpleClaudeProvider implements IAIProvider {
     const systemMessage = messages.find(m => m.role === 'system')?.content;
 
     const response = await this.client.messages.create({
-      model: this.model,
-      max_tokens: 1024,
+      model: options.model || this.model,
+      max_tokens: options.maxTokens || 1024,
       messages: anthropicMessages,
       ...(systemMessage && { system: systemMessage })
-    });
+    }, { signal: options.signal });
 
     const duration = Date.now() - startTime;
     const content = response.content[0].type === 'text' ? response.content[0].text : '';
@@ -51,7 +90,7 @@ export class SimpleClaudeProvider implements IAIProvider {
       },
       metadata: {
         provider: 'claude',
-        model: this.model,
+        model: options.model || this.model,
         cost: this.calculateCost(response.usage.input_tokens, response.usage.output_tokens),
         tokens: response.usage.input_tokens + response.usage.output_tokens,
         duration,
@@ -60,12 +99,48 @@ export class SimpleClaudeProvider implements IAIProvider {
     };
   }
 
-  async chatWithTools(messages: UnifiedMessage[], tools: UnifiedTool[]): Promise<UnifiedResponse> {
-    return this.chat(messages);
+  async chatWithTools(
+    messages: UnifiedMessage[],
+    tools: UnifiedTool[],
+    options: RequestOptions = {}
+  ): Promise<UnifiedResponse> {
+    return this.chat(messages, options);
+  }
+
+  async *streamChat(
+    messages: UnifiedMessage[],
+    options: RequestOptions = {}
+  ): AsyncGenerator<string> {
+    yield* textDeltas(this.streamEvents(messages, undefined, options));
   }
 
-  async *streamChat(messages: UnifiedMessage[]): AsyncGenerator<string> {
-    yield* ['مرحباً'];
+  async *streamEvents(
+    messages: UnifiedMessage[],
+    tools?: UnifiedTool[],
+    options: RequestOptions = {}
+  ): AsyncGenerator<UnifiedStreamEvent> {
+    const anthropicMessages = messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({
+        role: m.role as 'user' | 'assistant',
+        content: m.content
+      }));
+
+    const systemMessage = messages.find(m => m.role === 'system')?.content;
+
+    yield* mapAnthropicStream(openStream(() => this.client.messages.stream({
+      model: options.model || this.model,
+      max_tokens: options.maxTokens || 1024,
+      messages: anthropicMessages,
+      ...(systemMessage && { system: systemMessage }),
+      ...(tools && tools.length > 0 && {
+        tools: tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: toolSchema(tool)
+        }))
+      })
+    }, { signal: options.signal })));
   }
 
   private calculateCost(inputTokens: number, outputTokens: number): number {
@@ -79,7 +154,8 @@ export class SimpleClaudeProvider implements IAIProvider {
       supportsVision: false,
       availableModels: ['claude-3-5-haiku-20241022', 'claude-3-5-sonnet-20241022'],
       maxTokens: 8192,
-      maxToolsPerCall: 10
+      maxToolsPerCall: 10,
+      contextWindow: getContextWindow('claude', this.model)
     };
   }
 
@@ -128,13 +204,13 @@ export class SimpleGeminiProvider implements IAIProvider {
     this.modelName = modelName;
   }
 
-  async chat(messages: UnifiedMessage[]): Promise<UnifiedResponse> {
+  async chat(messages: UnifiedMessage[], options: RequestOptions = {}): Promise<UnifiedResponse> {
     const startTime = Date.now();
-    const model = this.client.getGenerativeModel({ model: this.modelName });
+    const model = this.client.getGenerativeModel({ model: options.model || this.modelName });
 
     const prompt = messages.map(m => `${m.role}: ${m.content}`).join('\n\n');
 
-    const result = await model.generateContent(prompt);
+    const result = await model.generateContent(prompt, { signal: options.signal });
     const response = result.response;
     const content = response.text();
 
@@ -153,7 +229,7 @@ export class SimpleGeminiProvider implements IAIProvider {
       },
       metadata: {
         provider: 'gemini',
-        model: this.modelName,
+        model: options.model || this.modelName,
         cost: this.calculateCost(inputTokens, outputTokens),
         tokens: inputTokens + outputTokens,
         duration
@@ -161,12 +237,52 @@ export class SimpleGeminiProvider implements IAIProvider {
     };
   }
 
-  async chatWithTools(messages: UnifiedMessage[], tools: UnifiedTool[]): Promise<UnifiedResponse> {
-    return this.chat(messages);
+  async chatWithTools(
+    messages: UnifiedMessage[],
+    tools: UnifiedTool[],
+    options: RequestOptions = {}
+  ): Promise<UnifiedResponse> {
+    return this.chat(messages, options);
   }
 
-  async *streamChat(messages: UnifiedMessage[]): AsyncGenerator<string> {
-    yield* ['مرحباً'];
+  async *streamChat(
+    messages: UnifiedMessage[],
+    options: RequestOptions = {}
+  ): AsyncGenerator<string> {
+    yield* textDeltas(this.streamEvents(messages, undefined, options));
+  }
+
+  async *streamEvents(
+    messages: UnifiedMessage[],
+    tools?: UnifiedTool[],
+    options: RequestOptions = {}
+  ): AsyncGenerator<UnifiedStreamEvent> {
+    const model = this.client.getGenerativeModel({ model: options.model || this.modelName });
+
+    const systemMessage = messages.find(m => m.role === 'system')?.content;
+    const contents = messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({
+        role: m.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: m.content }]
+      }));
+
+    yield* mapGeminiStream(openStream(async () => {
+      const result = await model.generateContentStream({
+        contents,
+        ...(systemMessage && { systemInstruction: systemMessage }),
+        ...(tools && tools.length > 0 && {
+          tools: [{
+            functionDeclarations: tools.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              parameters: toolSchema(tool) as any
+            }))
+          }]
+        })
+      }, { signal: options.signal });
+      return result.stream;
+    }));
   }
 
   private calculateCost(inputTokens: number, outputTokens: number): number {
@@ -180,7 +296,8 @@ export class SimpleGeminiProvider implements IAIProvider {
       supportsVision: true,
       availableModels: ['gemini-1.5-flash-latest', 'gemini-1.5-pro-latest'],
       maxTokens: 8192,
-      maxToolsPerCall: 10
+      maxToolsPerCall: 10,
+      contextWindow: getContextWindow('gemini', this.modelName)
     };
   }
 
@@ -229,7 +346,7 @@ export class SimpleOpenAIProvider implements IAIProvider {
     this.model = model;
   }
 
-  async chat(messages: UnifiedMessage[]): Promise<UnifiedResponse> {
+  async chat(messages: UnifiedMessage[], options: RequestOptions = {}): Promise<UnifiedResponse> {
     const startTime = Date.now();
 
     const openaiMessages = messages.map(m => ({
@@ -238,10 +355,10 @@ export class SimpleOpenAIProvider implements IAIProvider {
     }));
 
     const response = await this.client.chat.completions.create({
-      model: this.model,
+      model: options.model || this.model,
       messages: openaiMessages,
-      max_tokens: 1024
-    });
+      max_tokens: options.maxTokens || 1024
+    }, { signal: options.signal });
 
     const duration = Date.now() - startTime;
     const content = response.choices[0]?.message?.content || '';
@@ -255,7 +372,7 @@ export class SimpleOpenAIProvider implements IAIProvider {
       },
       metadata: {
         provider: 'openai',
-        model: this.model,
+        model: options.model || this.model,
         cost: this.calculateCost(response.usage?.prompt_tokens || 0, response.usage?.completion_tokens || 0),
         tokens: response.usage?.total_tokens || 0,
         duration,
@@ -264,12 +381,39 @@ export class SimpleOpenAIProvider implements IAIProvider {
     };
   }
 
-  async chatWithTools(messages: UnifiedMessage[], tools: UnifiedTool[]): Promise<UnifiedResponse> {
-    return this.chat(messages);
+  async chatWithTools(
+    messages: UnifiedMessage[],
+    tools: UnifiedTool[],
+    options: RequestOptions = {}
+  ): Promise<UnifiedResponse> {
+    return this.chat(messages, options);
   }
 
-  async *streamChat(messages: UnifiedMessage[]): AsyncGenerator<string> {
-    yield* ['مرحباً'];
+  async *streamChat(
+    messages: UnifiedMessage[],
+    options: RequestOptions = {}
+  ): AsyncGenerator<string> {
+    yield* textDeltas(this.streamEvents(messages, undefined, options));
+  }
+
+  async *streamEvents(
+    messages: UnifiedMessage[],
+    tools?: UnifiedTool[],
+    options: RequestOptions = {}
+  ): AsyncGenerator<UnifiedStreamEvent> {
+    const openaiMessages = messages.map(m => ({
+      role: m.role as 'system' | 'user' | 'assistant',
+      content: m.content
+    }));
+
+    yield* mapOpenAIStream(openStream(() => this.client.chat.completions.create({
+      model: options.model || this.model,
+      messages: openaiMessages,
+      max_tokens: options.maxTokens || 1024,
+      tools: toOpenAITools(tools),
+      stream: true,
+      stream_options: { include_usage: true }
+    }, { signal: options.signal })));
   }
 
   private calculateCost(inputTokens: number, outputTokens: number): number {
@@ -283,7 +427,8 @@ export class SimpleOpenAIProvider implements IAIProvider {
       supportsVision: false,
       availableModels: ['gpt-4o-mini', 'gpt-4o', 'gpt-4-turbo'],
       maxTokens: 4096,
-      maxToolsPerCall: 10
+      maxToolsPerCall: 10,
+      contextWindow: getContextWindow('openai', this.model)
     };
   }
 
@@ -335,7 +480,7 @@ export class SimpleDeepSeekProvider implements IAIProvider {
     this.model = model;
   }
 
-  async chat(messages: UnifiedMessage[]): Promise<UnifiedResponse> {
+  async chat(messages: UnifiedMessage[], options: RequestOptions = {}): Promise<UnifiedResponse> {
     const startTime = Date.now();
 
     const deepseekMessages = messages.map(m => ({
@@ -344,10 +489,10 @@ export class SimpleDeepSeekProvider implements IAIProvider {
     }));
 
     const response = await this.client.chat.completions.create({
-      model: this.model,
+      model: options.model || this.model,
       messages: deepseekMessages,
-      max_tokens: 1024
-    });
+      max_tokens: options.maxTokens || 1024
+    }, { signal: options.signal });
 
     const duration = Date.now() - startTime;
     const content = response.choices[0]?.message?.content || '';
@@ -361,7 +506,7 @@ export class SimpleDeepSeekProvider implements IAIProvider {
       },
       metadata: {
         provider: 'deepseek',
-        model: this.model,
+        model: options.model || this.model,
         cost: this.calculateCost(response.usage?.prompt_tokens || 0, response.usage?.completion_tokens || 0),
         tokens: response.usage?.total_tokens || 0,
         duration,
@@ -370,12 +515,39 @@ export class SimpleDeepSeekProvider implements IAIProvider {
     };
   }
 
-  async chatWithTools(messages: UnifiedMessage[], tools: UnifiedTool[]): Promise<UnifiedResponse> {
-    return this.chat(messages);
+  async chatWithTools(
+    messages: UnifiedMessage[],
+    tools: UnifiedTool[],
+    options: RequestOptions = {}
+  ): Promise<UnifiedResponse> {
+    return this.chat(messages, options);
   }
 
-  async *streamChat(messages: UnifiedMessage[]): AsyncGenerator<string> {
-    yield* ['مرحباً'];
+  async *streamChat(
+    messages: UnifiedMessage[],
+    options: RequestOptions = {}
+  ): AsyncGenerator<string> {
+    yield* textDeltas(this.streamEvents(messages, undefined, options));
+  }
+
+  async *streamEvents(
+    messages: UnifiedMessage[],
+    tools?: UnifiedTool[],
+    options: RequestOptions = {}
+  ): AsyncGenerator<UnifiedStreamEvent> {
+    const deepseekMessages = messages.map(m => ({
+      role: m.role as 'system' | 'user' | 'assistant',
+      content: m.content
+    }));
+
+    yield* mapOpenAIStream(openStream(() => this.client.chat.completions.create({
+      model: options.model || this.model,
+      messages: deepseekMessages,
+      max_tokens: options.maxTokens || 1024,
+      tools: toOpenAITools(tools),
+      stream: true,
+      stream_options: { include_usage: true }
+    }, { signal: options.signal })));
   }
 
   private calculateCost(inputTokens: number, outputTokens: number): number {
@@ -389,7 +561,8 @@ export class SimpleDeepSeekProvider implements IAIProvider {
       supportsVision: false,
       availableModels: ['deepseek-chat'],
       maxTokens: 4096,
-      maxToolsPerCall: 10
+      maxToolsPerCall: 10,
+      contextWindow: getContextWindow('deepseek', this.model)
     };
   }
 
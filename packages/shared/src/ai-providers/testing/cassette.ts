@@ -0,0 +1,360 @@
+// cassette.ts
+// ============================================
+// 📼 تسجيل وإعادة تشغيل ردود المزودين - Provider Cassettes
+// ============================================
+// Record mode sends every request to the real provider and writes the
+// request/response pair (streamed events and tool calls included) to a JSON
+// cassette. Replay mode serves the cassette without a network or API key,
+// matching requests on normalized message content. A chat recording can
+// answer a stream request and the other way round.
+
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import type {
+  IAIProvider,
+  ProviderCapabilities,
+  PricingInfo,
+  ProviderStatus,
+  CostEstimate,
+  RequestOptions,
+} from '../interfaces/iai-provider.interface.js';
+import type {
+  UnifiedMessage,
+  UnifiedTool,
+  UnifiedResponse,
+  UnifiedStreamEvent,
+} from '../interfaces/unified-types.interface.js';
+import { collectStream, responseToEvents, textDeltas } from '../utils/stream-events.js';
+import { throwIfAborted } from '../../core/abort.js';
+
+const CASSETTE_VERSION = 1;
+
+// record: always call the provider and rewrite the cassette
+// replay: never call the provider; unknown requests throw CassetteMissError
+// auto:   replay what is recorded, record the rest
+export type CassetteMode = 'record' | 'replay' | 'auto';
+
+export interface CassetteOptions {
+  path: string; // JSON file
+  mode?: CassetteMode; // defaults to 'auto'
+  name?: string; // provider name used for replayed metadata
+  normalize?: (content: string) => string; // replaces normalizeContent
+}
+
+export interface CassetteInteraction {
+  key: string;
+  method: 'chat' | 'chatWithTools' | 'streamEvents';
+  request: { messages: Array<Pick<UnifiedMessage, 'role' | 'content'>>; tools?: string[] };
+  response?: UnifiedResponse;
+  events?: UnifiedStreamEvent[];
+  error?: { message: string; status?: number };
+  recordedAt: string; // ISO
+}
+
+export interface CassetteFile {
+  version: number;
+  provider?: string;
+  capabilities?: ProviderCapabilities;
+  pricing?: PricingInfo;
+  interactions: CassetteInteraction[];
+}
+
+export class CassetteMissError extends Error {
+  constructor(
+    public readonly key: string,
+    public readonly cassette: string
+  ) {
+    super(`No recorded interaction ${key} in cassette ${cassette}`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+/**
+ * Whitespace and timestamps change between runs without changing the request
+ */
+export function normalizeContent(content: string): string {
+  return content
+    .replace(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z?/g, '<timestamp>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Cassette settings from OQOOL_CASSETTES (directory, one file per provider)
+ * and OQOOL_CASSETTE_MODE
+ */
+export function cassetteFromEnv(provider: string): CassetteOptions | undefined {
+  const dir = process.env.OQOOL_CASSETTES;
+  if (!dir) return undefined;
+  const mode = (process.env.OQOOL_CASSETTE_MODE || 'replay') as CassetteMode;
+  return { path: path.join(dir, `${provider}.json`), mode, name: provider };
+}
+
+export class CassetteProvider implements IAIProvider {
+  private file: CassetteFile;
+  private mode: CassetteMode;
+  private replayed = new Map<string, number>(); // key → interactions served so far
+  private writing: Promise<void> = Promise.resolve();
+  private writeError?: Error;
+
+  /**
+   * `inner` may be omitted in replay mode, so no API key is needed
+   */
+  constructor(
+    private inner: IAIProvider | undefined,
+    private options: CassetteOptions
+  ) {
+    this.mode = options.mode || 'auto';
+    if (!inner && this.mode !== 'replay') {
+      throw new Error(`Cassette mode '${this.mode}' needs a provider to record from`);
+    }
+
+    const exists = fs.existsSync(options.path);
+    if (this.mode === 'replay' && !exists) {
+      throw new Error(`Cassette not found: ${options.path}`);
+    }
+    this.file =
+      this.mode !== 'record' && exists
+        ? (fs.readJsonSync(options.path) as CassetteFile)
+        : { version: CASSETTE_VERSION, provider: options.name, interactions: [] };
+  }
+
+  get interactions(): readonly CassetteInteraction[] {
+    return this.file.interactions;
+  }
+
+  /**
+   * انتظار انتهاء كتابة الشريط (ويرمي خطأ الكتابة إن وُجد)
+   */
+  async flush(): Promise<void> {
+    await this.writing;
+    if (this.writeError) throw this.writeError;
+  }
+
+  async chat(messages: UnifiedMessage[], options: RequestOptions = {}): Promise<UnifiedResponse> {
+    return this.respond('chat', messages, undefined, options);
+  }
+
+  async chatWithTools(
+    messages: UnifiedMessage[],
+    tools: UnifiedTool[],
+    options: RequestOptions = {}
+  ): Promise<UnifiedResponse> {
+    return this.respond('chatWithTools', messages, tools, options);
+  }
+
+  async *streamChat(
+    messages: UnifiedMessage[],
+    options: RequestOptions = {}
+  ): AsyncGenerator<string> {
+    yield* textDeltas(this.streamEvents(messages, undefined, options));
+  }
+
+  async *streamEvents(
+    messages: UnifiedMessage[],
+    tools?: UnifiedTool[],
+    options: RequestOptions = {}
+  ): AsyncGenerator<UnifiedStreamEvent> {
+    throwIfAborted(options.signal);
+    const key = this.keyFor(messages, tools);
+    const recorded = this.mode === 'record' ? undefined : this.lookup(key);
+
+    if (recorded) {
+      if (recorded.events) {
+        yield* recorded.events;
+      } else if (recorded.response) {
+        yield* responseToEvents(recorded.response);
+      } else {
+        yield { type: 'error', error: recorded.error?.message || 'Recorded failure' };
+      }
+      return;
+    }
+
+    const inner = this.requireInner(key);
+    const events: UnifiedStreamEvent[] = [];
+    for await (const event of inner.streamEvents(messages, tools, options)) {
+      events.push(event);
+      yield event;
+    }
+    // a stream the consumer abandoned never gets here: partial recordings are not kept
+    this.record({ key, method: 'streamEvents', messages, tools, events });
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return (
+      this.inner?.getCapabilities() ??
+      this.file.capabilities ?? {
+        supportsTools: true,
+        supportsStreaming: true,
+        supportsVision: false,
+        availableModels: [],
+        maxTokens: 4096,
+        maxToolsPerCall: 10,
+        contextWindow: 128_000,
+      }
+    );
+  }
+
+  getPricing(): PricingInfo {
+    return (
+      this.inner?.getPricing() ??
+      this.file.pricing ?? {
+        inputCostPerToken: 0,
+        outputCostPerToken: 0,
+        currency: 'USD',
+        modelPricing: {},
+      }
+    );
+  }
+
+  getStatus(): ProviderStatus {
+    if (this.inner) return this.inner.getStatus();
+    return { available: true, latency: 0, lastChecked: new Date(), rateLimitRemaining: Infinity };
+  }
+
+  async validate(): Promise<boolean> {
+    return this.inner ? this.inner.validate() : true;
+  }
+
+  estimateCost(messages: UnifiedMessage[]): CostEstimate {
+    if (this.inner) return this.inner.estimateCost(messages);
+    const pricing = this.getPricing();
+    const estimatedInputTokens = Math.ceil(
+      messages.reduce((sum, m) => sum + m.content.length, 0) / 4
+    );
+    return {
+      estimatedInputTokens,
+      estimatedOutputTokens: 500,
+      estimatedCost:
+        estimatedInputTokens * pricing.inputCostPerToken + 500 * pricing.outputCostPerToken,
+      currency: pricing.currency,
+    };
+  }
+
+  // ─────────────────────────────────────────────────────
+  // 🔒 Helpers
+  // ─────────────────────────────────────────────────────
+
+  private async respond(
+    method: 'chat' | 'chatWithTools',
+    messages: UnifiedMessage[],
+    tools: UnifiedTool[] | undefined,
+    options: RequestOptions
+  ): Promise<UnifiedResponse> {
+    throwIfAborted(options.signal);
+    const key = this.keyFor(messages, tools);
+    const recorded = this.mode === 'record' ? undefined : this.lookup(key);
+
+    if (recorded) {
+      if (recorded.error) {
+        throw Object.assign(new Error(recorded.error.message), { status: recorded.error.status });
+      }
+      return recorded.response ?? this.responseFromEvents(recorded.events || []);
+    }
+
+    const inner = this.requireInner(key);
+    try {
+      const response =
+        method === 'chat'
+          ? await inner.chat(messages, options)
+          : await inner.chatWithTools(messages, tools!, options);
+      this.record({ key, method, messages, tools, response });
+      return response;
+    } catch (error: any) {
+      // الإلغاء ليس رداً من المزود فلا يُسجَّل
+      if (!options.signal?.aborted) {
+        const failure = { message: error.message, status: error.status };
+        this.record({ key, method, messages, tools, error: failure });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Identical requests are served in recording order; the last recording
+   * answers any further repeats
+   */
+  private lookup(key: string): CassetteInteraction | undefined {
+    const matches = this.file.interactions.filter((interaction) => interaction.key === key);
+    if (matches.length === 0) return undefined;
+
+    const served = this.replayed.get(key) || 0;
+    this.replayed.set(key, served + 1);
+    return matches[Math.min(served, matches.length - 1)];
+  }
+
+  private requireInner(key: string): IAIProvider {
+    if (!this.inner || this.mode === 'replay') {
+      throw new CassetteMissError(key, this.options.path);
+    }
+    return this.inner;
+  }
+
+  private keyFor(messages: UnifiedMessage[], tools?: UnifiedTool[]): string {
+    const normalize = this.options.normalize || normalizeContent;
+    const request = {
+      messages: messages.map((m) => [m.role, normalize(m.content)]),
+      tools: tools?.map((tool) => tool.name).sort(),
+    };
+    return crypto.createHash('sha256').update(JSON.stringify(request)).digest('hex').slice(0, 16);
+  }
+
+  private async responseFromEvents(events: UnifiedStreamEvent[]): Promise<UnifiedResponse> {
+    const collected = await collectStream(
+      (async function* () {
+        yield* events;
+      })()
+    );
+    const pricing = this.getPricing();
+    const { inputTokens, outputTokens, totalTokens } = collected.usage;
+
+    return {
+      content: collected.content,
+      toolCalls: collected.toolCalls.length > 0 ? collected.toolCalls : undefined,
+      usage: collected.usage,
+      metadata: {
+        provider: this.file.provider || 'cassette',
+        model: collected.model || 'unknown',
+        cost: inputTokens * pricing.inputCostPerToken + outputTokens * pricing.outputCostPerToken,
+        tokens: totalTokens,
+        duration: 0,
+        stopReason: collected.stopReason,
+      },
+    };
+  }
+
+  private record(entry: {
+    key: string;
+    method: CassetteInteraction['method'];
+    messages: UnifiedMessage[];
+    tools?: UnifiedTool[];
+    response?: UnifiedResponse;
+    events?: UnifiedStreamEvent[];
+    error?: CassetteInteraction['error'];
+  }): void {
+    const { key, method, messages, tools, response, events, error } = entry;
+    this.file.interactions.push({
+      key,
+      method,
+      request: {
+        messages: messages.map(({ role, content }) => ({ role, content })),
+        tools: tools?.map((tool) => tool.name),
+      },
+      response,
+      events,
+      error,
+      recordedAt: new Date().toISOString(),
+    });
+    this.file.capabilities = this.inner?.getCapabilities();
+    this.file.pricing = this.inner?.getPricing();
+
+    // كتابات متتالية: لا تتداخل عند الطلبات المتوازية
+    const snapshot = JSON.parse(JSON.stringify(this.file));
+    this.writing = this.writing
+      .then(() => fs.outputJson(this.options.path, snapshot, { spaces: 2 }))
+      .catch((error) => {
+        this.writeError = error;
+      });
+  }
+}
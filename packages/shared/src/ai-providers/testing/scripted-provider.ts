@@ -0,0 +1,202 @@
+// scripted-provider.ts
+// ============================================
+// 🎭 مزود وهمي مُبرمج - Scripted Provider (بدون شبكة)
+// ============================================
+// Answers from a script, one step per call, so UnifiedExecutor,
+// FallbackManager and the agents can be exercised in CI. Every call is kept
+// in `calls` for assertions.
+
+import type {
+  IAIProvider,
+  ProviderCapabilities,
+  PricingInfo,
+  ProviderStatus,
+  CostEstimate,
+  RequestOptions,
+} from '../interfaces/iai-provider.interface.js';
+import type {
+  UnifiedMessage,
+  UnifiedTool,
+  UnifiedResponse,
+  UnifiedStreamEvent,
+} from '../interfaces/unified-types.interface.js';
+import { responseToEvents, textDeltas } from '../utils/stream-events.js';
+import { sleep, throwIfAborted } from '../../core/abort.js';
+
+export type ScriptedReply =
+  | string
+  | {
+      content?: string;
+      toolCalls?: Array<{ name: string; arguments: any; id?: string }>;
+      usage?: { inputTokens: number; outputTokens: number };
+      stopReason?: string;
+    }
+  | { error: string; status?: number }; // thrown, e.g. { error: 'rate limit', status: 429 }
+
+export type ScriptStep =
+  | ScriptedReply
+  | ((messages: UnifiedMessage[], tools?: UnifiedTool[]) => ScriptedReply);
+
+export interface ScriptedProviderOptions {
+  name?: string; // metadata.provider, defaults to 'fake'
+  model?: string;
+  script?: ScriptStep[];
+  repeatLast?: boolean; // keep answering with the last step instead of throwing
+  latency?: number; // ms before each reply
+  capabilities?: Partial<ProviderCapabilities>;
+}
+
+export interface ScriptedCall {
+  method: 'chat' | 'chatWithTools' | 'streamEvents';
+  messages: UnifiedMessage[];
+  tools?: string[];
+}
+
+export class ScriptedProvider implements IAIProvider {
+  readonly calls: ScriptedCall[] = [];
+  private script: ScriptStep[];
+  private step = 0;
+
+  constructor(private options: ScriptedProviderOptions = {}) {
+    this.script = [...(options.script || [])];
+  }
+
+  /**
+   * إضافة خطوات للسيناريو بعد الإنشاء
+   */
+  enqueue(...steps: ScriptStep[]): this {
+    this.script.push(...steps);
+    return this;
+  }
+
+  async chat(messages: UnifiedMessage[], options: RequestOptions = {}): Promise<UnifiedResponse> {
+    return this.reply('chat', messages, undefined, options);
+  }
+
+  async chatWithTools(
+    messages: UnifiedMessage[],
+    tools: UnifiedTool[],
+    options: RequestOptions = {}
+  ): Promise<UnifiedResponse> {
+    return this.reply('chatWithTools', messages, tools, options);
+  }
+
+  async *streamChat(
+    messages: UnifiedMessage[],
+    options: RequestOptions = {}
+  ): AsyncGenerator<string> {
+    yield* textDeltas(this.streamEvents(messages, undefined, options));
+  }
+
+  async *streamEvents(
+    messages: UnifiedMessage[],
+    tools?: UnifiedTool[],
+    options: RequestOptions = {}
+  ): AsyncGenerator<UnifiedStreamEvent> {
+    let response: UnifiedResponse;
+    try {
+      response = await this.reply('streamEvents', messages, tools, options);
+    } catch (error: any) {
+      yield { type: 'error', error: error.message, retryable: error.status === 429 };
+      return;
+    }
+    yield* responseToEvents(response);
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      supportsTools: true,
+      supportsStreaming: true,
+      supportsVision: false,
+      availableModels: [this.model],
+      maxTokens: 4096,
+      maxToolsPerCall: 10,
+      contextWindow: 128_000,
+      ...this.options.capabilities,
+    };
+  }
+
+  getPricing(): PricingInfo {
+    return { inputCostPerToken: 0, outputCostPerToken: 0, currency: 'USD', modelPricing: {} };
+  }
+
+  getStatus(): ProviderStatus {
+    return {
+      available: true,
+      latency: this.options.latency || 0,
+      lastChecked: new Date(),
+      rateLimitRemaining: Infinity,
+    };
+  }
+
+  async validate(): Promise<boolean> {
+    return true;
+  }
+
+  estimateCost(messages: UnifiedMessage[]): CostEstimate {
+    return {
+      estimatedInputTokens: estimateTokens(messages.map((m) => m.content).join('\n')),
+      estimatedOutputTokens: 0,
+      estimatedCost: 0,
+      currency: 'USD',
+    };
+  }
+
+  private get model(): string {
+    return this.options.model || 'scripted';
+  }
+
+  private async reply(
+    method: ScriptedCall['method'],
+    messages: UnifiedMessage[],
+    tools: UnifiedTool[] | undefined,
+    options: RequestOptions
+  ): Promise<UnifiedResponse> {
+    throwIfAborted(options.signal);
+    this.calls.push({ method, messages, tools: tools?.map((tool) => tool.name) });
+    if (this.options.latency) await sleep(this.options.latency, options.signal);
+
+    const next = this.nextStep();
+    const reply = typeof next === 'function' ? next(messages, tools) : next;
+
+    if (typeof reply === 'object' && 'error' in reply) {
+      throw Object.assign(new Error(reply.error), { status: reply.status });
+    }
+
+    const { content = '', toolCalls, usage, stopReason } =
+      typeof reply === 'string' ? { content: reply } : reply;
+    const inputTokens =
+      usage?.inputTokens ?? estimateTokens(messages.map((m) => m.content).join('\n'));
+    const outputTokens = usage?.outputTokens ?? estimateTokens(content);
+
+    return {
+      content,
+      toolCalls: toolCalls?.map((call, index) => ({
+        id: call.id || `call_${this.calls.length}_${index}`,
+        name: call.name,
+        arguments: call.arguments,
+      })),
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+      metadata: {
+        provider: this.options.name || 'fake',
+        model: this.model,
+        cost: 0,
+        tokens: inputTokens + outputTokens,
+        duration: this.options.latency || 0,
+        stopReason: stopReason || (toolCalls?.length ? 'tool_use' : 'end_turn'),
+      },
+    };
+  }
+
+  private nextStep(): ScriptStep {
+    if (this.step < this.script.length) return this.script[this.step++];
+    if (this.options.repeatLast && this.script.length > 0) {
+      return this.script[this.script.length - 1];
+    }
+    throw new Error(`Scripted provider: no step left for call ${this.calls.length}`);
+  }
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
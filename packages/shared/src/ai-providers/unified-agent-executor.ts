@@ -6,6 +6,7 @@
 
 import { getUnifiedExecutor, type ExecutionOptions, type ExecutionResult } from './unified-executor-pro.js';
 import { createAgentClient, type AgentConfig } from '../core/agent-client.js';
+import { isAbortError } from '../core/abort.js';
 
 /**
  * Unified Agent Executor
@@ -65,7 +66,7 @@ export class UnifiedAgentExecutor {
     try {
       // agent-client.run() يستخدم tools تلقائياً!
       // لأنه يستدعي aiAdapter.executeWithTools مع TOOL_DEFINITIONS
-      const response = await this.agentClient.run(request);
+      const response = await this.agentClient.run(request, { signal: options.signal });
 
       const duration = Date.now() - startTime;
 
@@ -98,7 +99,8 @@ export class UnifiedAgentExecutor {
       return {
         success: false,
         response: undefined,
-        error: error.message,
+        error: isAbortError(error) ? 'Cancelled' : error.message,
+        cancelled: isAbortError(error) || undefined,
         analysis: {
           type: 'error',
           complexity: 0,
@@ -10,7 +10,28 @@ import { getCacheLayer } from './cache-layer.js';
 import { getFallbackSystem } from './fallback-system.js';
 import { getMetricsSystem } from './metrics-system.js';
 import { getQueueSystem } from './queue-system.js';
-import type { UnifiedMessage, UnifiedResponse, UnifiedTool } from '../ai-providers/interfaces/unified-types.interface.js';
+import {
+  BudgetExceededError,
+  getBudgetGuard,
+  type BudgetCandidate,
+} from './monitoring/cost-ledger.js';
+import { StreamChannel, collectStream, responseToEvents } from './utils/stream-events.js';
+import {
+  AbortError,
+  abortable,
+  anySignal,
+  isAbortError,
+  sleep,
+  throwIfAborted,
+} from '../core/abort.js';
+import type { IAIProvider, RequestOptions } from './interfaces/iai-provider.interface.js';
+import type {
+  UnifiedMessage,
+  UnifiedResponse,
+  UnifiedStreamEvent,
+  UnifiedTool,
+  UnifiedToolCall
+} from '../ai-providers/interfaces/unified-types.interface.js';
 
 // ============================================
 // 📦 Types & Interfaces
@@ -29,7 +50,10 @@ export interface ExecutionOptions {
   maxToolCalls?: number; // حد أقصى لعدد استدعاءات الأدوات
   
   // إعدادات النموذج
-  streaming?: boolean;
+  provider?: string; // مزود محدد بدل التوجيه التلقائي (إن كان متاحاً)
+  model?: string; // نموذج لهذا المزود فقط؛ يُتجاهل عند التحويل لمزود آخر
+  streaming?: boolean; // بث حي من المزود؛ العرض مسؤولية المستهلك (for await)
+  quiet?: boolean; // بلا عناوين ولا spinners ولا صندوق النتيجة (استدعاءات داخلية)
   temperature?: number;
   maxTokens?: number;
   topP?: number;
@@ -38,6 +62,7 @@ export interface ExecutionOptions {
   timeout?: number; // بالميلي ثانية
   retryAttempts?: number; // عدد محاولات إعادة التنفيذ
   useCache?: boolean; // استخدام Cache
+  signal?: AbortSignal; // إلغاء: يوقف المزود والأدوات وإعادة المحاولة والبديل
   
   // إعدادات متقدمة
   parallelExecution?: boolean; // تنفيذ متوازي للمهام المتعددة
@@ -79,6 +104,7 @@ export interface ExecutionResult {
   
   // معلومات الخطأ
   error?: string;
+  cancelled?: boolean; // أُلغي عبر options.signal
   warnings?: string[];
   
   // Metadata
@@ -86,10 +112,22 @@ export interface ExecutionResult {
     queueWaitTime?: number;
     fallbackUsed?: boolean;
     circuitBreakerTripped?: boolean;
+    toolCalls?: number; // أدوات نُفذت فعلاً أثناء الرد
     [key: string]: any;
   };
 }
 
+/**
+ * ما يعيده execute(): يُنتظر كـ Promise للنتيجة النهائية، أو يُكرَّر بـ
+ * for await للحصول على أحداث البث (نص، أدوات، استهلاك) أثناء التنفيذ
+ */
+export interface ExecutionStream
+  extends AsyncIterable<UnifiedStreamEvent>, PromiseLike<ExecutionResult> {
+  readonly result: Promise<ExecutionResult>;
+}
+
+type EmitEvent = (event: UnifiedStreamEvent) => void;
+
 /**
  * حالة Circuit Breaker
  */
@@ -163,6 +201,7 @@ export class UnifiedExecutor {
   private fallback = getFallbackSystem();
   private metrics = getMetricsSystem();
   private queue = getQueueSystem();
+  private budgetGuard = getBudgetGuard();
   private ui = this.connectionManager.getUI();
 
   // ═══════════════════════════════════════
@@ -217,10 +256,40 @@ export class UnifiedExecutor {
    * 8. 🔄 Fallback (عند الفشل)
    * 9. 💾 Cache Update
    * 10. 📈 Metrics Recording
+   *
+   * أحداث البث تُخزَّن حتى يقرأها المستهلك، لذا يمكن البدء بـ for await
+   * بعد الاستدعاء مباشرة أو الاكتفاء بـ await للنتيجة
    */
-  async execute(
+  execute(request: string, options: ExecutionOptions = {}): ExecutionStream {
+    const channel = new StreamChannel<UnifiedStreamEvent>();
+    const result = this.run(request, options, channel);
+
+    return {
+      result,
+      then: result.then.bind(result),
+      [Symbol.asyncIterator]: () => channel[Symbol.asyncIterator](),
+    };
+  }
+
+  private async run(
+    request: string,
+    options: ExecutionOptions,
+    channel: StreamChannel<UnifiedStreamEvent>
+  ): Promise<ExecutionResult> {
+    try {
+      const result = await this.runLayers(request, options, (event) => channel.push(event));
+      const stopReason = result.cancelled ? 'cancelled' : result.success ? undefined : 'error';
+      channel.push({ type: 'done', stopReason });
+      return result;
+    } finally {
+      channel.close();
+    }
+  }
+
+  private async runLayers(
     request: string,
-    options: ExecutionOptions = {}
+    options: ExecutionOptions,
+    emit: EmitEvent
   ): Promise<ExecutionResult> {
     const startTime = Date.now();
     const executionId = this.generateExecutionId();
@@ -233,11 +302,17 @@ export class UnifiedExecutor {
       // Layer 1: Validation & Initialization
       // ═══════════════════════════════════
       await this.ensureSystemReady();
-      
-      this.ui.printHeader(
-        '🚀 Advanced Unified Executor', 
-        `[${executionId}] ${request.substring(0, 60)}...`
-      );
+      throwIfAborted(opts.signal);
+
+      // في وضع البث يعرض المستهلك الأحداث بنفسه، وفي quiet لا عرض أصلاً
+      const display = this.displays(opts);
+
+      if (display) {
+        this.ui.printHeader(
+          '🚀 Advanced Unified Executor', 
+          `[${executionId}] ${request.substring(0, 60)}...`
+        );
+      }
 
       this.performanceStats.totalRequests++;
 
@@ -252,6 +327,7 @@ export class UnifiedExecutor {
       if (opts.useCache !== false) {
         const cachedResult = await this.checkCache(request, opts);
         if (cachedResult) {
+          emit({ type: 'text_delta', text: cachedResult.response || '' });
           return cachedResult;
         }
       }
@@ -259,9 +335,11 @@ export class UnifiedExecutor {
       // ═══════════════════════════════════
       // Layer 4: Task Analysis
       // ═══════════════════════════════════
-      this.ui.startSpinner('🔍 Analyzing task with AI intelligence...');
+      if (display) this.ui.startSpinner('🔍 Analyzing task with AI intelligence...');
       const analysis = await this.analyzeTask(request, opts);
-      this.ui.succeedSpinner(`Task analyzed: ${analysis.type} (${analysis.complexity}/10)`);
+      if (display) {
+        this.ui.succeedSpinner(`Task analyzed: ${analysis.type} (${analysis.complexity}/10)`);
+      }
 
       // تحقق من حد التكلفة
       if (opts.costLimit && analysis.estimatedCost > opts.costLimit) {
@@ -273,12 +351,14 @@ export class UnifiedExecutor {
       // ═══════════════════════════════════
       // Layer 5: Dynamic Routing
       // ═══════════════════════════════════
-      this.ui.startSpinner('🎯 Routing to optimal provider...');
+      if (display) this.ui.startSpinner('🎯 Routing to optimal provider...');
       const routing = await this.routeTask(analysis, opts);
-      this.ui.succeedSpinner(`Routed to ${routing.provider}`);
+      if (display) {
+        this.ui.succeedSpinner(`Routed to ${routing.provider}`);
 
-      // عرض خطة التنفيذ
-      this.displayExecutionPlan(analysis, routing, opts);
+        // عرض خطة التنفيذ
+        this.displayExecutionPlan(analysis, routing, opts);
+      }
 
       // ═══════════════════════════════════
       // Layer 6: Circuit Breaker Check
@@ -292,6 +372,7 @@ export class UnifiedExecutor {
       // ═══════════════════════════════════
       let result: ExecutionResult;
       let executionError: Error | null = null;
+      throwIfAborted(opts.signal);
 
       try {
         result = await this.executePrimary(
@@ -299,19 +380,22 @@ export class UnifiedExecutor {
           analysis,
           routing,
           opts,
-          startTime
+          startTime,
+          emit
         );
       } catch (error) {
+        // تجاوز الميزانية والإلغاء ليسا عطلاً في المزود: لا نلجأ للبديل
+        if (error instanceof BudgetExceededError || isAbortError(error)) throw error;
+
         executionError = error as Error;
         this.recordCircuitBreakerFailure(routing.provider);
 
         // ═══════════════════════════════════
         // Layer 8: Fallback Execution
         // ═══════════════════════════════════
-        this.ui.warning(
-          `Primary execution failed: ${executionError.message}`,
-          'Fallback'
-        );
+        if (!opts.quiet) {
+          this.ui.warning(`Primary execution failed: ${executionError.message}`, 'Fallback');
+        }
         
         result = await this.executeFallback(
           request,
@@ -319,7 +403,8 @@ export class UnifiedExecutor {
           routing,
           opts,
           startTime,
-          executionError
+          executionError,
+          emit
         );
       }
 
@@ -337,7 +422,7 @@ export class UnifiedExecutor {
       this.updatePerformanceStats(result);
 
       // عرض النتيجة
-      this.displayResult(result);
+      if (display) this.displayResult(result);
 
       // Reset circuit breaker عند النجاح
       if (result.success && !result.metadata?.fallbackUsed) {
@@ -347,7 +432,12 @@ export class UnifiedExecutor {
       return result;
 
     } catch (error) {
+      if (isAbortError(error)) {
+        return this.handleCancelled(startTime, executionId);
+      }
+
       // معالجة الأخطاء النهائية
+      emit({ type: 'error', error: (error as Error).message });
       return this.handleFatalError(error as Error, startTime, executionId);
     }
   }
@@ -358,50 +448,137 @@ export class UnifiedExecutor {
 
   /**
    * التنفيذ الأساسي مع Provider المختار
+   *
+   * عندما يطلب النموذج أدوات تُنفَّذ وتُعاد نتائجها إليه (حتى maxToolCalls)،
+   * وكل استدعاء للمزود يُعاد على حدة عند الفشل دون تكرار تنفيذ الأدوات
    */
   private async executePrimary(
     request: string,
     analysis: TaskAnalysis,
     routing: RoutingDecision,
     options: ExecutionOptions,
-    startTime: number
+    startTime: number,
+    emit: EmitEvent
   ): Promise<ExecutionResult> {
-    this.ui.startSpinner(`⚡ Executing with ${routing.provider}...`);
+    if (this.displays(options)) this.ui.startSpinner(`⚡ Executing with ${routing.provider}...`);
+
+    // تحضير الرسائل والأدوات
+    const conversation = this.prepareMessages(request, options);
+    const tools =
+      options.useTools !== false && routing.tools.length > 0
+        ? this.prepareTools(routing.tools, options.specificTools)
+        : [];
+    const maxToolCalls = options.maxToolCalls || 10;
+
+    let content = '';
+    let cost = 0;
+    let provider = routing.provider;
+    let usage: UnifiedResponse['usage'];
+    let toolCallCount = 0;
+    const warnings: string[] = [];
+
+    while (true) {
+      // التنفيذ مع Retry
+      const response = await this.executeWithRetry(
+        routing.provider,
+        conversation,
+        tools,
+        options,
+        emit
+      );
 
-    // تحضير الرسائل
-    const messages = this.prepareMessages(request, options);
+      content += response.content;
+      cost += response.metadata?.cost ?? 0;
+      provider = response.metadata?.provider || provider;
+      if (response.usage) {
+        usage = {
+          inputTokens: (usage?.inputTokens ?? 0) + response.usage.inputTokens,
+          outputTokens: (usage?.outputTokens ?? 0) + response.usage.outputTokens,
+          totalTokens: (usage?.totalTokens ?? 0) + response.usage.totalTokens
+        };
+      }
 
-    // التنفيذ مع Retry
-    const response = await this.executeWithRetry(
-      routing.provider,
-      messages,
-      routing,
-      options
-    );
+      const toolCalls = response.toolCalls || [];
+      if (toolCalls.length === 0) break;
+      if (toolCallCount + toolCalls.length > maxToolCalls) {
+        warnings.push(`Stopped after ${toolCallCount} tool calls (maxToolCalls: ${maxToolCalls})`);
+        break;
+      }
+      toolCallCount += toolCalls.length;
+
+      const results = await this.runToolCalls(toolCalls, tools, emit, options.signal);
+      conversation.push(
+        {
+          role: 'assistant',
+          content: response.content || `استخدمت الأدوات: ${toolCalls.map((t) => t.name).join(', ')}`
+        },
+        { role: 'user', content: `نتائج الأدوات:\n${results.join('\n\n')}` }
+      );
+    }
 
     const duration = Date.now() - startTime;
 
-    this.ui.succeedSpinner('Execution completed successfully');
+    if (this.displays(options)) this.ui.succeedSpinner('Execution completed successfully');
 
     return {
       success: true,
-      response: response.content,
+      response: content,
       analysis,
       routing,
-      cost: analysis.estimatedCost,
+      cost: cost || analysis.estimatedCost,
       duration,
-      provider: routing.provider,
+      provider,
       attempts: 1,
       fromCache: false,
       toolsUsed: routing.tools,
-      tokensUsed: response.usage ? {
-        input: response.usage.inputTokens,
-        output: response.usage.outputTokens,
-        total: response.usage.inputTokens + response.usage.outputTokens
+      warnings: warnings.length > 0 ? warnings : undefined,
+      metadata: toolCallCount > 0 ? { toolCalls: toolCallCount } : undefined,
+      tokensUsed: usage ? {
+        input: usage.inputTokens,
+        output: usage.outputTokens,
+        total: usage.inputTokens + usage.outputTokens
       } : undefined
     };
   }
 
+  /**
+   * تنفيذ الأدوات التي طلبها النموذج؛ الأخطاء تُعاد كنتيجة ولا توقف التنفيذ
+   * (إلا الإلغاء)
+   */
+  private async runToolCalls(
+    toolCalls: UnifiedToolCall[],
+    tools: UnifiedTool[],
+    emit: EmitEvent,
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    const results: string[] = [];
+
+    for (const call of toolCalls) {
+      throwIfAborted(signal);
+      const tool = tools.find((t) => t.name === call.name);
+      let result: string;
+      let isError = false;
+
+      try {
+        if (!tool) throw new Error(`Unknown tool: ${call.name}`);
+        if (typeof call.arguments === 'string') {
+          throw new Error(`Invalid JSON arguments: ${call.arguments}`);
+        }
+        const output = await tool.execute(call.arguments, { signal });
+        result = typeof output === 'string' ? output : JSON.stringify(output);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        result = (error as Error).message;
+        isError = true;
+      }
+
+      emit({ type: 'tool_result', id: call.id, name: call.name, result, isError });
+      results.push(`${call.name}: ${result}`);
+    }
+
+    return results;
+  }
+
   /**
    * التنفيذ الاحتياطي عند فشل Primary
    */
@@ -411,19 +588,27 @@ export class UnifiedExecutor {
     routing: RoutingDecision,
     options: ExecutionOptions,
     startTime: number,
-    primaryError: Error
+    primaryError: Error,
+    emit: EmitEvent
   ): Promise<ExecutionResult> {
-    this.ui.startSpinner('🔄 Executing fallback strategy...');
+    if (this.displays(options)) this.ui.startSpinner('🔄 Executing fallback strategy...');
 
     const messages = this.prepareMessages(request, options);
-    const fallbackResult = await this.fallback.execute(messages);
+    const fallbackResult = await this.fallback.execute(messages, undefined, options.signal);
 
     if (!fallbackResult.success || !fallbackResult.response) {
       throw new Error(`All providers failed. Last error: ${primaryError.message}`);
     }
 
+    // نظام البديل لا يبث: نعيد الرد كاملاً كأحداث
+    for await (const event of responseToEvents(fallbackResult.response)) {
+      if (event.type !== 'done') emit(event);
+    }
+
     const duration = Date.now() - startTime;
-    this.ui.succeedSpinner(`Fallback succeeded with ${fallbackResult.finalProvider}`);
+    if (this.displays(options)) {
+      this.ui.succeedSpinner(`Fallback succeeded with ${fallbackResult.finalProvider}`);
+    }
 
     return {
       success: true,
@@ -449,8 +634,9 @@ export class UnifiedExecutor {
   private async executeWithRetry(
     provider: string,
     messages: UnifiedMessage[],
-    routing: RoutingDecision,
-    options: ExecutionOptions
+    tools: UnifiedTool[],
+    options: ExecutionOptions,
+    emit: EmitEvent
   ): Promise<UnifiedResponse> {
     const maxAttempts = options.retryAttempts || this.DEFAULT_RETRY_ATTEMPTS;
     let lastError: Error | null = null;
@@ -462,23 +648,28 @@ export class UnifiedExecutor {
         const response = await this.executeWithTimeout(
           provider,
           messages,
-          routing,
+          tools,
           options,
-          timeout
+          timeout,
+          emit
         );
 
         return response;
 
       } catch (error) {
+        if (error instanceof BudgetExceededError) throw error;
+        // بعد الإلغاء قد يصل خطأ المزود بدلاً من AbortError
+        throwIfAborted(options.signal);
         lastError = error as Error;
         
         if (attempt < maxAttempts) {
+          // ما بُث من هذه المحاولة سيُعاد: ننبه المستهلك
+          emit({ type: 'error', error: lastError.message, retryable: true });
           const delay = this.calculateRetryDelay(attempt);
-          this.ui.warning(
-            `Attempt ${attempt} failed, retrying in ${delay}ms...`,
-            'Retry'
-          );
-          await this.sleep(delay);
+          if (!options.quiet) {
+            this.ui.warning(`Attempt ${attempt} failed, retrying in ${delay}ms...`, 'Retry');
+          }
+          await sleep(delay, options.signal);
         }
       }
     }
@@ -489,27 +680,45 @@ export class UnifiedExecutor {
   }
 
   /**
-   * التنفيذ مع Timeout
+   * التنفيذ مع Timeout: المحاولة التي تتجاوز المهلة تُلغى عند المزود،
+   * وما يصل منها بعد ذلك لا يُبث حتى لا يختلط بالمحاولة التالية
    */
   private async executeWithTimeout(
     provider: string,
     messages: UnifiedMessage[],
-    routing: RoutingDecision,
+    tools: UnifiedTool[],
     options: ExecutionOptions,
-    timeout: number
+    timeout: number,
+    emit: EmitEvent
   ): Promise<UnifiedResponse> {
+    const controller = new AbortController();
+    let abandoned = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
     const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error('Execution timeout')), timeout);
+      timer = setTimeout(() => {
+        abandoned = true;
+        controller.abort(new AbortError('Execution timeout'));
+        reject(new Error('Execution timeout'));
+      }, timeout);
     });
 
     const executionPromise = this.executeWithProvider(
       provider,
       messages,
-      routing,
-      options
+      tools,
+      { ...options, signal: anySignal(options.signal, controller.signal) },
+      (event) => {
+        if (!abandoned) emit(event);
+      }
     );
 
-    return Promise.race([executionPromise, timeoutPromise]);
+    try {
+      return await abortable(Promise.race([executionPromise, timeoutPromise]), options.signal);
+    } finally {
+      abandoned = true;
+      clearTimeout(timer);
+    }
   }
 
   /**
@@ -518,8 +727,9 @@ export class UnifiedExecutor {
   private async executeWithProvider(
     providerName: string,
     messages: UnifiedMessage[],
-    routing: RoutingDecision,
-    options: ExecutionOptions
+    tools: UnifiedTool[],
+    options: ExecutionOptions,
+    emit: EmitEvent
   ): Promise<UnifiedResponse> {
     const provider = this.connectionManager.getAIProvider(providerName);
 
@@ -527,19 +737,100 @@ export class UnifiedExecutor {
       throw new Error(`Provider ${providerName} not available`);
     }
 
-    // تحديد الأدوات المطلوبة
-    const shouldUseTools = options.useTools !== false && routing.tools.length > 0;
-    
-    if (shouldUseTools) {
-      // التنفيذ مع الأدوات
-      const tools = this.prepareTools(routing.tools, options.specificTools);
-      const maxToolCalls = options.maxToolCalls || 10;
+    // فحص الميزانية قبل الإرسال (قد يُرفض الطلب أو يُحوَّل لمزود أرخص)
+    const authorization = await this.budgetGuard.authorize(
+      { name: providerName, provider },
+      messages,
+      this.getBudgetAlternatives(tools.length > 0)
+    );
 
-      return await provider.chatWithTools(messages, tools);
+    // "done" يخص كل استدعاء للمزود؛ المنفذ يرسل done واحدة في النهاية
+    const forward = (event: UnifiedStreamEvent) => {
+      if (event.type !== 'done') emit(event);
+    };
+
+    const requestOptions: RequestOptions = {
+      signal: options.signal,
+      maxTokens: options.maxTokens,
+      model: authorization.name === options.provider ? options.model : undefined,
+    };
+
+    let response: UnifiedResponse;
+    if (options.streaming) {
+      response = await this.streamWithProvider(
+        authorization.name,
+        authorization.provider,
+        messages,
+        tools,
+        forward,
+        requestOptions
+      );
     } else {
-      // التنفيذ بدون أدوات
-      return await provider.chat(messages);
+      response = tools.length > 0
+        ? await authorization.provider.chatWithTools(messages, tools, requestOptions) // مع الأدوات
+        : await authorization.provider.chat(messages, requestOptions); // التنفيذ بدون أدوات
+      for await (const event of responseToEvents(response)) forward(event);
     }
+
+    await this.budgetGuard.settle(authorization, response, options.metadata).catch((error) => {
+      this.ui.warning(`Cost ledger not updated: ${error.message}`, 'Budget');
+    });
+
+    return response;
+  }
+
+  /**
+   * بث حي من المزود مع تجميع الرد الكامل
+   */
+  private async streamWithProvider(
+    name: string,
+    provider: IAIProvider,
+    messages: UnifiedMessage[],
+    tools: UnifiedTool[],
+    onEvent: EmitEvent,
+    requestOptions: RequestOptions
+  ): Promise<UnifiedResponse> {
+    const startTime = Date.now();
+    const signal = requestOptions.signal;
+    const events = provider.streamEvents(
+      messages,
+      tools.length > 0 ? tools : undefined,
+      requestOptions
+    );
+    // بث مقطوع بالإلغاء ليس خطأ مزود: لا يُعرض ويُرمى كـ AbortError
+    const collected = await collectStream(events, (event) => {
+      if (!(event.type === 'error' && signal?.aborted)) onEvent(event);
+    }).catch((error) => {
+      throwIfAborted(signal);
+      throw error;
+    });
+
+    const { inputTokens, outputTokens, totalTokens } = collected.usage;
+    const pricing = provider.getPricing();
+
+    return {
+      content: collected.content,
+      toolCalls: collected.toolCalls.length > 0 ? collected.toolCalls : undefined,
+      usage: collected.usage,
+      metadata: {
+        provider: name,
+        model: collected.model || 'unknown',
+        cost: inputTokens * pricing.inputCostPerToken + outputTokens * pricing.outputCostPerToken,
+        tokens: totalTokens,
+        duration: Date.now() - startTime,
+        stopReason: collected.stopReason
+      }
+    };
+  }
+
+  /**
+   * المزودون البدلاء عند سياسة downgrade
+   */
+  private getBudgetAlternatives(requiresTools: boolean): BudgetCandidate[] {
+    return this.connectionManager
+      .getAvailableProviders()
+      .map((name) => ({ name, provider: this.connectionManager.getAIProvider(name)! }))
+      .filter(({ provider }) => !requiresTools || provider.getCapabilities().supportsTools);
   }
 
   // ═══════════════════════════════════════
@@ -581,10 +872,15 @@ export class UnifiedExecutor {
     request: string,
     options: ExecutionOptions
   ): Promise<ExecutionResult | null> {
-    const cached = this.cache.checkCache(request);
-    
+    const cached = await this.cache.checkCache(request, { context: this.cacheContext(options) });
+
     if (cached) {
-      this.ui.success('✨ Response found in cache!', 'Cache');
+      if (cached.similarity !== undefined) {
+        const similarity = Math.round(cached.similarity * 100);
+        this.ui.success(`✨ Similar request found in cache (${similarity}%)`, 'Cache');
+      } else {
+        this.ui.success('✨ Response found in cache!', 'Cache');
+      }
       
       return {
         success: true,
@@ -621,7 +917,17 @@ export class UnifiedExecutor {
     analysis: TaskAnalysis,
     options: ExecutionOptions
   ): Promise<RoutingDecision> {
-    return await this.router.route(analysis);
+    const decision = await this.router.route(analysis);
+
+    // مزود طلبه المستدعي (مثل نموذج دور في فريق الـ Agents)
+    if (options.provider && this.connectionManager.getAIProvider(options.provider)) {
+      return {
+        ...decision,
+        provider: options.provider,
+        reason: `Requested provider: ${[options.provider, options.model].filter(Boolean).join(':')}`,
+      };
+    }
+    return decision;
   }
 
   /**
@@ -662,19 +968,15 @@ export class UnifiedExecutor {
     toolNames: string[],
     specificTools?: string[]
   ): UnifiedTool[] {
-    const allTools = this.connectionManager.getTools().definitions;
+    const allTools = this.connectionManager.getTools().registry.toDefinitionEntries();
 
     // إذا كانت هناك أدوات محددة، استخدمها فقط
     if (specificTools && specificTools.length > 0) {
-      return allTools.filter((tool: any) =>
-        specificTools.includes(tool.name)
-      ) as any;
+      return allTools.filter((tool) => specificTools.includes(tool.name));
     }
 
     // وإلا استخدم الأدوات من Router
-    return allTools.filter((tool: any) =>
-      toolNames.includes(tool.name)
-    ) as any;
+    return allTools.filter((tool) => toolNames.includes(tool.name));
   }
 
   /**
@@ -685,14 +987,32 @@ export class UnifiedExecutor {
     result: ExecutionResult,
     options: ExecutionOptions
   ): Promise<void> {
-    if (!result.response) return;
+    // ردود نفّذت أدوات لها آثار جانبية: إعادتها من الكاش لا تكرر الآثار
+    if (!result.response || result.metadata?.toolCalls) return;
+
+    await this.cache.saveToCache(
+      request,
+      {
+        content: result.response,
+        cost: result.cost,
+        provider: result.provider,
+        timestamp: Date.now()
+      },
+      { context: this.cacheContext(options), taskType: result.analysis?.type }
+    );
+  }
 
-    this.cache.saveToCache(request, {
-      content: result.response,
-      cost: result.cost,
-      provider: result.provider,
-      timestamp: Date.now()
-    });
+  /**
+   * نفس الطلب في محادثة مختلفة ليس نفس الطلب
+   */
+  private cacheContext(options: ExecutionOptions): string {
+    const context: unknown[] = [
+      options.systemPrompt || '',
+      (options.conversationHistory || []).map((m) => [m.role, m.content])
+    ];
+    // رد نموذج رخيص لا يُخدم لطلب حدد نموذجاً أقوى (والعكس)
+    if (options.provider) context.push(options.provider, options.model || '');
+    return JSON.stringify(context);
   }
 
   /**
@@ -946,6 +1266,13 @@ export class UnifiedExecutor {
   /**
    * تطبيق الإعدادات الافتراضية
    */
+  /**
+   * هل يعرض المنفذ تقدمه في الطرفية؟
+   */
+  private displays(options: ExecutionOptions): boolean {
+    return !options.streaming && !options.quiet;
+  }
+
   private applyDefaults(options: ExecutionOptions): ExecutionOptions {
     return {
       priority: 'balanced',
@@ -995,10 +1322,24 @@ export class UnifiedExecutor {
   }
 
   /**
-   * انتظار مدة محددة
+   * نتيجة الطلب الملغى (options.signal): ليس خطأً ولا يُحسب فشلاً للمزود
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private handleCancelled(startTime: number, executionId: string): ExecutionResult {
+    this.ui.stopSpinner();
+    this.ui.warning(`[${executionId}] Cancelled`, 'Executor');
+
+    return {
+      success: false,
+      cancelled: true,
+      analysis: {} as TaskAnalysis,
+      routing: {} as RoutingDecision,
+      cost: 0,
+      duration: Date.now() - startTime,
+      provider: 'none',
+      attempts: 0,
+      fromCache: false,
+      error: 'Cancelled'
+    };
   }
 
   /**
@@ -1106,8 +1447,8 @@ export class UnifiedExecutor {
   /**
    * مسح Cache
    */
-  clearCache(): void {
-    // TODO: Implement cache clear
+  async clearCache(): Promise<void> {
+    await this.cache.clear();
     this.ui.success('Cache cleared', 'Cache');
   }
 
@@ -1167,10 +1508,10 @@ export function getUnifiedExecutor(): UnifiedExecutor {
 /**
  * دالة تنفيذ سريعة
  */
-export async function execute(
+export function execute(
   request: string,
   options?: ExecutionOptions
-): Promise<ExecutionResult> {
+): ExecutionStream {
   const executor = getUnifiedExecutor();
   return executor.execute(request, options);
 }
@@ -2,6 +2,8 @@
  * F8'E E9'D,) 'D#.7'! 'DEH-/
  */
 
+import { isAbortError } from '../../core/abort.js';
+
 export enum ProviderErrorType {
   // #.7'! API
   RATE_LIMIT = 'RATE_LIMIT',
@@ -90,12 +92,17 @@ export class ErrorHandler {
   /**
    * *-HJD .7# 9'E D.7# EH-/
    */
-  static normalizeError(error: any, provider: string): ProviderError {
+  static normalizeError(error: any, provider: string): ProviderError | Error {
     // %0' C'F 'D.7# ('DA9D ProviderError
     if (error instanceof ProviderError) {
       return error;
     }
 
+    // cancellation stays an AbortError so callers don't treat it as a provider failure
+    if (isAbortError(error)) {
+      return error;
+    }
+
     // *-DJD 'D.7#
     const errorInfo = this.analyzeError(error);
 
@@ -0,0 +1,469 @@
+// stream-events.ts
+// ============================================
+// 🌊 Stream Events - بروتوكول البث الموحد
+// ============================================
+// Maps each provider's native stream chunks into UnifiedStreamEvent. The
+// chunk interfaces below only describe the fields we read, so SDK streams
+// and plain test fixtures both fit. Mappers never throw: failures become an
+// `error` event, and every successful stream ends with `usage` and `done`.
+
+import type {
+  UnifiedResponse,
+  UnifiedStreamEvent,
+  UnifiedToolCall,
+} from '../interfaces/unified-types.interface.js';
+
+// ============================================
+// 📦 Native chunk shapes
+// ============================================
+
+/**
+ * Anthropic raw message stream event (`messages.stream()` or `stream: true`)
+ */
+export interface AnthropicStreamChunk {
+  type: string;
+  index?: number;
+  message?: { model?: string; usage?: { input_tokens?: number; output_tokens?: number } };
+  content_block?: { type: string; id?: string; name?: string };
+  delta?: { type?: string; text?: string; partial_json?: string; stop_reason?: string | null };
+  usage?: { output_tokens?: number };
+}
+
+/**
+ * OpenAI chat completion chunk (also DeepSeek and other compatible APIs)
+ */
+export interface OpenAIStreamChunk {
+  model?: string;
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+}
+
+/**
+ * Gemini GenerateContentResponse chunk
+ */
+export interface GeminiStreamChunk {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string; functionCall?: { name: string; args?: object } }> };
+    finishReason?: string;
+  }>;
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+  modelVersion?: string;
+}
+
+/**
+ * Ollama chat chunk (`client.chat({ stream: true })`)
+ */
+export interface OllamaStreamChunk {
+  model?: string;
+  message?: {
+    content?: string;
+    tool_calls?: Array<{ function: { name: string; arguments?: Record<string, any> } }>;
+  };
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+// ============================================
+// 🔄 Provider mappers
+// ============================================
+
+export async function* mapAnthropicStream(
+  chunks: AsyncIterable<AnthropicStreamChunk>
+): AsyncGenerator<UnifiedStreamEvent> {
+  const toolBlocks = new Map<number, { id: string; name: string; args: string }>();
+  let toolIndex = 0;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let stopReason: string | undefined;
+  let model: string | undefined;
+
+  try {
+    for await (const chunk of chunks) {
+      const blockIndex = chunk.index ?? 0;
+
+      if (chunk.type === 'message_start') {
+        model = chunk.message?.model;
+        inputTokens = chunk.message?.usage?.input_tokens ?? 0;
+        outputTokens = chunk.message?.usage?.output_tokens ?? 0;
+      } else if (chunk.type === 'content_block_start' && chunk.content_block?.type === 'tool_use') {
+        const id = chunk.content_block.id || `call_${toolIndex}`;
+        const name = chunk.content_block.name || '';
+        toolBlocks.set(blockIndex, { id, name, args: '' });
+        yield { type: 'tool_call_start', id, name, index: toolIndex++ };
+      } else if (chunk.type === 'content_block_delta') {
+        if (chunk.delta?.type === 'text_delta' && chunk.delta.text) {
+          yield { type: 'text_delta', text: chunk.delta.text };
+        } else if (chunk.delta?.type === 'input_json_delta' && chunk.delta.partial_json) {
+          const block = toolBlocks.get(blockIndex);
+          if (block) {
+            const argumentsDelta = chunk.delta.partial_json;
+            block.args += argumentsDelta;
+            yield { type: 'tool_call_delta', id: block.id, argumentsDelta };
+          }
+        }
+      } else if (chunk.type === 'content_block_stop') {
+        const block = toolBlocks.get(blockIndex);
+        if (block) {
+          toolBlocks.delete(blockIndex);
+          yield toolCallEnd(block.id, block.name, block.args);
+        }
+      } else if (chunk.type === 'message_delta') {
+        stopReason = chunk.delta?.stop_reason ?? stopReason;
+        outputTokens = chunk.usage?.output_tokens ?? outputTokens;
+      }
+    }
+  } catch (error) {
+    yield errorEvent(error);
+    return;
+  }
+
+  yield { type: 'usage', inputTokens, outputTokens, model };
+  yield { type: 'done', stopReason };
+}
+
+export async function* mapOpenAIStream(
+  chunks: AsyncIterable<OpenAIStreamChunk>
+): AsyncGenerator<UnifiedStreamEvent> {
+  const calls = new Map<number, { id: string; name: string; args: string }>();
+  let toolIndex = 0;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let stopReason: string | undefined;
+  let model: string | undefined;
+
+  function* endCalls(): Generator<UnifiedStreamEvent> {
+    for (const call of calls.values()) {
+      yield toolCallEnd(call.id, call.name, call.args);
+    }
+    calls.clear();
+  }
+
+  try {
+    for await (const chunk of chunks) {
+      model = chunk.model ?? model;
+      if (chunk.usage) {
+        inputTokens = chunk.usage.prompt_tokens ?? inputTokens;
+        outputTokens = chunk.usage.completion_tokens ?? outputTokens;
+      }
+
+      const choice = chunk.choices?.[0];
+      if (!choice) continue;
+
+      if (choice.delta?.content) {
+        yield { type: 'text_delta', text: choice.delta.content };
+      }
+
+      for (const delta of choice.delta?.tool_calls || []) {
+        let call = calls.get(delta.index);
+        if (!call) {
+          const id = delta.id || `call_${toolIndex}`;
+          call = { id, name: delta.function?.name || '', args: '' };
+          calls.set(delta.index, call);
+          yield { type: 'tool_call_start', id: call.id, name: call.name, index: toolIndex++ };
+        }
+        const args = delta.function?.arguments;
+        if (args) {
+          call.args += args;
+          yield { type: 'tool_call_delta', id: call.id, argumentsDelta: args };
+        }
+      }
+
+      if (choice.finish_reason) {
+        stopReason = choice.finish_reason;
+        yield* endCalls();
+      }
+    }
+  } catch (error) {
+    yield errorEvent(error);
+    return;
+  }
+
+  // some compatible servers close the stream without a finish_reason
+  yield* endCalls();
+  yield { type: 'usage', inputTokens, outputTokens, model };
+  yield { type: 'done', stopReason };
+}
+
+export async function* mapGeminiStream(
+  chunks: AsyncIterable<GeminiStreamChunk>
+): AsyncGenerator<UnifiedStreamEvent> {
+  let toolIndex = 0;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let stopReason: string | undefined;
+  let model: string | undefined;
+
+  try {
+    for await (const chunk of chunks) {
+      const candidate = chunk.candidates?.[0];
+      model = chunk.modelVersion ?? model;
+
+      for (const part of candidate?.content?.parts || []) {
+        if (part.text) {
+          yield { type: 'text_delta', text: part.text };
+        } else if (part.functionCall) {
+          // Gemini sends function calls whole and without ids
+          const { name, args } = part.functionCall;
+          const index = toolIndex++;
+          yield* wholeToolCall(`call_${index}`, name, args, index);
+        }
+      }
+
+      stopReason = candidate?.finishReason ?? stopReason;
+      // usage is cumulative: the last chunk has the totals
+      inputTokens = chunk.usageMetadata?.promptTokenCount ?? inputTokens;
+      outputTokens = chunk.usageMetadata?.candidatesTokenCount ?? outputTokens;
+    }
+  } catch (error) {
+    yield errorEvent(error);
+    return;
+  }
+
+  yield { type: 'usage', inputTokens, outputTokens, model };
+  yield { type: 'done', stopReason };
+}
+
+export async function* mapOllamaStream(
+  chunks: AsyncIterable<OllamaStreamChunk>
+): AsyncGenerator<UnifiedStreamEvent> {
+  let toolIndex = 0;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let stopReason: string | undefined;
+  let model: string | undefined;
+
+  try {
+    for await (const chunk of chunks) {
+      model = chunk.model ?? model;
+      if (chunk.message?.content) {
+        yield { type: 'text_delta', text: chunk.message.content };
+      }
+
+      for (const call of chunk.message?.tool_calls || []) {
+        const index = toolIndex++;
+        yield* wholeToolCall(`call_${index}`, call.function.name, call.function.arguments, index);
+      }
+
+      if (chunk.done) {
+        stopReason = chunk.done_reason;
+        inputTokens = chunk.prompt_eval_count ?? 0;
+        outputTokens = chunk.eval_count ?? 0;
+      }
+    }
+  } catch (error) {
+    yield errorEvent(error);
+    return;
+  }
+
+  yield { type: 'usage', inputTokens, outputTokens, model };
+  yield { type: 'done', stopReason };
+}
+
+/**
+ * `data:` payloads of a server-sent events body, parsed as JSON. Stops at
+ * the OpenAI-style `[DONE]` marker.
+ */
+export async function* parseSSE<T = any>(
+  body: AsyncIterable<Uint8Array | string>
+): AsyncGenerator<T> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const part of body) {
+    buffer += typeof part === 'string' ? part : decoder.decode(part, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+      if (data) yield JSON.parse(data) as T;
+    }
+  }
+}
+
+/**
+ * Defer opening a native stream until iteration, so request errors (auth,
+ * rate limits) reach the mapper and become `error` events
+ */
+export async function* openStream<T>(
+  open: () => Promise<AsyncIterable<T>> | AsyncIterable<T>
+): AsyncGenerator<T> {
+  yield* await open();
+}
+
+// ============================================
+// 🧰 Consumers
+// ============================================
+
+export interface CollectedStream {
+  content: string;
+  model?: string;
+  toolCalls: UnifiedToolCall[];
+  usage: { inputTokens: number; outputTokens: number; totalTokens: number };
+  stopReason?: string;
+}
+
+/**
+ * Drain a stream into a complete response, forwarding every event to
+ * `onEvent` on the way. An `error` event is thrown.
+ */
+export async function collectStream(
+  events: AsyncIterable<UnifiedStreamEvent>,
+  onEvent?: (event: UnifiedStreamEvent) => void
+): Promise<CollectedStream> {
+  const collected: CollectedStream = {
+    content: '',
+    toolCalls: [],
+    usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+  };
+
+  for await (const event of events) {
+    onEvent?.(event);
+
+    switch (event.type) {
+      case 'text_delta':
+        collected.content += event.text;
+        break;
+      case 'tool_call_end':
+        collected.toolCalls.push({ id: event.id, name: event.name, arguments: event.arguments });
+        break;
+      case 'usage':
+        collected.usage.inputTokens += event.inputTokens;
+        collected.usage.outputTokens += event.outputTokens;
+        collected.usage.totalTokens += event.inputTokens + event.outputTokens;
+        collected.model = event.model ?? collected.model;
+        break;
+      case 'error':
+        throw new Error(event.error);
+      case 'done':
+        collected.stopReason = event.stopReason;
+        break;
+    }
+  }
+
+  return collected;
+}
+
+/**
+ * Text only, for the older `AsyncGenerator<string>` streaming APIs
+ */
+export async function* textDeltas(
+  events: AsyncIterable<UnifiedStreamEvent>
+): AsyncGenerator<string> {
+  for await (const event of events) {
+    if (event.type === 'text_delta') yield event.text;
+    else if (event.type === 'error') throw new Error(event.error);
+  }
+}
+
+/**
+ * Replay a complete response as events, for providers and paths (cache,
+ * fallback) that have no native stream
+ */
+export async function* responseToEvents(
+  response: Pick<UnifiedResponse, 'content' | 'toolCalls' | 'usage' | 'metadata'>
+): AsyncGenerator<UnifiedStreamEvent> {
+  if (response.content) {
+    yield { type: 'text_delta', text: response.content };
+  }
+  for (const [index, call] of (response.toolCalls || []).entries()) {
+    yield* wholeToolCall(call.id, call.name, call.arguments, index);
+  }
+  if (response.usage) {
+    const { inputTokens, outputTokens } = response.usage;
+    yield { type: 'usage', inputTokens, outputTokens, model: response.metadata?.model };
+  }
+  yield { type: 'done', stopReason: response.metadata?.stopReason };
+}
+
+/**
+ * Single-consumer async queue: events pushed before anyone iterates are
+ * buffered, and iteration ends once the channel is closed.
+ */
+export class StreamChannel<T> implements AsyncIterable<T> {
+  private buffer: T[] = [];
+  private waiting?: () => void;
+  private closed = false;
+
+  push(item: T): void {
+    if (this.closed) return;
+    this.buffer.push(item);
+    this.wake();
+  }
+
+  close(): void {
+    this.closed = true;
+    this.wake();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    while (true) {
+      if (this.buffer.length > 0) {
+        yield this.buffer.shift()!;
+      } else if (this.closed) {
+        return;
+      } else {
+        await new Promise<void>((resolve) => (this.waiting = resolve));
+      }
+    }
+  }
+
+  private wake(): void {
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    waiting?.();
+  }
+}
+
+// ============================================
+// 🔧 Helpers
+// ============================================
+
+function* wholeToolCall(
+  id: string,
+  name: string,
+  args: unknown,
+  index: number
+): Generator<UnifiedStreamEvent> {
+  const argumentsDelta = JSON.stringify(args ?? {});
+  yield { type: 'tool_call_start', id, name, index };
+  yield { type: 'tool_call_delta', id, argumentsDelta };
+  yield { type: 'tool_call_end', id, name, arguments: args ?? {} };
+}
+
+function toolCallEnd(id: string, name: string, args: string): UnifiedStreamEvent {
+  return { type: 'tool_call_end', id, name, arguments: parseArguments(args) };
+}
+
+/**
+ * Accumulated JSON arguments; malformed JSON is passed through as a string
+ * so the caller can report it instead of silently running with `{}`
+ */
+function parseArguments(json: string): any {
+  if (!json.trim()) return {};
+  try {
+    return JSON.parse(json);
+  } catch {
+    return json;
+  }
+}
+
+function errorEvent(error: unknown): UnifiedStreamEvent {
+  return { type: 'error', error: error instanceof Error ? error.message : String(error) };
+}
@@ -0,0 +1,157 @@
+// tokenizer.ts
+// ============================================
+// 🔢 Tokenizer - عدّ التوكنز حسب المزود والنموذج
+// ============================================
+// OpenAI models are counted exactly with their BPE encoding (js-tiktoken).
+// Claude and Gemini tokenizers are not published, so they reuse cl100k and
+// scale the count up to stay on the safe side of the real context window.
+// Local models (Ollama) use a character heuristic.
+
+import type { Tiktoken } from 'js-tiktoken/lite';
+
+export type TokenizerProvider = 'claude' | 'openai' | 'gemini' | 'deepseek' | 'ollama';
+
+export interface Tokenizer {
+  readonly id: string; // encoding used, e.g. 'o200k_base' or 'heuristic'
+  readonly exact: boolean; // false when the count is an approximation
+  count(text: string): number;
+}
+
+type Encoding = 'cl100k_base' | 'o200k_base';
+
+interface TokenizerSpec {
+  encoding?: Encoding; // none: heuristic
+  scale: number;
+}
+
+// Rough ratios of each provider's token count to cl100k on source code,
+// rounded up so budgets err towards leaving room.
+const PROVIDER_TOKENIZERS: Record<TokenizerProvider, TokenizerSpec> = {
+  openai: { encoding: 'cl100k_base', scale: 1 },
+  claude: { encoding: 'cl100k_base', scale: 1.15 },
+  gemini: { encoding: 'cl100k_base', scale: 1.1 },
+  deepseek: { encoding: 'cl100k_base', scale: 1.05 },
+  ollama: { scale: 1 },
+};
+
+// OpenAI models on the newer o200k encoding
+const O200K_MODELS = /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o1|o3|o4|chatgpt-4o)/;
+
+// Context windows by model prefix; the first match wins, so specific prefixes come first
+const CONTEXT_WINDOWS: Record<TokenizerProvider, Array<[string, number]>> = {
+  claude: [['', 200_000]],
+  openai: [
+    ['gpt-5', 400_000],
+    ['gpt-4.1', 1_047_576],
+    ['o1-mini', 128_000],
+    ['o1', 200_000],
+    ['o3', 200_000],
+    ['o4', 200_000],
+    ['gpt-4o', 128_000],
+    ['gpt-4-turbo', 128_000],
+    ['gpt-4-32k', 32_768],
+    ['gpt-4', 8_192],
+    ['gpt-3.5', 16_385],
+    ['', 128_000],
+  ],
+  gemini: [
+    ['gemini-1.5-pro', 2_097_152],
+    ['gemini-1.5', 1_048_576],
+    ['gemini-2', 1_048_576],
+    ['gemini-pro', 32_760],
+    ['', 1_048_576],
+  ],
+  deepseek: [
+    ['deepseek-coder', 16_384],
+    ['', 64_000],
+  ],
+  // Ollama's default num_ctx, whatever the model itself supports
+  ollama: [['', 4_096]],
+};
+
+const encoders = new Map<Encoding, Promise<Tiktoken>>();
+
+/**
+ * Character-based estimate: ~4 ASCII characters per token, while Arabic and
+ * other non-ASCII text splits into far more tokens per character.
+ */
+export class HeuristicTokenizer implements Tokenizer {
+  readonly id = 'heuristic';
+  readonly exact = false;
+
+  constructor(private scale: number = 1) {}
+
+  count(text: string): number {
+    let ascii = 0;
+    let other = 0;
+    for (let i = 0; i < text.length; i++) {
+      if (text.charCodeAt(i) < 128) ascii++;
+      else other++;
+    }
+    return Math.ceil((ascii / 4 + other / 2) * this.scale);
+  }
+}
+
+/**
+ * BPE count with a js-tiktoken encoding, optionally scaled for providers
+ * whose tokenizer is only approximated by it.
+ */
+export class TiktokenTokenizer implements Tokenizer {
+  readonly id: string;
+  readonly exact: boolean;
+  private encode: (text: string) => number[];
+
+  constructor(encoding: string, encode: (text: string) => number[], private scale: number = 1) {
+    this.id = encoding;
+    this.exact = scale === 1;
+    this.encode = encode;
+  }
+
+  count(text: string): number {
+    if (!text) return 0;
+    return Math.ceil(this.encode(text).length * this.scale);
+  }
+}
+
+/**
+ * Load the tokenizer for a provider/model. Encodings are loaded once and
+ * shared; if js-tiktoken is unavailable the heuristic is used instead.
+ */
+export async function loadTokenizer(provider: string, model: string = ''): Promise<Tokenizer> {
+  const spec = PROVIDER_TOKENIZERS[provider as TokenizerProvider] || PROVIDER_TOKENIZERS.ollama;
+  if (!spec.encoding) return new HeuristicTokenizer(spec.scale);
+
+  const encoding = provider === 'openai' && O200K_MODELS.test(model) ? 'o200k_base' : spec.encoding;
+
+  try {
+    const tiktoken = await loadEncoder(encoding);
+    // special tokens inside user code are counted as plain text
+    return new TiktokenTokenizer(encoding, (text) => tiktoken.encode(text, [], []), spec.scale);
+  } catch {
+    return new HeuristicTokenizer(spec.scale);
+  }
+}
+
+function loadEncoder(encoding: Encoding): Promise<Tiktoken> {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = Promise.all([
+      import('js-tiktoken/lite'),
+      encoding === 'o200k_base'
+        ? import('js-tiktoken/ranks/o200k_base')
+        : import('js-tiktoken/ranks/cl100k_base'),
+    ]).then(([{ Tiktoken }, ranks]) => new Tiktoken(ranks.default));
+    encoder.catch(() => encoders.delete(encoding));
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * Context window (input + output tokens) of a provider's model.
+ */
+export function getContextWindow(provider: string, model: string = ''): number {
+  const windows = CONTEXT_WINDOWS[provider as TokenizerProvider] || CONTEXT_WINDOWS.ollama;
+  const match = windows.find(([prefix]) => model.startsWith(prefix));
+  return match ? match[1] : windows[windows.length - 1][1];
+}
@@ -0,0 +1,73 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Abort Tests - اختبارات الإلغاء عبر AbortSignal
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect } from '@jest/globals';
+import { AbortError, abortable, anySignal, isAbortError, sleep } from '../abort';
+import { ToolRegistry } from '../tool-registry';
+import { executeCommand, setWorkspacePolicy } from '../tools';
+import { WorkspacePolicy } from '../workspace-policy';
+
+describe('abort helpers', () => {
+  test('abortable rejects as soon as the signal fires', async () => {
+    const controller = new AbortController();
+    const pending = abortable(new Promise(() => undefined), controller.signal);
+    controller.abort(new AbortError('Hard stop'));
+
+    await expect(pending).rejects.toThrow('Hard stop');
+    await expect(abortable(Promise.resolve(1), new AbortController().signal)).resolves.toBe(1);
+  });
+
+  test('sleep is cut short and anySignal follows every source', async () => {
+    const first = new AbortController();
+    const second = new AbortController();
+    const combined = anySignal(first.signal, undefined, second.signal);
+
+    const started = Date.now();
+    const waiting = sleep(10_000, combined);
+    second.abort();
+
+    const error = await waiting.catch((e) => e);
+    expect(isAbortError(error)).toBe(true);
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(first.signal.aborted).toBe(false);
+  });
+});
+
+describe('tool cancellation', () => {
+  test('the registry passes the signal to tools and throws once it fires', async () => {
+    const registry = new ToolRegistry();
+    const controller = new AbortController();
+    let received: AbortSignal | undefined;
+    registry.register({
+      name: 'slow',
+      description: 'Wait until cancelled',
+      parameters: {},
+      execute: async (_params, context) => {
+        received = context?.signal;
+        controller.abort();
+        return 'too late';
+      },
+    });
+
+    await expect(
+      registry.execute('slow', {}, { signal: controller.signal })
+    ).rejects.toBeInstanceOf(AbortError);
+    expect(received).toBe(controller.signal);
+  });
+
+  test('executeCommand kills the child process on abort', async () => {
+    setWorkspacePolicy(new WorkspacePolicy({ root: process.cwd(), allowedCommands: ['node *'] }));
+    const controller = new AbortController();
+    const started = Date.now();
+
+    const running = executeCommand(
+      { command: 'node -e "setTimeout(() => {}, 10000)"' },
+      { signal: controller.signal }
+    );
+    setTimeout(() => controller.abort(), 100);
+
+    expect(JSON.parse(await running)).toMatchObject({ success: false, cancelled: true });
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+});
@@ -0,0 +1,163 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 FS Journal Tests - اختبارات سجل التراجع
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import { FsJournal, pathsTouchedBy } from '../fs-journal';
+
+let root: string;
+let journalDir: string;
+
+const COMMAND = 'rm a.txt && mv b.txt c.txt && echo x > new/d.txt && chmod 600 e.txt';
+
+const read = (file: string) => fs.readFile(path.join(root, file), 'utf-8');
+const exists = (file: string) => fs.pathExists(path.join(root, file));
+const touched = async (command: string) => (await pathsTouchedBy(command, root))!;
+
+// ما يفعله الأمر فعلاً، بدون shell
+async function runCommand(): Promise<void> {
+  await fs.remove(path.join(root, 'a.txt'));
+  await fs.move(path.join(root, 'b.txt'), path.join(root, 'c.txt'), { overwrite: true });
+  await fs.outputFile(path.join(root, 'new/d.txt'), 'x\n');
+  await fs.chmod(path.join(root, 'e.txt'), 0o600);
+}
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'oqool-journal-'));
+  journalDir = path.join(root, '.oqool-agent', 'journal');
+  await fs.writeFile(path.join(root, 'a.txt'), 'A');
+  await fs.writeFile(path.join(root, 'b.txt'), 'B');
+  await fs.writeFile(path.join(root, 'c.txt'), 'C');
+  await fs.writeFile(path.join(root, 'e.txt'), 'E');
+  await fs.chmod(path.join(root, 'e.txt'), 0o644);
+});
+
+afterEach(async () => {
+  await fs.remove(root);
+});
+
+describe('FsJournal', () => {
+  test('finds the paths a command writes, deletes, moves or chmods', async () => {
+    const targets = await pathsTouchedBy(COMMAND, root);
+
+    expect(targets).toEqual([
+      { kind: 'delete', path: path.join(root, 'a.txt') },
+      { kind: 'move', path: path.join(root, 'b.txt'), to: path.join(root, 'c.txt') },
+      { kind: 'write', path: path.join(root, 'new/d.txt') },
+      { kind: 'chmod', path: path.join(root, 'e.txt') },
+    ]);
+    expect(await touched('ls -la | grep x 2>&1')).toEqual([]);
+    expect(await touched('git diff > out.txt')).toEqual([
+      { kind: 'write', path: path.join(root, 'out.txt') },
+    ]);
+  });
+
+  test('cannot account for programs or constructs it has no model of', async () => {
+    for (const command of [
+      'npm install lodash',
+      'git checkout -- .',
+      'ls && make clean',
+      'rm $TARGET',
+      'touch a & rm b',
+      'echo `date` > a.txt',
+    ]) {
+      expect(await touched(command)).toBeNull();
+    }
+  });
+
+  test('restores every pre-image in reverse and only once', async () => {
+    const journal = new FsJournal(journalDir);
+    await journal.begin('op_1', COMMAND, await touched(COMMAND));
+    await runCommand();
+
+    const replay = await journal.rollback('op_1');
+
+    expect(await read('a.txt')).toBe('A');
+    expect(await read('b.txt')).toBe('B');
+    expect(await read('c.txt')).toBe('C');
+    expect(await exists('new')).toBe(false);
+    expect((await fs.stat(path.join(root, 'e.txt'))).mode & 0o777).toBe(0o644);
+    expect(replay.restored).toContain(path.join(root, 'new'));
+
+    await fs.writeFile(path.join(root, 'a.txt'), 'edited after rollback');
+    expect(await journal.rollback('op_1')).toEqual({
+      operationId: 'op_1',
+      restored: [],
+      skipped: [],
+    });
+    expect(await read('a.txt')).toBe('edited after rollback');
+    expect((await journal.summary('op_1')).state).toBe('rolled-back');
+  });
+
+  test('leaves paths changed after the operation alone', async () => {
+    const journal = new FsJournal(journalDir);
+    const command = 'echo x > a.txt && echo y > new.txt && rm c.txt';
+    await journal.begin('op_2', command, await touched(command));
+    await fs.writeFile(path.join(root, 'a.txt'), 'x\n');
+    await fs.writeFile(path.join(root, 'new.txt'), 'y\n');
+    await fs.remove(path.join(root, 'c.txt'));
+    await journal.commit('op_2');
+
+    // المستخدم يعدل بعد انتهاء العملية
+    await fs.writeFile(path.join(root, 'a.txt'), 'edited by hand');
+    await fs.writeFile(path.join(root, 'c.txt'), 'recreated by hand');
+
+    const replay = await journal.rollback('op_2');
+
+    expect(await read('a.txt')).toBe('edited by hand');
+    expect(await read('c.txt')).toBe('recreated by hand');
+    expect(await exists('new.txt')).toBe(false);
+    expect(replay.skipped.sort()).toEqual([path.join(root, 'a.txt'), path.join(root, 'c.txt')]);
+  });
+
+  test('only restores modes after a chmod, never deletes or reverts content', async () => {
+    const journal = new FsJournal(journalDir);
+    await journal.begin('op_chmod', 'chmod -R 755 .', await touched('chmod -R 755 .'));
+    await fs.chmod(path.join(root, 'e.txt'), 0o755);
+    await journal.commit('op_chmod');
+
+    await fs.writeFile(path.join(root, 'a.txt'), 'edited after chmod');
+    await fs.writeFile(path.join(root, 'new.txt'), 'created after chmod');
+
+    await journal.rollback('op_chmod');
+
+    expect(await read('a.txt')).toBe('edited after chmod');
+    expect(await read('new.txt')).toBe('created after chmod');
+    expect((await fs.stat(path.join(root, 'e.txt'))).mode & 0o777).toBe(0o644);
+  });
+
+  test('recovers journals left open by a process that died only when confirmed', async () => {
+    const crashed = new FsJournal(journalDir);
+    await crashed.begin('op_crash', COMMAND, await touched(COMMAND));
+    await crashed.begin('op_done', 'touch z.txt', await touched('touch z.txt'));
+    await crashed.commit('op_done');
+    await runCommand();
+
+    // نفس السجل لكن كأن العملية التي فتحته انتهت دون commit
+    const dead = spawnSync(process.execPath, ['-e', '']).pid;
+    const file = path.join(journalDir, 'op_crash.jsonl');
+    const content = await fs.readFile(file, 'utf-8');
+    await fs.writeFile(file, content.replace(`"pid":${process.pid}`, `"pid":${dead}`));
+
+    const asked: string[] = [];
+    const declined = await new FsJournal(journalDir).recover((journal) => {
+      asked.push(journal.operationId);
+      return false;
+    });
+    expect(asked).toEqual(['op_crash']);
+    expect(declined).toEqual([]);
+    expect(await exists('a.txt')).toBe(false);
+
+    const recovered = await new FsJournal(journalDir).recover(() => true);
+
+    expect(recovered.map((r) => r.operationId)).toEqual(['op_crash']);
+    expect(await read('a.txt')).toBe('A');
+    expect(await read('c.txt')).toBe('C');
+    expect(await exists('new')).toBe(false);
+    expect(await new FsJournal(journalDir).interrupted()).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 God Mode Checkpoints Tests - اختبارات نقاط الحفظ
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { GodModeCheckpoints } from '../god-mode-checkpoints';
+
+let root: string;
+let checkpoints: GodModeCheckpoints;
+
+const architecture = {
+  components: [{ name: 'API', type: 'service', description: 'REST API', dependencies: [] }],
+  tags: ['api'],
+};
+const code = { files: [], totalLines: 0 };
+const tests = { total: 1, passed: 1, failed: 0, coverage: 80, details: '' };
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'oqool-god-'));
+  checkpoints = new GodModeCheckpoints(root);
+});
+
+afterEach(async () => {
+  await fs.remove(root);
+});
+
+describe('GodModeCheckpoints', () => {
+  test('resumes from the failed phase and reloads earlier ones from disk', async () => {
+    const run = await checkpoints.create('build an API', path.join(root, 'out'));
+
+    await checkpoints.runPhase(run, 'architecture', 'architecture', async () => architecture);
+    await expect(
+      checkpoints.runPhase(run, 'code', 'architecture', async () => {
+        throw new Error('rate limited');
+      })
+    ).rejects.toThrow('rate limited');
+
+    const failed = await checkpoints.load(run.id);
+    expect(failed).toMatchObject({
+      status: 'failed',
+      failedPhase: 'code',
+      phases: ['architecture'],
+    });
+
+    const start = checkpoints.startPhase(failed);
+    expect(start).toBe('code');
+
+    const calls: string[] = [];
+    const loaded = await checkpoints.runPhase(failed, 'architecture', start, async () => {
+      calls.push('architecture');
+      return architecture;
+    });
+    await checkpoints.runPhase(failed, 'code', start, async () => {
+      calls.push('code');
+      return code;
+    });
+
+    expect(calls).toEqual(['code']);
+    expect(loaded).toEqual(architecture);
+    expect((await checkpoints.load(run.id)).phases).toEqual(['architecture', 'code']);
+  });
+
+  test('uses a hand-edited architecture and drops checkpoints after --from-phase', async () => {
+    const run = await checkpoints.create('build an API', path.join(root, 'out'));
+    await checkpoints.runPhase(run, 'architecture', 'architecture', async () => architecture);
+    await checkpoints.runPhase(run, 'code', 'architecture', async () => code);
+    await checkpoints.runPhase(run, 'tests', 'architecture', async () => tests);
+
+    const file = checkpoints.phasePath(run.id, 'architecture');
+    await fs.writeJson(file, { components: [{ name: 'Worker' }] });
+    expect(await checkpoints.loadPhase(run.id, 'architecture')).toEqual({
+      components: [{ name: 'Worker' }],
+      tags: [],
+    });
+
+    const start = checkpoints.startPhase(run, 'code');
+    await checkpoints.runPhase(run, 'code', start, async () => code);
+    expect(run.phases).toEqual(['architecture', 'code']);
+
+    await fs.writeFile(file, '{ "components": ');
+    await expect(checkpoints.loadPhase(run.id, 'architecture')).rejects.toThrow(
+      'Invalid architecture checkpoint'
+    );
+    await fs.writeJson(file, { tags: [] });
+    await expect(checkpoints.loadPhase(run.id, 'architecture')).rejects.toThrow('"components"');
+  });
+
+  test('refuses to start after phases that have no checkpoint', async () => {
+    const run = await checkpoints.create('build an API', path.join(root, 'out'));
+
+    expect(() => checkpoints.startPhase(run, 'review')).toThrow(
+      'no checkpoint for architecture, code, tests'
+    );
+    expect(() => checkpoints.startPhase(run, 'deploy' as any)).toThrow('Unknown phase');
+    await expect(checkpoints.load('god_missing')).rejects.toThrow('run not found');
+    expect((await checkpoints.list()).map((r) => r.id)).toEqual([run.id]);
+  });
+});
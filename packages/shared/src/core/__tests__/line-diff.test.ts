@@ -0,0 +1,91 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Line Diff Tests - اختبارات فروقات الأسطر
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  createHunks,
+  diffLines,
+  formatUnifiedDiff,
+  splitLines,
+  toSideBySide,
+} from '../line-diff';
+
+describe('diffLines', () => {
+  test('inserting a line at the top only reports one addition', () => {
+    const oldLines = ['a', 'b', 'c', 'd'];
+    const newLines = ['new', 'a', 'b', 'c', 'd'];
+
+    const changes = diffLines(oldLines, newLines).filter((l) => l.type !== 'context');
+
+    expect(changes).toEqual([{ type: 'add', content: 'new', newLineNumber: 1 }]);
+  });
+
+  test('produces a minimal edit script', () => {
+    const oldLines = splitLines('a\nb\nc\na\nb\nb\na\n');
+    const newLines = splitLines('c\nb\na\nb\na\nc\n');
+
+    const result = diffLines(oldLines, newLines);
+    const edits = result.filter((l) => l.type !== 'context').length;
+
+    // Classic Myers example: shortest edit script has 5 edits
+    expect(edits).toBe(5);
+    expect(result.filter((l) => l.type !== 'add').map((l) => l.content)).toEqual(oldLines);
+    expect(result.filter((l) => l.type !== 'remove').map((l) => l.content)).toEqual(newLines);
+  });
+
+  test('handles empty sides', () => {
+    expect(diffLines([], ['x', 'y']).map((l) => l.type)).toEqual(['add', 'add']);
+    expect(diffLines(['x'], []).map((l) => l.type)).toEqual(['remove']);
+    expect(diffLines([], [])).toEqual([]);
+  });
+});
+
+describe('createHunks', () => {
+  const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+
+  test('keeps distant changes in separate hunks with context', () => {
+    const newLines = [...oldLines];
+    newLines[1] = 'changed 2';
+    newLines[17] = 'changed 18';
+
+    const hunks = createHunks(diffLines(oldLines, newLines), 3);
+
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0]).toMatchObject({ oldStart: 1, oldLines: 5, newStart: 1, newLines: 5 });
+    expect(hunks[1]).toMatchObject({ oldStart: 15, oldLines: 6, newStart: 15, newLines: 6 });
+    expect(hunks[0].header).toBe('@@ -1,5 +1,5 @@');
+  });
+
+  test('merges nearby changes into one hunk', () => {
+    const newLines = [...oldLines];
+    newLines[5] = 'changed 6';
+    newLines[9] = 'changed 10';
+
+    expect(createHunks(diffLines(oldLines, newLines), 3)).toHaveLength(1);
+  });
+
+  test('uses git-style start for an empty side', () => {
+    const hunks = createHunks(diffLines([], ['a', 'b']));
+    expect(hunks[0].header).toBe('@@ -0,0 +1,2 @@');
+  });
+});
+
+describe('formatting', () => {
+  test('formats a unified diff', () => {
+    const hunks = createHunks(diffLines(['a', 'b', 'c'], ['a', 'B', 'c']));
+
+    expect(formatUnifiedDiff(hunks, 'a/file.ts', 'b/file.ts')).toBe(
+      ['--- a/file.ts', '+++ b/file.ts', '@@ -1,3 +1,3 @@', ' a', '-b', '+B', ' c', ''].join('\n')
+    );
+  });
+
+  test('pairs removed and added lines side by side', () => {
+    const [hunk] = createHunks(diffLines(['a', 'b', 'c'], ['a', 'B', 'x', 'c']));
+    const rows = toSideBySide(hunk);
+
+    expect(rows.map((r) => r.type)).toEqual(['context', 'modify', 'add', 'context']);
+    expect(rows[1].left).toEqual({ lineNumber: 2, content: 'b' });
+    expect(rows[1].right).toEqual({ lineNumber: 2, content: 'B' });
+  });
+});
@@ -0,0 +1,193 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Plan Executor Tests - اختبارات تنفيذ الخطط
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import { PlanExecutor, PlanStore, type PlanTask } from '../plan-executor';
+import type { Plan } from '../planner';
+
+let root: string;
+let store: PlanStore;
+
+const plan = (...tasks: Array<[string, string[]?]>): Plan => ({
+  goal: 'build the feature',
+  tasks: tasks.map(([id, dependencies]) => ({
+    id,
+    description: `task ${id}`,
+    status: 'pending',
+    dependencies,
+  })),
+  estimatedSteps: tasks.length,
+});
+
+// مهمة تنتظر حتى يُلغى الـ signal
+const untilAborted = (signal: AbortSignal) =>
+  new Promise<string>((_, reject) => {
+    if (signal.aborted) reject(signal.reason);
+    signal.addEventListener('abort', () => reject(signal.reason));
+  });
+
+const statuses = (tasks: PlanTask[]) => Object.fromEntries(tasks.map((t) => [t.id, t.status]));
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'oqool-plans-'));
+  store = new PlanStore(root);
+});
+
+afterEach(async () => {
+  await fs.remove(root);
+});
+
+describe('PlanExecutor', () => {
+  test('runs independent tasks concurrently and persists every result', async () => {
+    const created = await store.create(plan(['1'], ['2'], ['3', ['1', '2']]));
+    const log: string[] = [];
+
+    const executor = new PlanExecutor(store, {
+      runTask: async (task) => {
+        log.push(`start ${task.id}`);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        log.push(`end ${task.id}`);
+        return `done ${task.id}`;
+      },
+    });
+    const result = await executor.run(created);
+
+    expect(log.slice(0, 2)).toEqual(['start 1', 'start 2']);
+    expect(log.slice(-2)).toEqual(['start 3', 'end 3']);
+    expect(result.status).toBe('completed');
+
+    const stored = await store.load(created.id);
+    expect(stored.status).toBe('completed');
+    expect(stored.tasks.map((t) => t.result)).toEqual(['done 1', 'done 2', 'done 3']);
+    expect(await fs.pathExists(path.join(root, '.oqool/plans', `${created.id}.json`))).toBe(true);
+  });
+
+  test('resumes after Ctrl-C or a crash without rerunning finished tasks', async () => {
+    const created = await store.create(plan(['1'], ['2', ['1']], ['3', ['2']]));
+    const ran: string[] = [];
+    const interrupt = new AbortController();
+
+    const first = new PlanExecutor(store, {
+      runTask: async (task, _plan, signal) => {
+        ran.push(task.id);
+        if (task.id === '1') return 'one';
+        interrupt.abort();
+        return untilAborted(signal);
+      },
+    });
+    const paused = await first.run(created.id, interrupt.signal);
+
+    expect(paused.status).toBe('paused');
+    expect(statuses((await store.load(created.id)).tasks)).toEqual({
+      1: 'completed',
+      2: 'pending',
+      3: 'pending',
+    });
+
+    // توقف مفاجئ: الخطة بقيت "running" لعملية لم تعد موجودة
+    const crashed = await store.load(created.id);
+    crashed.status = 'running';
+    crashed.pid = spawnSync(process.execPath, ['-e', '']).pid;
+    crashed.tasks[1].status = 'in_progress';
+    await store.save(crashed);
+
+    const second = new PlanExecutor(store, {
+      runTask: async (task) => {
+        ran.push(task.id);
+        return task.id;
+      },
+    });
+    const resumed = await second.run(created.id);
+
+    expect(resumed.status).toBe('completed');
+    expect(ran).toEqual(['1', '2', '2', '3']);
+    expect(resumed.tasks[1].attempts).toBe(2);
+  });
+
+  test('replaces only the failed subtree when replanning', async () => {
+    const created = await store.create(plan(['1'], ['2', ['1']], ['3', ['2']], ['4']));
+    const ran: string[] = [];
+
+    const executor = new PlanExecutor(store, {
+      runTask: async (task) => {
+        ran.push(task.id);
+        if (task.id === '2') throw new Error('tests fail');
+        return task.id;
+      },
+      replan: async (failed, subtree) => {
+        expect(failed.error).toBe('tests fail');
+        expect(subtree.map((t) => t.id)).toEqual(['2', '3']);
+        return [
+          { id: '1', description: 'fix the tests', status: 'pending' },
+          { id: '2', description: 'retry task 3', status: 'pending', dependencies: ['1'] },
+        ];
+      },
+    });
+    const result = await executor.run(created);
+
+    expect(result.status).toBe('completed');
+    expect(result.replans).toBe(1);
+    expect(statuses(result.tasks)).toEqual({
+      1: 'completed',
+      2: 'replaced',
+      3: 'replaced',
+      '2.1': 'completed',
+      '2.2': 'completed',
+      4: 'completed',
+    });
+    expect(result.tasks.find((t) => t.id === '2.1')!.dependencies).toEqual(['1']);
+    expect(result.tasks.find((t) => t.id === '2.2')!.dependencies).toEqual(['2.1']);
+    expect(ran.filter((id) => id === '1' || id === '4')).toHaveLength(2);
+  });
+
+  test('stops when the plan is aborted from another process', async () => {
+    const created = await store.create(plan(['1'], ['2', ['1']]));
+
+    const executor = new PlanExecutor(store, {
+      pollInterval: 20,
+      runTask: async (_task, stored, signal) => {
+        await store.abort(stored.id);
+        return untilAborted(signal);
+      },
+    });
+    const result = await executor.run(created.id);
+
+    expect(result.status).toBe('aborted');
+    expect(statuses((await store.load(created.id)).tasks)).toEqual({
+      1: 'cancelled',
+      2: 'cancelled',
+    });
+  });
+
+  test('keeps an abort that lands between the check and the save', async () => {
+    const created = await store.create(plan(['1']));
+    await store.abort(created.id);
+    // المنفذ فحص قبل الإلغاء ثم كتب الخطة قيد التشغيل فوقه
+    await store.save({ ...created, status: 'running' });
+
+    expect((await store.load(created.id)).status).toBe('aborted');
+    expect(statuses((await store.load(created.id)).tasks)).toEqual({ 1: 'cancelled' });
+  });
+
+  test('never runs tasks that depend on unknown ids', async () => {
+    const created = await store.create(plan(['1'], ['2', ['9']]));
+    const ran: string[] = [];
+
+    const executor = new PlanExecutor(store, {
+      runTask: async (task) => {
+        ran.push(task.id);
+        return `done ${task.id}`;
+      },
+    });
+    const result = await executor.run(created);
+
+    expect(ran).toEqual(['1']);
+    expect(result.status).toBe('failed');
+    expect(result.error).toBe('Unknown dependencies: 2 → 9');
+  });
+});
@@ -0,0 +1,58 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Plugin Manifest Tests - اختبارات ملف plugin.json
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  validatePluginManifest,
+  isPluginCompatible,
+  satisfiesVersionRange,
+} from '../plugin-manifest';
+
+describe('validatePluginManifest', () => {
+  test('fills in defaults for a minimal manifest', () => {
+    const manifest = validatePluginManifest({ name: 'db-tools', version: '1.0.0' });
+
+    expect(manifest.entry).toBe('index.js');
+    expect(manifest.permissions).toEqual([]);
+  });
+
+  test('reports every problem at once', () => {
+    expect(() =>
+      validatePluginManifest({
+        name: 'Bad Name',
+        version: '1.0',
+        entry: '../outside.js',
+        permissions: ['tools', 'root'],
+      })
+    ).toThrow(/name[\s\S]*version[\s\S]*entry[\s\S]*root/);
+  });
+});
+
+describe('satisfiesVersionRange', () => {
+  test.each([
+    ['5.2.1', '^5.0.0', true],
+    ['6.0.0', '^5.0.0', false],
+    ['0.2.5', '^0.2.0', true],
+    ['0.3.0', '^0.2.0', false],
+    ['5.1.9', '~5.1.0', true],
+    ['5.2.0', '~5.1.0', false],
+    ['5.0.0', '5.x', true],
+    ['5.0.0', '>=4.2.0 <5.0.0', false],
+    ['4.0.0', '^3.0.0 || ^4.0.0', true],
+    ['5.0.0', '*', true],
+  ])('%s in %s → %s', (version, range, expected) => {
+    expect(satisfiesVersionRange(version, range)).toBe(expected);
+  });
+
+  test('checks engines.oqool against the host version', () => {
+    const manifest = validatePluginManifest({
+      name: 'legacy',
+      version: '0.1.0',
+      engines: { oqool: '^4.0.0' },
+    });
+
+    expect(isPluginCompatible(manifest, '5.0.0')).toBe(false);
+    expect(isPluginCompatible(manifest, undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,45 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Role Models Tests - اختبارات نماذج الأدوار
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect, afterEach } from '@jest/globals';
+import { parseRoleModels, resolveRoleModel } from '../role-models';
+
+const savedTester = process.env.OQOOL_MODEL_TESTER;
+
+afterEach(() => {
+  if (savedTester === undefined) delete process.env.OQOOL_MODEL_TESTER;
+  else process.env.OQOOL_MODEL_TESTER = savedTester;
+});
+
+describe('Role models', () => {
+  test('parses role=provider[:model] specs and rejects unknown roles', () => {
+    const specs = ['tester=deepseek', 'architect=claude:claude-3-5-sonnet-20241022'];
+    expect(parseRoleModels(specs)).toEqual({
+      tester: { provider: 'deepseek', model: undefined },
+      architect: { provider: 'claude', model: 'claude-3-5-sonnet-20241022' },
+    });
+
+    expect(() => parseRoleModels(['designer=claude'])).toThrow('Invalid role model');
+    expect(() => parseRoleModels(['tester'])).toThrow('Invalid role model');
+  });
+
+  test('layers defaults, then environment, then explicit overrides', () => {
+    expect(resolveRoleModel('tester')).toEqual({ priority: 'cost', maxTokens: 4096 });
+
+    process.env.OQOOL_MODEL_TESTER = 'gemini:gemini-1.5-flash';
+    expect(resolveRoleModel('tester')).toEqual({
+      priority: 'cost',
+      maxTokens: 4096,
+      provider: 'gemini',
+      model: 'gemini-1.5-flash',
+    });
+
+    expect(resolveRoleModel('tester', { tester: { provider: 'deepseek' } })).toEqual({
+      priority: 'cost',
+      maxTokens: 4096,
+      provider: 'deepseek',
+      model: undefined,
+    });
+  });
+});
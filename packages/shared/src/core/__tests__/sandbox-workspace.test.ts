@@ -0,0 +1,126 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Sandbox Workspace Tests - اختبارات المساحة المعزولة
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { SandboxConflictError, SandboxRunError, SandboxWorkspace } from '../sandbox-workspace';
+
+let root: string;
+let scripts: string;
+let sandbox: SandboxWorkspace | undefined;
+
+// a node script kept outside the project, run by the sandbox shell
+async function script(code: string): Promise<string> {
+  const file = path.join(scripts, `task-${Date.now()}.js`);
+  await fs.writeFile(file, code);
+  return `"${process.execPath}" "${file}"`;
+}
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'oqool-project-'));
+  scripts = await fs.mkdtemp(path.join(os.tmpdir(), 'oqool-scripts-'));
+  await fs.outputFile(path.join(root, 'src/app.js'), 'const a = 1;\nmodule.exports = a;\n');
+  await fs.outputFile(path.join(root, 'README.md'), '# app\n');
+  await fs.outputFile(path.join(root, 'node_modules/dep/index.js'), 'module.exports = 1;\n');
+  await fs.outputFile(path.join(root, '.git/HEAD'), 'ref: refs/heads/main\n');
+});
+
+afterEach(async () => {
+  await sandbox?.dispose();
+  sandbox = undefined;
+  await fs.remove(root);
+  await fs.remove(scripts);
+});
+
+describe('SandboxWorkspace', () => {
+  test('runs in an isolated copy and reports the real diff and exit status', async () => {
+    process.env.OQOOL_SANDBOX_SECRET = 'do-not-leak';
+    sandbox = await SandboxWorkspace.create({ root });
+
+    const result = await sandbox.run(
+      await script(`
+        const fs = require('fs');
+        fs.writeFileSync('src/app.js', 'const a = 2;\\nmodule.exports = a;\\n');
+        fs.writeFileSync('NEW.txt', 'hello\\n');
+        fs.rmSync('README.md');
+        console.log(process.cwd(), process.env.OQOOL_SANDBOX_SECRET || 'no-secret');
+        console.log(fs.existsSync('node_modules/dep/index.js'), fs.existsSync('.git'));
+        process.exit(3);
+      `)
+    );
+    delete process.env.OQOOL_SANDBOX_SECRET;
+
+    expect(result).toMatchObject({ exitCode: 3, timedOut: false, cancelled: false });
+    expect(result.stdout).toContain(`${sandbox.workspace} no-secret`);
+    expect(result.stdout).toContain('true false');
+    expect(result.changes.map((c) => [c.path, c.type])).toEqual([
+      ['NEW.txt', 'added'],
+      ['README.md', 'deleted'],
+      ['src/app.js', 'modified'],
+    ]);
+    expect(result.changes[2].diff).toContain('-const a = 1;\n+const a = 2;');
+
+    // the project itself is untouched
+    expect(await fs.readFile(path.join(root, 'src/app.js'), 'utf-8')).toContain('a = 1');
+    expect(await fs.pathExists(path.join(root, 'NEW.txt'))).toBe(false);
+  });
+
+  test('promotes chosen changes and refuses to overwrite files changed meanwhile', async () => {
+    sandbox = await SandboxWorkspace.create({ root });
+    await sandbox.run(
+      await script(`
+        const fs = require('fs');
+        fs.writeFileSync('src/app.js', 'changed in sandbox\\n');
+        fs.writeFileSync('README.md', '# sandboxed\\n');
+      `)
+    );
+
+    await fs.writeFile(path.join(root, 'src/app.js'), 'edited by the user\n');
+    await expect(sandbox.promote()).rejects.toBeInstanceOf(SandboxConflictError);
+
+    expect(await sandbox.promote(['README.md'])).toEqual(['README.md']);
+    expect(await fs.readFile(path.join(root, 'README.md'), 'utf-8')).toBe('# sandboxed\n');
+    expect((await sandbox.diff()).map((c) => c.path)).toEqual(['src/app.js']);
+  });
+
+  test('kills commands that exceed the timeout', async () => {
+    sandbox = await SandboxWorkspace.create({ root, timeout: 300 });
+    const result = await sandbox.run(await script('setTimeout(() => {}, 10000)'));
+
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).not.toBe(0);
+    expect(result.duration).toBeLessThan(5000);
+  });
+
+  test('re-points links into the project at the copy and drops links leading out', async () => {
+    await fs.outputFile(path.join(scripts, 'outside.txt'), 'secret\n');
+    await fs.symlink(path.join(root, 'README.md'), path.join(root, 'docs.md'));
+    await fs.symlink(path.join(scripts, 'outside.txt'), path.join(root, 'escape.txt'));
+    await fs.symlink('../../' + path.basename(scripts), path.join(root, 'src/up'));
+
+    sandbox = await SandboxWorkspace.create({ root });
+    const link = path.join(sandbox.workspace, 'docs.md');
+
+    expect(await fs.realpath(link)).toBe(
+      await fs.realpath(path.join(sandbox.workspace, 'README.md'))
+    );
+    expect(sandbox.skippedLinks.sort()).toEqual(['escape.txt', 'src/up']);
+    expect(await fs.pathExists(path.join(sandbox.workspace, 'escape.txt'))).toBe(false);
+
+    await sandbox.run(await script(`require('fs').writeFileSync('docs.md', 'through link\\n')`));
+    expect(await fs.readFile(path.join(root, 'README.md'), 'utf-8')).toBe('# app\n');
+  });
+
+  test('describes failed runs', async () => {
+    sandbox = await SandboxWorkspace.create({ root });
+    const result = await sandbox.run(await script('process.exit(2)'));
+
+    expect(new SandboxRunError(result).message).toBe(
+      `Sandboxed command exited with 2: ${result.command}`
+    );
+    expect(new SandboxRunError({ ...result, timedOut: true }).message).toMatch(/timed out/);
+  });
+});
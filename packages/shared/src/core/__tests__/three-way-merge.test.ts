@@ -0,0 +1,61 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Three-Way Merge Tests - اختبارات الدمج الثلاثي
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect } from '@jest/globals';
+import { mergeThreeWay, renderMerge } from '../three-way-merge';
+
+const base = ['one', 'two', 'three', 'four', 'five', 'six', 'seven'];
+
+describe('mergeThreeWay', () => {
+  test('merges edits to different parts of the file', () => {
+    const ours = ['ONE', 'two', 'three', 'four', 'five', 'six', 'seven'];
+    const theirs = ['one', 'two', 'three', 'four', 'five', 'six', 'SEVEN', 'eight'];
+
+    const result = mergeThreeWay(base, ours, theirs);
+
+    expect(result.clean).toBe(true);
+    expect(result.merged).toBe(
+      ['ONE', 'two', 'three', 'four', 'five', 'six', 'SEVEN', 'eight', ''].join('\n')
+    );
+  });
+
+  test('collapses identical edits on both sides', () => {
+    const same = ['one', 'two', 'THREE', 'four', 'five', 'six', 'seven'];
+    const result = mergeThreeWay(base, same, same);
+
+    expect(result.clean).toBe(true);
+    expect(result.chunks.map((c) => c.type)).toContain('both');
+  });
+
+  test('reports overlapping edits as a conflict with markers', () => {
+    const ours = ['one', 'two', 'mine', 'four', 'five', 'six', 'seven'];
+    const theirs = ['one', 'two', 'yours', 'four', 'five', 'six', 'seven'];
+
+    const result = mergeThreeWay(base, ours, theirs, { ours: 'HEAD', theirs: 'snap' });
+
+    expect(result.conflicts).toBe(1);
+    expect(result.merged).toContain(
+      ['<<<<<<< HEAD', 'mine', '||||||| base', 'three', '=======', 'yours', '>>>>>>> snap'].join(
+        '\n'
+      )
+    );
+  });
+
+  test('renders chosen resolutions instead of markers', () => {
+    const ours = ['one', 'two', 'mine', 'four', 'five', 'six', 'seven'];
+    const theirs = ['one', 'two', 'yours', 'four', 'five', 'six', 'seven'];
+    const { chunks } = mergeThreeWay(base, ours, theirs);
+
+    expect(renderMerge(chunks, ['theirs'])).not.toContain('<<<<<<<');
+    expect(renderMerge(chunks, ['both']).split('\n').slice(2, 4)).toEqual(['mine', 'yours']);
+    expect(renderMerge(chunks, [['custom']]).split('\n')[2]).toBe('custom');
+  });
+
+  test('leaves the last line unterminated without a final newline', () => {
+    const { chunks } = mergeThreeWay(['a'], ['a', 'b'], ['a']);
+
+    expect(renderMerge(chunks, [], undefined, false)).toBe('a\nb');
+    expect(renderMerge(chunks)).toBe('a\nb\n');
+  });
+});
@@ -0,0 +1,92 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Tool Registry Tests - اختبارات سجل الأدوات
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { ToolRegistry } from '../tool-registry';
+
+describe('ToolRegistry', () => {
+  let registry: ToolRegistry;
+
+  beforeEach(() => {
+    registry = new ToolRegistry();
+    registry.register({
+      name: 'read_file',
+      description: 'Read a file',
+      parameters: {
+        type: 'object',
+        properties: { path: { type: 'string', description: 'File path' } },
+        required: ['path'],
+      },
+      execute: async ({ path }) => `contents of ${path}`,
+    });
+  });
+
+  test('executes plugin tools registered next to core tools', async () => {
+    registry.register(
+      {
+        name: 'run_migrations',
+        description: 'Run pending database migrations',
+        parameters: { target: { type: 'string', description: 'Migration to stop at' } },
+        execute: async ({ target }) => ({ applied: target ? [target] : [] }),
+      },
+      'team-db'
+    );
+
+    const result = JSON.parse(await registry.execute('run_migrations', { target: '042' }));
+
+    expect(registry.names()).toEqual(['read_file', 'run_migrations']);
+    expect(result).toEqual({ success: true, result: { applied: ['042'] } });
+  });
+
+  test('lists the available tools when a tool is unknown', async () => {
+    const result = JSON.parse(await registry.execute('drop_database', {}));
+
+    expect(result.success).toBe(false);
+    expect(result.availableTools).toEqual(['read_file']);
+    expect(result.error).toContain('read_file');
+  });
+
+  test('reports missing required parameters and thrown errors', async () => {
+    registry.register({
+      name: 'explode',
+      description: 'Always fails',
+      parameters: { type: 'object', properties: {} },
+      execute: async () => {
+        throw new Error('boom');
+      },
+    });
+
+    const missing = JSON.parse(await registry.execute('read_file', {}));
+    const thrown = JSON.parse(await registry.execute('explode', {}));
+
+    expect(missing.missingParameters).toEqual(['path']);
+    expect(thrown).toEqual({ success: false, tool: 'explode', error: 'boom' });
+  });
+
+  test('converts the JSON schema per provider', () => {
+    const [claude] = registry.toProviderTools('claude') as any[];
+    const [openai] = registry.toProviderTools('openai') as any[];
+
+    expect(claude.input_schema.required).toEqual(['path']);
+    expect(openai.type).toBe('function');
+    expect(openai.function.parameters.properties.path.type).toBe('string');
+  });
+
+  test('rejects name clashes across sources and unregisters by source', () => {
+    expect(() =>
+      registry.register(
+        { name: 'read_file', description: 'x', parameters: {}, execute: async () => '' },
+        'some-plugin'
+      )
+    ).toThrow('already registered by core');
+
+    registry.register(
+      { name: 'deploy', description: 'Deploy', parameters: {}, execute: async () => '' },
+      'some-plugin'
+    );
+
+    expect(registry.unregisterSource('some-plugin')).toEqual(['deploy']);
+    expect(registry.has('deploy')).toBe(false);
+  });
+});
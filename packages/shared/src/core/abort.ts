@@ -0,0 +1,88 @@
+// abort.ts
+// ============================================
+// ⏹️ Cancellation helpers (AbortSignal)
+// ============================================
+// One AbortSignal travels from the caller (Ctrl-C in chat, an emergency
+// stop) through the executor, the fallback chain, provider requests and
+// tool child processes. Everything that waits checks it.
+
+export class AbortError extends Error {
+  constructor(message: string = 'Operation cancelled') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * True for our AbortError and for the abort errors thrown by fetch and the
+ * provider SDKs
+ */
+export function isAbortError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const { name } = error as { name?: string };
+  return name === 'AbortError' || name === 'APIUserAbortError';
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw toAbortError(signal.reason);
+  }
+}
+
+/**
+ * Settle with `promise`, or reject with an AbortError as soon as the signal
+ * fires. The underlying work is not stopped: pass the signal to it as well.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(toAbortError(signal.reason));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(toAbortError(signal.reason));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * setTimeout as a promise that rejects early when the signal fires
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return abortable(
+    new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => clearTimeout(timer), { once: true });
+    }),
+    signal
+  );
+}
+
+/**
+ * A signal that fires when any of the given signals does
+ */
+export function anySignal(...signals: Array<AbortSignal | undefined>): AbortSignal {
+  const controller = new AbortController();
+  for (const signal of signals) {
+    if (!signal) continue;
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  }
+  return controller.signal;
+}
+
+function toAbortError(reason: unknown): AbortError {
+  if (reason instanceof AbortError) return reason;
+  return new AbortError(typeof reason === 'string' ? reason : undefined);
+}
@@ -5,10 +5,12 @@
 
 import { UnifiedAIAdapterWithTools } from '../ai-gateway/unified-ai-adapter.js';
 import type { AIProvider } from '../ai-gateway/unified-ai-adapter.js';
-import { TOOL_DEFINITIONS, executeTool } from './tools.js';
+import { toolRegistry, executeTool, setWorkspacePolicy } from './tools.js';
+import { WorkspacePolicy, DEFAULT_ALLOWED_COMMANDS } from './workspace-policy.js';
 import { ContextManager } from './context-manager.js';
 import { IntelligentPlanner } from './planner.js';
 import { LearningSystem } from './learning-system.js';
+import { isAbortError, throwIfAborted } from './abort.js';
 import chalk from 'chalk';
 
 export type AIProviderName = 'claude' | 'gemini' | 'openai' | 'deepseek' | 'ollama';
@@ -27,6 +29,8 @@ export interface AgentConfig {
   enablePlanning?: boolean;
   enableContext?: boolean;
   enableLearning?: boolean;
+  allowedCommands?: string[]; // added to the default command allowlist
+  denyPaths?: string[]; // replaces the default deny-globs
 }
 
 export class AgentClient {
@@ -37,6 +41,7 @@ export class AgentClient {
   private planner?: IntelligentPlanner;
   private learningSystem?: LearningSystem;
   private currentProvider: AIProviderName;
+  private workspacePolicy: WorkspacePolicy;
 
   constructor(config: AgentConfig) {
     this.config = {
@@ -51,6 +56,13 @@ export class AgentClient {
 
     this.currentProvider = this.config.provider!;
 
+    // سياسة مساحة العمل لهذه الجلسة
+    this.workspacePolicy = new WorkspacePolicy({
+      root: this.config.workingDirectory,
+      allowedCommands: [...DEFAULT_ALLOWED_COMMANDS, ...(config.allowedCommands || [])],
+      denyPaths: config.denyPaths,
+    });
+
     // إنشاء UnifiedAIAdapter مع جميع المفاتيح
     this.aiAdapter = new UnifiedAIAdapterWithTools({
       claude: config.claudeKey || config.apiKey,
@@ -65,10 +77,9 @@ export class AgentClient {
       this.contextManager = new ContextManager(this.config.workingDirectory!);
     }
 
-    // تهيئة Planner
+    // تهيئة Planner (عبر المنفذ الموحد: أي مزود متاح)
     if (this.config.enablePlanning) {
-      const plannerKey = config.claudeKey || config.apiKey || '';
-      this.planner = new IntelligentPlanner(plannerKey);
+      this.planner = new IntelligentPlanner();
     }
 
     // تهيئة Learning System
@@ -82,8 +93,11 @@ export class AgentClient {
   // ============================================
   // 🎯 الطريقة الرئيسية - تشغيل Agent
   // ============================================
-  async run(userMessage: string): Promise<string> {
+  // options.signal يلغي التشغيل (طلبات المزود والأدوات) ويرمي AbortError
+  async run(userMessage: string, options: { signal?: AbortSignal } = {}): Promise<string> {
+    const { signal } = options;
     console.log(chalk.cyan('\n🧠 oqool يعمل الآن...'));
+    setWorkspacePolicy(this.workspacePolicy);
     console.log(chalk.gray('━'.repeat(40)));
 
     // 1. تحليل context المشروع
@@ -113,16 +127,13 @@ export class AgentClient {
 
     while (iteration < this.config.maxIterations!) {
       iteration++;
+      throwIfAborted(signal);
 
       console.log(chalk.blue(`\n[Iteration ${iteration}]`));
 
       try {
-        // استدعاء AI عبر UnifiedAdapter مع Tools
-        const tools = TOOL_DEFINITIONS.map(tool => ({
-          name: tool.name,
-          description: tool.description,
-          parameters: tool.input_schema.properties
-        }));
+        // استدعاء AI عبر UnifiedAdapter مع Tools (الأساسية + أدوات الـ plugins)
+        const tools = toolRegistry.toDefinitionEntries();
 
         const response = await this.aiAdapter.executeWithTools(
           this.conversationHistory,
@@ -131,7 +142,7 @@ export class AgentClient {
             console.log(chalk.yellow(`\n🔧 استخدام أداة: ${toolName}`));
             console.log(chalk.gray(JSON.stringify(args, null, 2)));
 
-            const result = await executeTool(toolName, args);
+            const result = await executeTool(toolName, args, { signal });
 
             try {
               const parsed = JSON.parse(result);
@@ -147,7 +158,8 @@ export class AgentClient {
             return result;
           },
           10,
-          this.currentProvider as AIProvider
+          this.currentProvider as AIProvider,
+          signal
         );
 
         // النتيجة النهائية
@@ -163,6 +175,9 @@ export class AgentClient {
         }
 
       } catch (error: any) {
+        // الإلغاء ليس خطأ يُتعلَّم منه
+        if (isAbortError(error)) throw error;
+
         console.error(chalk.red(`\n❌ خطأ: ${error.message}`));
 
         // تسجيل الخطأ في نظام التعلم
@@ -322,6 +337,14 @@ export class AgentClient {
   // ============================================
   resetConversation(): void {
     this.conversationHistory = [];
+    this.workspacePolicy.resetSession();
+  }
+
+  // ============================================
+  // 🛡️ السماح بأمر لبقية الجلسة
+  // ============================================
+  allowCommand(pattern: string): void {
+    this.workspacePolicy.allowCommand(pattern);
   }
 
   // ============================================
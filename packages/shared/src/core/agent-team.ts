@@ -3,8 +3,8 @@
 // 👥 Agent Team - فريق Agents متعاونين
 // ============================================
 
-import Anthropic from '@anthropic-ai/sdk';
 import chalk from 'chalk';
+import { askRole, type AgentRole, type RoleModels } from './role-models.js';
 
 export interface AgentTaskResult {
   design: string;
@@ -15,33 +15,37 @@ export interface AgentTaskResult {
 }
 
 export interface AgentTeamConfig {
-  apiKey: string;
-  model?: string;
+  roles?: RoleModels; // مثلاً نموذج قوي للتصميم ورخيص للاختبارات
   verbose?: boolean;
+  signal?: AbortSignal;
 }
 
 // ============================================
-// 🏗️ Architect Agent - المصمم
+// 🎭 Team Agent - أساس كل دور في الفريق
 // ============================================
-class ArchitectAgent {
-  private client: Anthropic;
-  private model: string;
+abstract class TeamAgent {
+  constructor(
+    private role: AgentRole,
+    private config: AgentTeamConfig
+  ) {}
+
+  protected ask(prompt: string): Promise<string> {
+    return askRole(this.role, prompt, { roles: this.config.roles, signal: this.config.signal });
+  }
+}
 
-  constructor(apiKey: string, model: string) {
-    this.client = new Anthropic({ apiKey });
-    this.model = model;
+// ============================================
+// 🏗️ Architect Agent - المصمم
+// ============================================
+class ArchitectAgent extends TeamAgent {
+  constructor(config: AgentTeamConfig) {
+    super('architect', config);
   }
 
   async design(task: string): Promise<string> {
     console.log(chalk.cyan('\n🏗️ Architect يصمم البنية...\n'));
 
-    const response = await this.client.messages.create({
-      model: this.model,
-      max_tokens: 4096,
-      messages: [
-        {
-          role: 'user',
-          content: `أنت Architect Agent متخصص في تصميم البنية.
+    const design = await this.ask(`أنت Architect Agent متخصص في تصميم البنية.
 
 مهمتك: ${task}
 
@@ -51,12 +55,8 @@ class ArchitectAgent {
 3. **التقنيات والمكتبات**
 4. **Flow Diagram** للعمل
 
-كن واضحاً ومنظماً في التصميم.`,
-        },
-      ],
-    });
+كن واضحاً ومنظماً في التصميم.`);
 
-    const design = response.content[0].type === 'text' ? response.content[0].text : '';
     console.log(chalk.green('✅ التصميم جاهز!\n'));
     return design;
   }
@@ -65,25 +65,15 @@ class ArchitectAgent {
 // ============================================
 // 💻 Coder Agent - المبرمج
 // ============================================
-class CoderAgent {
-  private client: Anthropic;
-  private model: string;
-
-  constructor(apiKey: string, model: string) {
-    this.client = new Anthropic({ apiKey });
-    this.model = model;
+class CoderAgent extends TeamAgent {
+  constructor(config: AgentTeamConfig) {
+    super('coder', config);
   }
 
   async implement(design: string): Promise<string> {
     console.log(chalk.cyan('\n💻 Coder يكتب الكود...\n'));
 
-    const response = await this.client.messages.create({
-      model: this.model,
-      max_tokens: 8192,
-      messages: [
-        {
-          role: 'user',
-          content: `أنت Coder Agent متخصص في كتابة الأكواد.
+    const code = await this.ask(`أنت Coder Agent متخصص في كتابة الأكواد.
 
 التصميم المعطى:
 ${design}
@@ -94,12 +84,8 @@ ${design}
 - أضف تعليقات توضيحية
 - استخدم أفضل الممارسات
 
-ابدأ الآن بكتابة الكود:`,
-        },
-      ],
-    });
+ابدأ الآن بكتابة الكود:`);
 
-    const code = response.content[0].type === 'text' ? response.content[0].text : '';
     console.log(chalk.green('✅ الكود جاهز!\n'));
     return code;
   }
@@ -108,25 +94,15 @@ ${design}
 // ============================================
 // 🧪 Tester Agent - المختبر
 // ============================================
-class TesterAgent {
-  private client: Anthropic;
-  private model: string;
-
-  constructor(apiKey: string, model: string) {
-    this.client = new Anthropic({ apiKey });
-    this.model = model;
+class TesterAgent extends TeamAgent {
+  constructor(config: AgentTeamConfig) {
+    super('tester', config);
   }
 
   async test(code: string): Promise<string> {
     console.log(chalk.cyan('\n🧪 Tester يكتب الاختبارات...\n'));
 
-    const response = await this.client.messages.create({
-      model: this.model,
-      max_tokens: 4096,
-      messages: [
-        {
-          role: 'user',
-          content: `أنت Tester Agent متخصص في كتابة الاختبارات.
+    const tests = await this.ask(`أنت Tester Agent متخصص في كتابة الاختبارات.
 
 الكود المعطى:
 ${code}
@@ -137,12 +113,8 @@ ${code}
 3. **Edge Cases**
 4. سيناريوهات اختبار مختلفة
 
-استخدم Jest أو Mocha أو أي framework مناسب.`,
-        },
-      ],
-    });
+استخدم Jest أو Mocha أو أي framework مناسب.`);
 
-    const tests = response.content[0].type === 'text' ? response.content[0].text : '';
     console.log(chalk.green('✅ الاختبارات جاهزة!\n'));
     return tests;
   }
@@ -151,25 +123,15 @@ ${code}
 // ============================================
 // 🔍 Reviewer Agent - المراجع
 // ============================================
-class ReviewerAgent {
-  private client: Anthropic;
-  private model: string;
-
-  constructor(apiKey: string, model: string) {
-    this.client = new Anthropic({ apiKey });
-    this.model = model;
+class ReviewerAgent extends TeamAgent {
+  constructor(config: AgentTeamConfig) {
+    super('reviewer', config);
   }
 
   async review(code: string): Promise<string> {
     console.log(chalk.cyan('\n🔍 Reviewer يراجع الكود...\n'));
 
-    const response = await this.client.messages.create({
-      model: this.model,
-      max_tokens: 4096,
-      messages: [
-        {
-          role: 'user',
-          content: `أنت Reviewer Agent متخصص في مراجعة الأكواد.
+    const review = await this.ask(`أنت Reviewer Agent متخصص في مراجعة الأكواد.
 
 الكود المعطى:
 ${code}
@@ -181,12 +143,8 @@ ${code}
 4. **Best Practices**
 5. **اقتراحات للتحسين**
 
-قدم مراجعة شاملة ومفصلة.`,
-        },
-      ],
-    });
+قدم مراجعة شاملة ومفصلة.`);
 
-    const review = response.content[0].type === 'text' ? response.content[0].text : '';
     console.log(chalk.green('✅ المراجعة جاهزة!\n'));
     return review;
   }
@@ -194,24 +152,14 @@ ${code}
   async improveBased(code: string, review: string): Promise<string> {
     console.log(chalk.cyan('\n🔧 Reviewer يحسن الكود بناءً على المراجعة...\n'));
 
-    const response = await this.client.messages.create({
-      model: this.model,
-      max_tokens: 8192,
-      messages: [
-        {
-          role: 'user',
-          content: `الكود الأصلي:
+    const improved = await this.ask(`الكود الأصلي:
 ${code}
 
 المراجعة:
 ${review}
 
-حسّن الكود بناءً على المراجعة وأعد كتابته محسناً.`,
-        },
-      ],
-    });
+حسّن الكود بناءً على المراجعة وأعد كتابته محسناً.`);
 
-    const improved = response.content[0].type === 'text' ? response.content[0].text : '';
     console.log(chalk.green('✅ الكود المحسن جاهز!\n'));
     return improved;
   }
@@ -229,19 +177,18 @@ export class AgentTeam {
     reviewer: ReviewerAgent;
   };
 
-  constructor(config: AgentTeamConfig) {
+  constructor(config: AgentTeamConfig = {}) {
     this.config = {
-      model: 'claude-3-5-haiku-20241022',
       verbose: true,
       ...config,
     };
 
-    // تهيئة جميع الـ Agents
+    // تهيئة جميع الـ Agents (كل دور بنموذجه عبر المنفذ الموحد)
     this.agents = {
-      architect: new ArchitectAgent(this.config.apiKey, this.config.model!),
-      coder: new CoderAgent(this.config.apiKey, this.config.model!),
-      tester: new TesterAgent(this.config.apiKey, this.config.model!),
-      reviewer: new ReviewerAgent(this.config.apiKey, this.config.model!),
+      architect: new ArchitectAgent(this.config),
+      coder: new CoderAgent(this.config),
+      tester: new TesterAgent(this.config),
+      reviewer: new ReviewerAgent(this.config),
     };
   }
 
@@ -358,6 +305,6 @@ export class AgentTeam {
 // ============================================
 // 🏭 Factory Function
 // ============================================
-export function createAgentTeam(config: AgentTeamConfig): AgentTeam {
+export function createAgentTeam(config: AgentTeamConfig = {}): AgentTeam {
   return new AgentTeam(config);
 }
@@ -7,6 +7,7 @@ import axios, { AxiosInstance } from 'axios';
 import chalk from 'chalk';
 import { loadConfig } from './auth.js';
 import { createLocalClaudeClient } from './local-oqool-client.js';
+import { getBudgetGuard, pricedEstimator } from '../ai-providers/monitoring/cost-ledger.js';
 import dotenv from 'dotenv';
 
 // تحميل متغيرات البيئة
@@ -39,6 +40,8 @@ export interface VerifyKeyResponse {
   error?: string;
 }
 
+const BACKEND_PRICES: [number, number] = [3.0, 15.0]; // دولار لكل مليون توكن (إدخال/إخراج)
+
 export class OqoolAPIClient {
   private client: AxiosInstance;
   private apiKey: string;
@@ -91,12 +94,25 @@ export class OqoolAPIClient {
   // إرسال رسالة للذكاء الاصطناعي
   async sendChatMessage(messages: Message[], provider?: string): Promise<ChatResponse> {
     try {
+      // الخادم لا يعيد الاستهلاك: نقدّر بأسعار Claude ونسجل التقدير
+      const guard = getBudgetGuard();
+      const authorization = await guard.authorize(
+        { name: 'oqool', provider: pricedEstimator(BACKEND_PRICES) },
+        messages
+      );
+
       const response = await this.client.post('/api/chat', {
         messages,
         provider: provider || 'auto', // استخدام الاختيار الذكي
       });
 
-      return response.data;
+      const data: ChatResponse = response.data;
+      if (data.success) {
+        await guard
+          .settle(authorization, { metadata: { model: data.usedProvider || provider || 'auto' } })
+          .catch(() => undefined);
+      }
+      return data;
     } catch (error: any) {
       console.error(chalk.red('❌ خطأ في إرسال الرسالة:'), error.message);
       return {
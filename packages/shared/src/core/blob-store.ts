@@ -0,0 +1,148 @@
+// blob-store.ts
+// ============================================
+// 🗃️ Blob Store - مخزن المحتوى حسب البصمة (sha256)
+// ============================================
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+// ============================================
+// 📦 Types & Interfaces
+// ============================================
+
+export interface BlobPutResult {
+  hash: string;
+  size: number;
+  created: boolean; // false = blob already existed (deduplicated)
+}
+
+export interface BlobGCResult {
+  removed: number;
+  freedBytes: number;
+  kept: number;
+}
+
+// ============================================
+// 🗃️ Blob Store Class
+// ============================================
+
+/**
+ * Content-addressed storage: every blob lives once under
+ * `objects/<first 2 hex chars>/<remaining hex chars>`, gzip-compressed,
+ * keyed by the sha256 of its uncompressed content.
+ */
+export class BlobStore {
+  private objectsPath: string;
+
+  constructor(rootPath: string) {
+    this.objectsPath = path.join(rootPath, 'objects');
+  }
+
+  static hash(content: string | Buffer): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
+  async init(): Promise<void> {
+    await fs.mkdir(this.objectsPath, { recursive: true });
+  }
+
+  async put(content: string | Buffer, knownHash?: string): Promise<BlobPutResult> {
+    const buffer = typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+    const hash = knownHash || BlobStore.hash(buffer);
+
+    if (await this.has(hash)) {
+      return { hash, size: buffer.length, created: false };
+    }
+
+    const blobPath = this.blobPath(hash);
+    await fs.mkdir(path.dirname(blobPath), { recursive: true });
+
+    // Write to a temp file first so a crash never leaves a truncated blob behind
+    const tmpPath = `${blobPath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmpPath, await gzip(buffer));
+    await fs.rename(tmpPath, blobPath);
+
+    return { hash, size: buffer.length, created: true };
+  }
+
+  async get(hash: string): Promise<Buffer> {
+    try {
+      return await gunzip(await fs.readFile(this.blobPath(hash)));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`Blob not found: ${hash}`);
+      }
+      throw error;
+    }
+  }
+
+  async getText(hash: string): Promise<string> {
+    return (await this.get(hash)).toString('utf-8');
+  }
+
+  async has(hash: string): Promise<boolean> {
+    try {
+      await fs.access(this.blobPath(hash));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async list(): Promise<string[]> {
+    const hashes: string[] = [];
+    let prefixes: string[];
+
+    try {
+      prefixes = await fs.readdir(this.objectsPath);
+    } catch {
+      return hashes;
+    }
+
+    for (const prefix of prefixes) {
+      const entries = await fs.readdir(path.join(this.objectsPath, prefix));
+      for (const entry of entries) {
+        if (!entry.endsWith('.tmp')) {
+          hashes.push(prefix + entry);
+        }
+      }
+    }
+
+    return hashes;
+  }
+
+  /**
+   * Delete every blob that is not in `referenced`.
+   */
+  async gc(referenced: Set<string>): Promise<BlobGCResult> {
+    const result: BlobGCResult = { removed: 0, freedBytes: 0, kept: 0 };
+
+    for (const hash of await this.list()) {
+      if (referenced.has(hash)) {
+        result.kept++;
+        continue;
+      }
+
+      const blobPath = this.blobPath(hash);
+      const stats = await fs.stat(blobPath);
+      await fs.unlink(blobPath);
+      result.removed++;
+      result.freedBytes += stats.size;
+    }
+
+    return result;
+  }
+
+  private blobPath(hash: string): string {
+    if (!/^[a-f0-9]{64}$/.test(hash)) {
+      throw new Error(`Invalid blob hash: ${hash}`);
+    }
+    return path.join(this.objectsPath, hash.slice(0, 2), hash.slice(2));
+  }
+}
@@ -3,6 +3,7 @@
 
 import { Command } from 'commander';
 import chalk from 'chalk';
+import inquirer from 'inquirer';
 import { createClientFromConfig } from './api-client.js';
 import { createFileManager } from './file-manager.js';
 import { ui } from './ui.js';
@@ -316,6 +317,10 @@ export function registerNewCommands(program: Command): void {
     .description('⏮️ الرجوع إلى لقطة سابقة')
     .option('--no-backup', 'عدم إنشاء نسخة احتياطية قبل الرجوع')
     .option('--tag <name>', 'إنشاء Git tag بعد الرجوع')
+    .option('--only <patterns...>', 'استعادة الملفات المطابقة فقط (مثل src/** أو *.ts)')
+    .option('--exclude <patterns...>', 'استثناء الملفات المطابقة من الاستعادة')
+    .option('--dry-run', 'عرض الملفات التي ستتغير بدون تنفيذ')
+    .option('--delete-new', 'حذف الملفات غير الموجودة في اللقطة (تُترك افتراضياً)')
     .action(async (snapshotId: string, options: any) => {
       try {
         const guardian = createVersionGuardian({
@@ -327,6 +332,10 @@ export function registerNewCommands(program: Command): void {
         await guardian.rollback(snapshotId, {
           backup: options.backup !== false,
           gitTag: options.tag,
+          only: options.only,
+          exclude: options.exclude,
+          dryRun: options.dryRun,
+          deleteNewFiles: options.deleteNew,
         });
       } catch (error: any) {
         console.error(chalk.red('\n❌ خطأ:'), error.message);
@@ -336,14 +345,117 @@ export function registerNewCommands(program: Command): void {
   program
     .command('diff <snapshot1> <snapshot2>')
     .description('🔍 مقارنة لقطتين')
-    .action(async (snapshot1: string, snapshot2: string) => {
+    .option('-s, --side-by-side', 'عرض الفروقات جنباً إلى جنب')
+    .option('-u, --unified', 'طباعة الفروقات بصيغة unified diff')
+    .option('-U, --context <lines>', 'عدد أسطر السياق حول كل تغيير', '3')
+    .action(async (snapshot1: string, snapshot2: string, options: any) => {
       try {
         const guardian = createVersionGuardian({
           apiKey: process.env.ANTHROPIC_API_KEY || '',
           projectPath: process.cwd(),
         });
 
-        await guardian.showDiff(snapshot1, snapshot2);
+        const context = parseInt(options.context);
+
+        if (options.unified) {
+          process.stdout.write(await guardian.unifiedDiff(snapshot1, snapshot2, context));
+          return;
+        }
+
+        await guardian.showDiff(snapshot1, snapshot2, {
+          context,
+          sideBySide: options.sideBySide,
+        });
+      } catch (error: any) {
+        console.error(chalk.red('\n❌ خطأ:'), error.message);
+      }
+    });
+
+  program
+    .command('merge <baseSnapshot> <targetSnapshot>')
+    .description('🔀 دمج ثلاثي للقطة مع الملفات الحالية (base → الحالي ← target)')
+    .option('--only <patterns...>', 'دمج الملفات المطابقة فقط')
+    .option('--exclude <patterns...>', 'استثناء الملفات المطابقة')
+    .option('--dry-run', 'عرض نتيجة الدمج بدون كتابة')
+    .option('-i, --interactive', 'حل التعارضات واحداً تلو الآخر')
+    .option('--no-backup', 'عدم إنشاء لقطة أمان قبل الدمج')
+    .action(async (baseSnapshot: string, targetSnapshot: string, options: any) => {
+      try {
+        const guardian = createVersionGuardian({
+          apiKey: process.env.ANTHROPIC_API_KEY || '',
+          projectPath: process.cwd(),
+        });
+
+        const report = await guardian.merge(baseSnapshot, targetSnapshot, {
+          only: options.only,
+          exclude: options.exclude,
+          dryRun: options.dryRun,
+          backup: options.backup !== false,
+          writeMarkers: !options.interactive,
+        });
+
+        if (!options.interactive || options.dryRun) return;
+
+        for (const file of report.files.filter((f) => f.status === 'conflict')) {
+          if (file.chunks.length === 0) {
+            const reason = file.binary
+              ? 'ملف ثنائي عُدّل في الطرفين'
+              : 'حُذف في أحد الطرفين وعُدّل في الآخر';
+            console.log(chalk.yellow(`\n⚠️  ${file.path}: ${reason} - تُرك كما هو`));
+            continue;
+          }
+
+          console.log(chalk.bold.cyan(`\n📄 ${file.path} (${file.conflicts.length} تعارض)`));
+          const resolutions: any[] = [];
+
+          for (const [index, conflict] of file.conflicts.entries()) {
+            console.log(
+              chalk.gray(
+                `\n── تعارض ${index + 1} (الأسطر ${conflict.startLine}-${conflict.endLine})`
+              )
+            );
+            console.log(chalk.green('الحالي:'));
+            console.log(conflict.currentVersion || chalk.gray('(فارغ)'));
+            console.log(chalk.red('الوارد:'));
+            console.log(conflict.incomingVersion || chalk.gray('(فارغ)'));
+
+            const { choice } = await inquirer.prompt([
+              {
+                type: 'list',
+                name: 'choice',
+                message: 'كيف تريد حل هذا التعارض؟',
+                choices: [
+                  { name: 'الإبقاء على الحالي', value: 'ours' },
+                  { name: 'أخذ الوارد', value: 'theirs' },
+                  { name: 'الاثنان معاً', value: 'both' },
+                  { name: '🤖 اقتراح AI', value: 'ai' },
+                  { name: 'تخطي (ترك علامات التعارض)', value: 'skip' },
+                ],
+              },
+            ]);
+
+            if (choice === 'ai') {
+              const suggestion = await guardian.resolveConflicts(file.path, [conflict]);
+              console.log(
+                chalk.cyan(`\n🤖 (${suggestion.confidence}%)\n${suggestion.suggestedResolution}`)
+              );
+              const { accept } = await inquirer.prompt([
+                { type: 'confirm', name: 'accept', message: 'قبول الاقتراح؟', default: true },
+              ]);
+              resolutions.push(accept ? suggestion.suggestedResolution.split('\n') : undefined);
+            } else {
+              resolutions.push(choice === 'skip' ? undefined : choice);
+            }
+          }
+
+          await guardian.applyMergeResolutions(file, resolutions);
+          const unresolved = resolutions.filter((r) => r === undefined).length;
+          console.log(
+            unresolved > 0
+              ? chalk.yellow(`✍️  ${file.path}: بقي ${unresolved} تعارض بعلامات`)
+              : chalk.green(`✅ ${file.path}: تم الحل`)
+          );
+        }
       } catch (error: any) {
         console.error(chalk.red('\n❌ خطأ:'), error.message);
       }
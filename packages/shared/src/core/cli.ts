@@ -21,6 +21,7 @@ import {
 } from './auth.js';
 import { OqoolAPIClient, createClientFromConfig } from './api-client.js';
 import { FileManager, createFileManager } from './file-manager.js';
+import { extractUnifiedDiff } from './unified-patch.js';
 import { createAgentClient } from './agent-client.js';
 import { ui } from './ui.js';
 import { createCodeAnalyzer } from './code-analyzer.js';
@@ -391,7 +392,6 @@ program
           console.log(chalk.bold.red('\n🔥 مهمة معقدة مكتشفة - تفعيل GOD MODE!\n'));
 
           const team = createAgentTeam({
-            apiKey: process.env.ANTHROPIC_API_KEY,
             verbose: false, // quiet mode في chat
           });
 
@@ -485,6 +485,7 @@ program
   .description('تعديل دقيق للملفات باستخدام Patch')
   .option('-f, --files <paths...>', 'ملفات محددة للتعديل')
   .option('-p, --preview', 'معاينة قبل التطبيق')
+  .option('--fuzz <lines>', 'أسطر السياق التي يمكن تجاهلها عند المطابقة', '2')
   .option('--no-git', 'تعطيل Git integration')
   .action(async (prompt: string, options) => {
     try {
@@ -514,37 +515,30 @@ program
         }
       }
 
-      // إعداد رسالة للـ AI مع تعليمات Patch
+      // إعداد رسالة للـ AI مع تعليمات unified diff
       const systemPrompt = `أنت مساعد برمجة متخصص في تعديل الملفات بدقة.
 
-عند تعديل ملف، استخدم صيغة PATCH التالية:
-
-PATCH: path/to/file.js
-LINE: 45
-REMOVE: 2
-ADD:
-\`\`\`
-const result = await db.query(...);
-console.log(result);
+أعد التعديلات كـ unified diff (مثل git diff) داخل كتلة \`\`\`diff واحدة:
+
+\`\`\`diff
+--- a/path/to/file.js
++++ b/path/to/file.js
+@@ -45,3 +45,4 @@
+ const db = connect();
+-const result = db.query(sql);
++const result = await db.query(sql);
++console.log(result);
+ return result;
 \`\`\`
 
-أو للاستبدال:
-PATCH: path/to/file.js
-LINE: 10
-REPLACE:
-\`\`\`
-const newCode = "updated";
-\`\`\`
+قواعد مهمة:
+1. ضع 3 أسطر سياق غير متغيرة قبل وبعد كل تعديل، منسوخة حرفياً من الملف
+2. استخدم --- /dev/null لإنشاء ملف جديد و +++ /dev/null لحذف ملف
+3. يمكن أن يحتوي الـ diff على عدة ملفات
+4. أرقام الأسطر تبدأ من 1
 
 الملفات المتاحة:
-${fileContext.map((f) => `- ${f.path} (${f.content.split('\n').length} سطر)`).join('\n')}
-
-قواعد مهمة:
-1. استخدم LINE لتحديد رقم السطر بدقة
-2. استخدم REMOVE لحذف أسطر
-3. استخدم ADD لإضافة أسطر جديدة
-4. استخدم REPLACE لاستبدال سطر واحد
-5. رقم السطر يبدأ من 1 (وليس 0)`;
+${fileContext.map((f) => `### ${f.path}\n\`\`\`\n${f.content}\n\`\`\``).join('\n\n')}`;
 
       const messages = [
         { role: 'system' as const, content: systemPrompt },
@@ -563,32 +557,38 @@ ${fileContext.map((f) => `- ${f.path} (${f.content.split('\n').length} سطر)`)
 
       ui.succeedSpinner('تم توليد التعديلات!');
 
-      // استخراج الـ patches
-      const filePatches = fileManager.extractPatchesFromResponse(response.message);
+      // استخراج الـ diff
+      const diff = extractUnifiedDiff(response.message);
 
-      if (filePatches.length === 0) {
+      if (!diff) {
         ui.info('لم يتم العثور على تعديلات للتطبيق');
         console.log(chalk.yellow('\n💡 تلميح: تأكد من طلب تعديلات محددة للملفات\n'));
         return;
       }
 
-      // عرض ملخص التعديلات
-      console.log(chalk.yellow(`\n📝 تم اكتشاف ${filePatches.length} ملف(ات) للتعديل:\n`));
+      // فحص التطبيق بدون تعديل الملفات
+      const fuzz = parseInt(options.fuzz);
+      const check = await fileManager.applyUnifiedDiff(diff, { fuzz, dryRun: true });
 
-      for (const filePatch of filePatches) {
-        console.log(chalk.cyan(`  📄 ${filePatch.path} - ${filePatch.patches.length} تعديل(ات)`));
-      }
+      console.log(chalk.yellow(`\n📝 تم اكتشاف ${check.files.length} ملف(ات) للتعديل:\n`));
+      fileManager.printPatchReport(check);
 
       // معاينة إذا طُلب
       if (options.preview) {
         console.log(chalk.blue('\n🔍 معاينة التعديلات:\n'));
-        for (const filePatch of filePatches) {
-          for (const patch of filePatch.patches) {
-            await fileManager.previewPatch(filePatch.path, patch);
-          }
+        for (const line of diff.split('\n')) {
+          if (line.startsWith('+') && !line.startsWith('+++')) console.log(chalk.green(line));
+          else if (line.startsWith('-') && !line.startsWith('---')) console.log(chalk.red(line));
+          else if (line.startsWith('@@')) console.log(chalk.cyan(line));
+          else console.log(chalk.gray(line));
         }
       }
 
+      if (!check.success) {
+        console.log(chalk.red(`\n❌ ${check.rejectedHunks} مقطع مرفوض - لن يتم تطبيق أي تعديل\n`));
+        return;
+      }
+
       // سؤال المستخدم
       const { confirm } = await inquirer.prompt([
         {
@@ -602,8 +602,12 @@ ${fileContext.map((f) => `- ${f.path} (${f.content.split('\n').length} سطر)`)
       if (confirm) {
         ui.startSpinner('تطبيق التعديلات...');
 
-        for (const filePatch of filePatches) {
-          await fileManager.applyPatches(filePatch.path, filePatch.patches);
+        const result = await fileManager.applyUnifiedDiff(diff, { fuzz });
+
+        if (!result.applied) {
+          ui.failSpinner('فشل تطبيق التعديلات - لم يتغير أي ملف');
+          fileManager.printPatchReport(result);
+          return;
         }
 
         ui.succeedSpinner('تم تطبيق جميع التعديلات بنجاح! ✨');
@@ -2738,13 +2742,7 @@ program
   .option('-q, --quiet', 'إخفاء التفاصيل (عرض النتيجة فقط)')
   .action(async (task: string, options: any) => {
     try {
-      if (!process.env.ANTHROPIC_API_KEY) {
-        console.log(chalk.red('\n❌ ANTHROPIC_API_KEY غير موجود في .env\n'));
-        return;
-      }
-
       const team = createAgentTeam({
-        apiKey: process.env.ANTHROPIC_API_KEY,
         verbose: !options.quiet,
       });
 
@@ -16,11 +16,16 @@ export interface FileChange {
 
 export type FileChangeCallback = (change: FileChange) => void;
 
+export interface FileWatcherOptions {
+  verbose?: boolean; // log every change (default true)
+}
+
 export class FileWatcher {
   private workingDirectory: string;
   private watchers: Map<string, FSWatcher> = new Map();
   private callbacks: FileChangeCallback[] = [];
   private fileStates: Map<string, number> = new Map(); // path -> lastModified
+  private verbose: boolean;
 
   // Ignored patterns
   private ignorePatterns = [
@@ -36,8 +41,9 @@ export class FileWatcher {
     'package-lock.json',
   ];
 
-  constructor(workingDirectory: string) {
+  constructor(workingDirectory: string, options: FileWatcherOptions = {}) {
     this.workingDirectory = workingDirectory;
+    this.verbose = options.verbose ?? true;
   }
 
   // ============================================
@@ -143,7 +149,9 @@ export class FileWatcher {
       deleted: '🗑️',
     }[change.type];
 
-    console.log(chalk.gray(`${icon} ${change.type}: ${change.path}`));
+    if (this.verbose) {
+      console.log(chalk.gray(`${icon} ${change.type}: ${change.path}`));
+    }
 
     // استدعاء callbacks
     for (const callback of this.callbacks) {
@@ -0,0 +1,602 @@
+// fs-journal.ts
+// ============================================
+// 📓 FS Journal - سجل كتابة مسبق للتراجع عن العمليات
+// ============================================
+// Before an operation touches the filesystem, the pre-image of every path it
+// names (content, mode, symlink target, or "did not exist") is stored in a
+// BlobStore and a JSONL record is fsynced; commit() records what the
+// operation left behind. Rollback puts back only the captured paths, and
+// skips any path that changed after the operation finished. A chmod only
+// ever gets its mode back. Journals left open by a process that died are
+// listed by interrupted() and rolled back by recover() only when confirmed.
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { glob } from 'glob';
+import { BlobStore } from './blob-store.js';
+
+// ============================================
+// 📦 Types & Interfaces
+// ============================================
+
+export type JournalOpKind = 'write' | 'delete' | 'move' | 'chmod';
+
+export interface JournalTarget {
+  kind: JournalOpKind;
+  path: string; // absolute
+  to?: string; // move destination, absolute
+}
+
+export interface PreImage {
+  path: string; // absolute
+  exists: boolean;
+  type?: 'file' | 'dir' | 'symlink';
+  blob?: string; // file content hash in the BlobStore
+  mode?: number;
+  link?: string; // symlink target
+}
+
+export type JournalState = 'open' | 'committed' | 'rolled-back';
+
+type JournalRecord =
+  | { type: 'begin'; operationId: string; command: string; pid: number; at: string }
+  | { type: 'target'; target: JournalTarget; preImages: PreImage[] }
+  | { type: 'commit'; at: string; postImages?: PreImage[] }
+  | { type: 'rollback'; at: string; restored: string[]; skipped?: string[] };
+
+export interface JournalSummary {
+  operationId: string;
+  command: string;
+  state: JournalState;
+  pid: number;
+  startedAt: string;
+  paths: string[];
+}
+
+export interface JournalReplay {
+  operationId: string;
+  restored: string[]; // paths put back to their pre-image (removed if they did not exist)
+  skipped: string[]; // paths changed since the operation finished, left as they are
+}
+
+export type JournalRecoveryConfirm = (journal: JournalSummary) => boolean | Promise<boolean>;
+
+// ============================================
+// 📓 FS Journal Class
+// ============================================
+
+export class FsJournal {
+  private dir: string;
+  private blobs: BlobStore;
+  private replays = new Map<string, Promise<JournalReplay>>();
+
+  constructor(dir: string) {
+    this.dir = dir;
+    this.blobs = new BlobStore(dir);
+  }
+
+  /**
+   * Record pre-images of `targets` before the operation runs
+   */
+  async begin(operationId: string, command: string, targets: JournalTarget[]): Promise<void> {
+    await this.blobs.init();
+    await this.append(operationId, {
+      type: 'begin',
+      operationId,
+      command,
+      pid: process.pid,
+      at: new Date().toISOString(),
+    });
+
+    for (const target of targets) {
+      await this.record(operationId, target);
+    }
+  }
+
+  /**
+   * Journal one more path of a running operation (before touching it)
+   */
+  async record(operationId: string, target: JournalTarget): Promise<void> {
+    const preImages: PreImage[] = [];
+    await this.capture(target.path, preImages);
+    if (target.to) await this.capture(target.to, preImages);
+
+    await this.append(operationId, { type: 'target', target, preImages });
+  }
+
+  /**
+   * Mark the operation done and record what it left at every journaled path
+   */
+  async commit(operationId: string): Promise<void> {
+    const postImages: PreImage[] = [];
+    for (const record of await this.read(operationId)) {
+      if (record.type !== 'target') continue;
+      for (const target of [record.target.path, record.target.to]) {
+        if (target) await this.capture(target, postImages, false);
+      }
+    }
+
+    await this.append(operationId, { type: 'commit', at: new Date().toISOString(), postImages });
+  }
+
+  async has(operationId: string): Promise<boolean> {
+    try {
+      await fs.access(this.journalPath(operationId));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async summary(operationId: string): Promise<JournalSummary> {
+    return summarize(await this.read(operationId));
+  }
+
+  async list(): Promise<JournalSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const summaries: JournalSummary[] = [];
+    for (const file of files.filter((f) => f.endsWith('.jsonl')).sort()) {
+      summaries.push(summarize(await this.read(path.basename(file, '.jsonl'))));
+    }
+    return summaries;
+  }
+
+  /**
+   * Put every journaled path back as it was, newest record first. Safe to call
+   * twice or concurrently; a rolled-back journal is not replayed again.
+   */
+  rollback(operationId: string): Promise<JournalReplay> {
+    let replay = this.replays.get(operationId);
+    if (!replay) {
+      replay = this.replay(operationId).finally(() => this.replays.delete(operationId));
+      this.replays.set(operationId, replay);
+    }
+    return replay;
+  }
+
+  /**
+   * Journals left open by processes that are no longer running
+   */
+  async interrupted(): Promise<JournalSummary[]> {
+    return (await this.list()).filter(
+      (journal) => journal.state === 'open' && !isProcessAlive(journal.pid)
+    );
+  }
+
+  /**
+   * Roll back the interrupted journals that `confirm` approves. Nothing is
+   * replayed without an answer: a journal may be days old.
+   */
+  async recover(confirm: JournalRecoveryConfirm): Promise<JournalReplay[]> {
+    const replays: JournalReplay[] = [];
+
+    for (const journal of await this.interrupted()) {
+      if (await confirm(journal)) {
+        replays.push(await this.rollback(journal.operationId));
+      }
+    }
+    return replays;
+  }
+
+  // ============================================
+  // 🔒 Helpers
+  // ============================================
+
+  private async replay(operationId: string): Promise<JournalReplay> {
+    const records = await this.read(operationId);
+    if (summarize(records).state === 'rolled-back') {
+      return { operationId, restored: [], skipped: [] };
+    }
+
+    // the first pre-image of each path is its state before the operation
+    const before = new Map<string, { image: PreImage; modeOnly: boolean }>();
+    const targetPaths: string[] = [];
+    for (const record of records) {
+      if (record.type !== 'target') continue;
+      targetPaths.push(record.target.path, ...(record.target.to ? [record.target.to] : []));
+      for (const image of record.preImages) {
+        const modeOnly = record.target.kind === 'chmod';
+        const entry = before.get(image.path);
+        if (!entry) before.set(image.path, { image, modeOnly });
+        else if (!modeOnly) entry.modeOnly = false;
+      }
+    }
+
+    // بدون commit (توقف أو انهيار) لا نعرف ما تركته العملية
+    const commit = records.find(
+      (r): r is Extract<JournalRecord, { type: 'commit' }> => r.type === 'commit'
+    );
+    const after = commit?.postImages
+      ? new Map(commit.postImages.map((image) => [image.path, image]))
+      : null;
+
+    const restored: string[] = [];
+    const skipped: string[] = [];
+    const entries = [...before.values()].sort((a, b) => depth(a.image.path) - depth(b.image.path));
+
+    // 1. what the operation created, deepest first
+    for (const { image } of entries.filter((e) => !e.image.exists).reverse()) {
+      const left = after
+        ? [...after.values()].filter((p) => p.exists && within(p.path, image.path))
+        : createdWithoutCommit(image.path, targetPaths);
+
+      for (const expected of left.sort((a, b) => depth(b.path) - depth(a.path))) {
+        const current = await this.describe(expected.path);
+        if (!current.exists) continue;
+
+        if (current.type === 'dir') {
+          // مجلد فيه ملفات لم تنشئها العملية يبقى
+          const removed = await fs.rmdir(expected.path).then(
+            () => true,
+            () => false
+          );
+          (removed ? restored : skipped).push(expected.path);
+        } else if (!after || sameState(current, expected, false)) {
+          await fs.unlink(expected.path);
+          restored.push(expected.path);
+        } else {
+          skipped.push(expected.path);
+        }
+      }
+    }
+
+    // 2. what existed before, parents first
+    for (const { image, modeOnly } of entries.filter((e) => e.image.exists)) {
+      const current = await this.describe(image.path);
+      if (sameState(current, image, modeOnly)) continue;
+
+      const expected = after ? expectedAfter(after, image.path) : undefined;
+      if (expected && !sameState(current, expected, modeOnly)) {
+        skipped.push(image.path);
+        continue;
+      }
+
+      if (await this.restore(image, current, modeOnly)) restored.push(image.path);
+      else skipped.push(image.path);
+    }
+
+    await this.append(operationId, {
+      type: 'rollback',
+      at: new Date().toISOString(),
+      restored,
+      skipped,
+    });
+    return { operationId, restored: [...new Set(restored)], skipped: [...new Set(skipped)] };
+  }
+
+  private async restore(image: PreImage, current: PreImage, modeOnly: boolean): Promise<boolean> {
+    if (modeOnly) {
+      // chmod لا يحذف ولا يكتب شيئاً: نعيد الصلاحيات فقط
+      if (!current.exists || current.type !== image.type || image.mode === undefined) return false;
+      await fs.chmod(image.path, image.mode);
+      return true;
+    }
+
+    if (current.exists) {
+      if (current.type === 'dir' && image.type !== 'dir') {
+        const removed = await fs.rmdir(image.path).then(
+          () => true,
+          () => false
+        );
+        if (!removed) return false;
+      } else if (current.type !== 'dir' && (current.type !== image.type || image.type !== 'file')) {
+        await fs.unlink(image.path);
+      }
+    }
+
+    await fs.mkdir(path.dirname(image.path), { recursive: true });
+    if (image.type === 'dir') {
+      await fs.mkdir(image.path, { recursive: true });
+    } else if (image.type === 'symlink') {
+      await fs.symlink(image.link!, image.path);
+      return true;
+    } else {
+      await fs.writeFile(image.path, await this.blobs.get(image.blob!));
+    }
+    if (image.mode !== undefined) await fs.chmod(image.path, image.mode);
+    return true;
+  }
+
+  /**
+   * `store` keeps file contents in the BlobStore (pre-images); post-images only
+   * need the hash.
+   */
+  private async capture(target: string, into: PreImage[], store = true): Promise<void> {
+    const image = await this.describe(target, store);
+    if (!image.exists) {
+      // لم يكن موجوداً: التراجع يحذف ما أنشأته العملية تحته، بدءاً من أعلى مجلد مفقود
+      into.push({ path: store ? await topMissingAncestor(target) : target, exists: false });
+      return;
+    }
+
+    into.push(image);
+    if (image.type === 'dir') {
+      for (const entry of await fs.readdir(target)) {
+        await this.capture(path.join(target, entry), into, store);
+      }
+    }
+  }
+
+  private async describe(target: string, store = false): Promise<PreImage> {
+    let stats;
+    try {
+      stats = await fs.lstat(target);
+    } catch {
+      return { path: target, exists: false };
+    }
+
+    const mode = stats.mode & 0o7777;
+    if (stats.isSymbolicLink()) {
+      return { path: target, exists: true, type: 'symlink', link: await fs.readlink(target) };
+    }
+    if (stats.isDirectory()) {
+      return { path: target, exists: true, type: 'dir', mode };
+    }
+
+    const content = await fs.readFile(target);
+    const blob = store ? (await this.blobs.put(content)).hash : BlobStore.hash(content);
+    return { path: target, exists: true, type: 'file', blob, mode };
+  }
+
+  // كتابة مسبقة: السجل يصل القرص (fsync) قبل أن تبدأ العملية
+  private async append(operationId: string, record: JournalRecord): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const handle = await fs.open(this.journalPath(operationId), 'a');
+    try {
+      await handle.appendFile(JSON.stringify(record) + '\n');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async read(operationId: string): Promise<JournalRecord[]> {
+    const content = await fs.readFile(this.journalPath(operationId), 'utf-8');
+    const records: JournalRecord[] = [];
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // سطر أخير مبتور بسبب توقف مفاجئ
+      }
+    }
+    return records;
+  }
+
+  private journalPath(operationId: string): string {
+    return path.join(this.dir, `${operationId}.jsonl`);
+  }
+}
+
+// ============================================
+// 🔎 Paths touched by a shell command
+// ============================================
+
+const DELETE_COMMANDS = ['rm', 'rmdir', 'unlink', 'del', 'trash'];
+const MOVE_COMMANDS = ['mv', 'move', 'rename'];
+const COPY_COMMANDS = ['cp', 'copy', 'ln'];
+const MODE_COMMANDS = ['chmod', 'chown', 'chgrp'];
+const WRITE_COMMANDS = ['touch', 'mkdir', 'tee', 'truncate'];
+// write nothing but their output redirections
+const READ_ONLY_COMMANDS = [
+  'ls',
+  'cat',
+  'echo',
+  'printf',
+  'pwd',
+  'grep',
+  'head',
+  'tail',
+  'wc',
+  'diff',
+  'stat',
+  'file',
+  'du',
+  'df',
+  'which',
+  'date',
+  'whoami',
+  'true',
+];
+const READ_ONLY_GIT = ['status', 'diff', 'log', 'show', 'blame'];
+
+/**
+ * The paths a shell command writes, deletes, moves or chmods, so they can be
+ * journaled before it runs. Returns null when that cannot be known: a program
+ * it has no model of (`npm install`, `git checkout`), or shell constructs
+ * whose targets are only known at run time.
+ */
+export async function pathsTouchedBy(
+  command: string,
+  cwd: string
+): Promise<JournalTarget[] | null> {
+  const targets: JournalTarget[] = [];
+  const resolve = (p: string) => path.resolve(cwd, p.replace(/^~(?=$|\/)/, os.homedir()));
+
+  // استبدال، متغيرات، خلفية (&) أو سطور متعددة
+  if (/[`$\n]|(^|[^&>])&(?![&>])|<\(/.test(command)) return null;
+
+  for (const segment of command.split(/&&|\|\||;|\|/)) {
+    const words = tokenize(segment);
+    const args: string[] = [];
+
+    for (let i = 0; i < words.length; i++) {
+      const redirect = words[i].match(/^(?:\d|&)?>>?(.*)$/);
+      if (redirect) {
+        const file = redirect[1] || words[++i];
+        if (file && !file.startsWith('&')) targets.push({ kind: 'write', path: resolve(file) });
+      } else {
+        args.push(words[i]);
+      }
+    }
+
+    while (args[0] === 'sudo' || /^\w+=/.test(args[0] || '')) args.shift();
+    const [program, ...rest] = args;
+    if (!program) continue;
+    const name = path.basename(program);
+    const operands = await expand(
+      rest.filter((arg) => !arg.startsWith('-')),
+      cwd
+    );
+
+    if (READ_ONLY_COMMANDS.includes(name)) {
+      continue;
+    } else if (name === 'git') {
+      if (!READ_ONLY_GIT.includes(rest.find((arg) => !arg.startsWith('-')) ?? '')) return null;
+    } else if (DELETE_COMMANDS.includes(name)) {
+      operands.forEach((p) => targets.push({ kind: 'delete', path: resolve(p) }));
+    } else if (MOVE_COMMANDS.includes(name) || COPY_COMMANDS.includes(name)) {
+      if (operands.length < 2) continue;
+      const destination = resolve(operands[operands.length - 1]);
+      const intoDir = operands.length > 2 || (await isDirectory(destination));
+
+      for (const source of operands.slice(0, -1)) {
+        const to = intoDir ? path.join(destination, path.basename(source)) : destination;
+        targets.push(
+          MOVE_COMMANDS.includes(name)
+            ? { kind: 'move', path: resolve(source), to }
+            : { kind: 'write', path: to }
+        );
+      }
+    } else if (MODE_COMMANDS.includes(name)) {
+      operands.slice(1).forEach((p) => targets.push({ kind: 'chmod', path: resolve(p) }));
+    } else if (WRITE_COMMANDS.includes(name)) {
+      operands.forEach((p) => targets.push({ kind: 'write', path: resolve(p) }));
+    } else if (name === 'sed') {
+      if (rest.some((arg) => /^-i/.test(arg))) {
+        operands.slice(1).forEach((p) => targets.push({ kind: 'write', path: resolve(p) }));
+      }
+    } else {
+      return null;
+    }
+  }
+
+  return targets;
+}
+
+function tokenize(segment: string): string[] {
+  const words: string[] = [];
+  for (const match of segment.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'|(\S+)/g)) {
+    words.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return words;
+}
+
+async function expand(operands: string[], cwd: string): Promise<string[]> {
+  const expanded: string[] = [];
+  for (const operand of operands) {
+    if (/[*?[]/.test(operand)) {
+      expanded.push(...(await glob(operand, { cwd, dot: true })).sort());
+    } else {
+      expanded.push(operand);
+    }
+  }
+  return expanded;
+}
+
+async function isDirectory(target: string): Promise<boolean> {
+  try {
+    return (await fs.stat(target)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+async function topMissingAncestor(target: string): Promise<string> {
+  let missing = target;
+  for (let parent = path.dirname(target); parent !== missing; parent = path.dirname(parent)) {
+    try {
+      await fs.lstat(parent);
+      break;
+    } catch {
+      missing = parent;
+    }
+  }
+  return missing;
+}
+
+function depth(target: string): number {
+  return target.split(path.sep).length;
+}
+
+/**
+ * What the operation left at `target`: its post-image, or "missing" when it
+ * lies under a captured path but was not there at commit.
+ */
+function expectedAfter(after: Map<string, PreImage>, target: string): PreImage | undefined {
+  if (after.has(target)) return after.get(target);
+  for (let parent = path.dirname(target); ; parent = path.dirname(parent)) {
+    if (after.has(parent)) return { path: target, exists: false };
+    if (parent === path.dirname(parent)) return undefined;
+  }
+}
+
+/**
+ * Without post-images only the journaled paths themselves are known to be the
+ * operation's, plus the directories between them and `root`.
+ */
+function createdWithoutCommit(root: string, targetPaths: string[]): PreImage[] {
+  const paths = new Set([root]);
+  for (let target of targetPaths.filter((p) => isInside(p, root))) {
+    for (; target !== root; target = path.dirname(target)) paths.add(target);
+  }
+  return [...paths].map((p) => ({ path: p, exists: true }));
+}
+
+function within(target: string, root: string): boolean {
+  return target === root || isInside(target, root);
+}
+
+function sameState(a: PreImage, b: PreImage, modeOnly: boolean): boolean {
+  if (a.exists !== b.exists) return false;
+  if (!a.exists) return true;
+  if (a.type !== b.type) return false;
+  if (modeOnly) return a.mode === b.mode;
+  if (a.type === 'symlink') return a.link === b.link;
+  return a.mode === b.mode && (a.type === 'dir' || a.blob === b.blob);
+}
+
+function isInside(child: string, parent: string): boolean {
+  return child !== parent && child.startsWith(parent + path.sep);
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    return error.code === 'EPERM';
+  }
+}
+
+function summarize(records: JournalRecord[]): JournalSummary {
+  const begin = records.find(
+    (r): r is Extract<JournalRecord, { type: 'begin' }> => r.type === 'begin'
+  );
+  const paths = records.flatMap((r) =>
+    r.type === 'target' ? [r.target.path, ...(r.target.to ? [r.target.to] : [])] : []
+  );
+
+  return {
+    operationId: begin?.operationId ?? 'unknown',
+    command: begin?.command ?? '',
+    // a rollback wins over a commit written by an operation that outlived its stop
+    state: records.some((r) => r.type === 'rollback')
+      ? 'rolled-back'
+      : records.some((r) => r.type === 'commit')
+        ? 'committed'
+        : 'open',
+    pid: begin?.pid ?? 0,
+    startedAt: begin?.at ?? '',
+    paths,
+  };
+}
@@ -0,0 +1,199 @@
+// god-mode-checkpoints.ts
+// ============================================
+// 💾 God Mode Checkpoints - حفظ مخرجات كل مرحلة
+// ============================================
+// Every GodMode phase writes its output to .oqool/god/<run>/<phase>.json as
+// soon as it finishes. A failed or interrupted run resumes from the first
+// phase without a checkpoint (or from an explicit --from-phase), reloading
+// earlier phases from disk instead of paying for them again. The checkpoint
+// files are plain JSON, so architecture.json can be edited by hand before
+// code generation continues.
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type {
+  Architecture,
+  GeneratedCode,
+  ReviewResult,
+  SecurityReport,
+  TestResults,
+} from './god-mode.js';
+
+// ============================================
+// 📦 Types & Interfaces
+// ============================================
+
+export const GOD_MODE_PHASES = ['architecture', 'code', 'tests', 'review', 'security'] as const;
+
+export type GodModePhase = (typeof GOD_MODE_PHASES)[number];
+
+export interface GodModePhaseData {
+  architecture: Architecture;
+  code: GeneratedCode;
+  tests: TestResults;
+  review: { review: ReviewResult; improvedCode: GeneratedCode };
+  security: SecurityReport;
+}
+
+export interface GodModeRun {
+  id: string;
+  task: string;
+  outputPath: string;
+  status: 'running' | 'completed' | 'failed';
+  phases: GodModePhase[]; // phases with a checkpoint, in order
+  failedPhase?: GodModePhase;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ============================================
+// 💾 Checkpoint Store
+// ============================================
+
+export class GodModeCheckpoints {
+  readonly dir: string;
+
+  constructor(projectRoot: string) {
+    this.dir = path.join(projectRoot, '.oqool', 'god');
+  }
+
+  async create(task: string, outputPath: string): Promise<GodModeRun> {
+    const now = new Date().toISOString();
+    const run: GodModeRun = {
+      id: `god_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      task,
+      outputPath,
+      status: 'running',
+      phases: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.save(run);
+    return run;
+  }
+
+  async save(run: GodModeRun): Promise<void> {
+    run.updatedAt = new Date().toISOString();
+    await writeJson(path.join(this.runDir(run.id), 'run.json'), run);
+  }
+
+  async load(id: string): Promise<GodModeRun> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.runDir(id), 'run.json'), 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') throw new Error(`God Mode run not found: ${id}`);
+      throw error;
+    }
+  }
+
+  /**
+   * كل التشغيلات، الأحدث أولاً
+   */
+  async list(): Promise<GodModeRun[]> {
+    let ids: string[];
+    try {
+      ids = await fs.readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const runs = await Promise.all(ids.map((id) => this.load(id).catch(() => null)));
+    return runs
+      .filter((run): run is GodModeRun => run !== null)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  phasePath(id: string, phase: GodModePhase): string {
+    return path.join(this.runDir(id), `${phase}.json`);
+  }
+
+  async loadPhase<P extends GodModePhase>(id: string, phase: P): Promise<GodModePhaseData[P]> {
+    const file = this.phasePath(id, phase);
+    let data: any;
+    try {
+      data = JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') throw new Error(`No ${phase} checkpoint for run ${id}`);
+      throw new Error(`Invalid ${phase} checkpoint (${file}): ${error.message}`);
+    }
+
+    // architecture.json قد يكون معدلاً يدوياً
+    if (phase === 'architecture') {
+      if (!Array.isArray(data?.components)) {
+        throw new Error(`Invalid architecture checkpoint (${file}): "components" must be an array`);
+      }
+      data.tags ??= [];
+    }
+    return data;
+  }
+
+  /**
+   * أول مرحلة ستُنفذ: المطلوبة صراحة، أو أول مرحلة بلا checkpoint
+   */
+  startPhase(run: GodModeRun, fromPhase?: GodModePhase): GodModePhase | null {
+    if (fromPhase) {
+      if (!GOD_MODE_PHASES.includes(fromPhase)) {
+        throw new Error(`Unknown phase "${fromPhase}" (expected ${GOD_MODE_PHASES.join(', ')})`);
+      }
+      const missing = GOD_MODE_PHASES.slice(0, GOD_MODE_PHASES.indexOf(fromPhase)).filter(
+        (phase) => !run.phases.includes(phase)
+      );
+      if (missing.length > 0) {
+        throw new Error(`Cannot start from ${fromPhase}: no checkpoint for ${missing.join(', ')}`);
+      }
+      return fromPhase;
+    }
+
+    return GOD_MODE_PHASES.find((phase) => !run.phases.includes(phase)) ?? null;
+  }
+
+  /**
+   * تنفيذ مرحلة وحفظ مخرجاتها، أو تحميلها إن كانت قبل مرحلة البداية
+   */
+  async runPhase<P extends GodModePhase>(
+    run: GodModeRun,
+    phase: P,
+    start: GodModePhase | null,
+    produce: () => Promise<GodModePhaseData[P]>
+  ): Promise<GodModePhaseData[P]> {
+    if (start === null || GOD_MODE_PHASES.indexOf(phase) < GOD_MODE_PHASES.indexOf(start)) {
+      return this.loadPhase(run.id, phase);
+    }
+
+    // المراحل اللاحقة بُنيت على المخرجات القديمة فلم تعد صالحة
+    run.phases = run.phases.filter(
+      (done) => GOD_MODE_PHASES.indexOf(done) < GOD_MODE_PHASES.indexOf(phase)
+    );
+    run.status = 'running';
+    run.failedPhase = undefined;
+    run.error = undefined;
+
+    try {
+      const data = await produce();
+      await writeJson(this.phasePath(run.id, phase), data);
+      run.phases.push(phase);
+      await this.save(run);
+      return data;
+    } catch (error: any) {
+      run.status = 'failed';
+      run.failedPhase = phase;
+      run.error = error?.message ?? String(error);
+      await this.save(run);
+      throw error;
+    }
+  }
+
+  private runDir(id: string): string {
+    return path.join(this.dir, path.basename(id));
+  }
+}
+
+// كتابة ذرية: ملف مؤقت ثم rename
+async function writeJson(file: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(data, null, 2));
+  await fs.rename(temp, file);
+}
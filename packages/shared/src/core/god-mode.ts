@@ -12,11 +12,17 @@ import { BackendDeveloperAgent } from '../agents/backend-developer-agent.js';
 import { TesterAgent } from '../agents/tester-agent.js';
 import { ReviewerAgent } from '../agents/reviewer-agent.js';
 import { createSelfLearningSystem, type Project } from './self-learning-system.js';
+import {
+  GOD_MODE_PHASES,
+  GodModeCheckpoints,
+  type GodModePhase,
+} from './god-mode-checkpoints.js';
 import type { AIProvider } from '../ai-gateway/index.js';
 
 // Types
 export interface GodModeResult {
   success: boolean;
+  runId: string;
   projectPath: string;
   architecture: Architecture;
   code: GeneratedCode;
@@ -116,6 +122,14 @@ export interface GodModeConfig {
   model?: string;
   outputPath?: string;
   verbose?: boolean;
+  projectRoot?: string; // checkpoints go to <projectRoot>/.oqool/god
+}
+
+export interface GodModeRunOptions {
+  resume?: string; // run id
+  fromPhase?: GodModePhase;
+  // called with architecture.json before code generation; the file is re-read afterwards
+  editArchitecture?: (architecturePath: string) => Promise<void>;
 }
 
 // ============================================
@@ -128,14 +142,17 @@ export class GodMode {
   private coder: BackendDeveloperAgent;
   private tester: TesterAgent;
   private reviewer: ReviewerAgent;
+  private checkpoints: GodModeCheckpoints;
 
   constructor(config: GodModeConfig) {
     this.config = {
       model: 'claude-3-haiku-20240307', // الأرخص: $0.25/$1.25 per 1M tokens
       outputPath: './god-mode-project',
       verbose: true,
+      projectRoot: process.cwd(),
       ...config,
     };
+    this.checkpoints = new GodModeCheckpoints(this.config.projectRoot!);
 
     // Initialize Anthropic client only if Claude API key is available
     if (this.config.apiKey?.startsWith('sk-ant-')) {
@@ -202,10 +219,17 @@ export class GodMode {
   /**
    * 🎯 God Mode - بناء مشروع كامل
    */
-  async execute(task: string): Promise<GodModeResult> {
+  async execute(task: string, options: GodModeRunOptions = {}): Promise<GodModeResult> {
+    const run = options.resume
+      ? await this.checkpoints.load(options.resume)
+      : await this.checkpoints.create(task, path.resolve(this.config.outputPath!));
+    const start = this.checkpoints.startPhase(run, options.fromPhase);
+    task = run.task;
+
     console.log(chalk.bold.red('\n🔥🔥🔥 GOD MODE ACTIVATED 🔥🔥🔥\n'));
     console.log(chalk.yellow('═'.repeat(60)));
     console.log(chalk.cyan(`📋 Task: ${task}\n`));
+    console.log(chalk.gray(`💾 Run: ${run.id}${start ? ` (from ${start})` : ''}`));
     console.log(chalk.yellow('═'.repeat(60)));
 
     // Initialize self-learning system only if Claude API is available
@@ -227,22 +251,38 @@ export class GodMode {
 
     try {
       // 1️⃣ Architecture Phase
-      const architecture = await this.designArchitecture(task);
+      let architecture = await this.checkpoints.runPhase(run, 'architecture', start, () =>
+        this.designArchitecture(task)
+      );
+
+      // تعديل التصميم يدوياً قبل توليد الكود
+      if (options.editArchitecture && this.willRun('code', start)) {
+        await options.editArchitecture(this.checkpoints.phasePath(run.id, 'architecture'));
+        architecture = await this.checkpoints.loadPhase(run.id, 'architecture');
+      }
 
       // 2️⃣ Coding Phase
-      const code = await this.generateCode(architecture, task);
+      const code = await this.checkpoints.runPhase(run, 'code', start, () =>
+        this.generateCode(architecture, task)
+      );
 
       // 3️⃣ Testing Phase
-      const tests = await this.createTests(code);
+      const tests = await this.checkpoints.runPhase(run, 'tests', start, () =>
+        this.createTests(code)
+      );
 
       // 4️⃣ Review Phase (includes improvement)
-      const { review, improvedCode } = await this.reviewCode(code);
+      const { review, improvedCode } = await this.checkpoints.runPhase(run, 'review', start, () =>
+        this.reviewCode(code)
+      );
 
       // 5️⃣ Security Scan
-      const security = await this.scanSecurity(improvedCode);
+      const security = await this.checkpoints.runPhase(run, 'security', start, () =>
+        this.scanSecurity(improvedCode)
+      );
 
       // 6️⃣ Save Project
-      const projectPath = await this.saveProject(task, {
+      const projectPath = await this.saveProject(run.outputPath, task, {
         architecture,
         code: improvedCode,
         tests,
@@ -268,8 +308,12 @@ export class GodMode {
       console.log(chalk.bold.green('\n🎉 GOD MODE COMPLETED! 🎉\n'));
       console.log(chalk.yellow('═'.repeat(60) + '\n'));
 
+      run.status = 'completed';
+      await this.checkpoints.save(run);
+
       const result: GodModeResult = {
         success: true,
+        runId: run.id,
         projectPath,
         architecture,
         code: improvedCode,
@@ -296,6 +340,9 @@ export class GodMode {
       return result;
     } catch (error: any) {
       console.error(chalk.red('\n❌ God Mode Failed:'), error.message);
+      if (run.failedPhase) {
+        console.log(chalk.cyan(`💡 للمتابعة من ${run.failedPhase}: oqool god --resume ${run.id}\n`));
+      }
       throw error;
     }
   }
@@ -433,10 +480,10 @@ export class GodMode {
   // ============================================
   // 6️⃣ Save Project
   // ============================================
-  private async saveProject(task: string, data: any): Promise<string> {
+  private async saveProject(outputPath: string, task: string, data: any): Promise<string> {
     this.log('💾 Phase 6: Saving Project...');
 
-    const projectPath = path.resolve(this.config.outputPath!);
+    const projectPath = path.resolve(outputPath);
     await fs.ensureDir(projectPath);
 
     // حفظ الملفات
@@ -551,6 +598,11 @@ Powered by **Oqool Team** 🧠
   // ============================================
   // Helpers
   // ============================================
+  // المراحل قبل مرحلة البداية تُحمّل من الـ checkpoints
+  private willRun(phase: GodModePhase, start: GodModePhase | null): boolean {
+    return start !== null && GOD_MODE_PHASES.indexOf(phase) >= GOD_MODE_PHASES.indexOf(start);
+  }
+
   private log(message: string): void {
     if (this.config.verbose) {
       console.log(chalk.bold.cyan(message));
@@ -1,6 +1,10 @@
 // Core exports - Main features
 export * from './god-mode.js';
+export * from './god-mode-checkpoints.js';
 export * from './version-guardian.js';
+export * from './blob-store.js';
+export * from './line-diff.js';
+export * from './three-way-merge.js';
 export * from './collective-intelligence.js';
 export * from './multi-personality-ai-team.js';
 
@@ -119,10 +123,17 @@ export * from './learning-system.js';
 
 // Plugin & Template Systems
 export * from './plugin-system.js';
+export * from './plugin-manifest.js';
 export * from './template-manager.js';
 
 // Tools & Utilities
 export * from './tools.js';
+export * from './tool-registry.js';
+export * from './workspace-policy.js';
+export * from './abort.js';
+export * from './unified-patch.js';
+export * from './sandbox-workspace.js';
+export * from './fs-journal.js';
 // Legacy tools exported with prefix to avoid conflicts
 export {
   editFile as editFileOld,
@@ -133,7 +144,14 @@ export {
   writeFile as writeFileOld
 } from './tools-old.js';
 // Planner exports with alias to avoid Task conflict
-export { Task as PlannerTask, type Plan, IntelligentPlanner } from './planner.js';
+export {
+  Task as PlannerTask,
+  type Plan,
+  type PlannerOptions,
+  IntelligentPlanner,
+} from './planner.js';
+export * from './role-models.js';
+export * from './plan-executor.js';
 
 // UI & Interface
 export * from './ui.js';
@@ -0,0 +1,324 @@
+// line-diff.ts
+// ============================================
+// 🔍 Line Diff - فروقات الأسطر (Myers O(ND))
+// ============================================
+
+// ============================================
+// 📦 Types & Interfaces
+// ============================================
+
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  content: string;
+  oldLineNumber?: number; // 1-based, absent for added lines
+  newLineNumber?: number; // 1-based, absent for removed lines
+}
+
+export interface HunkRange {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+}
+
+export interface DiffHunk extends HunkRange {
+  header: string;
+  lines: DiffLine[];
+}
+
+export interface SideBySideRow {
+  type: 'context' | 'add' | 'remove' | 'modify';
+  left?: { lineNumber: number; content: string };
+  right?: { lineNumber: number; content: string };
+}
+
+// ============================================
+// 🧮 Myers Diff
+// ============================================
+
+/**
+ * Split text into lines. A trailing newline does not produce an extra
+ * empty line, so `"a\nb\n"` and `"a\nb"` both give `['a', 'b']`.
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Minimal edit script between two line arrays (Myers, "An O(ND) Difference
+ * Algorithm"). Common prefix/suffix are stripped first, and each round only
+ * keeps the diagonals it reached, so memory stays O(D²) instead of O(N·D).
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < prefix; i++) {
+    result.push({ type: 'context', content: oldLines[i], oldLineNumber: i + 1, newLineNumber: i + 1 });
+  }
+
+  for (const op of myers(a, b)) {
+    result.push({
+      type: op.type,
+      content: op.type === 'add' ? b[op.newIndex] : a[op.oldIndex],
+      oldLineNumber: op.type === 'add' ? undefined : prefix + op.oldIndex + 1,
+      newLineNumber: op.type === 'remove' ? undefined : prefix + op.newIndex + 1,
+    });
+  }
+
+  for (let i = suffix; i > 0; i--) {
+    result.push({
+      type: 'context',
+      content: oldLines[oldLines.length - i],
+      oldLineNumber: oldLines.length - i + 1,
+      newLineNumber: newLines.length - i + 1,
+    });
+  }
+
+  return result;
+}
+
+interface EditOp {
+  type: 'context' | 'add' | 'remove';
+  oldIndex: number;
+  newIndex: number;
+}
+
+function myers(a: string[], b: string[]): EditOp[] {
+  const n = a.length;
+  const m = b.length;
+
+  if (n === 0 || m === 0) {
+    return [
+      ...a.map((_, i): EditOp => ({ type: 'remove', oldIndex: i, newIndex: 0 })),
+      ...b.map((_, i): EditOp => ({ type: 'add', oldIndex: 0, newIndex: i })),
+    ];
+  }
+
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v[-d..d] as it was before round d
+  const trace: Int32Array[] = [];
+
+  let found = -1;
+  for (let d = 0; d <= max && found < 0; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1]; // down: insertion
+      } else {
+        x = v[offset + k - 1] + 1; // right: deletion
+      }
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        found = d;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the path
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = found; d > 0; d--) {
+    const prev = trace[d];
+    const at = (k: number) => prev[k + d];
+    const k = x - y;
+
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      ops.push({ type: 'context', oldIndex: x, newIndex: y });
+    }
+
+    if (x === prevX) {
+      ops.push({ type: 'add', oldIndex: x, newIndex: prevY });
+    } else {
+      ops.push({ type: 'remove', oldIndex: prevX, newIndex: y });
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  while (x > 0 && y > 0) {
+    x--;
+    y--;
+    ops.push({ type: 'context', oldIndex: x, newIndex: y });
+  }
+
+  return ops.reverse();
+}
+
+// ============================================
+// ✂️ Hunks & Formatting
+// ============================================
+
+/**
+ * Group a line diff into hunks with `context` unchanged lines around each
+ * change. Changes closer than `2 * context` lines share a hunk.
+ */
+export function createHunks(lines: DiffLine[], context: number = 3): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (lines[i].type === 'context') {
+      i++;
+      continue;
+    }
+
+    const start = Math.max(0, i - context);
+    let end = i;
+
+    // Extend while the next change is within reach of the trailing context
+    while (end < lines.length) {
+      let next = end;
+      while (next < lines.length && lines[next].type !== 'context') next++;
+      let gap = next;
+      while (gap < lines.length && lines[gap].type === 'context') gap++;
+
+      if (gap < lines.length && gap - next <= context * 2) {
+        end = gap;
+      } else {
+        end = Math.min(lines.length, next + context);
+        break;
+      }
+    }
+
+    hunks.push(toHunk(lines, start, end));
+    i = end;
+  }
+
+  return hunks;
+}
+
+function toHunk(lines: DiffLine[], start: number, end: number): DiffHunk {
+  const slice = lines.slice(start, end);
+  const oldLines = slice.filter((l) => l.type !== 'add').length;
+  const newLines = slice.filter((l) => l.type !== 'remove').length;
+
+  // Line numbers are 1-based; an empty side points at the line before it (git style)
+  const firstOld = slice.find((l) => l.oldLineNumber !== undefined)?.oldLineNumber;
+  const firstNew = slice.find((l) => l.newLineNumber !== undefined)?.newLineNumber;
+  const oldStart = oldLines > 0 ? firstOld! : countBefore(lines, start, 'add');
+  const newStart = newLines > 0 ? firstNew! : countBefore(lines, start, 'remove');
+
+  return {
+    oldStart,
+    oldLines,
+    newStart,
+    newLines,
+    header: `@@ -${oldStart},${oldLines} +${newStart},${newLines} @@`,
+    lines: slice,
+  };
+}
+
+function countBefore(lines: DiffLine[], index: number, skip: DiffLine['type']): number {
+  let count = 0;
+  for (let i = 0; i < index; i++) {
+    if (lines[i].type !== skip) count++;
+  }
+  return count;
+}
+
+/**
+ * Render hunks as a unified diff (the format `git diff` and `patch` use).
+ */
+export function formatUnifiedDiff(
+  hunks: DiffHunk[],
+  oldLabel: string,
+  newLabel: string = oldLabel
+): string {
+  if (hunks.length === 0) return '';
+
+  const out: string[] = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const hunk of hunks) {
+    out.push(hunk.header);
+    for (const line of hunk.lines) {
+      const marker = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
+      out.push(marker + line.content);
+    }
+  }
+
+  return out.join('\n') + '\n';
+}
+
+/**
+ * Pair up removed/added runs inside a hunk so they can be shown in two
+ * columns; leftover lines on either side stay as plain add/remove rows.
+ */
+export function toSideBySide(hunk: DiffHunk): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let i = 0;
+
+  while (i < hunk.lines.length) {
+    const line = hunk.lines[i];
+
+    if (line.type === 'context') {
+      rows.push({
+        type: 'context',
+        left: { lineNumber: line.oldLineNumber!, content: line.content },
+        right: { lineNumber: line.newLineNumber!, content: line.content },
+      });
+      i++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < hunk.lines.length && hunk.lines[i].type === 'remove') removed.push(hunk.lines[i++]);
+    while (i < hunk.lines.length && hunk.lines[i].type === 'add') added.push(hunk.lines[i++]);
+
+    for (let j = 0; j < Math.max(removed.length, added.length); j++) {
+      const left = removed[j];
+      const right = added[j];
+      rows.push({
+        type: left && right ? 'modify' : left ? 'remove' : 'add',
+        left: left && { lineNumber: left.oldLineNumber!, content: left.content },
+        right: right && { lineNumber: right.newLineNumber!, content: right.content },
+      });
+    }
+  }
+
+  return rows;
+}
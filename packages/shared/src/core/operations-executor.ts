@@ -37,6 +37,7 @@ export interface ProcessOptions {
   env?: Record<string, string>;
   timeout?: number;
   detached?: boolean;
+  signal?: AbortSignal; // kills the process when it fires
 }
 
 export interface NetworkRequestOptions {
@@ -458,6 +459,7 @@ export class OperationsExecutor {
         cwd: options.cwd || this.workingDir,
         env: { ...process.env, ...options.env },
         timeout: options.timeout || 300000,
+        signal: options.signal,
       });
 
       return {
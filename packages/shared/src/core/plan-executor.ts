@@ -0,0 +1,417 @@
+// plan-executor.ts
+// ============================================
+// 🗺️ Plan Executor - تنفيذ الخطط كرسم بياني قابل للاستئناف
+// ============================================
+// Runs an IntelligentPlanner plan as a dependency graph: every task whose
+// dependencies are done starts right away, up to `concurrency` at a time.
+// The plan is written to .oqool/plans/<id>.json after every status change,
+// so a crash or Ctrl-C only loses the tasks that were running, and run() on
+// the stored plan picks up from there. A failed task can be replanned, which
+// replaces it and the tasks depending on it and nothing else.
+// `plan abort` writes a separate <id>.abort marker that the executor never
+// writes, so an abort landing between the executor's check and its save is
+// not lost.
+
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { Plan, Task } from './planner.js';
+import { AbortError, anySignal } from './abort.js';
+
+// ============================================
+// 📦 Types & Interfaces
+// ============================================
+
+export type PlanTaskStatus = Task['status'] | 'replaced' | 'cancelled';
+export type PlanRunStatus = 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'aborted';
+
+export interface PlanTask extends Omit<Task, 'status'> {
+  status: PlanTaskStatus;
+  attempts: number;
+  startedAt?: string;
+  finishedAt?: string;
+  replaces?: string; // the failed task this one was planned to replace
+}
+
+export interface PersistedPlan {
+  id: string;
+  goal: string;
+  status: PlanRunStatus;
+  tasks: PlanTask[];
+  replans: number;
+  createdAt: string;
+  updatedAt: string;
+  pid?: number; // process currently running the plan
+  error?: string;
+}
+
+export type PlanTaskRunner = (
+  task: PlanTask,
+  plan: PersistedPlan,
+  signal: AbortSignal
+) => Promise<string>;
+
+export type PlanReplanner = (
+  failed: PlanTask,
+  subtree: PlanTask[], // the failed task and everything that depends on it
+  plan: PersistedPlan
+) => Promise<Task[] | null>;
+
+export interface PlanExecutorOptions {
+  runTask: PlanTaskRunner;
+  replan?: PlanReplanner;
+  concurrency?: number; // default 3
+  maxReplans?: number; // per plan, default 2
+  pollInterval?: number; // ms between checks for an abort from another process
+}
+
+// ============================================
+// 💾 Plan Store
+// ============================================
+
+export class PlanStore {
+  readonly dir: string;
+
+  constructor(projectRoot: string) {
+    this.dir = path.join(projectRoot, '.oqool', 'plans');
+  }
+
+  /**
+   * حفظ خطة جديدة من IntelligentPlanner
+   */
+  async create(plan: Plan): Promise<PersistedPlan> {
+    const now = new Date().toISOString();
+    const persisted: PersistedPlan = {
+      id: `plan_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      goal: plan.goal,
+      status: 'pending',
+      tasks: plan.tasks.map((task) => ({ ...task, status: 'pending', attempts: 0 })),
+      replans: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.save(persisted);
+    return persisted;
+  }
+
+  async save(plan: PersistedPlan): Promise<void> {
+    plan.updatedAt = new Date().toISOString();
+    await fs.mkdir(this.dir, { recursive: true });
+
+    // كتابة ذرية: ملف مؤقت ثم rename، فلا يبقى JSON مبتور بعد توقف مفاجئ
+    const file = this.planPath(plan.id);
+    const temp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(plan, null, 2));
+    await fs.rename(temp, file);
+  }
+
+  async load(id: string): Promise<PersistedPlan> {
+    let plan: PersistedPlan;
+    try {
+      plan = JSON.parse(await fs.readFile(this.planPath(id), 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') throw new Error(`Plan not found: ${id}`);
+      throw error;
+    }
+
+    // العلامة تغلب ما كتبه المنفذ بعدها
+    if (plan.status !== 'completed' && plan.status !== 'aborted' && (await this.isAborted(id))) {
+      plan.status = 'aborted';
+      cancelUnfinished(plan);
+    }
+    return plan;
+  }
+
+  async isAborted(id: string): Promise<boolean> {
+    return fs.access(this.abortPath(id)).then(
+      () => true,
+      () => false
+    );
+  }
+
+  /**
+   * كل الخطط، الأحدث أولاً
+   */
+  async list(): Promise<PersistedPlan[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const plans: PersistedPlan[] = [];
+    for (const file of files.filter((f) => f.endsWith('.json'))) {
+      plans.push(await this.load(path.basename(file, '.json')));
+    }
+    return plans.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * إلغاء خطة؛ إن كانت تعمل في عملية أخرى فستتوقف عند أول فحص
+   */
+  async abort(id: string): Promise<PersistedPlan> {
+    const plan = await this.load(id);
+    if (plan.status === 'completed') {
+      throw new Error(`Plan already completed: ${id}`);
+    }
+
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(this.abortPath(id), new Date().toISOString());
+
+    plan.status = 'aborted';
+    cancelUnfinished(plan);
+    await this.save(plan);
+    return plan;
+  }
+
+  private planPath(id: string): string {
+    return path.join(this.dir, `${path.basename(id)}.json`);
+  }
+
+  private abortPath(id: string): string {
+    return path.join(this.dir, `${path.basename(id)}.abort`);
+  }
+}
+
+// ============================================
+// 🗺️ Plan Executor Class
+// ============================================
+
+export class PlanExecutor extends EventEmitter {
+  private store: PlanStore;
+  private options: PlanExecutorOptions;
+  private writes: Promise<void> = Promise.resolve();
+  private controller?: AbortController;
+
+  constructor(store: PlanStore, options: PlanExecutorOptions) {
+    super();
+    this.store = store;
+    this.options = options;
+  }
+
+  /**
+   * Run (or resume) a plan until every task is done, a task fails for good,
+   * the signal fires (status 'paused') or the plan is aborted.
+   */
+  async run(planOrId: PersistedPlan | string, signal?: AbortSignal): Promise<PersistedPlan> {
+    if (this.controller) throw new Error('PlanExecutor is already running a plan');
+
+    const plan = typeof planOrId === 'string' ? await this.store.load(planOrId) : planOrId;
+    if (plan.status === 'completed' || plan.status === 'aborted') return plan;
+    if (plan.status === 'running' && plan.pid !== process.pid && isProcessAlive(plan.pid)) {
+      throw new Error(`Plan ${plan.id} is already running (pid ${plan.pid})`);
+    }
+
+    // مهام قطعها توقف مفاجئ أو Ctrl-C، والمهام الفاشلة، تُعاد من البداية
+    for (const task of plan.tasks) {
+      if (task.status === 'in_progress' || task.status === 'failed') task.status = 'pending';
+    }
+
+    const controller = new AbortController();
+    this.controller = controller;
+    const runSignal = anySignal(signal, controller.signal);
+    const running = new Map<string, Promise<void>>();
+    const poll = setInterval(() => {
+      this.writes = this.writes.then(() => this.checkAborted(plan)).catch(() => {});
+    }, this.options.pollInterval ?? 1000);
+    poll.unref?.();
+
+    plan.status = 'running';
+    plan.pid = process.pid;
+    plan.error = undefined;
+
+    try {
+      await this.persist(plan);
+
+      while (!runSignal.aborted) {
+        for (const task of readyTasks(plan)) {
+          if (running.size >= (this.options.concurrency ?? 3)) break;
+          running.set(
+            task.id,
+            this.runTask(plan, task, runSignal).finally(() => running.delete(task.id))
+          );
+        }
+
+        if (running.size === 0) break;
+        await Promise.race(running.values());
+      }
+      await Promise.allSettled(running.values());
+    } finally {
+      clearInterval(poll);
+      this.controller = undefined;
+    }
+
+    plan.pid = undefined;
+    if ((plan.status as PlanRunStatus) === 'aborted') {
+      cancelUnfinished(plan);
+    } else if (runSignal.aborted) {
+      plan.status = 'paused';
+    } else if (plan.tasks.every((t) => t.status === 'completed' || t.status === 'replaced')) {
+      plan.status = 'completed';
+    } else {
+      const failed = plan.tasks.filter((t) => t.status === 'failed');
+      const unknown = unknownDependencies(plan);
+      plan.status = 'failed';
+      plan.error = failed.length
+        ? `Failed tasks: ${failed.map((t) => t.id).join(', ')}`
+        : unknown.length
+          ? `Unknown dependencies: ${unknown.join(', ')}`
+          : 'Some tasks can never run (circular dependencies)';
+    }
+
+    await this.persist(plan);
+    this.emit('plan-finished', plan);
+    return plan;
+  }
+
+  // ============================================
+  // 🔒 Helpers
+  // ============================================
+
+  private async runTask(plan: PersistedPlan, task: PlanTask, signal: AbortSignal): Promise<void> {
+    task.status = 'in_progress';
+    task.attempts++;
+    task.startedAt = new Date().toISOString();
+    task.finishedAt = undefined;
+    task.error = undefined;
+    this.emit('task-started', task);
+    await this.persist(plan);
+
+    try {
+      task.result = await this.options.runTask(task, plan, signal);
+      task.status = 'completed';
+      task.finishedAt = new Date().toISOString();
+      this.emit('task-completed', task);
+    } catch (error: any) {
+      if (signal.aborted) {
+        // لم تكتمل: تُعاد عند الاستئناف
+        task.status = 'pending';
+        task.startedAt = undefined;
+      } else {
+        task.status = 'failed';
+        task.error = error?.message ?? String(error);
+        task.finishedAt = new Date().toISOString();
+        this.emit('task-failed', task, error);
+        await this.replan(plan, task);
+      }
+    }
+
+    await this.persist(plan);
+  }
+
+  /**
+   * يستبدل المهمة الفاشلة وما يعتمد عليها فقط؛ باقي الخطة كما هو
+   */
+  private async replan(plan: PersistedPlan, failed: PlanTask): Promise<void> {
+    if (!this.options.replan || plan.replans >= (this.options.maxReplans ?? 2)) return;
+
+    const subtree = subtreeOf(plan, failed);
+    let tasks: Task[] | null;
+    try {
+      tasks = await this.options.replan(failed, subtree, plan);
+    } catch {
+      return;
+    }
+    if (!tasks || tasks.length === 0 || plan.status !== 'running') return;
+
+    const inSubtree = new Set(subtree.map((t) => t.id));
+    const external = [
+      ...new Set(subtree.flatMap((t) => t.dependencies ?? []).filter((d) => !inSubtree.has(d))),
+    ];
+    const ids = new Map(tasks.map((t) => [t.id, `${failed.id}.${t.id}`]));
+
+    const replacements: PlanTask[] = tasks.map((task) => {
+      const local = (task.dependencies ?? []).filter((d) => ids.has(d)).map((d) => ids.get(d)!);
+      return {
+        id: ids.get(task.id)!,
+        description: task.description,
+        status: 'pending',
+        attempts: 0,
+        dependencies: local.length > 0 ? local : external,
+        replaces: failed.id,
+      };
+    });
+
+    for (const task of subtree) task.status = 'replaced';
+    const last = Math.max(...subtree.map((t) => plan.tasks.indexOf(t)));
+    plan.tasks.splice(last + 1, 0, ...replacements);
+    plan.replans++;
+
+    this.emit('replanned', failed, replacements);
+  }
+
+  // كل الكتابات متسلسلة، وقبل كل كتابة نتحقق إن ألغى أمر `plan abort` الخطة
+  private persist(plan: PersistedPlan): Promise<void> {
+    const write = this.writes.then(async () => {
+      await this.checkAborted(plan);
+      await this.store.save(plan);
+    });
+
+    this.writes = write.catch(() => {});
+    return write;
+  }
+
+  private async checkAborted(plan: PersistedPlan): Promise<void> {
+    if (plan.status !== 'running') return;
+
+    if (await this.store.isAborted(plan.id)) {
+      plan.status = 'aborted';
+      this.controller?.abort(new AbortError(`Plan aborted: ${plan.id}`));
+    }
+  }
+}
+
+// اعتماد على معرّف غير موجود لا يُعد مستوفى: المهمة لا تعمل قبل أوانها
+function readyTasks(plan: PersistedPlan): PlanTask[] {
+  const byId = new Map(plan.tasks.map((t) => [t.id, t]));
+  return plan.tasks.filter(
+    (task) =>
+      task.status === 'pending' &&
+      (task.dependencies ?? []).every((id) => byId.get(id)?.status === 'completed')
+  );
+}
+
+// "task → missing id" لكل اعتماد لا يطابق مهمة في الخطة
+function unknownDependencies(plan: PersistedPlan): string[] {
+  const ids = new Set(plan.tasks.map((t) => t.id));
+  return plan.tasks
+    .filter((task) => task.status === 'pending')
+    .flatMap((task) =>
+      (task.dependencies ?? []).filter((id) => !ids.has(id)).map((id) => `${task.id} → ${id}`)
+    );
+}
+
+function subtreeOf(plan: PersistedPlan, root: PlanTask): PlanTask[] {
+  const subtree = new Set([root]);
+  let grew = true;
+
+  while (grew) {
+    grew = false;
+    for (const task of plan.tasks) {
+      if (subtree.has(task) || task.status === 'replaced') continue;
+      if ((task.dependencies ?? []).some((id) => [...subtree].some((t) => t.id === id))) {
+        subtree.add(task);
+        grew = true;
+      }
+    }
+  }
+  return [...subtree];
+}
+
+function cancelUnfinished(plan: PersistedPlan): void {
+  for (const task of plan.tasks) {
+    if (task.status === 'pending' || task.status === 'in_progress') task.status = 'cancelled';
+  }
+}
+
+function isProcessAlive(pid?: number): boolean {
+  if (!pid) return false;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    return error.code === 'EPERM';
+  }
+}
@@ -3,8 +3,8 @@
 // 🎯 Intelligent Planning System
 // ============================================
 
-import Anthropic from '@anthropic-ai/sdk';
 import chalk from 'chalk';
+import { askRole, type RoleModels } from './role-models.js';
 
 export interface Task {
   id: string;
@@ -21,12 +21,16 @@ export interface Plan {
   estimatedSteps: number;
 }
 
+export interface PlannerOptions {
+  roles?: RoleModels; // نموذج دور "planner" (وغيره) بدل الاختيار التلقائي
+}
+
 export class IntelligentPlanner {
-  private client: Anthropic;
+  private roles?: RoleModels;
   private currentPlan?: Plan;
 
-  constructor(apiKey: string) {
-    this.client = new Anthropic({ apiKey });
+  constructor(options: PlannerOptions = {}) {
+    this.roles = options.roles;
   }
 
   // ============================================
@@ -58,22 +62,14 @@ TASK 3: [وصف المهمة]
 ...`;
 
     try {
-      const response = await this.client.messages.create({
-        model: 'claude-3-5-haiku-20241022',
-        max_tokens: 2000,
-        messages: [{ role: 'user', content: planningPrompt }],
-      });
+      const text = await askRole('planner', planningPrompt, { roles: this.roles });
+      const plan = this.parsePlan(userRequest, text);
+      this.currentPlan = plan;
 
-      const content = response.content[0];
-      if (content.type === 'text') {
-        const plan = this.parsePlan(userRequest, content.text);
-        this.currentPlan = plan;
+      // عرض الخطة
+      this.displayPlan(plan);
 
-        // عرض الخطة
-        this.displayPlan(plan);
-
-        return plan;
-      }
+      return plan;
     } catch (error: any) {
       console.log(chalk.red(`خطأ في التخطيط: ${error.message}`));
     }
@@ -253,19 +249,49 @@ TASK 1: ...
 TASK 2: ...`;
 
     try {
-      const response = await this.client.messages.create({
-        model: 'claude-3-5-haiku-20241022',
-        max_tokens: 2000,
-        messages: [{ role: 'user', content: replanPrompt }],
-      });
+      const text = await askRole('planner', replanPrompt, { roles: this.roles });
+      const newPlan = this.parsePlan(this.currentPlan.goal, text);
+      this.currentPlan = newPlan;
+      this.displayPlan(newPlan);
+      return newPlan;
+    } catch (error: any) {
+      console.log(chalk.red(`فشل في إعادة التخطيط: ${error.message}`));
+    }
 
-      const content = response.content[0];
-      if (content.type === 'text') {
-        const newPlan = this.parsePlan(this.currentPlan.goal, content.text);
-        this.currentPlan = newPlan;
-        this.displayPlan(newPlan);
-        return newPlan;
-      }
+    return null;
+  }
+
+  // ============================================
+  // 🌿 إعادة تخطيط جزئية: المهمة الفاشلة وما يعتمد عليها فقط
+  // ============================================
+  async replanSubtree(
+    goal: string,
+    failedTask: Pick<Task, 'description' | 'error'>,
+    subtree: Pick<Task, 'id' | 'description'>[],
+    completed: Pick<Task, 'id' | 'description'>[] = []
+  ): Promise<Task[] | null> {
+    console.log(chalk.yellow(`\n⚠️ فشلت المهمة "${failedTask.description}", إعادة تخطيط جزئية...`));
+
+    const replanPrompt = `المهمة الأصلية: "${goal}"
+
+المهام المكتملة (لا تكررها):
+${completed.map((t) => `${t.id}. ${t.description}`).join('\n') || '-'}
+
+المهمة الفاشلة: "${failedTask.description}"
+الخطأ: ${failedTask.error || 'غير معروف'}
+
+المهام التي يجب استبدالها (الفاشلة وما يعتمد عليها):
+${subtree.map((t) => `${t.id}. ${t.description}`).join('\n')}
+
+أعطني مهاماً بديلة لهذه المهام فقط بنفس الشكل:
+TASK 1: [وصف المهمة]
+TASK 2: [وصف المهمة] (depends on: 1)`;
+
+    try {
+      const text = await askRole('planner', replanPrompt, { roles: this.roles });
+      const replacement = this.parsePlan(goal, text);
+      this.displayPlan(replacement);
+      return replacement.tasks;
     } catch (error: any) {
       console.log(chalk.red(`فشل في إعادة التخطيط: ${error.message}`));
     }
@@ -0,0 +1,213 @@
+// plugin-manifest.ts
+// ============================================
+// 📜 Plugin Manifest - ملف plugin.json
+// ============================================
+
+import fs from 'fs-extra';
+import path from 'path';
+
+// ============================================
+// 📦 Types & Interfaces
+// ============================================
+
+/**
+ * What a plugin may hook into. `tools`, `commands`, `file-events` and
+ * `error-events` gate what PluginManager wires up. `fs:write`, `exec` and
+ * `network` are advisory: plugins run in the oqool process with its full
+ * Node.js access, so these are only shown to the user at install time and
+ * nothing stops a plugin that did not declare them.
+ */
+export type PluginPermission =
+  | 'tools'
+  | 'commands'
+  | 'file-events'
+  | 'error-events'
+  | 'fs:write'
+  | 'exec'
+  | 'network';
+
+export const PLUGIN_PERMISSIONS: PluginPermission[] = [
+  'tools',
+  'commands',
+  'file-events',
+  'error-events',
+  'fs:write',
+  'exec',
+  'network',
+];
+
+// Declared for the user's information only, never enforced
+export const ADVISORY_PLUGIN_PERMISSIONS: PluginPermission[] = ['fs:write', 'exec', 'network'];
+
+export interface PluginManifest {
+  name: string;
+  version: string;
+  description?: string;
+  author?: string;
+  entry: string; // relative to the plugin directory
+  engines?: { oqool?: string }; // compatible oqool versions, e.g. "^5.0.0"
+  permissions: PluginPermission[];
+}
+
+export const PLUGIN_MANIFEST_FILE = 'plugin.json';
+
+// ============================================
+// ✅ Validation
+// ============================================
+
+/**
+ * Check a parsed plugin.json and fill in defaults. Throws with every problem
+ * found, not just the first.
+ */
+export function validatePluginManifest(raw: any): PluginManifest {
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('plugin.json يجب أن يكون object');
+  }
+
+  if (typeof raw.name !== 'string' || !/^[a-z0-9][a-z0-9-_]*$/.test(raw.name)) {
+    errors.push('name مطلوب (أحرف صغيرة وأرقام و - أو _)');
+  }
+  if (typeof raw.version !== 'string' || !/^\d+\.\d+\.\d+([-+].*)?$/.test(raw.version)) {
+    errors.push('version مطلوب بصيغة x.y.z');
+  }
+
+  const entry = raw.entry ?? 'index.js';
+  if (typeof entry !== 'string' || path.isAbsolute(entry) || entry.split(/[\\/]/).includes('..')) {
+    errors.push('entry يجب أن يكون مساراً نسبياً داخل مجلد الـ plugin');
+  }
+
+  const permissions = raw.permissions ?? [];
+  if (!Array.isArray(permissions)) {
+    errors.push('permissions يجب أن تكون مصفوفة');
+  } else {
+    for (const permission of permissions) {
+      if (!PLUGIN_PERMISSIONS.includes(permission)) {
+        errors.push(`صلاحية غير معروفة: ${permission}`);
+      }
+    }
+  }
+
+  if (raw.engines?.oqool !== undefined && typeof raw.engines.oqool !== 'string') {
+    errors.push('engines.oqool يجب أن يكون نطاق إصدارات مثل "^5.0.0"');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`plugin.json غير صالح:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return {
+    name: raw.name,
+    version: raw.version,
+    description: raw.description,
+    author: raw.author,
+    entry,
+    engines: raw.engines,
+    permissions,
+  };
+}
+
+export async function readPluginManifest(pluginDir: string): Promise<PluginManifest> {
+  const manifestPath = path.join(pluginDir, PLUGIN_MANIFEST_FILE);
+
+  if (!(await fs.pathExists(manifestPath))) {
+    throw new Error(`لا يوجد ${PLUGIN_MANIFEST_FILE} في ${pluginDir}`);
+  }
+
+  return validatePluginManifest(await fs.readJSON(manifestPath));
+}
+
+/**
+ * Whether a manifest's `engines.oqool` range accepts the running version.
+ * No range means any version.
+ */
+export function isPluginCompatible(manifest: PluginManifest, hostVersion?: string): boolean {
+  const range = manifest.engines?.oqool;
+  if (!range || !hostVersion) return true;
+  return satisfiesVersionRange(hostVersion, range);
+}
+
+// ============================================
+// 🔢 Version Ranges
+// ============================================
+
+type Version = [number, number, number];
+
+/**
+ * Minimal npm-style range check: `*`, `1.2.3`, `1.x`, `^1.2.3`, `~1.2.3`,
+ * `>=1.2.0 <2`, and alternatives joined with `||`. Prerelease tags are
+ * ignored.
+ */
+export function satisfiesVersionRange(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  if (!parsed) return false;
+
+  return range
+    .split('||')
+    .some((alternative) =>
+      alternative
+        .trim()
+        .split(/\s+/)
+        .filter(Boolean)
+        .every((comparator) => satisfiesComparator(parsed, comparator))
+    );
+}
+
+function satisfiesComparator(version: Version, comparator: string): boolean {
+  const match = comparator.match(/^(\^|~|>=|<=|>|<|=)?\s*v?(.*)$/);
+  if (!match) return false;
+
+  const operator = match[1] || '';
+  const target = match[2];
+  if (target === '*' || target === 'x' || target === '') return true;
+
+  const parts = target.split('-')[0].split('.');
+  const known = parts.filter((p) => /^\d+$/.test(p)).length;
+  const base = parseVersion(target);
+  if (!base) return false;
+
+  const cmp = compareVersions(version, base);
+
+  switch (operator) {
+    case '>=':
+      return cmp >= 0;
+    case '>':
+      return cmp > 0;
+    case '<=':
+      return cmp <= 0;
+    case '<':
+      return cmp < 0;
+    case '^': {
+      // Up to (not including) the next change in the left-most non-zero part
+      const upper: Version =
+        base[0] > 0 || known === 1
+          ? [base[0] + 1, 0, 0]
+          : base[1] > 0 || known === 2
+            ? [0, base[1] + 1, 0]
+            : [0, 0, base[2] + 1];
+      return cmp >= 0 && compareVersions(version, upper) < 0;
+    }
+    case '~': {
+      const upper: Version = known === 1 ? [base[0] + 1, 0, 0] : [base[0], base[1] + 1, 0];
+      return cmp >= 0 && compareVersions(version, upper) < 0;
+    }
+    default:
+      // `1.2.3` must match exactly; `1.x` / `1` only on the parts given
+      return version.slice(0, known).every((n, i) => n === base[i]);
+  }
+}
+
+function parseVersion(value: string): Version | null {
+  const match = value.trim().match(/^v?(\d+)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?(?:[-+].*)?$/);
+  if (!match) return null;
+  const part = (p?: string) => (p && /^\d+$/.test(p) ? parseInt(p) : 0);
+  return [part(match[1]), part(match[2]), part(match[3])];
+}
+
+function compareVersions(a: Version, b: Version): number {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
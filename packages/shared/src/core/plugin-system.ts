@@ -4,13 +4,26 @@
 // ============================================
 
 import fs from 'fs-extra';
-import { join } from 'path';
+import { join, resolve } from 'path';
+import { pathToFileURL } from 'url';
 import chalk from 'chalk';
+import type { Command as CommanderCommand } from 'commander';
+import { ToolRegistry } from './tool-registry.js';
+import { toolRegistry } from './tools.js';
+import { FileWatcher } from './file-watcher.js';
+import {
+  PluginManifest,
+  PluginPermission,
+  PLUGIN_PERMISSIONS,
+  PLUGIN_MANIFEST_FILE,
+  readPluginManifest,
+  isPluginCompatible,
+} from './plugin-manifest.js';
 
 export interface ToolDefinition {
   name: string;
   description: string;
-  parameters: any;
+  parameters: any; // JSON schema: { type: 'object', properties, required }
   execute: (params: any) => Promise<any>;
 }
 
@@ -38,63 +51,238 @@ export interface oqoolPlugin {
   commands?: Command[];
 }
 
+export interface PluginManagerOptions {
+  registry?: ToolRegistry;
+  hostVersion?: string; // checked against the manifest's engines.oqool
+  hookTimeout?: number; // ms, default 10000
+  verbose?: boolean; // default true
+}
+
+export interface InstalledPlugin {
+  name: string;
+  version: string;
+  enabled: boolean;
+  loaded: boolean;
+  compatible: boolean;
+  manifest?: PluginManifest;
+  error?: string;
+}
+
+interface PluginConfigEntry {
+  name: string;
+  version: string;
+  enabled?: boolean; // missing = enabled (older config files)
+}
+
+interface LoadedPlugin {
+  plugin: oqoolPlugin;
+  manifest: PluginManifest | null; // null = loaded directly by path
+  permissions: Set<PluginPermission>;
+}
+
+// Hooks that only run for plugins that declared the matching permission
+const HOOK_PERMISSIONS: Partial<Record<keyof oqoolPlugin, PluginPermission>> = {
+  onFileChange: 'file-events',
+  onError: 'error-events',
+};
+
 export class PluginManager {
-  private plugins: Map<string, oqoolPlugin> = new Map();
+  private plugins: Map<string, LoadedPlugin> = new Map();
   private pluginDir: string;
+  private registry: ToolRegistry;
+  private hostVersion?: string;
+  private hookTimeout: number;
+  private verbose: boolean;
 
-  constructor(workingDirectory: string) {
+  constructor(workingDirectory: string, options: PluginManagerOptions = {}) {
     this.pluginDir = join(workingDirectory, '.oqool', 'plugins');
+    this.registry = options.registry || toolRegistry;
+    this.hostVersion = options.hostVersion;
+    this.hookTimeout = options.hookTimeout ?? 10000;
+    this.verbose = options.verbose ?? true;
   }
 
   // ============================================
   // 📦 تحميل Plugin
   // ============================================
-  async load(pluginPath: string): Promise<void> {
+  /**
+   * Load a plugin module. With a manifest, only what its permissions allow
+   * is wired up; without one (a bare path) the plugin is fully trusted.
+   */
+  async load(pluginPath: string, manifest: PluginManifest | null = null): Promise<void> {
     try {
-      console.log(chalk.cyan(`📦 تحميل plugin من ${pluginPath}...`));
+      this.log(chalk.cyan(`📦 تحميل plugin من ${pluginPath}...`));
 
       // استيراد الـ plugin
-      const pluginModule = await import(pluginPath);
+      const pluginModule = await import(pathToFileURL(resolve(pluginPath)).href);
       const plugin: oqoolPlugin = pluginModule.default || pluginModule;
 
       // التحقق من البنية
       if (!plugin.name || !plugin.version) {
         throw new Error('Plugin يجب أن يحتوي على name و version');
       }
+      if (manifest && plugin.name !== manifest.name) {
+        throw new Error(
+          `اسم الـ plugin (${plugin.name}) لا يطابق ${PLUGIN_MANIFEST_FILE} (${manifest.name})`
+        );
+      }
+      if (this.plugins.has(plugin.name)) {
+        throw new Error(`Plugin ${plugin.name} محمل مسبقاً`);
+      }
 
-      // تشغيل onLoad
-      if (plugin.onLoad) {
-        await plugin.onLoad();
+      const permissions = new Set(manifest ? manifest.permissions : PLUGIN_PERMISSIONS);
+
+      // تسجيل أدوات الـ plugin في سجل الأدوات
+      if (plugin.tools?.length && !permissions.has('tools')) {
+        console.warn(chalk.yellow(`⚠️  ${plugin.name}: تجاهل الأدوات (لا توجد صلاحية tools)`));
+      } else {
+        for (const tool of plugin.tools || []) {
+          try {
+            this.registry.register(tool, plugin.name);
+          } catch (error: any) {
+            console.warn(chalk.yellow(`⚠️  تجاهل الأداة ${tool.name}: ${error.message}`));
+          }
+        }
+      }
+
+      // تشغيل onLoad (فشله يلغي التحميل بالكامل)
+      try {
+        await this.runHook(plugin, 'onLoad', []);
+      } catch (error) {
+        this.registry.unregisterSource(plugin.name);
+        throw error;
       }
 
       // حفظ في القائمة
-      this.plugins.set(plugin.name, plugin);
+      this.plugins.set(plugin.name, { plugin, manifest, permissions });
 
-      console.log(chalk.green(`✅ تم تحميل plugin: ${plugin.name}@${plugin.version}`));
+      this.log(chalk.green(`✅ تم تحميل plugin: ${plugin.name}@${plugin.version}`));
     } catch (error: any) {
       console.error(chalk.red(`❌ فشل تحميل plugin: ${error.message}`));
       throw error;
     }
   }
 
+  /**
+   * Load a plugin installed under `.oqool/plugins/<name>` through its manifest.
+   */
+  async loadInstalled(name: string): Promise<void> {
+    const dir = join(this.pluginDir, name);
+    const manifest = await readPluginManifest(dir);
+
+    this.assertCompatible(manifest);
+
+    await this.load(join(dir, manifest.entry), manifest);
+  }
+
   // ============================================
   // ❌ إلغاء تحميل Plugin
   // ============================================
   async unload(pluginName: string): Promise<void> {
-    const plugin = this.plugins.get(pluginName);
+    const loaded = this.plugins.get(pluginName);
 
-    if (!plugin) {
+    if (!loaded) {
       throw new Error(`Plugin ${pluginName} غير محمل`);
     }
 
     // تشغيل onUnload
-    if (plugin.onUnload) {
-      await plugin.onUnload();
+    try {
+      await this.runHook(loaded.plugin, 'onUnload', []);
+    } catch (error: any) {
+      console.warn(chalk.yellow(`⚠️  ${pluginName}: فشل onUnload: ${error.message}`));
     }
 
+    this.registry.unregisterSource(pluginName);
     this.plugins.delete(pluginName);
 
-    console.log(chalk.yellow(`🗑️  تم إلغاء تحميل plugin: ${pluginName}`));
+    this.log(chalk.yellow(`🗑️  تم إلغاء تحميل plugin: ${pluginName}`));
+  }
+
+  // ============================================
+  // 📥 تثبيت / حذف / تفعيل
+  // ============================================
+  /**
+   * Copy a plugin directory (containing plugin.json) into
+   * `.oqool/plugins/<name>` and enable it. Takes effect on the next start.
+   */
+  async install(sourceDir: string): Promise<PluginManifest> {
+    const manifest = await readPluginManifest(sourceDir);
+
+    this.assertCompatible(manifest);
+    if (!(await fs.pathExists(join(sourceDir, manifest.entry)))) {
+      throw new Error(`ملف الدخول غير موجود: ${manifest.entry}`);
+    }
+
+    const target = join(this.pluginDir, manifest.name);
+    if (await fs.pathExists(target)) {
+      throw new Error(`Plugin ${manifest.name} مثبت مسبقاً - احذفه أولاً`);
+    }
+
+    await fs.copy(sourceDir, target);
+
+    const entries = (await this.readConfig()).filter((e) => e.name !== manifest.name);
+    entries.push({ name: manifest.name, version: manifest.version, enabled: true });
+    await this.writeConfig(entries);
+
+    return manifest;
+  }
+
+  async remove(name: string): Promise<void> {
+    const entries = await this.readConfig();
+    const dir = join(this.pluginDir, name);
+
+    if (!entries.some((e) => e.name === name) && !(await fs.pathExists(dir))) {
+      throw new Error(`Plugin ${name} غير مثبت`);
+    }
+
+    if (this.plugins.has(name)) {
+      await this.unload(name);
+    }
+
+    await fs.remove(dir);
+    await this.writeConfig(entries.filter((e) => e.name !== name));
+  }
+
+  async setEnabled(name: string, enabled: boolean): Promise<void> {
+    const entries = await this.readConfig();
+    const entry = entries.find((e) => e.name === name);
+
+    if (!entry) {
+      throw new Error(`Plugin ${name} غير مثبت`);
+    }
+
+    entry.enabled = enabled;
+    await this.writeConfig(entries);
+
+    if (!enabled && this.plugins.has(name)) {
+      await this.unload(name);
+    }
+  }
+
+  async listInstalled(): Promise<InstalledPlugin[]> {
+    const installed: InstalledPlugin[] = [];
+
+    for (const entry of await this.readConfig()) {
+      const item: InstalledPlugin = {
+        name: entry.name,
+        version: entry.version,
+        enabled: entry.enabled !== false,
+        loaded: this.plugins.has(entry.name),
+        compatible: true,
+      };
+
+      try {
+        item.manifest = await readPluginManifest(join(this.pluginDir, entry.name));
+        item.version = item.manifest.version;
+        item.compatible = isPluginCompatible(item.manifest, this.hostVersion);
+      } catch (error: any) {
+        item.error = error.message;
+      }
+
+      installed.push(item);
+    }
+
+    return installed;
   }
 
   // ============================================
@@ -103,8 +291,8 @@ export class PluginManager {
   getAllTools(): ToolDefinition[] {
     const tools: ToolDefinition[] = [];
 
-    for (const plugin of this.plugins.values()) {
-      if (plugin.tools) {
+    for (const { plugin, permissions } of this.plugins.values()) {
+      if (plugin.tools && permissions.has('tools')) {
         tools.push(...plugin.tools);
       }
     }
@@ -118,8 +306,8 @@ export class PluginManager {
   getAllCommands(): Command[] {
     const commands: Command[] = [];
 
-    for (const plugin of this.plugins.values()) {
-      if (plugin.commands) {
+    for (const { plugin, permissions } of this.plugins.values()) {
+      if (plugin.commands && permissions.has('commands')) {
         commands.push(...plugin.commands);
       }
     }
@@ -127,66 +315,188 @@ export class PluginManager {
     return commands;
   }
 
+  /**
+   * Mount each plugin's commands under `oqool <plugin> <command>`. Plugins
+   * whose name clashes with a built-in command are skipped.
+   */
+  mountCommands(program: CommanderCommand): void {
+    for (const { plugin, permissions } of this.plugins.values()) {
+      if (!plugin.commands?.length || !permissions.has('commands')) continue;
+
+      if (program.commands.some((c) => c.name() === plugin.name)) {
+        console.warn(chalk.yellow(`⚠️  ${plugin.name}: الاسم مستخدم لأمر موجود - تم تجاهل أوامره`));
+        continue;
+      }
+
+      const group = program
+        .command(plugin.name)
+        .description(plugin.description || `أوامر plugin ${plugin.name}`);
+
+      for (const command of plugin.commands) {
+        // `example:hello` in plugin `example` becomes `oqool example hello`
+        const name = command.name.startsWith(`${plugin.name}:`)
+          ? command.name.slice(plugin.name.length + 1)
+          : command.name;
+
+        group
+          .command(`${name} [args...]`)
+          .description(command.description)
+          .allowUnknownOption()
+          .action(async (args: string[] = []) => {
+            try {
+              await command.action(...args);
+            } catch (error: any) {
+              console.error(chalk.red(`\n❌ ${plugin.name} ${name}:`), error.message);
+              await this.reportError(error);
+              process.exitCode = 1;
+            }
+          });
+      }
+    }
+  }
+
   // ============================================
   // 📋 قائمة الـ Plugins المحملة
   // ============================================
   list(): oqoolPlugin[] {
-    return Array.from(this.plugins.values());
+    return Array.from(this.plugins.values()).map((p) => p.plugin);
   }
 
   // ============================================
   // 🎯 تشغيل Hook لكل الـ Plugins
   // ============================================
+  /**
+   * Run a hook on every loaded plugin allowed to receive it. Each call is
+   * isolated: a throwing or hanging plugin is logged and the rest still run.
+   */
   async triggerHook(hookName: keyof oqoolPlugin, ...args: any[]): Promise<void> {
-    for (const plugin of this.plugins.values()) {
-      const hook = plugin[hookName] as any;
-
-      if (typeof hook === 'function') {
-        try {
-          await hook.apply(plugin, args);
-        } catch (error) {
-          console.error(chalk.red(`❌ خطأ في plugin ${plugin.name} - hook ${hookName}:`), error);
-        }
+    const required = HOOK_PERMISSIONS[hookName];
+
+    for (const { plugin, permissions } of this.plugins.values()) {
+      if (required && !permissions.has(required)) continue;
+
+      try {
+        await this.runHook(plugin, hookName, args);
+      } catch (error) {
+        console.error(chalk.red(`❌ خطأ في plugin ${plugin.name} - hook ${hookName}:`), error);
       }
     }
   }
 
+  hasHook(hookName: keyof oqoolPlugin): boolean {
+    const required = HOOK_PERMISSIONS[hookName];
+    return Array.from(this.plugins.values()).some(
+      ({ plugin, permissions }) =>
+        typeof plugin[hookName] === 'function' && (!required || permissions.has(required))
+    );
+  }
+
+  /**
+   * Forward an error to the plugins' `onError` hooks.
+   */
+  async reportError(error: unknown): Promise<void> {
+    const err = error instanceof Error ? error : new Error(String(error));
+    await this.triggerHook('onError', err);
+  }
+
+  /**
+   * Dispatch `onFileChange` for every change a FileWatcher reports.
+   */
+  attachFileWatcher(watcher: FileWatcher): void {
+    watcher.onChange((change) => {
+      void this.triggerHook('onFileChange', change.path);
+    });
+  }
+
   // ============================================
   // 💾 حفظ قائمة الـ Plugins المفعلة
   // ============================================
   async saveConfig(): Promise<void> {
-    await fs.ensureDir(this.pluginDir);
-
-    const config = {
-      plugins: Array.from(this.plugins.values()).map((p) => ({
-        name: p.name,
-        version: p.version,
-      })),
-    };
+    const entries = await this.readConfig();
+
+    for (const { plugin } of this.plugins.values()) {
+      const existing = entries.find((e) => e.name === plugin.name);
+      if (existing) {
+        existing.version = plugin.version;
+        existing.enabled = true;
+      } else {
+        entries.push({ name: plugin.name, version: plugin.version, enabled: true });
+      }
+    }
 
-    await fs.writeJSON(join(this.pluginDir, 'config.json'), config, { spaces: 2 });
+    await this.writeConfig(entries);
   }
 
   // ============================================
   // 📖 تحميل الـ Plugins من Config
   // ============================================
   async loadFromConfig(): Promise<void> {
+    for (const entry of await this.readConfig()) {
+      if (entry.enabled === false || this.plugins.has(entry.name)) continue;
+
+      try {
+        const dir = join(this.pluginDir, entry.name);
+        if (await fs.pathExists(join(dir, PLUGIN_MANIFEST_FILE))) {
+          await this.loadInstalled(entry.name);
+        } else {
+          // Plugins saved before manifests existed
+          await this.load(join(dir, 'index.js'));
+        }
+      } catch (error) {
+        console.warn(chalk.yellow(`⚠️  تعذر تحميل plugin: ${entry.name}`));
+      }
+    }
+  }
+
+  // ============================================
+  // 🛠️ Helpers
+  // ============================================
+  private async runHook(plugin: oqoolPlugin, hookName: keyof oqoolPlugin, args: any[]) {
+    const hook = plugin[hookName] as any;
+    if (typeof hook !== 'function') return;
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`انتهت مهلة ${hookName} (${this.hookTimeout}ms)`)),
+        this.hookTimeout
+      );
+    });
+
+    try {
+      await Promise.race([Promise.resolve(hook.apply(plugin, args)), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private assertCompatible(manifest: PluginManifest): void {
+    if (!isPluginCompatible(manifest, this.hostVersion)) {
+      throw new Error(
+        `${manifest.name}@${manifest.version} يتطلب oqool ${manifest.engines?.oqool} ` +
+          `(الإصدار الحالي ${this.hostVersion})`
+      );
+    }
+  }
+
+  private async readConfig(): Promise<PluginConfigEntry[]> {
     const configPath = join(this.pluginDir, 'config.json');
 
     if (!(await fs.pathExists(configPath))) {
-      return;
+      return [];
     }
 
     const config = await fs.readJSON(configPath);
+    return config.plugins || [];
+  }
 
-    for (const pluginInfo of config.plugins || []) {
-      try {
-        const pluginPath = join(this.pluginDir, pluginInfo.name, 'index.js');
-        await this.load(pluginPath);
-      } catch (error) {
-        console.warn(chalk.yellow(`⚠️  تعذر تحميل plugin: ${pluginInfo.name}`));
-      }
-    }
+  private async writeConfig(entries: PluginConfigEntry[]): Promise<void> {
+    await fs.ensureDir(this.pluginDir);
+    await fs.writeJSON(join(this.pluginDir, 'config.json'), { plugins: entries }, { spaces: 2 });
+  }
+
+  private log(message: string): void {
+    if (this.verbose) console.log(message);
   }
 }
 
@@ -0,0 +1,120 @@
+// role-models.ts
+// ============================================
+// 🎭 Role Models - نموذج لكل دور عبر المنفذ الموحد
+// ============================================
+// The planner and the agent team send their prompts through UnifiedExecutor
+// like every other command, so fallback, caching, budgets and the cost
+// ledger apply to them too. Each role may ask for its own provider/model,
+// e.g. a strong model for design and a cheap one for tests:
+//   OQOOL_MODEL_ARCHITECT=claude:claude-3-5-sonnet-20241022
+//   OQOOL_MODEL_TESTER=deepseek
+
+import type { ExecutionOptions } from '../ai-providers/unified-executor-pro.js';
+
+// ============================================
+// 📦 Types & Interfaces
+// ============================================
+
+export type AgentRole = 'planner' | 'architect' | 'coder' | 'tester' | 'reviewer';
+
+export interface RoleModel {
+  provider?: string; // بدون مزود يختار الموجه تلقائياً
+  model?: string; // يُستخدم فقط مع provider
+  priority?: ExecutionOptions['priority'];
+  maxTokens?: number;
+}
+
+export type RoleModels = Partial<Record<AgentRole, RoleModel>>;
+
+export const AGENT_ROLES: AgentRole[] = ['planner', 'architect', 'coder', 'tester', 'reviewer'];
+
+export const DEFAULT_ROLE_MODELS: Record<AgentRole, RoleModel> = {
+  planner: { priority: 'speed', maxTokens: 2000 },
+  architect: { priority: 'quality', maxTokens: 4096 },
+  coder: { priority: 'quality', maxTokens: 8192 },
+  tester: { priority: 'cost', maxTokens: 4096 },
+  reviewer: { priority: 'balanced', maxTokens: 8192 }, // يعيد كتابة الكود بعد المراجعة
+};
+
+// ============================================
+// ⚙️ Configuration
+// ============================================
+
+/**
+ * "tester=deepseek" أو "architect=claude:claude-3-5-sonnet-20241022"
+ */
+export function parseRoleModels(specs: string[]): RoleModels {
+  const roles: RoleModels = {};
+
+  for (const spec of specs) {
+    const match = spec.match(/^(\w+)=([\w.-]+)(?::(.+))?$/);
+    if (!match || !AGENT_ROLES.includes(match[1] as AgentRole)) {
+      throw new Error(
+        `Invalid role model "${spec}" (expected <${AGENT_ROLES.join('|')}>=provider[:model])`
+      );
+    }
+    roles[match[1] as AgentRole] = { provider: match[2], model: match[3] };
+  }
+  return roles;
+}
+
+export function roleModelsFromEnv(env: NodeJS.ProcessEnv = process.env): RoleModels {
+  const specs = AGENT_ROLES.filter((role) => env[`OQOOL_MODEL_${role.toUpperCase()}`]).map(
+    (role) => `${role}=${env[`OQOOL_MODEL_${role.toUpperCase()}`]}`
+  );
+  return parseRoleModels(specs);
+}
+
+/**
+ * الافتراضي، ثم متغيرات البيئة، ثم ما مرره المستدعي
+ */
+export function resolveRoleModel(role: AgentRole, overrides: RoleModels = {}): RoleModel {
+  const layers = [DEFAULT_ROLE_MODELS[role], roleModelsFromEnv()[role], overrides[role]];
+
+  return layers.reduce<RoleModel>((resolved, layer) => {
+    if (!layer) return resolved;
+    // مزود جديد لا يرث نموذج المزود السابق
+    const model = layer.provider ? { model: layer.model } : {};
+    return { ...resolved, ...layer, ...model };
+  }, {});
+}
+
+// ============================================
+// 🚀 Execution
+// ============================================
+
+export interface RoleRequestOptions {
+  roles?: RoleModels;
+  systemPrompt?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * إرسال طلب دور عبر المنفذ الموحد وإرجاع النص
+ */
+export async function askRole(
+  role: AgentRole,
+  prompt: string,
+  options: RoleRequestOptions = {}
+): Promise<string> {
+  const { provider, model, priority, maxTokens } = resolveRoleModel(role, options.roles);
+  // تحميل كسول: المنفذ يسحب المزودات وواجهة الطرفية، ولا حاجة لها لقراءة الإعدادات
+  const { getUnifiedExecutor } = await import('../ai-providers/unified-executor-pro.js');
+
+  const result = await getUnifiedExecutor().execute(prompt, {
+    provider,
+    model,
+    priority,
+    maxTokens,
+    useTools: false,
+    quiet: true, // الدور جزء من أمر أكبر: العرض مسؤولية المستدعي
+    systemPrompt: options.systemPrompt,
+    signal: options.signal,
+    metadata: { role }, // يُسجل مع التكلفة: oqool cost report --by role
+  });
+
+  if (!result.success) {
+    throw new Error(result.error || `${role} request failed`);
+  }
+  return result.response ?? '';
+}
@@ -0,0 +1,403 @@
+// sandbox-workspace.ts
+// ============================================
+// 🧪 Sandbox Workspace - تنفيذ معزول على نسخة من المشروع
+// ============================================
+// The project is mirrored into a temp directory (copy-on-write clones where
+// the filesystem supports them) and commands run there in a child process
+// with its own cwd, HOME/TMPDIR, a minimal environment and a timeout.
+// Symlinks into the project are re-pointed at the copy; symlinks leading
+// outside it are not mirrored, so writes through them cannot escape. The
+// result carries the exit status and the real diff against the project;
+// promote() copies chosen changes back once the user is happy with them.
+
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { spawn } from 'child_process';
+import { createHunks, diffLines, formatUnifiedDiff, splitLines } from './line-diff.js';
+import { killProcessTree } from './tools.js';
+
+// ============================================
+// 📦 Types & Interfaces
+// ============================================
+
+export interface SandboxOptions {
+  root: string; // project to mirror
+  exclude?: string[]; // file/dir names never copied, at any depth
+  linked?: string[]; // top-level dirs symlinked instead of copied (shared, not isolated)
+  timeout?: number; // ms per run, default 120000
+  env?: Record<string, string>; // extra variables for the child
+  inheritEnv?: string[]; // variables passed through from this process
+  maxOutput?: number; // characters kept of stdout/stderr each
+}
+
+export interface SandboxFileChange {
+  path: string; // relative to the project, '/' separated
+  type: 'added' | 'modified' | 'deleted';
+  diff?: string; // unified diff, text files only
+  binary?: boolean;
+  conflict?: boolean; // the project file changed since the sandbox was created
+}
+
+export interface SandboxRunResult {
+  sandboxId: string;
+  workspace: string;
+  command: string;
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  cancelled: boolean;
+  stdout: string;
+  stderr: string;
+  duration: number;
+  changes: SandboxFileChange[];
+}
+
+export const DEFAULT_SANDBOX_EXCLUDE = ['.git', '.trash', '.oqool-agent', '.DS_Store'];
+export const DEFAULT_SANDBOX_LINKED = ['node_modules'];
+
+// لا مفاتيح API ولا أسرار: فقط ما تحتاجه الأوامر لتعمل
+export const DEFAULT_SANDBOX_ENV = [
+  'PATH',
+  'LANG',
+  'LC_ALL',
+  'TERM',
+  'SHELL',
+  'USER',
+  'SystemRoot',
+  'ComSpec',
+  'PATHEXT',
+];
+
+// ============================================
+// ❌ Conflict Error
+// ============================================
+
+export class SandboxConflictError extends Error {
+  public readonly paths: string[];
+
+  constructor(paths: string[]) {
+    super(`Project files changed since the sandbox was created: ${paths.join(', ')}`);
+    this.name = 'SandboxConflictError';
+    this.paths = paths;
+
+    Object.setPrototypeOf(this, SandboxConflictError.prototype);
+  }
+}
+
+export class SandboxRunError extends Error {
+  public readonly result: SandboxRunResult;
+
+  constructor(result: SandboxRunResult) {
+    const status = result.timedOut
+      ? 'timed out'
+      : `exited with ${result.exitCode ?? result.signal ?? 'an error'}`;
+    super(`Sandboxed command ${status}: ${result.command}`);
+    this.name = 'SandboxRunError';
+    this.result = result;
+
+    Object.setPrototypeOf(this, SandboxRunError.prototype);
+  }
+}
+
+// ============================================
+// 🧪 Sandbox Workspace Class
+// ============================================
+
+export class SandboxWorkspace {
+  readonly id: string;
+  readonly root: string;
+  readonly workspace: string;
+  readonly skippedLinks: string[] = []; // symlinks pointing outside the project
+  private dir: string;
+  private options: SandboxOptions;
+  private baseline = new Map<string, string>(); // path → sha256 when mirrored
+
+  private constructor(dir: string, options: SandboxOptions) {
+    this.dir = dir;
+    this.id = path.basename(dir);
+    this.root = path.resolve(options.root);
+    this.workspace = path.join(dir, 'workspace');
+    this.options = options;
+  }
+
+  /**
+   * نسخ المشروع إلى مساحة مؤقتة معزولة
+   */
+  static async create(options: SandboxOptions): Promise<SandboxWorkspace> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'oqool-sandbox-'));
+    const sandbox = new SandboxWorkspace(dir, options);
+
+    try {
+      await fs.ensureDir(path.join(dir, 'home'));
+      await fs.ensureDir(path.join(dir, 'tmp'));
+      await sandbox.mirror(sandbox.root, sandbox.workspace, '');
+    } catch (error) {
+      await fs.remove(dir);
+      throw error;
+    }
+    return sandbox;
+  }
+
+  /**
+   * تشغيل أمر داخل المساحة المعزولة وإرجاع حالة الخروج والفروقات
+   */
+  run(
+    command: string,
+    options: { timeout?: number; signal?: AbortSignal } = {}
+  ): Promise<SandboxRunResult> {
+    const startTime = Date.now();
+    const timeout = options.timeout ?? this.options.timeout ?? 120000;
+    const maxOutput = this.options.maxOutput ?? 100_000;
+
+    return new Promise((resolve) => {
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+      let cancelled = false;
+      let settled = false;
+
+      const child = spawn(command, {
+        shell: true,
+        cwd: this.workspace,
+        env: this.environment(),
+        stdio: ['ignore', 'pipe', 'pipe'],
+        detached: process.platform !== 'win32',
+      });
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        killProcessTree(child);
+      }, timeout);
+
+      const onAbort = () => {
+        cancelled = true;
+        killProcessTree(child);
+      };
+      if (options.signal?.aborted) onAbort();
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      child.stdout?.on('data', (chunk) => {
+        stdout = (stdout + chunk.toString()).slice(0, maxOutput);
+      });
+      child.stderr?.on('data', (chunk) => {
+        stderr = (stderr + chunk.toString()).slice(0, maxOutput);
+      });
+
+      const finish = (exitCode: number | null, signal: string | null) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+
+        resolve(
+          this.diff().then((changes) => ({
+            sandboxId: this.id,
+            workspace: this.workspace,
+            command,
+            exitCode,
+            signal,
+            timedOut,
+            cancelled,
+            stdout,
+            stderr,
+            duration: Date.now() - startTime,
+            changes,
+          }))
+        );
+      };
+
+      child.on('error', (error) => {
+        stderr += error.message;
+        finish(null, null);
+      });
+      child.on('close', (code, signal) => finish(code, signal));
+    });
+  }
+
+  /**
+   * الفروقات بين المساحة المعزولة والمشروع
+   */
+  async diff(): Promise<SandboxFileChange[]> {
+    const current = new Map<string, string>();
+    await this.hashTree(this.workspace, '', current);
+
+    const changes: SandboxFileChange[] = [];
+    const paths = new Set([...this.baseline.keys(), ...current.keys()]);
+
+    for (const file of [...paths].sort()) {
+      const before = this.baseline.get(file);
+      const after = current.get(file);
+      if (before === after) continue;
+
+      const type = !before ? 'added' : !after ? 'deleted' : 'modified';
+      changes.push(await this.describe(file, type, after));
+    }
+
+    return changes;
+  }
+
+  /**
+   * نقل التغييرات (كلها أو المحددة) إلى المشروع الحقيقي
+   */
+  async promote(paths?: string[], options: { force?: boolean } = {}): Promise<string[]> {
+    const changes = (await this.diff()).filter((c) => !paths || paths.includes(c.path));
+    const conflicts = changes.filter((c) => c.conflict).map((c) => c.path);
+    if (conflicts.length > 0 && !options.force) {
+      throw new SandboxConflictError(conflicts);
+    }
+
+    for (const change of changes) {
+      const target = path.join(this.root, change.path);
+      if (change.type === 'deleted') {
+        await fs.remove(target);
+        this.baseline.delete(change.path);
+      } else {
+        const source = path.join(this.workspace, change.path);
+        await fs.copy(source, target, { overwrite: true });
+        this.baseline.set(change.path, await hashFile(source));
+      }
+    }
+
+    return changes.map((c) => c.path);
+  }
+
+  /**
+   * حذف المساحة المؤقتة
+   */
+  async dispose(): Promise<void> {
+    await fs.remove(this.dir);
+  }
+
+  // ============================================
+  // 🔒 Helpers
+  // ============================================
+
+  private environment(): NodeJS.ProcessEnv {
+    const env: NodeJS.ProcessEnv = {};
+    for (const name of this.options.inheritEnv ?? DEFAULT_SANDBOX_ENV) {
+      if (process.env[name] !== undefined) env[name] = process.env[name];
+    }
+
+    const home = path.join(this.dir, 'home');
+    const tmp = path.join(this.dir, 'tmp');
+    return {
+      ...env,
+      HOME: home,
+      USERPROFILE: home,
+      TMPDIR: tmp,
+      TMP: tmp,
+      TEMP: tmp,
+      ...this.options.env,
+    };
+  }
+
+  private isExcluded(name: string): boolean {
+    return (this.options.exclude ?? DEFAULT_SANDBOX_EXCLUDE).includes(name);
+  }
+
+  private isLinked(relative: string): boolean {
+    return (this.options.linked ?? DEFAULT_SANDBOX_LINKED).includes(relative);
+  }
+
+  private async mirror(from: string, to: string, relative: string): Promise<void> {
+    await fs.ensureDir(to);
+
+    for (const entry of await fs.readdir(from, { withFileTypes: true })) {
+      if (this.isExcluded(entry.name)) continue;
+
+      const source = path.join(from, entry.name);
+      const target = path.join(to, entry.name);
+      const file = relative ? `${relative}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory() && this.isLinked(file)) {
+        await fs.symlink(source, target, 'junction');
+      } else if (entry.isDirectory()) {
+        await this.mirror(source, target, file);
+      } else if (entry.isSymbolicLink()) {
+        await this.mirrorLink(source, target, file);
+      } else if (entry.isFile()) {
+        // نسخة copy-on-write إن دعمها نظام الملفات، وإلا نسخة عادية
+        await fs.copyFile(source, target, fs.constants.COPYFILE_FICLONE);
+        this.baseline.set(file, await hashFile(source));
+      }
+    }
+  }
+
+  /**
+   * رابط داخل المشروع يشير إلى النسخة المعزولة؛ رابط يخرج منه لا يُنسخ
+   */
+  private async mirrorLink(source: string, target: string, file: string): Promise<void> {
+    const resolved = path.resolve(path.dirname(source), await fs.readlink(source));
+    const inside = path.relative(this.root, resolved);
+    if (inside === '..' || inside.startsWith(`..${path.sep}`) || path.isAbsolute(inside)) {
+      this.skippedLinks.push(file);
+      return;
+    }
+
+    const mirrored = path.join(this.workspace, inside);
+    await fs.symlink(path.relative(path.dirname(target), mirrored) || '.', target);
+  }
+
+  private async hashTree(
+    dir: string,
+    relative: string,
+    into: Map<string, string>
+  ): Promise<void> {
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      const file = relative ? `${relative}/${entry.name}` : entry.name;
+      if (this.isExcluded(entry.name) || this.isLinked(file)) continue;
+
+      const absolute = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await this.hashTree(absolute, file, into);
+      } else if (entry.isFile()) {
+        into.set(file, await hashFile(absolute));
+      }
+    }
+  }
+
+  private async describe(
+    file: string,
+    type: SandboxFileChange['type'],
+    hash: string | undefined
+  ): Promise<SandboxFileChange> {
+    const projectFile = path.join(this.root, file);
+    const projectHash = (await fs.pathExists(projectFile))
+      ? await hashFile(projectFile)
+      : undefined;
+    // added: the project gained the same path meanwhile; otherwise it moved on
+    const conflict =
+      type === 'added'
+        ? projectHash !== undefined && projectHash !== hash
+        : projectHash !== this.baseline.get(file);
+
+    const before = projectHash ? await fs.readFile(projectFile) : Buffer.alloc(0);
+    const after =
+      type === 'deleted' ? Buffer.alloc(0) : await fs.readFile(path.join(this.workspace, file));
+
+    if (isBinary(before) || isBinary(after)) {
+      return { path: file, type, binary: true, conflict };
+    }
+
+    const lines = diffLines(
+      splitLines(before.toString('utf-8')),
+      splitLines(after.toString('utf-8'))
+    );
+    const diff = formatUnifiedDiff(
+      createHunks(lines),
+      type === 'added' ? '/dev/null' : `a/${file}`,
+      type === 'deleted' ? '/dev/null' : `b/${file}`
+    );
+    return { path: file, type, diff, conflict };
+  }
+}
+
+async function hashFile(file: string): Promise<string> {
+  return crypto.createHash('sha256').update(await fs.readFile(file)).digest('hex');
+}
+
+function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
@@ -0,0 +1,256 @@
+// three-way-merge.ts
+// ============================================
+// 🔀 Three-Way Merge - دمج ثلاثي (base / ours / theirs)
+// ============================================
+
+import { DiffLine, diffLines } from './line-diff.js';
+
+// ============================================
+// 📦 Types & Interfaces
+// ============================================
+
+export type MergeChunkType = 'unchanged' | 'ours' | 'theirs' | 'both' | 'conflict';
+
+export interface MergeChunk {
+  type: MergeChunkType;
+  baseStart: number; // 0-based, inclusive
+  baseEnd: number; // 0-based, exclusive
+  base: string[];
+  ours: string[];
+  theirs: string[];
+}
+
+export interface MergeLabels {
+  ours?: string;
+  base?: string;
+  theirs?: string;
+}
+
+export interface ThreeWayMergeResult {
+  chunks: MergeChunk[];
+  conflicts: number;
+  clean: boolean;
+  merged: string; // conflicts rendered as git-style markers
+}
+
+/**
+ * How to resolve one conflict chunk: take a side, keep both (ours first),
+ * or supply replacement lines.
+ */
+export type ChunkResolution = 'ours' | 'theirs' | 'both' | 'base' | string[];
+
+interface EditRegion {
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+}
+
+// ============================================
+// 🔀 Merge
+// ============================================
+
+/**
+ * diff3-style merge of line arrays. Each side is diffed against the base;
+ * edits that touch disjoint base ranges merge cleanly, identical edits on
+ * both sides collapse, and everything else becomes a conflict chunk.
+ */
+export function mergeThreeWay(
+  base: string[],
+  ours: string[],
+  theirs: string[],
+  labels?: MergeLabels
+): ThreeWayMergeResult {
+  const ourRegions = toRegions(diffLines(base, ours)).map((r) => ({
+    ...r,
+    side: 'ours' as const,
+  }));
+  const theirRegions = toRegions(diffLines(base, theirs)).map((r) => ({
+    ...r,
+    side: 'theirs' as const,
+  }));
+
+  const all = [...ourRegions, ...theirRegions].sort(
+    (a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd
+  );
+
+  const chunks: MergeChunk[] = [];
+  let cursor = 0;
+  let i = 0;
+
+  while (i < all.length) {
+    // Collect every region that overlaps or touches the current cluster
+    const lo = all[i].baseStart;
+    let hi = all[i].baseEnd;
+    const cluster = [all[i++]];
+    while (i < all.length && all[i].baseStart <= hi) {
+      hi = Math.max(hi, all[i].baseEnd);
+      cluster.push(all[i++]);
+    }
+
+    if (cursor < lo) {
+      chunks.push(unchanged(base, cursor, lo));
+    }
+
+    const ourPart = cluster.filter((r) => r.side === 'ours');
+    const theirPart = cluster.filter((r) => r.side === 'theirs');
+    const oursLines = applyRegions(base, lo, hi, ourPart);
+    const theirsLines = applyRegions(base, lo, hi, theirPart);
+
+    let type: MergeChunkType;
+    if (theirPart.length === 0) {
+      type = 'ours';
+    } else if (ourPart.length === 0) {
+      type = 'theirs';
+    } else if (sameLines(oursLines, theirsLines)) {
+      type = 'both';
+    } else {
+      type = 'conflict';
+    }
+
+    chunks.push({
+      type,
+      baseStart: lo,
+      baseEnd: hi,
+      base: base.slice(lo, hi),
+      ours: oursLines,
+      theirs: theirsLines,
+    });
+    cursor = hi;
+  }
+
+  if (cursor < base.length) {
+    chunks.push(unchanged(base, cursor, base.length));
+  }
+
+  const conflicts = chunks.filter((c) => c.type === 'conflict').length;
+
+  return {
+    chunks,
+    conflicts,
+    clean: conflicts === 0,
+    merged: renderMerge(chunks, [], labels),
+  };
+}
+
+/**
+ * Turn merge chunks back into text. Conflict chunks use the matching entry
+ * of `resolutions` (indexed by conflict, not by chunk); unresolved ones are
+ * written with `<<<<<<<`/`|||||||`/`=======`/`>>>>>>>` markers.
+ * `finalNewline: false` leaves the last line unterminated, as in the inputs.
+ */
+export function renderMerge(
+  chunks: MergeChunk[],
+  resolutions: Array<ChunkResolution | undefined> = [],
+  labels?: MergeLabels,
+  finalNewline = true
+): string {
+  const out: string[] = [];
+  let conflictIndex = 0;
+
+  for (const chunk of chunks) {
+    if (chunk.type !== 'conflict') {
+      // 'unchanged' and 'both' chunks have identical sides
+      out.push(...(chunk.type === 'theirs' ? chunk.theirs : chunk.ours));
+      continue;
+    }
+
+    const resolution = resolutions[conflictIndex++];
+    if (resolution === undefined) {
+      out.push(`<<<<<<< ${labels?.ours || 'ours'}`);
+      out.push(...chunk.ours);
+      out.push(`||||||| ${labels?.base || 'base'}`);
+      out.push(...chunk.base);
+      out.push('=======');
+      out.push(...chunk.theirs);
+      out.push(`>>>>>>> ${labels?.theirs || 'theirs'}`);
+    } else {
+      out.push(...resolveChunk(chunk, resolution));
+    }
+  }
+
+  if (out.length === 0) return '';
+  return out.join('\n') + (finalNewline ? '\n' : '');
+}
+
+export function resolveChunk(chunk: MergeChunk, resolution: ChunkResolution): string[] {
+  if (Array.isArray(resolution)) return resolution;
+  switch (resolution) {
+    case 'ours':
+      return chunk.ours;
+    case 'theirs':
+      return chunk.theirs;
+    case 'base':
+      return chunk.base;
+    case 'both':
+      return [...chunk.ours, ...chunk.theirs];
+  }
+}
+
+// ============================================
+// 🛠️ Helpers
+// ============================================
+
+/**
+ * Collapse a line diff into base ranges that were replaced, each with the
+ * lines that replace it. Pure insertions have `baseStart === baseEnd`.
+ */
+function toRegions(diff: DiffLine[]): EditRegion[] {
+  const regions: EditRegion[] = [];
+  let baseIndex = 0;
+  let current: EditRegion | null = null;
+
+  for (const line of diff) {
+    if (line.type === 'context') {
+      if (current) {
+        regions.push(current);
+        current = null;
+      }
+      baseIndex++;
+      continue;
+    }
+
+    if (!current) {
+      current = { baseStart: baseIndex, baseEnd: baseIndex, lines: [] };
+    }
+
+    if (line.type === 'remove') {
+      baseIndex++;
+      current.baseEnd = baseIndex;
+    } else {
+      current.lines.push(line.content);
+    }
+  }
+
+  if (current) regions.push(current);
+  return regions;
+}
+
+function applyRegions(base: string[], lo: number, hi: number, regions: EditRegion[]): string[] {
+  const out: string[] = [];
+  let cursor = lo;
+
+  for (const region of regions) {
+    out.push(...base.slice(cursor, region.baseStart));
+    out.push(...region.lines);
+    cursor = region.baseEnd;
+  }
+
+  out.push(...base.slice(cursor, hi));
+  return out;
+}
+
+function unchanged(base: string[], start: number, end: number): MergeChunk {
+  const lines = base.slice(start, end);
+  return {
+    type: 'unchanged',
+    baseStart: start,
+    baseEnd: end,
+    base: lines,
+    ours: lines,
+    theirs: lines,
+  };
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
@@ -0,0 +1,250 @@
+// tool-registry.ts
+// ============================================
+// 🧰 Tool Registry - سجل الأدوات الموحد
+// ============================================
+
+import {
+  ToolAdapter,
+  UnifiedTool,
+  PropertySchema,
+  ClaudeTool,
+  OpenAITool,
+  GeminiTool,
+  DeepSeekTool,
+} from '../ai-providers/utils/tool-adapter.js';
+import { isAbortError, throwIfAborted } from './abort.js';
+
+// ============================================
+// 📦 Types & Interfaces
+// ============================================
+
+export type ToolProviderFormat = 'claude' | 'openai' | 'gemini' | 'deepseek';
+
+/**
+ * Passed to every tool run. Long-running tools (commands) stop when the
+ * signal fires.
+ */
+export interface ToolContext {
+  signal?: AbortSignal;
+}
+
+export type ToolExecutor = (params: any, context?: ToolContext) => Promise<any>;
+
+/**
+ * JSON schema of a tool's input. Either a full object schema or, for
+ * convenience, just its `properties` map.
+ */
+export type ToolParameters =
+  | UnifiedTool['inputSchema']
+  | Record<string, PropertySchema>;
+
+export interface ToolRegistration {
+  name: string;
+  description: string;
+  parameters: ToolParameters;
+  execute: ToolExecutor;
+  metadata?: UnifiedTool['metadata'];
+}
+
+export interface RegisteredTool {
+  definition: UnifiedTool;
+  execute: ToolExecutor;
+  source: string; // 'core' or the plugin name
+}
+
+/**
+ * Flat shape used by UnifiedAIAdapter.executeWithTools and the provider
+ * adapters: `parameters` is the properties map, `required` lists its keys.
+ */
+export interface ToolDefinitionEntry {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+  required: string[];
+  execute: (args: Record<string, any>, context?: ToolContext) => Promise<string>;
+}
+
+// ============================================
+// 🧰 Tool Registry Class
+// ============================================
+
+export class ToolRegistry {
+  private tools: Map<string, RegisteredTool> = new Map();
+  private adapter: ToolAdapter;
+
+  constructor() {
+    this.adapter = new ToolAdapter((message, level) => {
+      if (level === 'warn' || level === 'error') {
+        console.warn(`⚠️ [ToolRegistry] ${message}`);
+      }
+    });
+  }
+
+  /**
+   * Register a tool. A name already owned by another source is rejected so a
+   * plugin cannot silently replace a core tool.
+   */
+  register(tool: ToolRegistration, source: string = 'core'): void {
+    const existing = this.tools.get(tool.name);
+    if (existing && existing.source !== source) {
+      throw new Error(`Tool "${tool.name}" is already registered by ${existing.source}`);
+    }
+
+    this.tools.set(tool.name, {
+      definition: {
+        name: tool.name,
+        description: tool.description,
+        inputSchema: normalizeParameters(tool.parameters),
+        metadata: tool.metadata,
+      },
+      execute: tool.execute,
+      source,
+    });
+    this.adapter.clearCache();
+  }
+
+  unregister(name: string): boolean {
+    const removed = this.tools.delete(name);
+    if (removed) this.adapter.clearCache();
+    return removed;
+  }
+
+  /**
+   * Remove every tool a source registered (used when a plugin unloads).
+   */
+  unregisterSource(source: string): string[] {
+    const removed: string[] = [];
+    for (const [name, tool] of this.tools) {
+      if (tool.source === source) {
+        this.tools.delete(name);
+        removed.push(name);
+      }
+    }
+    if (removed.length > 0) this.adapter.clearCache();
+    return removed;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get(name: string): RegisteredTool | undefined {
+    return this.tools.get(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
+  list(): UnifiedTool[] {
+    return Array.from(this.tools.values()).map((t) => t.definition);
+  }
+
+  /**
+   * Definitions in the Claude `input_schema` shape (the historical
+   * `TOOL_DEFINITIONS` format).
+   */
+  toDefinitions(): ClaudeTool[] {
+    return this.toProviderTools('claude') as ClaudeTool[];
+  }
+
+  toDefinitionEntries(): ToolDefinitionEntry[] {
+    return this.list().map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.inputSchema.properties,
+      required: tool.inputSchema.required || [],
+      execute: (args, context) => this.execute(tool.name, args, context),
+    }));
+  }
+
+  toProviderTools(
+    provider: ToolProviderFormat
+  ): ClaudeTool[] | OpenAITool[] | GeminiTool[] | DeepSeekTool[] {
+    const tools = this.list();
+    switch (provider) {
+      case 'claude':
+        return tools.map((t) => this.adapter.toClaudeFormat(t));
+      case 'openai':
+        return tools.map((t) => this.adapter.toOpenAIFormat(t));
+      case 'gemini':
+        return tools.map((t) => this.adapter.toGeminiFormat(t));
+      case 'deepseek':
+        return tools.map((t) => this.adapter.toDeepSeekFormat(t));
+    }
+  }
+
+  /**
+   * Run a tool and return its result as a JSON string. Errors (unknown tool,
+   * missing parameters, thrown exceptions) come back as
+   * `{ success: false, error, ... }` so the model can react to them.
+   * Cancellation is the exception: an AbortError is thrown, since there is
+   * no turn left to report it to.
+   */
+  async execute(name: string, input: any, context: ToolContext = {}): Promise<string> {
+    throwIfAborted(context.signal);
+    const tool = this.tools.get(name);
+
+    if (!tool) {
+      const available = this.names();
+      return JSON.stringify({
+        success: false,
+        error: `أداة غير معروفة: ${name}. الأدوات المتاحة: ${available.join(', ')}`,
+        availableTools: available,
+      });
+    }
+
+    const params = input ?? {};
+    const missing = (tool.definition.inputSchema.required || []).filter(
+      (key) => params[key] === undefined
+    );
+    if (missing.length > 0) {
+      return JSON.stringify({
+        success: false,
+        tool: name,
+        error: `معاملات ناقصة: ${missing.join(', ')}`,
+        missingParameters: missing,
+      });
+    }
+
+    try {
+      const result = await tool.execute(params, context);
+      throwIfAborted(context.signal);
+      if (typeof result === 'string') return result;
+      if (result && typeof result === 'object' && 'success' in result) {
+        return JSON.stringify(result);
+      }
+      return JSON.stringify({ success: true, result });
+    } catch (error: any) {
+      if (isAbortError(error)) throw error;
+      return JSON.stringify({
+        success: false,
+        tool: name,
+        error: error?.message || String(error),
+      });
+    }
+  }
+}
+
+// ============================================
+// 🛠️ Helpers
+// ============================================
+
+function normalizeParameters(parameters: ToolParameters): UnifiedTool['inputSchema'] {
+  if (parameters && parameters.type === 'object' && typeof parameters.properties === 'object') {
+    const schema = parameters as UnifiedTool['inputSchema'];
+    return {
+      type: 'object',
+      properties: schema.properties,
+      required: schema.required || [],
+      additionalProperties: schema.additionalProperties,
+    };
+  }
+
+  // A bare properties map: nothing is required unless stated otherwise
+  return {
+    type: 'object',
+    properties: (parameters || {}) as Record<string, PropertySchema>,
+    required: [],
+  };
+}
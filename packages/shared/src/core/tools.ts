@@ -5,15 +5,50 @@
 
 import fs from 'fs-extra';
 import path from 'path';
-import { spawn } from 'child_process';
+import { spawn, type ChildProcess } from 'child_process';
 import { glob } from 'glob';
+import { ToolRegistry, ToolExecutor, ToolContext } from './tool-registry.js';
+import { WorkspacePolicy, WorkspaceViolationError } from './workspace-policy.js';
+import { applyUnifiedPatch } from './unified-patch.js';
+import type { ClaudeTool } from '../ai-providers/utils/tool-adapter.js';
+
+// ============================================
+// 🛡️ سياسة مساحة العمل
+// ============================================
+let workspacePolicy: WorkspacePolicy | null = null;
+
+/**
+ * Policy every file and command tool checks first. Defaults to the current
+ * directory as the workspace root.
+ */
+export function getWorkspacePolicy(): WorkspacePolicy {
+  if (!workspacePolicy) {
+    workspacePolicy = new WorkspacePolicy();
+  }
+  return workspacePolicy;
+}
+
+export function setWorkspacePolicy(policy: WorkspacePolicy): void {
+  workspacePolicy = policy;
+}
+
+function toolError(error: any): string {
+  if (error instanceof WorkspaceViolationError) {
+    return JSON.stringify(error.toToolResult());
+  }
+  return JSON.stringify({
+    success: false,
+    error: error.message,
+  });
+}
 
 // ============================================
 // 📖 الأداة 1: قراءة ملف
 // ============================================
 export async function readFile(params: { path: string }): Promise<string> {
   try {
-    const content = await fs.readFile(params.path, 'utf-8');
+    const filePath = await getWorkspacePolicy().resolvePath(params.path, 'read');
+    const content = await fs.readFile(filePath, 'utf-8');
     return JSON.stringify({
       success: true,
       path: params.path,
@@ -22,10 +57,7 @@ export async function readFile(params: { path: string }): Promise<string> {
       size: content.length,
     });
   } catch (error: any) {
-    return JSON.stringify({
-      success: false,
-      error: error.message,
-    });
+    return toolError(error);
   }
 }
 
@@ -34,12 +66,14 @@ export async function readFile(params: { path: string }): Promise<string> {
 // ============================================
 export async function writeFile(params: { path: string; content: string }): Promise<string> {
   try {
+    const filePath = await getWorkspacePolicy().resolvePath(params.path, 'write');
+
     // إنشاء المجلد إذا لم يكن موجوداً
-    const dir = path.dirname(params.path);
+    const dir = path.dirname(filePath);
     await fs.ensureDir(dir);
 
     // كتابة الملف
-    await fs.writeFile(params.path, params.content, 'utf-8');
+    await fs.writeFile(filePath, params.content, 'utf-8');
 
     return JSON.stringify({
       success: true,
@@ -47,10 +81,7 @@ export async function writeFile(params: { path: string; content: string }): Prom
       size: params.content.length,
     });
   } catch (error: any) {
-    return JSON.stringify({
-      success: false,
-      error: error.message,
-    });
+    return toolError(error);
   }
 }
 
@@ -62,13 +93,18 @@ export async function listDirectory(params: {
   recursive?: boolean;
 }): Promise<string> {
   try {
+    const policy = getWorkspacePolicy();
+    const dirPath = await policy.resolvePath(params.path, 'read');
+
     if (params.recursive) {
-      // قراءة متداخلة
-      const files = await glob('**/*', {
-        cwd: params.path,
-        nodir: false,
-        dot: true,
-      });
+      // قراءة متداخلة (بدون المسارات الممنوعة)
+      const files = (
+        await glob('**/*', {
+          cwd: dirPath,
+          nodir: false,
+          dot: true,
+        })
+      ).filter((file) => !policy.isDenied(path.join(dirPath, file)));
 
       return JSON.stringify({
         success: true,
@@ -78,12 +114,14 @@ export async function listDirectory(params: {
       });
     } else {
       // قراءة المجلد الحالي فقط
-      const items = await fs.readdir(params.path);
+      const items = (await fs.readdir(dirPath)).filter(
+        (item) => !policy.isDenied(path.join(dirPath, item))
+      );
 
       // معلومات مفصلة عن كل عنصر
       const details = await Promise.all(
         items.map(async (item) => {
-          const fullPath = path.join(params.path, item);
+          const fullPath = path.join(dirPath, item);
           const stats = await fs.stat(fullPath);
           return {
             name: item,
@@ -101,10 +139,7 @@ export async function listDirectory(params: {
       });
     }
   } catch (error: any) {
-    return JSON.stringify({
-      success: false,
-      error: error.message,
-    });
+    return toolError(error);
   }
 }
 
@@ -117,8 +152,10 @@ export async function editFile(params: {
   new_text: string;
 }): Promise<string> {
   try {
+    const filePath = await getWorkspacePolicy().resolvePath(params.path, 'write');
+
     // قراءة الملف
-    let content = await fs.readFile(params.path, 'utf-8');
+    let content = await fs.readFile(filePath, 'utf-8');
 
     // التعديل
     if (!content.includes(params.old_text)) {
@@ -131,7 +168,7 @@ export async function editFile(params: {
     content = content.replace(params.old_text, params.new_text);
 
     // حفظ الملف
-    await fs.writeFile(params.path, content, 'utf-8');
+    await fs.writeFile(filePath, content, 'utf-8');
 
     return JSON.stringify({
       success: true,
@@ -139,21 +176,49 @@ export async function editFile(params: {
       message: 'تم التعديل بنجاح',
     });
   } catch (error: any) {
-    return JSON.stringify({
-      success: false,
-      error: error.message,
-    });
+    return toolError(error);
   }
 }
 
 // ============================================
 // 💻 الأداة 5: تنفيذ أمر
 // ============================================
-export async function executeCommand(params: {
-  command: string;
-  cwd?: string;
-  timeout?: number;
-}): Promise<string> {
+/**
+ * إنهاء الـ shell وكل ما شغّله (kill() وحده يترك أبناء الـ shell يعملون)
+ */
+export function killProcessTree(child: ChildProcess): void {
+  if (child.pid && process.platform !== 'win32') {
+    try {
+      process.kill(-child.pid, 'SIGTERM');
+      return;
+    } catch {
+      // انتهت المجموعة بالفعل
+    }
+  }
+  child.kill();
+}
+
+export async function executeCommand(
+  params: {
+    command: string;
+    cwd?: string;
+    timeout?: number;
+  },
+  context: ToolContext = {}
+): Promise<string> {
+  let cwd: string;
+  try {
+    const policy = getWorkspacePolicy();
+    await policy.checkCommand(params.command);
+    cwd = await policy.resolvePath(params.cwd || '.', 'execute');
+  } catch (error: any) {
+    return toolError(error);
+  }
+
+  if (context.signal?.aborted) {
+    return JSON.stringify({ success: false, error: 'تم إلغاء الأمر', cancelled: true });
+  }
+
   return new Promise((resolve) => {
     const timeoutMs = params.timeout || 30000; // 30 ثانية افتراضياً
 
@@ -163,8 +228,9 @@ export async function executeCommand(params: {
     const args = parts.slice(1);
 
     const childProcess = spawn(cmd, args, {
-      cwd: params.cwd || process.cwd(),
+      cwd,
       shell: true,
+      detached: process.platform !== 'win32', // مجموعة عمليات خاصة ليُنهى الأمر مع أبنائه
     });
 
     let stdout = '';
@@ -180,7 +246,8 @@ export async function executeCommand(params: {
 
     // Timeout
     const timer = setTimeout(() => {
-      childProcess.kill();
+      context.signal?.removeEventListener('abort', onAbort);
+      killProcessTree(childProcess);
       resolve(
         JSON.stringify({
           success: false,
@@ -190,8 +257,23 @@ export async function executeCommand(params: {
       );
     }, timeoutMs);
 
+    // إلغاء (Ctrl-C أو إيقاف طارئ): إنهاء العملية فوراً
+    function onAbort() {
+      clearTimeout(timer);
+      killProcessTree(childProcess);
+      resolve(
+        JSON.stringify({
+          success: false,
+          error: 'تم إلغاء الأمر',
+          cancelled: true,
+        })
+      );
+    }
+    context.signal?.addEventListener('abort', onAbort, { once: true });
+
     childProcess.on('close', (code: number | null) => {
       clearTimeout(timer);
+      context.signal?.removeEventListener('abort', onAbort);
 
       resolve(
         JSON.stringify({
@@ -206,6 +288,7 @@ export async function executeCommand(params: {
 
     childProcess.on('error', (error: Error) => {
       clearTimeout(timer);
+      context.signal?.removeEventListener('abort', onAbort);
 
       resolve(
         JSON.stringify({
@@ -226,12 +309,17 @@ export async function searchInFiles(params: {
   filePattern?: string;
 }): Promise<string> {
   try {
+    const policy = getWorkspacePolicy();
+    const directory = await policy.resolvePath(params.directory, 'read');
+
     const fileGlob = params.filePattern || '**/*';
-    const files = await glob(fileGlob, {
-      cwd: params.directory,
-      nodir: true,
-      absolute: true,
-    });
+    const files = (
+      await glob(fileGlob, {
+        cwd: directory,
+        nodir: true,
+        absolute: true,
+      })
+    ).filter((file) => !policy.isDenied(file));
 
     const results: Array<{
       file: string;
@@ -240,6 +328,8 @@ export async function searchInFiles(params: {
 
     for (const file of files.slice(0, 100)) {
       try {
+        // يرفض الروابط الرمزية التي تشير إلى خارج مساحة العمل
+        await policy.resolvePath(file, 'read');
         const content = await fs.readFile(file, 'utf-8');
         const lines = content.split('\n');
 
@@ -252,7 +342,7 @@ export async function searchInFiles(params: {
 
         if (matches.length > 0) {
           results.push({
-            file: path.relative(params.directory, file),
+            file: path.relative(directory, file),
             matches: matches.slice(0, 10), // أول 10 نتائج لكل ملف
           });
         }
@@ -269,17 +359,44 @@ export async function searchInFiles(params: {
       results: results.slice(0, 20), // أول 20 ملف
     });
   } catch (error: any) {
+    return toolError(error);
+  }
+}
+
+// ============================================
+// 🩹 الأداة 7: تطبيق unified diff
+// ============================================
+export async function applyPatch(params: {
+  patch: string;
+  fuzz?: number;
+  dry_run?: boolean;
+}): Promise<string> {
+  try {
+    const policy = getWorkspacePolicy();
+    const result = await applyUnifiedPatch(params.patch, {
+      root: policy.root,
+      fuzz: params.fuzz,
+      dryRun: params.dry_run,
+      resolvePath: (filePath) => policy.resolvePath(filePath, 'write'),
+    });
+
     return JSON.stringify({
-      success: false,
-      error: error.message,
+      success: result.success,
+      applied: result.applied,
+      dryRun: result.dryRun,
+      error: result.error,
+      rejectedHunks: result.rejectedHunks,
+      files: result.files,
     });
+  } catch (error: any) {
+    return toolError(error);
   }
 }
 
 // ============================================
 // 📋 تعريف الأدوات لـ Claude API
 // ============================================
-export const TOOL_DEFINITIONS = [
+export const TOOL_DEFINITIONS: ClaudeTool[] = [
   {
     name: 'read_file',
     description: 'قراءة محتوى ملف من النظام',
@@ -288,7 +405,7 @@ export const TOOL_DEFINITIONS = [
       properties: {
         path: {
           type: 'string',
-          description: 'المسار الكامل للملف',
+          description: 'مسار الملف داخل مساحة العمل (نسبي أو مطلق)',
         },
       },
       required: ['path'],
@@ -302,7 +419,7 @@ export const TOOL_DEFINITIONS = [
       properties: {
         path: {
           type: 'string',
-          description: 'المسار الكامل للملف',
+          description: 'مسار الملف داخل مساحة العمل (نسبي أو مطلق)',
         },
         content: {
           type: 'string',
@@ -355,7 +472,7 @@ export const TOOL_DEFINITIONS = [
   },
   {
     name: 'execute_command',
-    description: 'تنفيذ أمر في الطرفية (Terminal)',
+    description: 'تنفيذ أمر في الطرفية (Terminal) - الأوامر المسموحة في الجلسة فقط',
     input_schema: {
       type: 'object',
       properties: {
@@ -398,29 +515,66 @@ export const TOOL_DEFINITIONS = [
       required: ['pattern', 'directory'],
     },
   },
+  {
+    name: 'apply_patch',
+    description:
+      'تطبيق unified diff (مثل git diff) على ملف أو أكثر. يتحمل إزاحة الأسطر والاختلافات البسيطة في السياق، ويُطبَّق كاملاً أو لا يُطبَّق أبداً مع تقرير بالمقاطع المرفوضة',
+    input_schema: {
+      type: 'object',
+      properties: {
+        patch: {
+          type: 'string',
+          description: 'نص الـ unified diff مع رؤوس --- و +++ و @@',
+        },
+        fuzz: {
+          type: 'number',
+          description: 'عدد أسطر السياق التي يمكن تجاهلها من كل طرف (افتراضي: 2)',
+        },
+        dry_run: {
+          type: 'boolean',
+          description: 'فحص إمكانية التطبيق بدون تعديل الملفات',
+        },
+      },
+      required: ['patch'],
+    },
+  },
 ];
 
+// ============================================
+// 🧰 سجل الأدوات - Tool Registry
+// ============================================
+const CORE_TOOL_EXECUTORS: Record<string, ToolExecutor> = {
+  read_file: readFile,
+  write_file: writeFile,
+  list_directory: listDirectory,
+  edit_file: editFile,
+  execute_command: executeCommand,
+  search_in_files: searchInFiles,
+  apply_patch: applyPatch,
+};
+
+/**
+ * Shared registry: the core tools are registered here and plugins add
+ * their own through PluginManager.
+ */
+export const toolRegistry = new ToolRegistry();
+
+for (const definition of TOOL_DEFINITIONS) {
+  toolRegistry.register({
+    name: definition.name,
+    description: definition.description,
+    parameters: definition.input_schema,
+    execute: CORE_TOOL_EXECUTORS[definition.name],
+  });
+}
+
 // ============================================
 // ⚙️ تنفيذ الأداة
 // ============================================
-export async function executeTool(toolName: string, toolInput: any): Promise<string> {
-  switch (toolName) {
-    case 'read_file':
-      return await readFile(toolInput);
-    case 'write_file':
-      return await writeFile(toolInput);
-    case 'list_directory':
-      return await listDirectory(toolInput);
-    case 'edit_file':
-      return await editFile(toolInput);
-    case 'execute_command':
-      return await executeCommand(toolInput);
-    case 'search_in_files':
-      return await searchInFiles(toolInput);
-    default:
-      return JSON.stringify({
-        success: false,
-        error: `أداة غير معروفة: ${toolName}`,
-      });
-  }
+export async function executeTool(
+  toolName: string,
+  toolInput: any,
+  context?: ToolContext
+): Promise<string> {
+  return toolRegistry.execute(toolName, toolInput, context);
 }
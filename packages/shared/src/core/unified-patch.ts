@@ -0,0 +1,511 @@
+// unified-patch.ts
+// ============================================
+// 🩹 Unified Patch - تطبيق unified diff مع fuzz وإزاحة
+// ============================================
+
+import fs from 'fs-extra';
+import path from 'path';
+import { DiffHunk, DiffLine, splitLines } from './line-diff.js';
+
+// ============================================
+// 📦 Types & Interfaces
+// ============================================
+
+export interface PatchHunk extends DiffHunk {
+  /** `@@ @@` without line numbers: search the whole file */
+  unanchored: boolean;
+  oldNoNewline: boolean; // `\ No newline at end of file` after the old side
+  newNoNewline: boolean; // ... after the new side
+}
+
+export interface ParsedFilePatch {
+  oldPath: string | null; // null = /dev/null (new file)
+  newPath: string | null; // null = /dev/null (deleted file)
+  hunks: PatchHunk[];
+}
+
+export interface HunkResult {
+  index: number;
+  header: string;
+  status: 'applied' | 'rejected';
+  offset: number; // lines away from where the header said
+  fuzz: number; // context lines ignored at each end
+  ignoredWhitespace: boolean;
+  reason?: string;
+  text?: string; // the hunk itself, for rejected hunks
+}
+
+export interface FilePatchResult {
+  path: string;
+  action: 'modify' | 'create' | 'delete';
+  ok: boolean;
+  hunks: HunkResult[];
+  error?: string;
+}
+
+export interface UnifiedPatchOptions {
+  root?: string;
+  fuzz?: number; // default 2, like GNU patch
+  maxOffset?: number; // default 200 lines
+  ignoreWhitespace?: boolean; // retry with whitespace-insensitive matching (default true)
+  dryRun?: boolean;
+  /** Map a patch path to an absolute path (e.g. through a workspace policy) */
+  resolvePath?: (filePath: string) => Promise<string>;
+}
+
+export interface UnifiedPatchResult {
+  success: boolean; // every hunk of every file applies
+  applied: boolean; // files were written (false on dry run or failure)
+  dryRun: boolean;
+  files: FilePatchResult[];
+  rejectedHunks: number;
+  error?: string;
+}
+
+export interface ApplyHunksResult {
+  content: string;
+  hunks: HunkResult[];
+  ok: boolean;
+}
+
+interface TrimmedHunk {
+  old: string[];
+  new: string[];
+  leading: number; // context lines dropped from the start
+}
+
+interface Placement extends TrimmedHunk {
+  at: number;
+  fuzz: number;
+  ignoredWhitespace: boolean;
+}
+
+// ============================================
+// 📖 Parsing
+// ============================================
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parse a (possibly multi-file) unified diff as produced by `git diff` or
+ * `diff -u`. Line counts in hunk headers are recomputed from the body, since
+ * hand-written and model-written diffs often get them wrong.
+ */
+export function parseUnifiedDiff(diff: string): ParsedFilePatch[] {
+  const lines = diff.replace(/\r\n/g, '\n').split('\n');
+  const files: ParsedFilePatch[] = [];
+  let file: ParsedFilePatch | null = null;
+  let hunk: PatchHunk | null = null;
+
+  const closeHunk = () => {
+    if (hunk && file) {
+      // Trailing blank lines are usually separators, not context
+      while (hunk.lines.length > 0) {
+        const last = hunk.lines[hunk.lines.length - 1];
+        if (last.type !== 'context' || last.content !== '') break;
+        hunk.lines.pop();
+      }
+      hunk.oldLines = hunk.lines.filter((l) => l.type !== 'add').length;
+      hunk.newLines = hunk.lines.filter((l) => l.type !== 'remove').length;
+      if (hunk.lines.some((l) => l.type !== 'context')) {
+        file.hunks.push(hunk);
+      }
+    }
+    hunk = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      closeHunk();
+      file = {
+        oldPath: parsePatchPath(line.slice(4)),
+        newPath: parsePatchPath(lines[i + 1].slice(4)),
+        hunks: [],
+      };
+      files.push(file);
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('diff --git ')) {
+      closeHunk();
+      continue;
+    }
+
+    if (line.startsWith('@@')) {
+      closeHunk();
+      if (!file) continue;
+
+      const match = line.match(HUNK_HEADER);
+      hunk = {
+        oldStart: match ? parseInt(match[1]) : 0,
+        oldLines: 0,
+        newStart: match ? parseInt(match[3]) : 0,
+        newLines: 0,
+        header: line,
+        lines: [],
+        unanchored: !match,
+        oldNoNewline: false,
+        newNoNewline: false,
+      };
+      continue;
+    }
+
+    if (!hunk) continue; // git metadata (index, mode, ...) and prose
+
+    const current: PatchHunk = hunk;
+    if (line.startsWith('\\')) {
+      const previous = current.lines[current.lines.length - 1];
+      if (previous?.type === 'remove') current.oldNoNewline = true;
+      else if (previous?.type === 'add') current.newNoNewline = true;
+      else if (previous) current.oldNoNewline = current.newNoNewline = true;
+      continue;
+    }
+
+    const marker = line[0];
+    if (marker === '+') current.lines.push({ type: 'add', content: line.slice(1) });
+    else if (marker === '-') current.lines.push({ type: 'remove', content: line.slice(1) });
+    else if (marker === ' ') current.lines.push({ type: 'context', content: line.slice(1) });
+    else if (line === '') current.lines.push({ type: 'context', content: '' });
+    else closeHunk(); // prose after the diff
+  }
+
+  closeHunk();
+  return files.filter((f) => f.hunks.length > 0 || f.oldPath !== f.newPath);
+}
+
+function parsePatchPath(raw: string): string | null {
+  const value = raw.split('\t')[0].trim();
+  if (value === '/dev/null') return null;
+  return value.replace(/^[ab]\//, '');
+}
+
+// ============================================
+// 🧩 Applying Hunks
+// ============================================
+
+/**
+ * Apply hunks to one file's content. Each hunk is looked up near the line
+ * its header names (shifted by earlier hunks), up to `maxOffset` lines away;
+ * if the full context doesn't match, up to `fuzz` context lines are dropped
+ * from each end, then the search repeats ignoring whitespace.
+ */
+export function applyHunks(
+  content: string,
+  hunks: PatchHunk[],
+  options: Pick<UnifiedPatchOptions, 'fuzz' | 'maxOffset' | 'ignoreWhitespace'> = {}
+): ApplyHunksResult {
+  const maxFuzz = options.fuzz ?? 2;
+  const maxOffset = options.maxOffset ?? 200;
+  const modes = options.ignoreWhitespace === false ? [false] : [false, true];
+
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const normalized = content.replace(/\r\n/g, '\n');
+  const lines = splitLines(normalized);
+  let endsWithNewline = normalized === '' || normalized.endsWith('\n');
+
+  const results: HunkResult[] = [];
+  let delta = 0; // lines added minus removed so far
+  let lastOffset = 0;
+  let minIndex = 0; // hunks apply in order and never overlap
+
+  hunks.forEach((hunk, index) => {
+    // A hunk with no old lines inserts *after* line `oldStart`
+    const headerIndex = (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + delta;
+    let placed: Placement | null = null;
+
+    search: for (const ignoredWhitespace of modes) {
+      for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+        const trimmed = trimContext(hunk.lines, fuzz);
+        if (!trimmed) continue;
+
+        const expected = headerIndex + lastOffset + trimmed.leading;
+        const at = findBlock(lines, trimmed.old, {
+          expected,
+          minIndex,
+          maxOffset: hunk.unanchored ? Infinity : maxOffset,
+          ignoreWhitespace: ignoredWhitespace,
+        });
+
+        if (at !== -1) {
+          placed = { at, fuzz, ignoredWhitespace, ...trimmed };
+          break search;
+        }
+      }
+    }
+
+    if (!placed) {
+      results.push({
+        index,
+        header: hunk.header,
+        status: 'rejected',
+        offset: 0,
+        fuzz: 0,
+        ignoredWhitespace: false,
+        reason: `لم يتم العثور على السياق المطابق (fuzz ≤ ${maxFuzz}, إزاحة ≤ ${maxOffset})`,
+        text: formatHunk(hunk),
+      });
+      return;
+    }
+
+    const offset = placed.at - placed.leading - headerIndex;
+    lastOffset = offset;
+
+    lines.splice(placed.at, placed.old.length, ...placed.new);
+    delta += placed.new.length - placed.old.length;
+    minIndex = placed.at + placed.new.length;
+
+    if (hunk.newNoNewline) endsWithNewline = false;
+    else if (hunk.oldNoNewline) endsWithNewline = true;
+
+    results.push({
+      index,
+      header: hunk.header,
+      status: 'applied',
+      offset: hunk.unanchored ? 0 : offset,
+      fuzz: placed.fuzz,
+      ignoredWhitespace: placed.ignoredWhitespace,
+    });
+  });
+
+  const text = lines.length > 0 ? lines.join(eol) + (endsWithNewline ? eol : '') : '';
+
+  return {
+    content: text,
+    hunks: results,
+    ok: results.every((r) => r.status === 'applied'),
+  };
+}
+
+/**
+ * Drop up to `fuzz` context lines from each end of a hunk. Returns null when
+ * there is not that much context to drop.
+ */
+function trimContext(hunkLines: DiffLine[], fuzz: number): TrimmedHunk | null {
+  let start = 0;
+  let end = hunkLines.length;
+
+  while (start < fuzz && start < end && hunkLines[start].type === 'context') start++;
+  while (
+    hunkLines.length - end < fuzz &&
+    end > start &&
+    hunkLines[end - 1].type === 'context'
+  ) {
+    end--;
+  }
+
+  if (fuzz > 0 && start === 0 && end === hunkLines.length) return null;
+
+  const body = hunkLines.slice(start, end);
+  const old = body.filter((l) => l.type !== 'add').map((l) => l.content);
+
+  // Fuzzing away every anchor line would let a change land anywhere
+  if (fuzz > 0 && old.length === 0) return null;
+
+  return {
+    old,
+    new: body.filter((l) => l.type !== 'remove').map((l) => l.content),
+    leading: start,
+  };
+}
+
+/**
+ * Find `block` in `lines`, trying the expected index first and then moving
+ * outwards one line at a time in both directions.
+ */
+function findBlock(
+  lines: string[],
+  block: string[],
+  options: { expected: number; minIndex: number; maxOffset: number; ignoreWhitespace: boolean }
+): number {
+  const last = lines.length - block.length;
+  const expected = Math.min(Math.max(options.expected, options.minIndex), Math.max(last, 0));
+
+  if (block.length === 0) {
+    // Pure insertion without context: trust the header
+    return expected <= lines.length ? expected : -1;
+  }
+
+  const limit = Math.min(options.maxOffset, Math.max(last, 0) + 1);
+  for (let distance = 0; distance <= limit; distance++) {
+    for (const at of distance === 0 ? [expected] : [expected - distance, expected + distance]) {
+      if (
+        at >= options.minIndex &&
+        at <= last &&
+        blockMatches(lines, block, at, options.ignoreWhitespace)
+      ) {
+        return at;
+      }
+    }
+  }
+
+  return -1;
+}
+
+function blockMatches(
+  lines: string[],
+  block: string[],
+  at: number,
+  ignoreWhitespace: boolean
+): boolean {
+  for (let i = 0; i < block.length; i++) {
+    const a = lines[at + i];
+    const b = block[i];
+    if (ignoreWhitespace ? a.replace(/\s+/g, '') !== b.replace(/\s+/g, '') : a !== b) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// المسار الافتراضي: داخل الجذر فقط (b/../../.bashrc أو /etc/x مرفوضان)
+function resolveInside(root: string, filePath: string): string {
+  const absolute = path.resolve(root, filePath);
+  const relative = path.relative(path.resolve(root), absolute);
+  if (relative === '..' || relative.startsWith('..' + path.sep) || path.isAbsolute(relative)) {
+    throw new Error(`المسار خارج المشروع: ${filePath}`);
+  }
+  return absolute;
+}
+
+function formatHunk(hunk: DiffHunk): string {
+  const body = hunk.lines.map(
+    (l) => (l.type === 'add' ? '+' : l.type === 'remove' ? '-' : ' ') + l.content
+  );
+  return [hunk.header, ...body].join('\n');
+}
+
+// ============================================
+// 📁 Applying a Patch to Files
+// ============================================
+
+/**
+ * Apply a multi-file unified diff. All files are patched in memory first;
+ * only if every hunk applies are they written, and a failed write restores
+ * the files already written. Either every file changes or none does.
+ */
+export async function applyUnifiedPatch(
+  diff: string,
+  options: UnifiedPatchOptions = {}
+): Promise<UnifiedPatchResult> {
+  const root = options.root || process.cwd();
+  const resolve = options.resolvePath || (async (p: string) => resolveInside(root, p));
+  const dryRun = options.dryRun ?? false;
+
+  const parsed = parseUnifiedDiff(diff);
+  if (parsed.length === 0) {
+    return {
+      success: false,
+      applied: false,
+      dryRun,
+      files: [],
+      rejectedHunks: 0,
+      error: 'لم يتم العثور على unified diff صالح',
+    };
+  }
+
+  const files: FilePatchResult[] = [];
+  const writes: Array<{ absolute: string; content: string | null }> = [];
+
+  for (const filePatch of parsed) {
+    const displayPath = (filePatch.newPath ?? filePatch.oldPath)!;
+    const action =
+      filePatch.oldPath === null ? 'create' : filePatch.newPath === null ? 'delete' : 'modify';
+    const result: FilePatchResult = { path: displayPath, action, ok: false, hunks: [] };
+    files.push(result);
+
+    try {
+      const absolute = await resolve(displayPath);
+      const exists = await fs.pathExists(absolute);
+
+      if (action === 'create' && exists) {
+        result.error = 'الملف موجود مسبقاً';
+        continue;
+      }
+      if (action !== 'create' && !exists) {
+        result.error = 'الملف غير موجود';
+        continue;
+      }
+
+      const original = exists ? await fs.readFile(absolute, 'utf-8') : '';
+      const applied = applyHunks(original, filePatch.hunks, options);
+      result.hunks = applied.hunks;
+
+      if (!applied.ok) {
+        result.error = 'بعض المقاطع لم تُطبَّق';
+        continue;
+      }
+      if (action === 'delete' && applied.content.trim() !== '') {
+        result.error = 'الملف لا يطابق المحتوى المحذوف في الـ patch';
+        continue;
+      }
+
+      result.ok = true;
+      writes.push({ absolute, content: action === 'delete' ? null : applied.content });
+    } catch (error: any) {
+      result.error = error.message;
+    }
+  }
+
+  const rejectedHunks = files.reduce(
+    (sum, f) => sum + f.hunks.filter((h) => h.status === 'rejected').length,
+    0
+  );
+  const success = files.every((f) => f.ok);
+
+  if (!success || dryRun) {
+    return { success, applied: false, dryRun, files, rejectedHunks };
+  }
+
+  // Write everything, rolling back on the first failure
+  const done: Array<{ absolute: string; original: string | null }> = [];
+  try {
+    for (const write of writes) {
+      const original = (await fs.pathExists(write.absolute))
+        ? await fs.readFile(write.absolute, 'utf-8')
+        : null;
+
+      if (write.content === null) {
+        await fs.remove(write.absolute);
+      } else {
+        await fs.ensureDir(path.dirname(write.absolute));
+        await fs.writeFile(write.absolute, write.content, 'utf-8');
+      }
+      done.push({ absolute: write.absolute, original });
+    }
+  } catch (error: any) {
+    for (const entry of done.reverse()) {
+      if (entry.original === null) {
+        await fs.remove(entry.absolute).catch(() => {});
+      } else {
+        await fs.writeFile(entry.absolute, entry.original, 'utf-8').catch(() => {});
+      }
+    }
+    return {
+      success: false,
+      applied: false,
+      dryRun,
+      files,
+      rejectedHunks,
+      error: `فشلت الكتابة وتم التراجع عن كل التغييرات: ${error.message}`,
+    };
+  }
+
+  return { success: true, applied: true, dryRun, files, rejectedHunks };
+}
+
+/**
+ * Pull a unified diff out of a model response: fenced ```diff / ```patch
+ * blocks first, otherwise the raw text from the first `---`/`+++` header.
+ */
+export function extractUnifiedDiff(response: string): string | null {
+  const fenced = [...response.matchAll(/```(?:diff|patch)\s*\n([\s\S]*?)```/g)].map(
+    (m) => m[1]
+  );
+  if (fenced.length > 0) return fenced.join('\n');
+
+  const start = response.search(/^(?:diff --git |--- )/m);
+  return start === -1 ? null : response.slice(start);
+}
@@ -11,6 +11,24 @@ import { execSync, exec } from 'child_process';
 import { promisify } from 'util';
 import chalk from 'chalk';
 import * as crypto from 'crypto';
+import ignore from 'ignore';
+import { BlobStore, BlobGCResult } from './blob-store.js';
+import {
+  DiffHunk,
+  HunkRange,
+  createHunks,
+  diffLines,
+  formatUnifiedDiff,
+  splitLines,
+  toSideBySide,
+} from './line-diff.js';
+import {
+  ChunkResolution,
+  MergeChunk,
+  MergeLabels,
+  mergeThreeWay,
+  renderMerge,
+} from './three-way-merge.js';
 
 const execAsync = promisify(exec);
 
@@ -29,13 +47,26 @@ export interface Snapshot {
   tags: string[];
 }
 
-export interface SnapshotFile {
-  path: string;
+export interface SnapshotFile extends SnapshotEntry {
   content: string;
-  hash: string;
+  encoding?: 'base64'; // binary content in exports; text is kept as utf-8
+}
+
+export interface SnapshotEntry {
+  path: string;
+  hash: string; // sha256 of the content, also the blob key
   size: number;
 }
 
+/**
+ * What is actually stored in `snapshots/<id>.json`: file contents live in
+ * the blob store and are shared between snapshots.
+ */
+export interface SnapshotManifest extends Omit<Snapshot, 'files'> {
+  files: SnapshotEntry[];
+  storage: 'blobs';
+}
+
 export interface SnapshotMetadata {
   projectPath: string;
   totalFiles: number;
@@ -60,9 +91,33 @@ export interface Change {
   timestamp: number;
 }
 
+export interface RollbackOptions {
+  backup?: boolean; // take a safety snapshot first (default: true)
+  gitTag?: string;
+  only?: string[]; // gitignore-style patterns, e.g. 'src/**' or '*.ts'
+  exclude?: string[];
+  dryRun?: boolean;
+  deleteNewFiles?: boolean; // delete files that are missing from the snapshot (default: keep)
+}
+
+export interface RollbackAction {
+  path: string;
+  action: 'create' | 'overwrite' | 'delete';
+}
+
+export interface RollbackPlan {
+  snapshotId: string;
+  actions: RollbackAction[];
+  unchanged: number;
+  keptNewFiles: number; // files missing from the snapshot that were left alone
+  dryRun: boolean;
+  safetySnapshotId?: string;
+}
+
 export interface DiffResult {
   file: string;
   changes: DiffChange[];
+  hunks: DiffHunk[];
   additions: number;
   deletions: number;
   summary: string;
@@ -70,9 +125,18 @@ export interface DiffResult {
 
 export interface DiffChange {
   type: 'add' | 'remove' | 'modify';
-  lineNumber: number;
+  lineNumber: number; // new-file line for additions, old-file line for removals
   oldLine?: string;
   newLine?: string;
+  oldLineNumber?: number;
+  newLineNumber?: number;
+  hunk?: HunkRange;
+}
+
+export interface DiffViewOptions {
+  context?: number; // unchanged lines around each change (default 3)
+  sideBySide?: boolean;
+  width?: number; // total terminal width for side-by-side
 }
 
 export interface Backup {
@@ -98,9 +162,38 @@ export interface Conflict {
   endLine: number;
   currentVersion: string;
   incomingVersion: string;
+  baseVersion?: string;
   type: 'content' | 'structure' | 'both';
 }
 
+export interface MergeOptions {
+  only?: string[];
+  exclude?: string[];
+  dryRun?: boolean;
+  backup?: boolean; // safety snapshot before writing (default: true)
+  writeMarkers?: boolean; // write conflicted files with git-style markers (default: true)
+}
+
+export interface FileMergeResult {
+  path: string;
+  status: 'unchanged' | 'theirs' | 'merged' | 'conflict';
+  content: string | Buffer | null; // resulting content (Buffer if binary), null = file is deleted
+  chunks: MergeChunk[]; // empty when the file was decided as a whole
+  conflicts: Conflict[];
+  labels?: MergeLabels;
+  binary?: boolean; // binary files are never merged line by line
+  finalNewline?: boolean; // whether the merged text ends with a newline
+}
+
+export interface MergeReport {
+  baseSnapshotId: string;
+  targetSnapshotId: string;
+  files: FileMergeResult[];
+  conflicted: number;
+  dryRun: boolean;
+  safetySnapshotId?: string;
+}
+
 export interface VersionAnalytics {
   totalVersions: number;
   totalSnapshots: number;
@@ -160,6 +253,7 @@ export class VersionGuardian {
   private snapshotsPath: string;
   private backupsPath: string;
   private historyPath: string;
+  private blobs: BlobStore;
   private autoBackupInterval?: NodeJS.Timeout;
 
   constructor(config: GuardianConfig) {
@@ -177,6 +271,7 @@ export class VersionGuardian {
     this.snapshotsPath = path.join(this.guardianPath, 'snapshots');
     this.backupsPath = path.join(this.guardianPath, 'backups');
     this.historyPath = path.join(this.guardianPath, 'history.json');
+    this.blobs = new BlobStore(this.guardianPath);
   }
 
   // ============================================
@@ -190,6 +285,7 @@ export class VersionGuardian {
     await fs.mkdir(this.guardianPath, { recursive: true });
     await fs.mkdir(this.snapshotsPath, { recursive: true });
     await fs.mkdir(this.backupsPath, { recursive: true });
+    await this.blobs.init();
 
     // Initialize history file
     const initialHistory = {
@@ -225,29 +321,42 @@ export class VersionGuardian {
   // 2️⃣ Snapshot Manager - مدير اللقطات
   // ============================================
 
-  async createSnapshot(name: string, description?: string): Promise<Snapshot> {
+  async createSnapshot(
+    name: string,
+    description?: string,
+    tags: string[] = []
+  ): Promise<SnapshotManifest> {
     console.log(chalk.cyan(`📸 Creating snapshot: ${name}...\n`));
 
+    await this.blobs.init();
+
     const files = await this.scanProjectFiles();
-    const snapshotFiles: SnapshotFile[] = [];
+    const snapshotFiles: SnapshotEntry[] = [];
+    let newBlobs = 0;
+    let newBytes = 0;
 
     for (const filePath of files) {
       const fullPath = path.join(this.config.projectPath, filePath);
-      const content = await fs.readFile(fullPath, 'utf-8');
+      const content = await fs.readFile(fullPath);
       const hash = crypto.createHash('sha256').update(content).digest('hex');
-      const stats = await fs.stat(fullPath);
+
+      // Unchanged files hash to an existing blob and cost nothing extra
+      const stored = await this.blobs.put(content, hash);
+      if (stored.created) {
+        newBlobs++;
+        newBytes += stored.size;
+      }
 
       snapshotFiles.push({
         path: filePath,
-        content,
         hash,
-        size: stats.size,
+        size: content.length,
       });
     }
 
     const totalSize = snapshotFiles.reduce((sum, f) => sum + f.size, 0);
 
-    const snapshot: Snapshot = {
+    const snapshot: SnapshotManifest = {
       id: `snapshot-${Date.now()}`,
       name,
       description,
@@ -260,7 +369,8 @@ export class VersionGuardian {
         createdBy: os.userInfo().username,
         version: '1.0.0',
       },
-      tags: [],
+      tags,
+      storage: 'blobs',
     };
 
     // Create Git commit if enabled
@@ -273,9 +383,8 @@ export class VersionGuardian {
       }
     }
 
-    // Save snapshot
-    const snapshotPath = path.join(this.snapshotsPath, `${snapshot.id}.json`);
-    await fs.writeFile(snapshotPath, JSON.stringify(snapshot, null, 2));
+    // Save manifest
+    await this.saveManifest(snapshot);
 
     // Update history
     await this.addToHistory({
@@ -288,6 +397,11 @@ export class VersionGuardian {
     console.log(chalk.green(`✅ Snapshot created: ${snapshot.id}`));
     console.log(chalk.gray(`   Files: ${snapshot.metadata.totalFiles}`));
     console.log(chalk.gray(`   Size: ${this.formatSize(totalSize)}`));
+    console.log(
+      chalk.gray(
+        `   New Blobs: ${newBlobs} (${this.formatSize(newBytes)}), Reused: ${snapshotFiles.length - newBlobs}`
+      )
+    );
     if (snapshot.gitCommit) {
       console.log(chalk.gray(`   Git Commit: ${snapshot.gitCommit.substring(0, 7)}`));
     }
@@ -295,53 +409,113 @@ export class VersionGuardian {
     return snapshot;
   }
 
-  async listSnapshots(): Promise<Snapshot[]> {
+  async listSnapshots(): Promise<SnapshotManifest[]> {
     const files = await fs.readdir(this.snapshotsPath);
-    const snapshots: Snapshot[] = [];
+    const snapshots: SnapshotManifest[] = [];
 
     for (const file of files) {
       if (file.endsWith('.json')) {
-        const content = await fs.readFile(path.join(this.snapshotsPath, file), 'utf-8');
-        snapshots.push(JSON.parse(content));
+        snapshots.push(await this.readManifest(path.join(this.snapshotsPath, file)));
       }
     }
 
     return snapshots.sort((a, b) => b.timestamp - a.timestamp);
   }
 
-  async deleteSnapshot(snapshotId: string): Promise<void> {
+  async deleteSnapshot(snapshotId: string, options?: { gc?: boolean }): Promise<void> {
     const snapshotPath = path.join(this.snapshotsPath, `${snapshotId}.json`);
     await fs.unlink(snapshotPath);
     console.log(chalk.green(`✅ Snapshot deleted: ${snapshotId}`));
+
+    if (options?.gc !== false) {
+      await this.collectGarbage();
+    }
+  }
+
+  /**
+   * Remove blobs that no remaining snapshot or backup references.
+   */
+  async collectGarbage(): Promise<BlobGCResult> {
+    const referenced = new Set<string>();
+
+    for (const snapshot of await this.listSnapshots()) {
+      snapshot.files.forEach((f) => referenced.add(f.hash));
+    }
+
+    // A backup keeps its files restorable after its snapshot is deleted
+    let backups: string[] = [];
+    try {
+      backups = await fs.readdir(this.backupsPath);
+    } catch {
+      // no backups yet
+    }
+    for (const file of backups.filter((f) => f.endsWith('.json'))) {
+      const data = JSON.parse(await fs.readFile(path.join(this.backupsPath, file), 'utf-8'));
+      if (data.storage === 'blobs') {
+        (data as SnapshotManifest).files.forEach((f) => referenced.add(f.hash));
+      }
+    }
+
+    const result = await this.blobs.gc(referenced);
+
+    if (result.removed > 0) {
+      console.log(
+        chalk.gray(`   GC: removed ${result.removed} blobs (${this.formatSize(result.freedBytes)})`)
+      );
+    }
+
+    return result;
   }
 
   // ============================================
   // 3️⃣ Smart Rollback - رجوع ذكي
   // ============================================
 
-  async rollback(
-    snapshotId: string,
-    options?: { backup?: boolean; gitTag?: string }
-  ): Promise<void> {
-    console.log(chalk.cyan(`⏮️  Rolling back to snapshot: ${snapshotId}...\n`));
+  async rollback(snapshotId: string, options?: RollbackOptions): Promise<RollbackPlan> {
+    const scoped = Boolean(options?.only?.length || options?.exclude?.length);
+    console.log(
+      chalk.cyan(
+        `⏮️  Rolling back${scoped ? ' (partial)' : ''} to snapshot: ${snapshotId}...\n`
+      )
+    );
+
+    // Load snapshot
+    const snapshot = await this.loadManifest(snapshotId);
+    const plan = await this.planRollback(snapshot, options);
+
+    if (options?.dryRun) {
+      this.printRollbackPlan(plan);
+      return plan;
+    }
 
-    // Create backup before rollback
+    if (plan.actions.length === 0) {
+      console.log(chalk.green('✅ Nothing to restore, files already match the snapshot'));
+      return plan;
+    }
+
+    // Safety snapshot of the current state so the rollback itself can be undone
     if (options?.backup !== false) {
-      console.log(chalk.yellow('📦 Creating backup before rollback...'));
-      await this.createBackup(`pre-rollback-${Date.now()}`);
+      console.log(chalk.yellow('📦 Creating safety snapshot before rollback...'));
+      const safety = await this.createSnapshot(
+        `pre-rollback-${Date.now()}`,
+        `Safety snapshot before rolling back to ${snapshot.name}`,
+        ['safety']
+      );
+      plan.safetySnapshotId = safety.id;
     }
 
-    // Load snapshot
-    const snapshotPath = path.join(this.snapshotsPath, `${snapshotId}.json`);
-    const snapshot: Snapshot = JSON.parse(await fs.readFile(snapshotPath, 'utf-8'));
+    const hashes = new Map(snapshot.files.map((f) => [f.path, f.hash]));
+    console.log(chalk.cyan(`Applying ${plan.actions.length} changes...`));
 
-    console.log(chalk.cyan(`Restoring ${snapshot.metadata.totalFiles} files...`));
+    for (const action of plan.actions) {
+      const fullPath = path.join(this.config.projectPath, action.path);
 
-    // Restore files
-    for (const file of snapshot.files) {
-      const fullPath = path.join(this.config.projectPath, file.path);
-      await fs.mkdir(path.dirname(fullPath), { recursive: true });
-      await fs.writeFile(fullPath, file.content);
+      if (action.action === 'delete') {
+        await fs.unlink(fullPath);
+      } else {
+        await fs.mkdir(path.dirname(fullPath), { recursive: true });
+        await fs.writeFile(fullPath, await this.blobs.get(hashes.get(action.path)!));
+      }
     }
 
     // Create Git tag if requested
@@ -349,28 +523,146 @@ export class VersionGuardian {
       await this.createGitTag(options.gitTag, `Rollback to ${snapshot.name}`);
     }
 
+    const count = (type: RollbackAction['action']) =>
+      plan.actions.filter((a) => a.action === type).length;
+
     // Update history
     await this.addToHistory({
       timestamp: Date.now(),
-      event: `Rolled back to: ${snapshot.name}`,
+      event: `Rolled back${scoped ? ' (partial)' : ''} to: ${snapshot.name}`,
       type: 'rollback',
-      description: `Restored ${snapshot.metadata.totalFiles} files`,
+      description: `Created ${count('create')}, overwrote ${count('overwrite')}, deleted ${count('delete')} files`,
     });
 
     console.log(chalk.green(`\n✅ Rollback complete!`));
     console.log(chalk.gray(`   Snapshot: ${snapshot.name}`));
-    console.log(chalk.gray(`   Files Restored: ${snapshot.metadata.totalFiles}`));
+    console.log(
+      chalk.gray(
+        `   Created: ${count('create')}, Overwritten: ${count('overwrite')}, Deleted: ${count('delete')}`
+      )
+    );
+    if (plan.safetySnapshotId) {
+      console.log(chalk.gray(`   Undo with: rollback ${plan.safetySnapshotId}`));
+    }
+
+    return plan;
+  }
+
+  /**
+   * Work out what a rollback would touch: files missing from the working
+   * tree are created and changed ones overwritten. Files that did not exist
+   * in the snapshot are kept unless `deleteNewFiles` is set.
+   */
+  private async planRollback(
+    snapshot: SnapshotManifest,
+    options?: RollbackOptions
+  ): Promise<RollbackPlan> {
+    const inScope = this.createPathFilter(options?.only, options?.exclude);
+    const snapshotFiles = new Map(
+      snapshot.files.filter((f) => inScope(f.path)).map((f) => [f.path, f])
+    );
+    const currentFiles = (await this.scanProjectFiles()).filter(inScope);
+
+    const actions: RollbackAction[] = [];
+    let unchanged = 0;
+    let keptNewFiles = 0;
+
+    for (const filePath of currentFiles) {
+      const target = snapshotFiles.get(filePath);
+      if (!target) {
+        if (options?.deleteNewFiles) {
+          actions.push({ path: filePath, action: 'delete' });
+        } else {
+          keptNewFiles++;
+        }
+        continue;
+      }
+
+      const content = await fs.readFile(path.join(this.config.projectPath, filePath));
+      const hash = crypto.createHash('sha256').update(content).digest('hex');
+      if (hash === target.hash) {
+        unchanged++;
+      } else {
+        actions.push({ path: filePath, action: 'overwrite' });
+      }
+    }
+
+    const existing = new Set(currentFiles);
+    for (const filePath of snapshotFiles.keys()) {
+      if (!existing.has(filePath)) {
+        actions.push({ path: filePath, action: 'create' });
+      }
+    }
+
+    actions.sort((a, b) => a.path.localeCompare(b.path));
+
+    return {
+      snapshotId: snapshot.id,
+      actions,
+      unchanged,
+      keptNewFiles,
+      dryRun: Boolean(options?.dryRun),
+    };
+  }
+
+  private printRollbackPlan(plan: RollbackPlan): void {
+    console.log(chalk.bold(`🔎 Dry run - nothing will be written\n`));
+
+    const styles = {
+      create: { mark: '+', color: chalk.green },
+      overwrite: { mark: '~', color: chalk.yellow },
+      delete: { mark: '-', color: chalk.red },
+    };
+
+    for (const action of plan.actions) {
+      const { mark, color } = styles[action.action];
+      console.log(color(`   ${mark} ${action.action.padEnd(9)} ${action.path}`));
+    }
+
+    if (plan.actions.length === 0) {
+      console.log(chalk.gray('   (no changes)'));
+    }
+
+    console.log(chalk.gray(`\n   ${plan.actions.length} changes, ${plan.unchanged} unchanged files`));
+    if (plan.keptNewFiles > 0) {
+      console.log(
+        chalk.gray(`   ${plan.keptNewFiles} new files kept (--delete-new removes them)`)
+      );
+    }
+  }
+
+  /**
+   * Build a predicate for project-relative paths from gitignore-style
+   * `only`/`exclude` patterns. No `only` means everything is in scope.
+   */
+  private createPathFilter(only?: string[], exclude?: string[]): (filePath: string) => boolean {
+    const include = only?.length ? ignore().add(only) : null;
+    const skip = exclude?.length ? ignore().add(exclude) : null;
+
+    return (filePath: string) => {
+      const posixPath = filePath.split(path.sep).join('/');
+      if (include && !include.ignores(posixPath)) return false;
+      if (skip && skip.ignores(posixPath)) return false;
+      return true;
+    };
   }
 
   // ============================================
   // 4️⃣ Diff Viewer - مقارنة التغييرات
   // ============================================
 
-  async diff(snapshot1Id: string, snapshot2Id: string): Promise<DiffResult[]> {
+  async diff(snapshot1Id: string, snapshot2Id: string, context: number = 3): Promise<DiffResult[]> {
     console.log(chalk.cyan('🔍 Comparing snapshots...\n'));
+    return this.diffSnapshots(snapshot1Id, snapshot2Id, context);
+  }
 
-    const snapshot1 = await this.loadSnapshot(snapshot1Id);
-    const snapshot2 = await this.loadSnapshot(snapshot2Id);
+  private async diffSnapshots(
+    snapshot1Id: string,
+    snapshot2Id: string,
+    context: number
+  ): Promise<DiffResult[]> {
+    const snapshot1 = await this.loadManifest(snapshot1Id);
+    const snapshot2 = await this.loadManifest(snapshot2Id);
 
     const diffs: DiffResult[] = [];
 
@@ -387,43 +679,34 @@ export class VersionGuardian {
 
       if (!file1) {
         // File added
-        diffs.push({
-          file: filePath,
-          changes: [{ type: 'add', lineNumber: 0, newLine: file2!.content }],
-          additions: file2!.content.split('\n').length,
-          deletions: 0,
-          summary: 'File added',
-        });
+        const content = await this.blobs.getText(file2!.hash);
+        diffs.push({ ...computeFileDiff(filePath, '', content, context), summary: 'File added' });
       } else if (!file2) {
         // File deleted
-        diffs.push({
-          file: filePath,
-          changes: [{ type: 'remove', lineNumber: 0, oldLine: file1.content }],
-          additions: 0,
-          deletions: file1.content.split('\n').length,
-          summary: 'File deleted',
-        });
+        const content = await this.blobs.getText(file1.hash);
+        diffs.push({ ...computeFileDiff(filePath, content, '', context), summary: 'File deleted' });
       } else if (file1.hash !== file2.hash) {
         // File modified
-        const changes = this.computeDiff(file1.content, file2.content);
-        const additions = changes.filter((c) => c.type === 'add').length;
-        const deletions = changes.filter((c) => c.type === 'remove').length;
-
-        diffs.push({
-          file: filePath,
-          changes,
-          additions,
-          deletions,
-          summary: `+${additions} -${deletions}`,
-        });
+        diffs.push(
+          computeFileDiff(
+            filePath,
+            await this.blobs.getText(file1.hash),
+            await this.blobs.getText(file2.hash),
+            context
+          )
+        );
       }
     }
 
     return diffs;
   }
 
-  async showDiff(snapshot1Id: string, snapshot2Id: string): Promise<void> {
-    const diffs = await this.diff(snapshot1Id, snapshot2Id);
+  async showDiff(
+    snapshot1Id: string,
+    snapshot2Id: string,
+    options?: DiffViewOptions
+  ): Promise<void> {
+    const diffs = await this.diff(snapshot1Id, snapshot2Id, options?.context);
 
     console.log(chalk.bold('\n📊 Differences:\n'));
 
@@ -431,14 +714,23 @@ export class VersionGuardian {
       console.log(chalk.cyan(`📄 ${diff.file}`));
       console.log(chalk.gray(`   ${diff.summary}`));
 
-      if (diff.changes.length < 50) {
-        diff.changes.forEach((change) => {
-          if (change.type === 'add') {
-            console.log(chalk.green(`   + ${change.newLine}`));
-          } else if (change.type === 'remove') {
-            console.log(chalk.red(`   - ${change.oldLine}`));
+      if (diff.changes.length < 200) {
+        for (const hunk of diff.hunks) {
+          console.log(chalk.magenta(`   ${hunk.header}`));
+          if (options?.sideBySide) {
+            this.printSideBySide(hunk, options.width);
+          } else {
+            hunk.lines.forEach((line) => {
+              if (line.type === 'add') {
+                console.log(chalk.green(`   +${line.content}`));
+              } else if (line.type === 'remove') {
+                console.log(chalk.red(`   -${line.content}`));
+              } else {
+                console.log(chalk.gray(`    ${line.content}`));
+              }
+            });
           }
-        });
+        }
       }
       console.log();
     }
@@ -451,29 +743,46 @@ export class VersionGuardian {
     );
   }
 
-  private computeDiff(content1: string, content2: string): DiffChange[] {
-    const lines1 = content1.split('\n');
-    const lines2 = content2.split('\n');
-    const changes: DiffChange[] = [];
-
-    const maxLen = Math.max(lines1.length, lines2.length);
+  /**
+   * Unified diff text between two snapshots, suitable for `patch` or review tools.
+   */
+  async unifiedDiff(snapshot1Id: string, snapshot2Id: string, context: number = 3): Promise<string> {
+    const diffs = await this.diffSnapshots(snapshot1Id, snapshot2Id, context);
+    return diffs
+      .map((d) =>
+        formatUnifiedDiff(
+          d.hunks,
+          d.summary === 'File added' ? '/dev/null' : `a/${d.file}`,
+          d.summary === 'File deleted' ? '/dev/null' : `b/${d.file}`
+        )
+      )
+      .join('');
+  }
 
-    for (let i = 0; i < maxLen; i++) {
-      const line1 = lines1[i];
-      const line2 = lines2[i];
+  private printSideBySide(hunk: DiffHunk, width?: number): void {
+    const total = width || process.stdout.columns || 120;
+    const column = Math.max(20, Math.floor((total - 7) / 2) - 5);
+    const cell = (side?: { lineNumber: number; content: string }) => {
+      if (!side) return ' '.repeat(column + 5);
+      const text = side.content.replace(/\t/g, '  ');
+      const clipped = text.length > column ? text.slice(0, column - 1) + '…' : text;
+      return `${String(side.lineNumber).padStart(4)} ${clipped.padEnd(column)}`;
+    };
 
-      if (line1 !== line2) {
-        if (line1 === undefined) {
-          changes.push({ type: 'add', lineNumber: i + 1, newLine: line2 });
-        } else if (line2 === undefined) {
-          changes.push({ type: 'remove', lineNumber: i + 1, oldLine: line1 });
-        } else {
-          changes.push({ type: 'modify', lineNumber: i + 1, oldLine: line1, newLine: line2 });
-        }
+    for (const row of toSideBySide(hunk)) {
+      const left = cell(row.left);
+      const right = cell(row.right);
+
+      if (row.type === 'context') {
+        console.log(chalk.gray(`   ${left} │ ${right}`));
+      } else if (row.type === 'modify') {
+        console.log(`   ${chalk.red(left)} ${chalk.yellow('│')} ${chalk.green(right)}`);
+      } else if (row.type === 'remove') {
+        console.log(`   ${chalk.red(left)} ${chalk.red('<')} ${right}`);
+      } else {
+        console.log(`   ${left} ${chalk.green('>')} ${chalk.green(right)}`);
       }
     }
-
-    return changes;
   }
 
   // ============================================
@@ -544,7 +853,11 @@ export class VersionGuardian {
 
   async restoreBackup(backupName: string): Promise<void> {
     const backupPath = path.join(this.backupsPath, `${backupName}.json`);
-    const snapshot: Snapshot = JSON.parse(await fs.readFile(backupPath, 'utf-8'));
+    const snapshot = await this.toManifest(JSON.parse(await fs.readFile(backupPath, 'utf-8')));
+
+    // The snapshot may have been deleted since the backup was taken
+    await fs.mkdir(this.snapshotsPath, { recursive: true });
+    await this.saveManifest(snapshot);
     await this.rollback(snapshot.id, { backup: false });
   }
 
@@ -633,22 +946,22 @@ export class VersionGuardian {
         changes.push({
           type: 'added',
           path: filePath,
-          newContent: current.content,
+          newContent: await this.blobs.getText(current.hash),
           timestamp: snapshots[i].timestamp,
         });
       } else if (previous && !current) {
         changes.push({
           type: 'deleted',
           path: filePath,
-          oldContent: previous.content,
+          oldContent: await this.blobs.getText(previous.hash),
           timestamp: snapshots[i].timestamp,
         });
       } else if (previous && current && previous.hash !== current.hash) {
         changes.push({
           type: 'modified',
           path: filePath,
-          oldContent: previous.content,
-          newContent: current.content,
+          oldContent: await this.blobs.getText(previous.hash),
+          newContent: await this.blobs.getText(current.hash),
           timestamp: snapshots[i].timestamp,
         });
       }
@@ -755,9 +1068,254 @@ export class VersionGuardian {
   }
 
   // ============================================
-  // 9️⃣ AI-Powered Conflict Resolution - حل التعارضات
+  // 9️⃣ Three-Way Merge & Conflict Resolution - الدمج وحل التعارضات
   // ============================================
 
+  /**
+   * Merge the target snapshot into the working tree, using the base snapshot
+   * as the common ancestor. Non-overlapping edits are merged automatically;
+   * overlapping ones become conflicts.
+   */
+  async merge(
+    baseSnapshotId: string,
+    targetSnapshotId: string,
+    options?: MergeOptions
+  ): Promise<MergeReport> {
+    console.log(chalk.cyan(`🔀 Merging ${targetSnapshotId} (base: ${baseSnapshotId})...\n`));
+
+    const base = await this.loadManifest(baseSnapshotId);
+    const target = await this.loadManifest(targetSnapshotId);
+    const inScope = this.createPathFilter(options?.only, options?.exclude);
+
+    const baseFiles = new Map(base.files.map((f) => [f.path, f.hash]));
+    const targetFiles = new Map(target.files.map((f) => [f.path, f.hash]));
+    const currentFiles = new Set(await this.scanProjectFiles());
+
+    const allPaths = [...new Set([...baseFiles.keys(), ...targetFiles.keys(), ...currentFiles])]
+      .filter(inScope)
+      .sort();
+
+    const files: FileMergeResult[] = [];
+
+    for (const filePath of allPaths) {
+      const baseContent = baseFiles.has(filePath)
+        ? await this.blobs.get(baseFiles.get(filePath)!)
+        : null;
+      const theirs = targetFiles.has(filePath)
+        ? await this.blobs.get(targetFiles.get(filePath)!)
+        : null;
+      const ours = currentFiles.has(filePath)
+        ? await fs.readFile(path.join(this.config.projectPath, filePath))
+        : null;
+
+      files.push(
+        this.mergeFile(filePath, baseContent, ours, theirs, {
+          ours: 'working tree',
+          base: base.name,
+          theirs: target.name,
+        })
+      );
+    }
+
+    const changed = files.filter((f) => f.status !== 'unchanged');
+    const report: MergeReport = {
+      baseSnapshotId,
+      targetSnapshotId,
+      files: changed,
+      conflicted: changed.filter((f) => f.status === 'conflict').length,
+      dryRun: Boolean(options?.dryRun),
+    };
+
+    if (!options?.dryRun && changed.length > 0) {
+      if (options?.backup !== false) {
+        const safety = await this.createSnapshot(
+          `pre-merge-${Date.now()}`,
+          `Safety snapshot before merging ${target.name}`,
+          ['safety']
+        );
+        report.safetySnapshotId = safety.id;
+      }
+
+      for (const file of changed) {
+        if (file.status === 'conflict' && options?.writeMarkers === false) continue;
+        // Modify/delete and binary conflicts have no markers; leave the working copy alone
+        if (file.status === 'conflict' && file.chunks.length === 0) continue;
+        await this.writeMergedFile(file.path, file.content);
+      }
+
+      await this.addToHistory({
+        timestamp: Date.now(),
+        event: `Merged: ${target.name}`,
+        type: 'version',
+        description: `${changed.length} files, ${report.conflicted} conflicts`,
+      });
+    }
+
+    this.printMergeReport(report);
+    return report;
+  }
+
+  /**
+   * Conflicts of one merged file in the shape `resolveConflicts` and the CLI
+   * work with; the suggestion is the file with conflict markers.
+   */
+  toConflictResolution(file: FileMergeResult): ConflictResolution {
+    return {
+      file: file.path,
+      conflicts: file.conflicts,
+      suggestedResolution: typeof file.content === 'string' ? file.content : '',
+      confidence: file.conflicts.length === 0 ? 100 : 0,
+    };
+  }
+
+  /**
+   * Write a conflicted file after choosing a resolution for each conflict
+   * (in order). Unresolved entries keep their markers.
+   */
+  async applyMergeResolutions(
+    file: FileMergeResult,
+    resolutions: Array<ChunkResolution | undefined>
+  ): Promise<string> {
+    const content = renderMerge(file.chunks, resolutions, file.labels, file.finalNewline);
+    await this.writeMergedFile(file.path, content);
+    return content;
+  }
+
+  private mergeFile(
+    filePath: string,
+    baseContent: Buffer | null,
+    oursContent: Buffer | null,
+    theirsContent: Buffer | null,
+    labels: MergeLabels
+  ): FileMergeResult {
+    const sides = [baseContent, oursContent, theirsContent];
+    const binary = sides.some((side) => side !== null && !isText(side));
+
+    const result = (
+      status: FileMergeResult['status'],
+      content: string | Buffer | null,
+      chunks: MergeChunk[] = [],
+      conflicts: Conflict[] = []
+    ): FileMergeResult => ({ path: filePath, status, content, chunks, conflicts, labels });
+
+    // Binary files are taken whole from one side, or left alone when both changed them
+    if (binary) {
+      const same = (a: Buffer | null, b: Buffer | null) => (a && b ? a.equals(b) : a === b);
+      const whole = (status: FileMergeResult['status'], content: Buffer | null) => ({
+        ...result(status, content),
+        binary: true,
+      });
+      if (same(oursContent, theirsContent) || same(theirsContent, baseContent)) {
+        return whole('unchanged', oursContent);
+      }
+      if (same(oursContent, baseContent)) return whole('theirs', theirsContent);
+      return whole('conflict', oursContent);
+    }
+
+    const [base, ours, theirs] = sides.map((side) => side?.toString('utf-8') ?? null);
+
+    if (ours === theirs || theirs === base) return result('unchanged', ours);
+    if (ours === base) return result('theirs', theirs);
+
+    // One side deleted the file while the other changed it
+    if (ours === null || theirs === null) {
+      return result('conflict', ours, [], [
+        {
+          startLine: 1,
+          endLine: splitLines(ours ?? theirs ?? '').length,
+          currentVersion: ours ?? '',
+          incomingVersion: theirs ?? '',
+          baseVersion: base ?? undefined,
+          type: 'structure',
+        },
+      ]);
+    }
+
+    const merged = mergeThreeWay(
+      splitLines(base ?? ''),
+      splitLines(ours),
+      splitLines(theirs),
+      labels
+    );
+
+    // Keep the trailing newline of whichever side changed it
+    const finalNewline =
+      endsWithNewline(ours) === endsWithNewline(base)
+        ? endsWithNewline(theirs)
+        : endsWithNewline(ours);
+    const content = renderMerge(merged.chunks, [], labels, finalNewline);
+
+    if (merged.clean) return { ...result('merged', content, merged.chunks), finalNewline };
+
+    // Locate each conflict block in the marker output
+    const conflicts: Conflict[] = [];
+    let line = 1;
+    for (const chunk of merged.chunks) {
+      if (chunk.type !== 'conflict') {
+        line += (chunk.type === 'theirs' ? chunk.theirs : chunk.ours).length;
+        continue;
+      }
+      const length = chunk.ours.length + chunk.base.length + chunk.theirs.length + 4;
+      conflicts.push({
+        startLine: line,
+        endLine: line + length - 1,
+        currentVersion: chunk.ours.join('\n'),
+        incomingVersion: chunk.theirs.join('\n'),
+        baseVersion: chunk.base.join('\n'),
+        type: 'content',
+      });
+      line += length;
+    }
+
+    return { ...result('conflict', content, merged.chunks, conflicts), finalNewline };
+  }
+
+  private async writeMergedFile(
+    filePath: string,
+    content: string | Buffer | null
+  ): Promise<void> {
+    const fullPath = path.join(this.config.projectPath, filePath);
+    if (content === null) {
+      await fs.rm(fullPath, { force: true });
+      return;
+    }
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, content);
+  }
+
+  private printMergeReport(report: MergeReport): void {
+    if (report.dryRun) {
+      console.log(chalk.bold(`🔎 Dry run - nothing will be written\n`));
+    }
+
+    for (const file of report.files) {
+      if (file.status === 'conflict') {
+        const kind = file.binary
+          ? 'binary'
+          : file.chunks.length === 0
+            ? 'modify/delete'
+            : `${file.conflicts.length} conflicts`;
+        console.log(chalk.red(`   ✗ ${file.path} (${kind})`));
+      } else if (file.status === 'merged') {
+        console.log(chalk.green(`   ✓ ${file.path} (auto-merged)`));
+      } else {
+        const verb = file.content === null ? 'delete' : 'take incoming';
+        console.log(chalk.cyan(`   → ${file.path} (${verb})`));
+      }
+    }
+
+    if (report.files.length === 0) {
+      console.log(chalk.green('✅ Nothing to merge'));
+      return;
+    }
+
+    const summary = `\n   ${report.files.length} files, ${report.conflicted} with conflicts`;
+    console.log(report.conflicted > 0 ? chalk.yellow(summary) : chalk.gray(summary));
+    if (report.safetySnapshotId) {
+      console.log(chalk.gray(`   Undo with: rollback ${report.safetySnapshotId}`));
+    }
+  }
+
   async resolveConflicts(file: string, conflicts: Conflict[]): Promise<ConflictResolution> {
     console.log(chalk.cyan(`🤖 AI is analyzing conflicts in ${file}...`));
 
@@ -838,8 +1396,9 @@ Format your response as JSON:
           // Keep only the latest N snapshots
           const toDelete = snapshots.slice(this.config.maxSnapshots || 50);
           for (const snapshot of toDelete) {
-            await this.deleteSnapshot(snapshot.id);
+            await this.deleteSnapshot(snapshot.id, { gc: false });
           }
+          await this.collectGarbage();
         },
       });
     }
@@ -938,18 +1497,21 @@ Format your response as JSON:
   // ============================================
 
   async exportSnapshot(snapshotId: string, outputPath: string): Promise<void> {
+    // Exports are self-contained: file contents are inlined from the blob store
     const snapshot = await this.loadSnapshot(snapshotId);
     await fs.writeFile(outputPath, JSON.stringify(snapshot, null, 2));
     console.log(chalk.green(`✅ Snapshot exported to: ${outputPath}`));
   }
 
-  async importSnapshot(importPath: string): Promise<Snapshot> {
+  async importSnapshot(importPath: string): Promise<SnapshotManifest> {
     const content = await fs.readFile(importPath, 'utf-8');
-    const snapshot: Snapshot = JSON.parse(content);
+    const data = JSON.parse(content);
+
+    await fs.mkdir(this.snapshotsPath, { recursive: true });
+    const snapshot = await this.toManifest(data);
 
     // Save to snapshots directory
-    const snapshotPath = path.join(this.snapshotsPath, `${snapshot.id}.json`);
-    await fs.writeFile(snapshotPath, JSON.stringify(snapshot, null, 2));
+    await this.saveManifest(snapshot);
 
     console.log(chalk.green(`✅ Snapshot imported: ${snapshot.id}`));
     return snapshot;
@@ -986,10 +1548,71 @@ Format your response as JSON:
     return files;
   }
 
+  private async loadManifest(snapshotId: string): Promise<SnapshotManifest> {
+    return this.readManifest(path.join(this.snapshotsPath, `${snapshotId}.json`));
+  }
+
   private async loadSnapshot(snapshotId: string): Promise<Snapshot> {
-    const snapshotPath = path.join(this.snapshotsPath, `${snapshotId}.json`);
-    const content = await fs.readFile(snapshotPath, 'utf-8');
-    return JSON.parse(content);
+    const { storage: _storage, ...manifest } = await this.loadManifest(snapshotId);
+    const files: SnapshotFile[] = [];
+
+    for (const file of manifest.files) {
+      const content = await this.blobs.get(file.hash);
+
+      // Anything that does not survive a utf-8 round trip is exported as base64
+      files.push(
+        isText(content)
+          ? { ...file, content: content.toString('utf-8') }
+          : { ...file, content: content.toString('base64'), encoding: 'base64' }
+      );
+    }
+
+    return { ...manifest, files };
+  }
+
+  /**
+   * Read a manifest, upgrading legacy snapshots (full file contents inline)
+   * into the blob store on first access.
+   */
+  private async readManifest(snapshotPath: string): Promise<SnapshotManifest> {
+    const data = JSON.parse(await fs.readFile(snapshotPath, 'utf-8'));
+
+    if (data.storage === 'blobs') {
+      return data;
+    }
+
+    const manifest = await this.toManifest(data);
+    await this.saveManifest(manifest);
+    return manifest;
+  }
+
+  /**
+   * Convert a snapshot with inline contents (legacy file or export) into a
+   * manifest, storing the contents as blobs.
+   */
+  private async toManifest(data: Snapshot | SnapshotManifest): Promise<SnapshotManifest> {
+    await this.blobs.init();
+    const files: SnapshotEntry[] = [];
+
+    for (const file of data.files as Array<SnapshotEntry & Partial<SnapshotFile>>) {
+      if (typeof file.content === 'string') {
+        const content =
+          file.encoding === 'base64' ? Buffer.from(file.content, 'base64') : file.content;
+        const stored = await this.blobs.put(content);
+        files.push({ path: file.path, hash: stored.hash, size: stored.size });
+      } else if (await this.blobs.has(file.hash)) {
+        files.push({ path: file.path, hash: file.hash, size: file.size });
+      } else {
+        throw new Error(`Snapshot ${data.id} references missing blob for ${file.path}`);
+      }
+    }
+
+    return { ...data, files, storage: 'blobs' };
+  }
+
+  private async saveManifest(manifest: SnapshotManifest): Promise<void> {
+    const snapshotPath = path.join(this.snapshotsPath, `${manifest.id}.json`);
+    await fs.writeFile(snapshotPath, JSON.stringify(manifest, null, 2));
   }
 
   private formatSize(bytes: number): string {
@@ -1010,6 +1633,74 @@ Format your response as JSON:
   }
 }
 
+// ============================================
+// 🔍 File Diff
+// ============================================
+
+/**
+ * Minimal line diff of one file, grouped into hunks. Each change carries the
+ * range of the hunk it belongs to.
+ */
+export function computeFileDiff(
+  file: string,
+  oldContent: string,
+  newContent: string,
+  context: number = 3
+): DiffResult {
+  const hunks = createHunks(diffLines(splitLines(oldContent), splitLines(newContent)), context);
+  const changes: DiffChange[] = [];
+
+  for (const hunk of hunks) {
+    const range: HunkRange = {
+      oldStart: hunk.oldStart,
+      oldLines: hunk.oldLines,
+      newStart: hunk.newStart,
+      newLines: hunk.newLines,
+    };
+
+    for (const line of hunk.lines) {
+      if (line.type === 'add') {
+        changes.push({
+          type: 'add',
+          lineNumber: line.newLineNumber!,
+          newLine: line.content,
+          newLineNumber: line.newLineNumber,
+          hunk: range,
+        });
+      } else if (line.type === 'remove') {
+        changes.push({
+          type: 'remove',
+          lineNumber: line.oldLineNumber!,
+          oldLine: line.content,
+          oldLineNumber: line.oldLineNumber,
+          hunk: range,
+        });
+      }
+    }
+  }
+
+  const additions = changes.filter((c) => c.type === 'add').length;
+  const deletions = changes.filter((c) => c.type === 'remove').length;
+
+  return {
+    file,
+    changes,
+    hunks,
+    additions,
+    deletions,
+    summary: `+${additions} -${deletions}`,
+  };
+}
+
+// Anything that survives a utf-8 round trip is text
+function isText(content: Buffer): boolean {
+  return Buffer.from(content.toString('utf-8'), 'utf-8').equals(content);
+}
+
+function endsWithNewline(text: string | null): boolean {
+  return text?.endsWith('\n') ?? false;
+}
+
 // ============================================
 // 🏭 Factory Function
 // ============================================
@@ -0,0 +1,498 @@
+// workspace-policy.ts
+// ============================================
+// 🛡️ Workspace Policy - حماية مساحة العمل للأدوات
+// ============================================
+
+import fs from 'fs-extra';
+import path from 'path';
+import ignore, { Ignore } from 'ignore';
+
+// ============================================
+// 📦 Types & Interfaces
+// ============================================
+
+export enum WorkspaceViolationType {
+  OUTSIDE_WORKSPACE = 'OUTSIDE_WORKSPACE',
+  SYMLINK_ESCAPE = 'SYMLINK_ESCAPE',
+  DENIED_PATH = 'DENIED_PATH',
+  PROTECTED_PATH = 'PROTECTED_PATH',
+  OPERATION_DENIED = 'OPERATION_DENIED',
+  COMMAND_NOT_ALLOWED = 'COMMAND_NOT_ALLOWED',
+}
+
+export type WorkspaceAccess = 'read' | 'write' | 'execute';
+
+/**
+ * Same meaning as `SecurityPolicy.allowedOperations.fileOperations` in
+ * ComputerControlAgent, minus `'confirm'`: tools run without a prompt.
+ */
+export interface WorkspaceFileOperations {
+  read: boolean;
+  write: boolean;
+  execute: boolean;
+}
+
+export interface WorkspacePolicyConfig {
+  root: string;
+  denyPaths: string[]; // gitignore-style, relative to root
+  protectedPaths: string[]; // absolute prefixes, as in SecurityPolicy
+  allowedCommands: string[]; // `npm test`, `git status`, ...
+  fileOperations: WorkspaceFileOperations;
+}
+
+/**
+ * The subset of ComputerControlAgent's `SecurityPolicy` that maps onto a
+ * workspace policy.
+ */
+export interface SecurityPolicyLike {
+  allowedOperations: {
+    fileOperations: Record<'read' | 'write' | 'execute', boolean | 'confirm'>;
+  };
+  protectedPaths: string[];
+  autoApprove?: { enabled: boolean; patterns: string[] };
+}
+
+export const DEFAULT_DENY_PATHS = ['.env*', '.git/**', '.git', '*.pem', '*.key', 'id_rsa*'];
+
+export const DEFAULT_ALLOWED_COMMANDS = [
+  'ls',
+  'pwd',
+  'cat',
+  'echo',
+  'grep',
+  'git status',
+  'git diff',
+  'git log',
+  'git show',
+  'npm test',
+  'npx tsc',
+  'npx jest',
+  'npx eslint',
+  'npx prettier',
+];
+
+// ============================================
+// ❌ Violation Error
+// ============================================
+
+export class WorkspaceViolationError extends Error {
+  public readonly type: WorkspaceViolationType;
+  public readonly target: string;
+
+  constructor(type: WorkspaceViolationType, target: string, message: string) {
+    super(message);
+    this.name = 'WorkspaceViolationError';
+    this.type = type;
+    this.target = target;
+
+    Object.setPrototypeOf(this, WorkspaceViolationError.prototype);
+  }
+
+  /**
+   * Tool result the model receives instead of the operation's output.
+   */
+  toToolResult() {
+    return {
+      success: false,
+      error: this.message,
+      violation: this.type,
+      target: this.target,
+    };
+  }
+}
+
+// ============================================
+// 🛡️ Workspace Policy Class
+// ============================================
+
+export class WorkspacePolicy {
+  private config: WorkspacePolicyConfig;
+  private realRoot: string | null = null;
+  private denied: Ignore;
+  private sessionCommands: Set<string> = new Set();
+
+  constructor(config: Partial<WorkspacePolicyConfig> = {}) {
+    this.config = {
+      root: path.resolve(config.root || process.cwd()),
+      denyPaths: config.denyPaths || DEFAULT_DENY_PATHS,
+      protectedPaths: config.protectedPaths || [],
+      allowedCommands: config.allowedCommands || DEFAULT_ALLOWED_COMMANDS,
+      fileOperations: { read: true, write: true, execute: true, ...config.fileOperations },
+    };
+    this.denied = ignore().add(this.config.denyPaths);
+  }
+
+  /**
+   * Build a policy from ComputerControlAgent's `SecurityPolicy`. `'confirm'`
+   * counts as allowed and auto-approve patterns join the command allowlist.
+   */
+  static fromSecurityPolicy(root: string, policy: SecurityPolicyLike): WorkspacePolicy {
+    const ops = policy.allowedOperations.fileOperations;
+    return new WorkspacePolicy({
+      root,
+      protectedPaths: policy.protectedPaths,
+      allowedCommands: [
+        ...DEFAULT_ALLOWED_COMMANDS,
+        ...(policy.autoApprove?.enabled ? policy.autoApprove.patterns : []),
+      ],
+      fileOperations: {
+        read: ops.read !== false,
+        write: ops.write !== false,
+        execute: ops.execute !== false,
+      },
+    });
+  }
+
+  get root(): string {
+    return this.config.root;
+  }
+
+  // ============================================
+  // 📁 Paths
+  // ============================================
+
+  /**
+   * Resolve a tool path against the workspace root and check it. Returns the
+   * absolute path, or throws WorkspaceViolationError.
+   */
+  async resolvePath(target: string, access: WorkspaceAccess = 'read'): Promise<string> {
+    this.checkOperation(access, target);
+    return this.checkPath(target);
+  }
+
+  /**
+   * Non-throwing check for listings and searches: hides denied entries.
+   */
+  isDenied(absolutePath: string): boolean {
+    const relative = this.relativeToRoot(this.config.root, absolutePath);
+    return relative === null || (relative !== '' && this.denied.ignores(relative));
+  }
+
+  // ============================================
+  // 💻 Commands
+  // ============================================
+
+  /**
+   * Allow a command pattern for the rest of this session.
+   */
+  allowCommand(pattern: string): void {
+    this.sessionCommands.add(pattern.trim());
+  }
+
+  resetSession(): void {
+    this.sessionCommands.clear();
+  }
+
+  getAllowedCommands(): string[] {
+    return [...this.config.allowedCommands, ...this.sessionCommands];
+  }
+
+  /**
+   * The command is tokenized the way the shell will read it. Every simple
+   * command of a list or pipeline (`a && b | c`) must match an allowed
+   * pattern, and every argument and redirection target must be a path the
+   * policy allows. Anything the lexer does not understand (background `&`,
+   * substitutions, variables, globs, heredocs, subshells) is rejected.
+   */
+  async checkCommand(command: string): Promise<void> {
+    this.checkOperation('execute', command);
+
+    let segments: ShellSegment[];
+    try {
+      segments = parseShellCommand(command);
+    } catch (error: any) {
+      throw new WorkspaceViolationError(
+        WorkspaceViolationType.COMMAND_NOT_ALLOWED,
+        command,
+        `صيغة أمر غير مسموحة: ${error.message}`
+      );
+    }
+
+    const patterns = this.getAllowedCommands();
+    for (const { words, redirects } of segments) {
+      if (!patterns.some((pattern) => matchCommand(words, pattern))) {
+        throw new WorkspaceViolationError(
+          WorkspaceViolationType.COMMAND_NOT_ALLOWED,
+          command,
+          `الأمر غير مسموح في هذه الجلسة: ${words.join(' ')}. المسموح: ${patterns.join(', ')}`
+        );
+      }
+
+      // الوسائط قد تكون مسارات: cat ../secret أو grep -r x /etc أو -o/etc/passwd
+      for (const arg of words.slice(1)) {
+        const value = argumentPath(arg);
+        if (value) await this.checkPath(value);
+      }
+
+      for (const { op, target } of redirects) {
+        if (target === '/dev/null') continue;
+        await this.resolvePath(target, op === '<' ? 'read' : 'write');
+      }
+    }
+  }
+
+  // ============================================
+  // 🛠️ Helpers
+  // ============================================
+
+  private async checkPath(target: string): Promise<string> {
+    const absolute = path.resolve(this.config.root, target);
+    const relative = this.relativeToRoot(this.config.root, absolute);
+    if (relative === null) {
+      throw new WorkspaceViolationError(
+        WorkspaceViolationType.OUTSIDE_WORKSPACE,
+        target,
+        `المسار خارج مساحة العمل (${this.config.root}): ${target}`
+      );
+    }
+
+    for (const protectedPath of this.config.protectedPaths) {
+      if (this.relativeToRoot(path.resolve(protectedPath), absolute) !== null) {
+        throw new WorkspaceViolationError(
+          WorkspaceViolationType.PROTECTED_PATH,
+          target,
+          `مسار محمي: ${protectedPath}`
+        );
+      }
+    }
+
+    this.checkDenied(relative, target);
+
+    // Follow symlinks: the real location must stay inside the real root
+    const realRoot = await this.getRealRoot();
+    const realRelative = this.relativeToRoot(realRoot, await realpathOfNearest(absolute));
+    if (realRelative === null) {
+      throw new WorkspaceViolationError(
+        WorkspaceViolationType.SYMLINK_ESCAPE,
+        target,
+        `المسار يشير عبر رابط رمزي إلى خارج مساحة العمل: ${target}`
+      );
+    }
+    this.checkDenied(realRelative, target);
+
+    return absolute;
+  }
+
+  private checkOperation(access: WorkspaceAccess, target: string): void {
+    if (!this.config.fileOperations[access]) {
+      throw new WorkspaceViolationError(
+        WorkspaceViolationType.OPERATION_DENIED,
+        target,
+        `العملية غير مسموحة بالسياسة الحالية: ${access}`
+      );
+    }
+  }
+
+  private checkDenied(relative: string, target: string): void {
+    if (relative !== '' && this.denied.ignores(relative)) {
+      throw new WorkspaceViolationError(
+        WorkspaceViolationType.DENIED_PATH,
+        target,
+        `الوصول إلى هذا المسار ممنوع: ${relative}`
+      );
+    }
+  }
+
+  /**
+   * `absolute` relative to `root` with forward slashes, or null when it
+   * lies outside.
+   */
+  private relativeToRoot(root: string, absolute: string): string | null {
+    const relative = path.relative(root, absolute);
+    if (relative === '..' || relative.startsWith('..' + path.sep) || path.isAbsolute(relative)) {
+      return null;
+    }
+    return relative.split(path.sep).join('/');
+  }
+
+  private async getRealRoot(): Promise<string> {
+    if (!this.realRoot) {
+      this.realRoot = await fs.realpath(this.config.root);
+    }
+    return this.realRoot;
+  }
+}
+
+/**
+ * The part of a command argument that may name a path: the argument itself,
+ * the value after `--option=`, or a value attached to a short option
+ * (`-o/etc/passwd`, `-f../secret`, `-C/`) when it looks like a path.
+ */
+function argumentPath(arg: string): string {
+  if (!arg.startsWith('-')) return arg;
+  if (arg.startsWith('--')) return arg.split('=').slice(1).join('=');
+
+  const attached = arg.slice(2).replace(/^=/, '');
+  return /^[.~]|[\\/]/.test(attached) ? attached : '';
+}
+
+/**
+ * realpath of the deepest existing ancestor, with the missing tail appended
+ * (a file about to be created inside a symlinked directory still counts).
+ */
+async function realpathOfNearest(absolute: string): Promise<string> {
+  const missing: string[] = [];
+  let current = absolute;
+
+  while (true) {
+    try {
+      const real = await fs.realpath(current);
+      return path.join(real, ...missing.reverse());
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) return absolute;
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+// The program word must match the pattern's first word on its own, so a
+// quoted 'git status' cannot pose as `git` + `status`.
+function matchCommand(words: string[], pattern: string): boolean {
+  if (pattern === '*') return true;
+  const [program, ...rest] = pattern.trim().split(/\s+/);
+  if (!globToRegExp(program).test(words[0])) return false;
+  if (rest.length === 0) return true;
+  return globToRegExp(rest.join(' '), '(\\s.*)?').test(words.slice(1).join(' '));
+}
+
+function globToRegExp(glob: string, tail = ''): RegExp {
+  const source = glob
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${tail}$`);
+}
+
+// ============================================
+// 🐚 Shell Lexer
+// ============================================
+
+interface ShellRedirect {
+  op: '<' | '>' | '>>';
+  target: string;
+}
+
+interface ShellSegment {
+  words: string[];
+  redirects: ShellRedirect[];
+}
+
+const SHELL_SEPARATORS = ['&&', '||', ';', '|', '\n'];
+
+/**
+ * Split a command into simple commands the way sh would, keeping only the
+ * constructs whose effect is known. Throws on everything else.
+ */
+function parseShellCommand(command: string): ShellSegment[] {
+  const segments: ShellSegment[] = [];
+  let current: ShellSegment = { words: [], redirects: [] };
+  let word: string | null = null;
+  let pendingRedirect: ShellRedirect['op'] | null = null;
+  let i = 0;
+
+  const endWord = () => {
+    if (word === null) return;
+    if (pendingRedirect) {
+      current.redirects.push({ op: pendingRedirect, target: word });
+      pendingRedirect = null;
+    } else {
+      current.words.push(word);
+    }
+    word = null;
+  };
+
+  const endSegment = (separator: string) => {
+    endWord();
+    if (pendingRedirect) throw new Error(`${pendingRedirect} بدون مسار`);
+    if (current.words.length === 0) throw new Error(`${separator.trim() || '\\n'} بدون أمر`);
+    segments.push(current);
+    current = { words: [], redirects: [] };
+  };
+
+  while (i < command.length) {
+    const char = command[i];
+    const next = command[i + 1];
+
+    const separator = SHELL_SEPARATORS.find((op) => command.startsWith(op, i));
+    if (separator) {
+      if (separator === '|' && next === '&') throw new Error('|&');
+      endSegment(separator);
+      i += separator.length;
+      continue;
+    }
+
+    if (char === ' ' || char === '\t') {
+      endWord();
+      i++;
+      continue;
+    }
+
+    if (char === '>' || char === '<') {
+      // 2>&1 و >&2: نسخ واصف ملف، لا مسار
+      const fd = word !== null && /^\d$/.test(word) ? word : null;
+      if (word !== null && fd === null) endWord();
+      if (next === '&') {
+        const dup = command.slice(i + 2).match(/^(\d|-)(?=\s|$|;|\||&&)/);
+        if (!dup) throw new Error(`${char}&`);
+        word = null;
+        i += 2 + dup[0].length;
+        continue;
+      }
+      if (char === '<' && (next === '<' || next === '>' || next === '(')) {
+        throw new Error(`<${next}`);
+      }
+      if (char === '>' && (next === '|' || next === '(')) throw new Error(`>${next}`);
+      if (pendingRedirect) throw new Error(`${pendingRedirect} بدون مسار`);
+
+      word = null;
+      pendingRedirect = char === '<' ? '<' : next === '>' ? '>>' : '>';
+      i += pendingRedirect.length;
+      continue;
+    }
+
+    if (char === "'") {
+      const close = command.indexOf("'", i + 1);
+      if (close === -1) throw new Error("' غير مغلق");
+      word = (word ?? '') + command.slice(i + 1, close);
+      i = close + 1;
+      continue;
+    }
+
+    if (char === '"') {
+      let value = '';
+      i++;
+      while (i < command.length && command[i] !== '"') {
+        if (command[i] === '$' || command[i] === '`') throw new Error(`${command[i]} داخل ""`);
+        if (command[i] === '\\' && /["\\\n]/.test(command[i + 1] ?? '')) i++;
+        value += command[i++];
+      }
+      if (i >= command.length) throw new Error('" غير مغلق');
+      word = (word ?? '') + value;
+      i++;
+      continue;
+    }
+
+    if (char === '\\') {
+      if (next === undefined) throw new Error('\\ في النهاية');
+      if (next !== '\n') word = (word ?? '') + next;
+      i += 2;
+      continue;
+    }
+
+    // ~ يُوسَّع في بداية الكلمة أو بعد = و :
+    if (char === '~' && (word === null || /[=:]$/.test(word))) throw new Error('~');
+    if (char === '#' && word === null) throw new Error('#');
+    if ('&$`(){}*?[]!'.includes(char)) throw new Error(char);
+
+    word = (word ?? '') + char;
+    i++;
+  }
+
+  // فاصل في النهاية (`ls;`) لا يترك أمراً فارغاً
+  if (word !== null || pendingRedirect || current.words.length > 0 || segments.length === 0) {
+    endSegment('');
+  }
+  return segments;
+}
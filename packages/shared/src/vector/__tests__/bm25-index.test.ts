@@ -0,0 +1,36 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 BM25 Index Tests - اختبارات البحث النصي
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect } from '@jest/globals';
+import { BM25Index } from '../bm25-index';
+
+describe('BM25Index', () => {
+  test('exact identifiers outrank files that only share common words', () => {
+    const index = new BM25Index();
+    index.add('src/core/validation-pipeline.ts', [
+      { text: 'src/core/validation-pipeline.ts', weight: 2 },
+      { text: 'ValidationPipeline runStage', weight: 3 },
+      { text: 'export class ValidationPipeline { runStage() { return this.validate(); } }' },
+    ]);
+    index.add('src/forms.ts', 'export function validate(form) { /* pipeline form validation */ }');
+    index.add('src/cart.ts', 'export function total(items) { return items.length; }');
+
+    const matches = index.search('where is ValidationPipeline used?');
+
+    expect(matches.map((m) => m.id)).toEqual(['src/core/validation-pipeline.ts', 'src/forms.ts']);
+    expect(matches[0].terms).toContain('validationpipeline');
+  });
+
+  test('replacing and removing documents keeps statistics consistent', () => {
+    const index = new BM25Index();
+    index.add('a', 'alpha beta');
+    index.add('b', 'beta gamma');
+    index.add('a', 'delta');
+    index.remove('b');
+
+    expect(index.size).toBe(1);
+    expect(index.search('beta')).toEqual([]);
+    expect(index.search('delta')[0]).toMatchObject({ id: 'a', terms: ['delta'] });
+  });
+});
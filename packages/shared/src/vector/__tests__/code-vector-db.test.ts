@@ -0,0 +1,121 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Code Vector DB Tests - اختبارات الفهرس المحلي
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CodeVectorDB } from '../code-vector-db';
+import {
+  HashingEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  cosineSimilarity,
+  parseEmbeddingProviderId,
+} from '../embedding-providers';
+import { readIndexProviderId } from '../local-vector-store';
+import { pointId } from '../qdrant-backend';
+
+const auth = `export async function loginUser(email: string, password: string) {
+  const user = await findUserByEmail(email);
+  return verifyPassword(user, password) ? createSession(user) : null;
+}`;
+
+const cart = `export function calculateCartTotal(items: CartItem[]) {
+  return items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+}`;
+
+let indexDir: string;
+
+beforeEach(async () => {
+  indexDir = await fs.mkdtemp(path.join(os.tmpdir(), 'oqool-index-'));
+});
+
+afterEach(async () => {
+  await fs.remove(indexDir);
+});
+
+describe('HashingEmbeddingProvider', () => {
+  test('texts sharing a long prefix still get distinct vectors', async () => {
+    const provider = new HashingEmbeddingProvider();
+    const prefix = '// '.padEnd(120, '=') + '\n';
+    const [a, b] = await provider.embed([prefix + auth, prefix + cart]);
+
+    expect(cosineSimilarity(a, b)).toBeLessThan(0.9);
+  });
+});
+
+describe('CodeVectorDB (local backend)', () => {
+  test('indexes, searches and persists to disk without any server', async () => {
+    const db = new CodeVectorDB({ indexDir });
+    await db.initialize();
+
+    const result = await db.indexCodebase([
+      { path: 'src/auth.ts', content: auth, language: 'typescript' },
+      { path: 'src/cart.ts', content: cart, language: 'typescript' },
+    ]);
+    expect(result).toEqual({ indexed: 2, failed: 0 });
+
+    const reopened = new CodeVectorDB({ indexDir });
+    await reopened.initialize();
+
+    const [top] = await reopened.search('user login password session');
+    expect(top.chunk.metadata.file).toBe('src/auth.ts');
+    expect((await reopened.getStats()).totalFiles).toBe(2);
+  });
+
+  test('re-indexing a file replaces its chunks and finds duplicates', async () => {
+    const db = new CodeVectorDB({ indexDir });
+    await db.initialize();
+
+    await db.indexCodebase([
+      { path: 'src/cart.ts', content: cart, language: 'typescript' },
+      { path: 'src/legacy-cart.ts', content: cart, language: 'typescript' },
+    ]);
+    const duplicates = await db.findDuplicates(0.95);
+    expect(duplicates).toHaveLength(1);
+
+    await db.indexCodebase([{ path: 'src/legacy-cart.ts', content: auth, language: 'typescript' }]);
+    expect(await db.findDuplicates(0.95)).toHaveLength(0);
+    expect((await db.getStats()).totalChunks).toBe(2);
+  });
+
+  test('records the embedding provider so the index can be reopened with it', async () => {
+    expect(await readIndexProviderId(indexDir)).toBeNull();
+
+    const db = new CodeVectorDB({ indexDir, embeddingProvider: 'hashing', vectorSize: 128 });
+    await db.initialize();
+    await db.indexCodebase([{ path: 'src/auth.ts', content: auth, language: 'typescript' }]);
+
+    const providerId = (await readIndexProviderId(indexDir))!;
+    expect(providerId).toBe('hashing-128');
+    expect(parseEmbeddingProviderId(providerId)).toEqual({ provider: 'hashing', dimensions: 128 });
+    expect(parseEmbeddingProviderId('ollama-nomic-embed-text')).toEqual({
+      provider: 'ollama',
+      ollamaModel: 'nomic-embed-text',
+    });
+    expect(parseEmbeddingProviderId('openai-text-embedding-3-small')).toEqual({
+      provider: 'openai',
+      openaiModel: 'text-embedding-3-small',
+    });
+    expect(parseEmbeddingProviderId('custom')).toBeNull();
+
+    const stored = parseEmbeddingProviderId(providerId)!;
+    const reopened = new CodeVectorDB({
+      indexDir,
+      embeddingProvider: stored.provider,
+      vectorSize: stored.dimensions,
+    });
+    await reopened.initialize();
+    expect((await reopened.getStats()).totalFiles).toBe(1);
+  });
+
+  test('knows vector sizes up front and gives Qdrant stable UUIDv5 point ids', () => {
+    expect(new HashingEmbeddingProvider(128).dimensions).toBe(128);
+    expect(new OpenAIEmbeddingProvider('key', 'text-embedding-3-large').dimensions).toBe(3072);
+    expect(new OpenAIEmbeddingProvider('key', 'custom-model').dimensions).toBeUndefined();
+
+    expect(pointId('src/auth.ts_fn_0')).toBe('e388f58d-872a-5165-85f5-bb1bd2b4a1ee');
+    expect(pointId('src/auth.ts_fn_1')).not.toBe(pointId('src/auth.ts_fn_0'));
+  });
+});
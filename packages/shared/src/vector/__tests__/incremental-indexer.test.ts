@@ -0,0 +1,112 @@
+// ═══════════════════════════════════════════════════════
+// 🧪 Incremental Indexer Tests - اختبارات الفهرسة التدريجية
+// ═══════════════════════════════════════════════════════
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CodeVectorDB } from '../code-vector-db';
+import { HashingEmbeddingProvider } from '../embedding-providers';
+import { IncrementalIndexer, IndexProgress } from '../incremental-indexer';
+import type { FileChange } from '../../core/file-watcher';
+
+class CountingProvider extends HashingEmbeddingProvider {
+  embedded = 0;
+  failOn?: string;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (this.failOn && texts.some((t) => t.includes(this.failOn!))) {
+      throw new Error('provider unavailable');
+    }
+    this.embedded += texts.length;
+    return super.embed(texts);
+  }
+}
+
+let root: string;
+let provider: CountingProvider;
+
+async function openIndex(options: { batchSize?: number } = {}) {
+  const db = new CodeVectorDB({
+    indexDir: path.join(root, '.oqool', 'index'),
+    embeddingProvider: provider,
+  });
+  await db.initialize();
+  const indexer = new IncrementalIndexer(db, { workingDir: root, debounceMs: 10, ...options });
+  return { db, indexer };
+}
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'oqool-incremental-'));
+  provider = new CountingProvider();
+  await fs.outputFile(path.join(root, 'src/a.ts'), 'export const alpha = 1;\n');
+  await fs.outputFile(path.join(root, 'src/b.ts'), 'export const beta = 2;\n');
+  await fs.outputFile(path.join(root, 'node_modules/x/index.js'), 'module.exports = 1;\n');
+  await fs.outputFile(path.join(root, 'README.md'), '# docs\n');
+});
+
+afterEach(async () => {
+  await fs.remove(root);
+});
+
+describe('IncrementalIndexer', () => {
+  test('only re-embeds what changed between passes', async () => {
+    const progress: IndexProgress[] = [];
+    const { db } = await openIndex();
+    const indexer = new IncrementalIndexer(db, {
+      workingDir: root,
+      onProgress: (p) => progress.push(p),
+    });
+
+    const first = await indexer.sync();
+    expect(first.added.sort()).toEqual(['src/a.ts', 'src/b.ts']);
+    expect(progress[progress.length - 1]).toMatchObject({ phase: 'done', processed: 2, total: 2 });
+
+    const embeddedBefore = provider.embedded;
+    const second = await indexer.sync();
+    expect(second).toMatchObject({ added: [], changed: [], removed: [], unchanged: 2 });
+    expect(provider.embedded).toBe(embeddedBefore);
+
+    await fs.outputFile(path.join(root, 'src/a.ts'), 'export const alpha = 42;\n');
+    await fs.remove(path.join(root, 'src/b.ts'));
+    const third = await indexer.sync();
+    expect(third).toMatchObject({
+      changed: ['src/a.ts'],
+      removed: ['src/b.ts'],
+      chunksUpserted: 1,
+    });
+    expect(db.listIndexedFiles()).toEqual(['src/a.ts']);
+  });
+
+  test('applies watcher events in the background', async () => {
+    const { db, indexer } = await openIndex();
+    const listeners: Array<(change: FileChange) => void> = [];
+    const emit = (type: FileChange['type'], file: string) =>
+      listeners.forEach((cb) => cb({ type, path: file, timestamp: Date.now() }));
+
+    await indexer.start({ onChange: (cb) => listeners.push(cb) });
+
+    await fs.outputFile(path.join(root, 'src/c.ts'), 'export function gamma() {}\n');
+    emit('created', 'src/c.ts');
+    emit('modified', '.oqool/index/meta.json');
+    await fs.remove(path.join(root, 'src/a.ts'));
+    emit('deleted', 'src/a.ts');
+    await indexer.idle();
+
+    expect(db.listIndexedFiles().sort()).toEqual(['src/b.ts', 'src/c.ts']);
+    expect(indexer.getStatus()).toMatchObject({ running: false, pending: 0 });
+    await indexer.stop();
+  });
+
+  test('an interrupted pass resumes from the last checkpoint', async () => {
+    provider.failOn = 'beta';
+    const { indexer } = await openIndex({ batchSize: 1 });
+    expect((await indexer.sync()).failed).toEqual(['src/b.ts']);
+
+    provider.failOn = undefined;
+    const reopened = await openIndex();
+    const resumed = await reopened.indexer.sync();
+    expect(resumed).toMatchObject({ added: ['src/b.ts'], unchanged: 1 });
+  });
+});
@@ -0,0 +1,130 @@
+// bm25-index.ts
+// ============================================
+// 🔤 BM25 Index - بحث نصي دقيق (أسماء ورموز)
+// ============================================
+// Lexical counterpart to the vector index: exact identifiers such as
+// `ValidationPipeline` score high because rare terms carry a high IDF.
+// Fields are weighted BM25F-style by scaling their term frequencies.
+
+import { tokenize } from './embedding-providers.js';
+
+export interface BM25Options {
+  k1?: number; // term-frequency saturation, default 1.2
+  b?: number; // length normalization, default 0.75
+  stopWords?: Iterable<string>; // dropped from queries, default: common English words
+}
+
+export interface BM25Field {
+  text: string;
+  weight?: number; // default 1
+}
+
+export interface BM25Match {
+  id: string;
+  score: number;
+  terms: string[]; // query terms found in the document
+}
+
+export const DEFAULT_STOP_WORDS = [
+  'the', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'is', 'are', 'was',
+  'be', 'it', 'its', 'this', 'that', 'with', 'from', 'by', 'as', 'do', 'does', 'where',
+  'what', 'how', 'why', 'when', 'which', 'who', 'can', 'me', 'my', 'we', 'our', 'you',
+];
+
+interface BM25Document {
+  terms: Map<string, number>; // term -> weighted frequency
+  length: number;
+}
+
+export class BM25Index {
+  private k1: number;
+  private b: number;
+  private stopWords: Set<string>;
+  private documents = new Map<string, BM25Document>();
+  private documentFrequency = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(options: BM25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+    this.stopWords = new Set(options.stopWords ?? DEFAULT_STOP_WORDS);
+  }
+
+  /**
+   * Add or replace a document.
+   */
+  add(id: string, fields: string | BM25Field[]): void {
+    this.remove(id);
+
+    const terms = new Map<string, number>();
+    let length = 0;
+
+    for (const field of typeof fields === 'string' ? [{ text: fields }] : fields) {
+      const weight = field.weight ?? 1;
+      for (const term of tokenize(field.text)) {
+        terms.set(term, (terms.get(term) || 0) + weight);
+        length += weight;
+      }
+    }
+
+    for (const term of terms.keys()) {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+    }
+
+    this.documents.set(id, { terms, length });
+    this.totalLength += length;
+  }
+
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) return;
+
+    for (const term of document.terms.keys()) {
+      const df = (this.documentFrequency.get(term) || 1) - 1;
+      if (df > 0) {
+        this.documentFrequency.set(term, df);
+      } else {
+        this.documentFrequency.delete(term);
+      }
+    }
+
+    this.totalLength -= document.length;
+    this.documents.delete(id);
+  }
+
+  search(query: string, limit: number = 20): BM25Match[] {
+    const queryTerms = Array.from(new Set(tokenize(query))).filter(
+      (term) => !this.stopWords.has(term)
+    );
+    const count = this.documents.size;
+    if (queryTerms.length === 0 || count === 0) return [];
+
+    const averageLength = this.totalLength / count || 1;
+    const matches: BM25Match[] = [];
+
+    for (const [id, document] of this.documents) {
+      let score = 0;
+      const terms: string[] = [];
+
+      for (const term of queryTerms) {
+        const tf = document.terms.get(term);
+        if (!tf) continue;
+
+        const df = this.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+        const norm = this.k1 * (1 - this.b + (this.b * document.length) / averageLength);
+
+        score += (idf * tf * (this.k1 + 1)) / (tf + norm);
+        terms.push(term);
+      }
+
+      if (score > 0) matches.push({ id, score, terms });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+}
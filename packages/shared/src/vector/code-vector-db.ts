@@ -1,18 +1,32 @@
 // code-vector-db.ts
 // ============================================
-// 🔍 Code Vector Database with Qdrant
+// 🔍 Code Vector Database (local index or Qdrant)
 // ============================================
 // Semantic code search using vector embeddings
 
-import { QdrantClient } from '@qdrant/js-client-rest';
-import OpenAI from 'openai';
+import crypto from 'crypto';
+import path from 'path';
 import type { CodeParser, ParsedFile } from '../parser/tree-sitter-parser.js';
+import {
+  EmbeddingProvider,
+  EmbeddingProviderName,
+  createEmbeddingProvider,
+  embeddingKey,
+} from './embedding-providers.js';
+import { LocalVectorStore } from './local-vector-store.js';
+import { QdrantBackend } from './qdrant-backend.js';
 
 // ============================================
 // Types
 // ============================================
 
 export interface VectorDBConfig {
+  backend?: 'local' | 'qdrant'; // default: qdrant if qdrantUrl is set, else local
+  indexDir?: string; // default: <cwd>/.oqool/index
+  // default: openai if openaiApiKey is set, else hashing (offline)
+  embeddingProvider?: EmbeddingProviderName | EmbeddingProvider;
+  ollamaUrl?: string;
+  ollamaModel?: string;
   qdrantUrl?: string;
   qdrantApiKey?: string;
   openaiApiKey?: string;
@@ -24,6 +38,7 @@ export interface VectorDBConfig {
 export interface CodeChunk {
   id: string;
   content: string;
+  hash?: string; // content hash within the embedding provider's space
   type: 'function' | 'class' | 'file' | 'comment' | 'import';
   metadata: {
     file: string;
@@ -49,6 +64,43 @@ export interface SearchResult {
   similarity: number;
 }
 
+export interface SearchFilter {
+  type?: CodeChunk['type'];
+  file?: string;
+}
+
+/**
+ * Where embeddings live. Implemented by LocalVectorStore and QdrantBackend.
+ */
+export interface VectorBackend {
+  initialize(): Promise<void>;
+  upsert(embeddings: CodeEmbedding[]): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+  deleteFile(file: string): Promise<void>;
+  search(vector: number[], limit: number, filter?: SearchFilter): Promise<SearchResult[]>;
+  all(): Promise<CodeEmbedding[]>;
+  count(): Promise<number>;
+  flush(): Promise<void>;
+  clear(): Promise<void>;
+  // Per-file bookkeeping, persisted by flush()
+  getFile(file: string): IndexedFile | undefined;
+  setFile(file: string, hash: string, chunks: Record<string, string>): void;
+  listFiles(): string[];
+}
+
+export interface IndexedFile {
+  hash: string; // sha256 of the file content
+  chunks: Record<string, string>; // chunk id -> chunk hash
+  indexedAt: number;
+}
+
+export interface FileIndexResult {
+  chunks: number; // chunks the file has now
+  upserted: number; // chunks embedded and written
+  removed: number; // stale chunks deleted
+  unchanged: boolean; // content matched the index, nothing was done
+}
+
 export interface IndexStats {
   totalChunks: number;
   totalFiles: number;
@@ -61,30 +113,46 @@ export interface IndexStats {
 // ============================================
 
 export class CodeVectorDB {
-  private qdrant: QdrantClient;
-  private openai: OpenAI;
-  private config: Required<VectorDBConfig>;
+  private backend: VectorBackend;
+  private localStore?: LocalVectorStore;
+  private embedder: EmbeddingProvider;
   private codeParser?: CodeParser;
-  private embeddingCache = new Map<string, number[]>();
-
-  constructor(config: VectorDBConfig, codeParser?: CodeParser) {
-    this.config = {
-      qdrantUrl: config.qdrantUrl || 'http://localhost:6333',
-      qdrantApiKey: config.qdrantApiKey || '',
-      openaiApiKey: config.openaiApiKey || '',
-      embeddingModel: config.embeddingModel || 'text-embedding-3-small',
-      collectionName: config.collectionName || 'oqool_codebase',
-      vectorSize: config.vectorSize || 1536, // text-embedding-3-small dimension
-    };
-
-    this.qdrant = new QdrantClient({
-      url: this.config.qdrantUrl,
-      apiKey: this.config.qdrantApiKey || undefined,
-    });
+  private embeddingCache = new Map<string, number[]>(); // content hash -> vector
+
+  constructor(config: VectorDBConfig = {}, codeParser?: CodeParser) {
+    this.embedder =
+      typeof config.embeddingProvider === 'object'
+        ? config.embeddingProvider
+        : createEmbeddingProvider({
+            provider: config.embeddingProvider,
+            dimensions: config.vectorSize,
+            ollamaUrl: config.ollamaUrl,
+            ollamaModel: config.ollamaModel,
+            openaiApiKey: config.openaiApiKey,
+            openaiModel: config.embeddingModel,
+          });
 
-    this.openai = new OpenAI({
-      apiKey: this.config.openaiApiKey,
-    });
+    const backend = config.backend || (config.qdrantUrl ? 'qdrant' : 'local');
+
+    const indexDir = config.indexDir || path.join(process.cwd(), '.oqool', 'index');
+
+    if (backend === 'qdrant') {
+      const collectionName = config.collectionName || 'oqool_codebase';
+      this.backend = new QdrantBackend({
+        url: config.qdrantUrl || 'http://localhost:6333',
+        apiKey: config.qdrantApiKey,
+        collectionName,
+        // طول المتجه من نموذج التضمين نفسه، وإلا فمن أول متجه يُنتجه
+        vectorSize:
+          this.embedder.dimensions ||
+          config.vectorSize ||
+          (async () => (await this.embedder.embed(['dimension probe']))[0].length),
+        manifestPath: path.join(indexDir, `qdrant-${collectionName}.json`),
+      });
+    } else {
+      this.localStore = new LocalVectorStore(indexDir, this.embedder.id);
+      this.backend = this.localStore;
+    }
 
     this.codeParser = codeParser;
   }
@@ -94,25 +162,7 @@ export class CodeVectorDB {
    */
   async initialize(): Promise<void> {
     try {
-      // Check if collection exists
-      const collections = await this.qdrant.getCollections();
-      const exists = collections.collections.some(
-        (c) => c.name === this.config.collectionName
-      );
-
-      if (!exists) {
-        // Create collection
-        await this.qdrant.createCollection(this.config.collectionName, {
-          vectors: {
-            size: this.config.vectorSize,
-            distance: 'Cosine',
-          },
-        });
-
-        console.log(`✅ Created collection: ${this.config.collectionName}`);
-      } else {
-        console.log(`✅ Collection already exists: ${this.config.collectionName}`);
-      }
+      await this.backend.initialize();
     } catch (error) {
       console.error('Error initializing vector DB:', error);
       throw error;
@@ -123,31 +173,40 @@ export class CodeVectorDB {
    * Generate embedding for text
    */
   private async generateEmbedding(text: string): Promise<number[]> {
-    // Check cache first
-    const cacheKey = text.slice(0, 100); // Use first 100 chars as key
-    if (this.embeddingCache.has(cacheKey)) {
-      return this.embeddingCache.get(cacheKey)!;
-    }
-
-    try {
-      const response = await this.openai.embeddings.create({
-        model: this.config.embeddingModel,
-        input: text,
-      });
-
-      const vector = response.data[0].embedding;
+    const [vector] = await this.generateEmbeddings([text]);
+    return vector;
+  }
 
-      // Cache result
-      if (this.embeddingCache.size < 1000) {
-        // Limit cache size
-        this.embeddingCache.set(cacheKey, vector);
+  /**
+   * Embed several texts in one provider call, reusing vectors for content
+   * already seen (keyed by content hash, not a prefix).
+   */
+  private async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    const keys = texts.map((text) => embeddingKey(this.embedder.id, text));
+    const vectors: Array<number[] | undefined> = keys.map(
+      (key) => this.embeddingCache.get(key) || this.localStore?.findVector(key)
+    );
+
+    const missing = vectors.flatMap((vector, i) => (vector ? [] : [i]));
+    if (missing.length > 0) {
+      try {
+        const fresh = await this.embedder.embed(missing.map((i) => texts[i]));
+        missing.forEach((index, j) => {
+          vectors[index] = fresh[j];
+
+          // Cache result
+          if (this.embeddingCache.size < 1000) {
+            // Limit cache size
+            this.embeddingCache.set(keys[index], fresh[j]);
+          }
+        });
+      } catch (error) {
+        console.error('Error generating embedding:', error);
+        throw error;
       }
-
-      return vector;
-    } catch (error) {
-      console.error('Error generating embedding:', error);
-      throw error;
     }
+
+    return vectors as number[][];
   }
 
   /**
@@ -302,7 +361,7 @@ export class CodeVectorDB {
   }
 
   /**
-   * Index a codebase
+   * Index a codebase. Files whose content matches the index are skipped.
    */
   async indexCodebase(
     files: Array<{ path: string; content: string; language: string }>
@@ -312,50 +371,94 @@ export class CodeVectorDB {
 
     for (const file of files) {
       try {
-        // Chunk the file
-        const chunks = await this.chunkCodeFile(file.path, file.content, file.language);
-
-        // Generate embeddings for each chunk
-        const embeddings: CodeEmbedding[] = [];
-
-        for (const chunk of chunks) {
-          try {
-            const vector = await this.generateEmbedding(chunk.content);
-            embeddings.push({
-              id: chunk.id,
-              vector,
-              chunk,
-            });
-          } catch (error) {
-            console.error(`Error embedding chunk ${chunk.id}:`, error);
-          }
-        }
-
-        // Insert into Qdrant
-        if (embeddings.length > 0) {
-          await this.qdrant.upsert(this.config.collectionName, {
-            points: embeddings.map((emb) => ({
-              id: emb.id,
-              vector: emb.vector,
-              payload: {
-                content: emb.chunk.content,
-                type: emb.chunk.type,
-                metadata: emb.chunk.metadata,
-              },
-            })),
-          });
-
-          indexed += embeddings.length;
-        }
+        indexed += (await this.indexFile(file.path, file.content, file.language)).chunks;
       } catch (error) {
         console.error(`Error indexing ${file.path}:`, error);
         failed++;
       }
     }
 
+    await this.backend.flush();
+
     return { indexed, failed };
   }
 
+  /**
+   * Bring a file's chunks up to date: unchanged files are skipped, and only
+   * chunks that are new or whose content changed are embedded and written.
+   */
+  async indexFile(file: string, content: string, language: string): Promise<FileIndexResult> {
+    const fileHash = hashContent(content);
+    const previous = this.backend.getFile(file);
+
+    if (previous?.hash === fileHash) {
+      const chunks = Object.keys(previous.chunks).length;
+      return { chunks, upserted: 0, removed: 0, unchanged: true };
+    }
+
+    // Chunk the file
+    const chunks = (await this.chunkCodeFile(file, content, language)).filter((c) =>
+      c.content.trim()
+    );
+    const current: Record<string, string> = {};
+    for (const chunk of chunks) {
+      chunk.hash = embeddingKey(this.embedder.id, chunk.content);
+      current[chunk.id] = chunk.hash;
+    }
+
+    const changed = chunks.filter((chunk) => previous?.chunks[chunk.id] !== chunk.hash);
+    const stale = previous ? Object.keys(previous.chunks).filter((id) => !(id in current)) : [];
+
+    if (previous) {
+      await this.backend.delete(stale);
+    } else {
+      // No bookkeeping for this file: drop whatever chunks it may have left
+      await this.backend.deleteFile(file);
+    }
+
+    // Generate embeddings for the changed chunks only
+    const vectors = await this.generateEmbeddings(changed.map((c) => c.content));
+    await this.backend.upsert(
+      changed.map((chunk, i) => ({ id: chunk.id, vector: vectors[i], chunk }))
+    );
+    this.backend.setFile(file, fileHash, current);
+
+    return {
+      chunks: chunks.length,
+      upserted: changed.length,
+      removed: stale.length,
+      unchanged: false,
+    };
+  }
+
+  /**
+   * Remove a file's chunks from the index
+   */
+  async removeFile(file: string): Promise<void> {
+    await this.backend.deleteFile(file);
+  }
+
+  /**
+   * What the index holds for a file, if anything
+   */
+  getIndexedFile(file: string): IndexedFile | undefined {
+    return this.backend.getFile(file);
+  }
+
+  /**
+   * Files currently in the index
+   */
+  listIndexedFiles(): string[] {
+    return this.backend.listFiles();
+  }
+
+  /**
+   * Write pending index changes to disk (local backend)
+   */
+  async flush(): Promise<void> {
+    await this.backend.flush();
+  }
+
   /**
    * Search for similar code
    */
@@ -363,25 +466,7 @@ export class CodeVectorDB {
     try {
       // Generate query embedding
       const queryVector = await this.generateEmbedding(query);
-
-      // Search in Qdrant
-      const results = await this.qdrant.search(this.config.collectionName, {
-        vector: queryVector,
-        limit,
-        with_payload: true,
-      });
-
-      // Convert to SearchResult
-      return results.map((result) => ({
-        chunk: {
-          id: result.id as string,
-          content: result.payload?.content as string,
-          type: result.payload?.type as CodeChunk['type'],
-          metadata: result.payload?.metadata as CodeChunk['metadata'],
-        },
-        score: result.score,
-        similarity: result.score * 100, // Convert to percentage
-      }));
+      return await this.backend.search(queryVector, limit);
     } catch (error) {
       console.error('Error searching:', error);
       throw error;
@@ -398,31 +483,7 @@ export class CodeVectorDB {
   ): Promise<SearchResult[]> {
     try {
       const queryVector = await this.generateEmbedding(query);
-
-      const results = await this.qdrant.search(this.config.collectionName, {
-        vector: queryVector,
-        limit,
-        with_payload: true,
-        filter: {
-          must: [
-            {
-              key: 'type',
-              match: { value: type },
-            },
-          ],
-        },
-      });
-
-      return results.map((result) => ({
-        chunk: {
-          id: result.id as string,
-          content: result.payload?.content as string,
-          type: result.payload?.type as CodeChunk['type'],
-          metadata: result.payload?.metadata as CodeChunk['metadata'],
-        },
-        score: result.score,
-        similarity: result.score * 100,
-      }));
+      return await this.backend.search(queryVector, limit, { type });
     } catch (error) {
       console.error('Error searching by type:', error);
       throw error;
@@ -439,31 +500,7 @@ export class CodeVectorDB {
   ): Promise<SearchResult[]> {
     try {
       const queryVector = await this.generateEmbedding(query);
-
-      const results = await this.qdrant.search(this.config.collectionName, {
-        vector: queryVector,
-        limit,
-        with_payload: true,
-        filter: {
-          must: [
-            {
-              key: 'metadata.file',
-              match: { value: file },
-            },
-          ],
-        },
-      });
-
-      return results.map((result) => ({
-        chunk: {
-          id: result.id as string,
-          content: result.payload?.content as string,
-          type: result.payload?.type as CodeChunk['type'],
-          metadata: result.payload?.metadata as CodeChunk['metadata'],
-        },
-        score: result.score,
-        similarity: result.score * 100,
-      }));
+      return await this.backend.search(queryVector, limit, { file });
     } catch (error) {
       console.error('Error searching in file:', error);
       throw error;
@@ -486,38 +523,25 @@ export class CodeVectorDB {
   async findDuplicates(threshold: number = 0.95): Promise<SearchResult[][]> {
     try {
       // Get all points
-      const allPoints = await this.qdrant.scroll(this.config.collectionName, {
-        limit: 1000,
-        with_payload: true,
-        with_vector: true,
-      });
+      const allPoints = await this.backend.all();
 
       const duplicates: SearchResult[][] = [];
+      const grouped = new Set<string>();
 
       // Compare each point with others
-      for (const point of allPoints.points) {
-        if (!point.vector) continue;
+      for (const point of allPoints) {
+        if (point.vector.length === 0 || grouped.has(point.id)) continue;
 
-        const similar = await this.qdrant.search(this.config.collectionName, {
-          vector: point.vector as number[],
-          limit: 5,
-          with_payload: true,
-        });
+        const similar = await this.backend.search(point.vector, 5);
 
-        const highSimilarity = similar
-          .filter((s) => s.id !== point.id && s.score >= threshold)
-          .map((s) => ({
-            chunk: {
-              id: s.id as string,
-              content: s.payload?.content as string,
-              type: s.payload?.type as CodeChunk['type'],
-              metadata: s.payload?.metadata as CodeChunk['metadata'],
-            },
-            score: s.score,
-            similarity: s.score * 100,
-          }));
+        const highSimilarity = similar.filter(
+          (s) => s.chunk.id !== point.id && s.score >= threshold && !grouped.has(s.chunk.id)
+        );
 
         if (highSimilarity.length > 0) {
+          // Report each group once, not once per member
+          grouped.add(point.id);
+          highSimilarity.forEach((s) => grouped.add(s.chunk.id));
           duplicates.push(highSimilarity);
         }
       }
@@ -534,21 +558,15 @@ export class CodeVectorDB {
    */
   async getStats(): Promise<IndexStats> {
     try {
-      const collection = await this.qdrant.getCollection(this.config.collectionName);
-
       // Get all points to calculate stats
-      const points = await this.qdrant.scroll(this.config.collectionName, {
-        limit: 10000,
-        with_payload: true,
-      });
+      const points = await this.backend.all();
 
       const files = new Set<string>();
       const languages: Record<string, number> = {};
       const types: Record<string, number> = {};
 
-      points.points.forEach((point) => {
-        const metadata = point.payload?.metadata as CodeChunk['metadata'];
-        const type = point.payload?.type as string;
+      points.forEach(({ chunk }) => {
+        const metadata = chunk.metadata;
 
         if (metadata?.file) {
           files.add(metadata.file);
@@ -558,13 +576,13 @@ export class CodeVectorDB {
           languages[metadata.language] = (languages[metadata.language] || 0) + 1;
         }
 
-        if (type) {
-          types[type] = (types[type] || 0) + 1;
+        if (chunk.type) {
+          types[chunk.type] = (types[chunk.type] || 0) + 1;
         }
       });
 
       return {
-        totalChunks: collection.points_count || 0,
+        totalChunks: await this.backend.count(),
         totalFiles: files.size,
         languages,
         types,
@@ -576,12 +594,11 @@ export class CodeVectorDB {
   }
 
   /**
-   * Delete collection
+   * Delete collection (or the local index)
    */
   async deleteCollection(): Promise<void> {
     try {
-      await this.qdrant.deleteCollection(this.config.collectionName);
-      console.log(`✅ Deleted collection: ${this.config.collectionName}`);
+      await this.backend.clear();
     } catch (error) {
       console.error('Error deleting collection:', error);
       throw error;
@@ -596,12 +613,16 @@ export class CodeVectorDB {
   }
 }
 
+function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
 // ============================================
 // Factory
 // ============================================
 
 export function createCodeVectorDB(
-  config: VectorDBConfig,
+  config: VectorDBConfig = {},
   codeParser?: CodeParser
 ): CodeVectorDB {
   return new CodeVectorDB(config, codeParser);
@@ -620,13 +641,19 @@ import { createCodeVectorDB, CodeParser } from '@oqool/shared';
 const parser = new CodeParser();
 await parser.initialize();
 
+// Local index in .oqool/index - works offline, no server or API key
 const vectorDB = createCodeVectorDB({
-  qdrantUrl: 'http://localhost:6333',
-  openaiApiKey: process.env.OPENAI_API_KEY,
-  embeddingModel: 'text-embedding-3-small',
-  collectionName: 'my_codebase'
+  embeddingProvider: 'hashing', // or 'ollama' (nomic-embed-text) / 'openai'
 }, parser);
 
+// Or an external Qdrant server with OpenAI embeddings
+// const vectorDB = createCodeVectorDB({
+//   qdrantUrl: 'http://localhost:6333',
+//   openaiApiKey: process.env.OPENAI_API_KEY,
+//   embeddingModel: 'text-embedding-3-small',
+//   collectionName: 'my_codebase'
+// }, parser);
+
 await vectorDB.initialize();
 
 // 2. Index Codebase
@@ -0,0 +1,235 @@
+// embedding-providers.ts
+// ============================================
+// 🧮 Embedding Providers - محلي، Ollama، OpenAI
+// ============================================
+
+import crypto from 'crypto';
+import type { Ollama } from 'ollama';
+import type OpenAI from 'openai';
+
+// ============================================
+// Types
+// ============================================
+
+export type EmbeddingProviderName = 'hashing' | 'ollama' | 'openai';
+
+export interface EmbeddingProvider {
+  /** Identifies the vector space: vectors from different ids never mix */
+  readonly id: string;
+  /** Vector length, when known before the first embed() call */
+  readonly dimensions?: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingProviderConfig {
+  provider?: EmbeddingProviderName;
+  dimensions?: number; // hashing only
+  ollamaUrl?: string;
+  ollamaModel?: string;
+  openaiApiKey?: string;
+  openaiModel?: string;
+}
+
+// ============================================
+// Hashing (offline)
+// ============================================
+
+/**
+ * Offline fallback: feature-hashes identifier tokens and token bigrams into a
+ * fixed-size vector with log-scaled term frequencies. No model, no network;
+ * good at "same names and vocabulary", not at paraphrase.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions: number;
+
+  constructor(dimensions: number = 512) {
+    this.dimensions = dimensions;
+    this.id = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = tokenize(text);
+    const counts = new Map<string, number>();
+
+    for (let i = 0; i < tokens.length; i++) {
+      counts.set(tokens[i], (counts.get(tokens[i]) || 0) + 1);
+      if (i > 0) {
+        const bigram = `${tokens[i - 1]} ${tokens[i]}`;
+        counts.set(bigram, (counts.get(bigram) || 0) + 0.5);
+      }
+    }
+
+    for (const [feature, count] of counts) {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * (1 + Math.log(count));
+    }
+
+    return normalizeVector(vector);
+  }
+}
+
+// ============================================
+// Ollama (local model)
+// ============================================
+
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private host: string;
+  private model: string;
+  private client?: Ollama;
+
+  constructor(host: string = 'http://localhost:11434', model: string = 'nomic-embed-text') {
+    this.host = host;
+    this.model = model;
+    this.id = `ollama-${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.client) {
+      const { Ollama } = await import('ollama');
+      this.client = new Ollama({ host: this.host });
+    }
+
+    const response = await this.client.embed({ model: this.model, input: texts });
+    return response.embeddings.map(normalizeVector);
+  }
+}
+
+// ============================================
+// OpenAI
+// ============================================
+
+// أطوال المتجهات المعروفة لنماذج OpenAI
+const OPENAI_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+};
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions?: number;
+  private apiKey: string;
+  private model: string;
+  private client?: OpenAI;
+
+  constructor(apiKey: string, model: string = 'text-embedding-3-small') {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.id = `openai-${model}`;
+    this.dimensions = OPENAI_DIMENSIONS[model];
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.client) {
+      const { default: OpenAI } = await import('openai');
+      this.client = new OpenAI({ apiKey: this.apiKey });
+    }
+
+    const response = await this.client.embeddings.create({ model: this.model, input: texts });
+    return response.data.map((item) => normalizeVector(item.embedding));
+  }
+}
+
+// ============================================
+// Factory & Helpers
+// ============================================
+
+export function createEmbeddingProvider(config: EmbeddingProviderConfig = {}): EmbeddingProvider {
+  const provider = config.provider || (config.openaiApiKey ? 'openai' : 'hashing');
+
+  switch (provider) {
+    case 'ollama':
+      return new OllamaEmbeddingProvider(config.ollamaUrl, config.ollamaModel);
+    case 'openai':
+      if (!config.openaiApiKey) {
+        throw new Error('OpenAI embeddings require openaiApiKey');
+      }
+      return new OpenAIEmbeddingProvider(config.openaiApiKey, config.openaiModel);
+    default:
+      return new HashingEmbeddingProvider(config.dimensions);
+  }
+}
+
+/**
+ * Provider settings that reproduce an embedder id such as
+ * `ollama-nomic-embed-text` or `hashing-384`, or null for ids this module
+ * does not create.
+ */
+export function parseEmbeddingProviderId(id: string): EmbeddingProviderConfig | null {
+  const match = id.match(/^(hashing|ollama|openai)-(.+)$/);
+  if (!match) return null;
+
+  const [, provider, rest] = match;
+  if (provider === 'hashing') {
+    const dimensions = Number(rest);
+    return Number.isInteger(dimensions) && dimensions > 0 ? { provider, dimensions } : null;
+  }
+  return provider === 'ollama'
+    ? { provider, ollamaModel: rest }
+    : { provider: 'openai', openaiModel: rest };
+}
+
+/**
+ * Cache key for an embedding: the provider's vector space plus the full text.
+ */
+export function embeddingKey(providerId: string, text: string): string {
+  return crypto.createHash('sha256').update(providerId).update('\0').update(text).digest('hex');
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+}
+
+/**
+ * Split code into lowercase word tokens: identifiers are broken on
+ * camelCase, snake_case and digits, and kept whole as well.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const word of text.match(/[A-Za-z_$][A-Za-z0-9_$]*|\d+/g) || []) {
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+/)
+      .map((p) => p.toLowerCase())
+      .filter((p) => p.length > 0);
+
+    tokens.push(...parts);
+    if (parts.length > 1) tokens.push(word.toLowerCase());
+  }
+
+  return tokens;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
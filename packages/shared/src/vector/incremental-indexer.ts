@@ -0,0 +1,374 @@
+// incremental-indexer.ts
+// ============================================
+// 🔄 Incremental Indexer - تحديث الفهرس الدلالي تدريجياً
+// ============================================
+// Keeps a CodeVectorDB in step with the working tree: a full pass only
+// re-embeds files whose content hash changed, and FileWatcher events are
+// queued, debounced and applied in the background. The index is flushed
+// every `batchSize` files, so an interrupted pass resumes where it stopped.
+
+import fs from 'fs-extra';
+import path from 'path';
+import { glob } from 'glob';
+import type { FileChange } from '../core/file-watcher.js';
+import type { CodeVectorDB } from './code-vector-db.js';
+
+// ============================================
+// Types
+// ============================================
+
+export interface IndexProgress {
+  phase: 'scanning' | 'indexing' | 'done';
+  processed: number;
+  total: number;
+  file?: string;
+  result?: IncrementalIndexResult; // set when phase is 'done'
+}
+
+export interface IncrementalIndexResult {
+  added: string[];
+  changed: string[];
+  removed: string[];
+  unchanged: number;
+  failed: string[];
+  chunksUpserted: number;
+  chunksRemoved: number;
+  duration: number;
+}
+
+export interface IncrementalIndexerOptions {
+  workingDir?: string;
+  extensions?: string[]; // default: DEFAULT_INDEX_EXTENSIONS
+  ignoreDirs?: string[]; // default: DEFAULT_INDEX_IGNORE_DIRS
+  maxFileSize?: number; // bytes, default 512KB
+  batchSize?: number; // files between flushes, default 20
+  debounceMs?: number; // default 500
+  onProgress?: (progress: IndexProgress) => void;
+}
+
+/**
+ * Anything that reports file changes the way FileWatcher does.
+ */
+export interface FileChangeSource {
+  onChange(callback: (change: FileChange) => void): void;
+}
+
+export interface IndexerStatus {
+  running: boolean;
+  pending: number;
+  lastResult?: IncrementalIndexResult;
+}
+
+export const DEFAULT_INDEX_EXTENSIONS = [
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.go', '.rs', '.java',
+  '.kt', '.swift', '.rb', '.php', '.cs', '.c', '.h', '.cpp', '.hpp', '.vue', '.svelte',
+];
+
+export const DEFAULT_INDEX_IGNORE_DIRS = [
+  'node_modules', '.git', 'dist', 'build', '.next', '.cache', 'coverage', '.oqool',
+];
+
+const LANGUAGES: Record<string, string> = {
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.py': 'python',
+  '.go': 'go',
+  '.rs': 'rust',
+  '.java': 'java',
+  '.kt': 'kotlin',
+  '.rb': 'ruby',
+  '.cs': 'csharp',
+  '.cpp': 'cpp',
+  '.hpp': 'cpp',
+};
+
+// ============================================
+// Incremental Indexer
+// ============================================
+
+export class IncrementalIndexer {
+  private db: CodeVectorDB;
+  private workingDir: string;
+  private extensions: Set<string>;
+  private ignoreDirs: string[];
+  private maxFileSize: number;
+  private batchSize: number;
+  private debounceMs: number;
+  private onProgress?: (progress: IndexProgress) => void;
+
+  private pending = new Set<string>();
+  private timer?: NodeJS.Timeout;
+  private queue: Promise<unknown> = Promise.resolve();
+  private active = 0;
+  private stopped = false;
+  private generation = 0; // bumped by stop() to end the running pass
+  private lastResult?: IncrementalIndexResult;
+
+  constructor(db: CodeVectorDB, options: IncrementalIndexerOptions = {}) {
+    this.db = db;
+    this.workingDir = options.workingDir || process.cwd();
+    this.extensions = new Set(options.extensions || DEFAULT_INDEX_EXTENSIONS);
+    this.ignoreDirs = options.ignoreDirs || DEFAULT_INDEX_IGNORE_DIRS;
+    this.maxFileSize = options.maxFileSize ?? 512 * 1024;
+    this.batchSize = Math.max(1, options.batchSize ?? 20);
+    this.debounceMs = options.debounceMs ?? 500;
+    this.onProgress = options.onProgress;
+  }
+
+  /**
+   * Compare the whole working tree with the index: new and modified files
+   * are indexed, files that disappeared are removed.
+   */
+  sync(): Promise<IncrementalIndexResult> {
+    return this.run(async () => {
+      this.report({ phase: 'scanning', processed: 0, total: 0 });
+
+      const files = await this.scan();
+      const present = new Set(files);
+      const removed = this.db.listIndexedFiles().filter((file) => !present.has(file));
+
+      return this.apply(files, removed);
+    });
+  }
+
+  /**
+   * Re-check specific files (relative to the working directory).
+   */
+  update(files: string[]): Promise<IncrementalIndexResult> {
+    return this.run(() => this.applyChanges(files));
+  }
+
+  /**
+   * Feed FileWatcher events into the background queue.
+   */
+  watch(source: FileChangeSource): void {
+    source.onChange((change) => this.enqueue(change.path));
+  }
+
+  /**
+   * Background mode: start watching, then bring the index up to date.
+   * Changes seen during the initial pass are applied right after it.
+   */
+  start(source: FileChangeSource): Promise<IncrementalIndexResult> {
+    this.stopped = false;
+    this.watch(source);
+    return this.sync();
+  }
+
+  /**
+   * Queue a changed file; the queue is applied once changes settle.
+   */
+  enqueue(file: string): void {
+    const relative = this.toRelative(file);
+    if (this.stopped || !this.isIndexable(relative)) return;
+
+    this.pending.add(relative);
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain().catch(() => {
+        // the files stay out of date until the next change or sync()
+      });
+    }, this.debounceMs);
+  }
+
+  /**
+   * Resolve once queued changes have been applied and flushed.
+   */
+  async idle(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+      await this.drain();
+    }
+    await this.queue;
+  }
+
+  /**
+   * Stop taking events and wait for the running pass to flush.
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.generation++;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.pending.clear();
+    await this.queue;
+  }
+
+  getStatus(): IndexerStatus {
+    return {
+      running: this.active > 0,
+      pending: this.pending.size,
+      lastResult: this.lastResult,
+    };
+  }
+
+  // ============================================
+  // Internals
+  // ============================================
+
+  /**
+   * Passes share one CodeVectorDB, so they run one after another.
+   */
+  private run(task: () => Promise<IncrementalIndexResult>): Promise<IncrementalIndexResult> {
+    const result = this.queue.then(async () => {
+      this.active++;
+      try {
+        this.lastResult = await task();
+        return this.lastResult;
+      } finally {
+        this.active--;
+      }
+    });
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private drain(): Promise<IncrementalIndexResult> {
+    return this.run(() => {
+      const files = Array.from(this.pending);
+      this.pending.clear();
+      return this.applyChanges(files);
+    });
+  }
+
+  private async applyChanges(files: string[]): Promise<IncrementalIndexResult> {
+    const toIndex: string[] = [];
+    const toRemove: string[] = [];
+
+    for (const file of new Set(files.map((f) => this.toRelative(f)))) {
+      if (!this.isIndexable(file)) continue;
+
+      const stats = await fs.stat(path.join(this.workingDir, file)).catch(() => null);
+      if (stats?.isFile() && stats.size <= this.maxFileSize) {
+        toIndex.push(file);
+      } else if (this.db.getIndexedFile(file)) {
+        toRemove.push(file);
+      }
+    }
+
+    return this.apply(toIndex, toRemove);
+  }
+
+  private async apply(toIndex: string[], toRemove: string[]): Promise<IncrementalIndexResult> {
+    const startTime = Date.now();
+    const result: IncrementalIndexResult = {
+      added: [],
+      changed: [],
+      removed: [],
+      unchanged: 0,
+      failed: [],
+      chunksUpserted: 0,
+      chunksRemoved: 0,
+      duration: 0,
+    };
+    const total = toIndex.length + toRemove.length;
+    const generation = this.generation;
+    let processed = 0;
+
+    for (const file of toRemove) {
+      const indexed = this.db.getIndexedFile(file);
+      await this.db.removeFile(file);
+      result.removed.push(file);
+      result.chunksRemoved += indexed ? Object.keys(indexed.chunks).length : 0;
+      await this.checkpoint(++processed);
+    }
+
+    for (const file of toIndex) {
+      if (generation !== this.generation) {
+        // stop() was called: keep what is done, the next sync picks up the rest
+        break;
+      }
+
+      this.report({ phase: 'indexing', processed, total, file });
+
+      try {
+        const indexed = this.db.getIndexedFile(file);
+        const content = await fs.readFile(path.join(this.workingDir, file), 'utf8');
+        const outcome = await this.db.indexFile(file, content, languageOf(file));
+
+        if (outcome.unchanged) {
+          result.unchanged++;
+        } else {
+          (indexed ? result.changed : result.added).push(file);
+          result.chunksUpserted += outcome.upserted;
+          result.chunksRemoved += outcome.removed;
+        }
+      } catch {
+        result.failed.push(file);
+      }
+
+      await this.checkpoint(++processed);
+    }
+
+    await this.db.flush();
+
+    result.duration = Date.now() - startTime;
+    this.report({ phase: 'done', processed, total, result });
+
+    return result;
+  }
+
+  private async checkpoint(processed: number): Promise<void> {
+    if (processed % this.batchSize === 0) {
+      await this.db.flush();
+    }
+  }
+
+  private async scan(): Promise<string[]> {
+    const pattern = `**/*{${Array.from(this.extensions).join(',')}}`;
+    const files = await glob(pattern, {
+      cwd: this.workingDir,
+      nodir: true,
+      dot: false,
+      posix: true,
+      ignore: this.ignoreDirs.map((dir) => `**/${dir}/**`),
+    });
+
+    const indexable: string[] = [];
+    for (const file of files.sort()) {
+      const stats = await fs.stat(path.join(this.workingDir, file)).catch(() => null);
+      if (stats && stats.size <= this.maxFileSize) indexable.push(file);
+    }
+    return indexable;
+  }
+
+  private isIndexable(file: string): boolean {
+    if (file.startsWith('..') || path.isAbsolute(file)) return false;
+    if (!this.extensions.has(path.extname(file))) return false;
+    return !file.split('/').some((segment) => this.ignoreDirs.includes(segment));
+  }
+
+  private toRelative(file: string): string {
+    const relative = path.isAbsolute(file) ? path.relative(this.workingDir, file) : file;
+    return relative.split(path.sep).join('/');
+  }
+
+  private report(progress: IndexProgress): void {
+    this.onProgress?.(progress);
+  }
+}
+
+function languageOf(file: string): string {
+  const ext = path.extname(file);
+  return LANGUAGES[ext] || ext.slice(1);
+}
+
+// ============================================
+// Factory
+// ============================================
+
+export function createIncrementalIndexer(
+  db: CodeVectorDB,
+  options: IncrementalIndexerOptions = {}
+): IncrementalIndexer {
+  return new IncrementalIndexer(db, options);
+}
@@ -0,0 +1,7 @@
+// Vector exports - Code search (semantic and lexical)
+export * from './code-vector-db.js';
+export * from './embedding-providers.js';
+export * from './local-vector-store.js';
+export * from './qdrant-backend.js';
+export * from './incremental-indexer.js';
+export * from './bm25-index.js';
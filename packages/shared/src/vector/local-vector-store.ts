@@ -0,0 +1,257 @@
+// local-vector-store.ts
+// ============================================
+// 💾 Local Vector Store - فهرس متجهات على القرص (.oqool/index)
+// ============================================
+// Embedded, dependency-free store: chunk metadata in meta.json, vectors as
+// float32 rows in vectors.bin. Search is exact (brute-force cosine).
+
+import fs from 'fs-extra';
+import path from 'path';
+import type {
+  CodeChunk,
+  CodeEmbedding,
+  IndexedFile,
+  SearchFilter,
+  SearchResult,
+  VectorBackend,
+} from './code-vector-db.js';
+
+const INDEX_VERSION = 2;
+const META_FILE = 'meta.json';
+const VECTORS_FILE = 'vectors.bin';
+
+interface StoredEntry {
+  id: string;
+  hash: string;
+  chunk: CodeChunk;
+}
+
+interface IndexMeta {
+  version: number;
+  providerId: string;
+  dimensions: number;
+  entries: StoredEntry[];
+  files: Record<string, IndexedFile>;
+}
+
+/**
+ * Id of the embedding provider an index on disk was built with, or null when
+ * there is no usable index in `dir`.
+ */
+export async function readIndexProviderId(dir: string): Promise<string | null> {
+  try {
+    const meta: IndexMeta = await fs.readJSON(path.join(dir, META_FILE));
+    return meta.version === INDEX_VERSION && meta.providerId ? meta.providerId : null;
+  } catch {
+    return null;
+  }
+}
+
+export class LocalVectorStore implements VectorBackend {
+  private dir: string;
+  private providerId: string;
+  private dimensions = 0;
+  private entries = new Map<string, { entry: StoredEntry; vector: Float32Array }>();
+  private byHash = new Map<string, Float32Array>();
+  private files: Record<string, IndexedFile> = {};
+  private dirty = false;
+
+  constructor(dir: string, providerId: string) {
+    this.dir = dir;
+    this.providerId = providerId;
+  }
+
+  /**
+   * Load the index from disk. An index built with another embedding provider
+   * is discarded, since its vectors are not comparable.
+   */
+  async initialize(): Promise<void> {
+    const metaPath = path.join(this.dir, META_FILE);
+    const vectorsPath = path.join(this.dir, VECTORS_FILE);
+
+    this.clearMemory();
+
+    if (!(await fs.pathExists(metaPath)) || !(await fs.pathExists(vectorsPath))) {
+      return;
+    }
+
+    let meta: IndexMeta;
+    try {
+      meta = await fs.readJSON(metaPath);
+    } catch {
+      this.dirty = true; // corrupt: rebuild from scratch
+      return;
+    }
+
+    if (meta.version !== INDEX_VERSION || meta.providerId !== this.providerId) {
+      this.dirty = true;
+      return;
+    }
+
+    // Copy out of Node's buffer: its byteOffset is not always 4-byte aligned
+    const buffer = await fs.readFile(vectorsPath);
+    const floats = new Float32Array(
+      buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength)
+    );
+
+    if (floats.length !== meta.entries.length * meta.dimensions) {
+      this.dirty = true;
+      return;
+    }
+
+    this.dimensions = meta.dimensions;
+    this.files = meta.files || {};
+
+    meta.entries.forEach((entry, i) => {
+      const vector = floats.slice(i * meta.dimensions, (i + 1) * meta.dimensions);
+      this.entries.set(entry.id, { entry, vector });
+      this.byHash.set(entry.hash, vector);
+    });
+  }
+
+  async upsert(embeddings: CodeEmbedding[]): Promise<void> {
+    for (const embedding of embeddings) {
+      if (this.dimensions === 0) {
+        this.dimensions = embedding.vector.length;
+      } else if (embedding.vector.length !== this.dimensions) {
+        throw new Error(
+          `Vector size ${embedding.vector.length} does not match index size ${this.dimensions}`
+        );
+      }
+
+      const vector = Float32Array.from(embedding.vector);
+      const hash = embedding.chunk.hash || '';
+      const entry: StoredEntry = { id: embedding.id, hash, chunk: embedding.chunk };
+      this.entries.set(embedding.id, { entry, vector });
+      if (hash) this.byHash.set(hash, vector);
+    }
+
+    this.dirty = this.dirty || embeddings.length > 0;
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.dirty = this.entries.delete(id) || this.dirty;
+    }
+  }
+
+  async deleteFile(file: string): Promise<void> {
+    for (const [id, { entry }] of this.entries) {
+      if (entry.chunk.metadata.file === file) {
+        this.entries.delete(id);
+        this.dirty = true;
+      }
+    }
+
+    if (this.files[file]) {
+      delete this.files[file];
+      this.dirty = true;
+    }
+  }
+
+  async search(
+    vector: number[],
+    limit: number,
+    filter: SearchFilter = {}
+  ): Promise<SearchResult[]> {
+    const results: SearchResult[] = [];
+
+    for (const { entry, vector: stored } of this.entries.values()) {
+      if (filter.type && entry.chunk.type !== filter.type) continue;
+      if (filter.file && entry.chunk.metadata.file !== filter.file) continue;
+
+      const score = dot(vector, stored);
+      results.push({ chunk: entry.chunk, score, similarity: score * 100 });
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  async all(): Promise<CodeEmbedding[]> {
+    return Array.from(this.entries.values(), ({ entry, vector }) => ({
+      id: entry.id,
+      vector: Array.from(vector),
+      chunk: entry.chunk,
+    }));
+  }
+
+  async count(): Promise<number> {
+    return this.entries.size;
+  }
+
+  async flush(): Promise<void> {
+    if (!this.dirty) return;
+
+    const entries = Array.from(this.entries.values());
+    const floats = new Float32Array(entries.length * this.dimensions);
+    entries.forEach(({ vector }, i) => floats.set(vector, i * this.dimensions));
+
+    const meta: IndexMeta = {
+      version: INDEX_VERSION,
+      providerId: this.providerId,
+      dimensions: this.dimensions,
+      entries: entries.map(({ entry }) => entry),
+      files: this.files,
+    };
+
+    // Write both files next to the originals, then swap them in
+    await fs.ensureDir(this.dir);
+    const metaPath = path.join(this.dir, META_FILE);
+    const vectorsPath = path.join(this.dir, VECTORS_FILE);
+    await fs.writeFile(`${vectorsPath}.tmp`, Buffer.from(floats.buffer));
+    await fs.writeJSON(`${metaPath}.tmp`, meta);
+    await fs.rename(`${vectorsPath}.tmp`, vectorsPath);
+    await fs.rename(`${metaPath}.tmp`, metaPath);
+
+    // Vectors no longer referenced by any chunk leave the hash cache too
+    this.byHash = new Map(entries.map(({ entry, vector }) => [entry.hash, vector]));
+    this.dirty = false;
+  }
+
+  async clear(): Promise<void> {
+    this.clearMemory();
+    await fs.remove(path.join(this.dir, META_FILE));
+    await fs.remove(path.join(this.dir, VECTORS_FILE));
+  }
+
+  // ============================================
+  // Content-hash cache & per-file bookkeeping
+  // ============================================
+
+  /**
+   * Vector already stored for a chunk with this content hash, if any.
+   */
+  findVector(hash: string): number[] | undefined {
+    const vector = this.byHash.get(hash);
+    return vector ? Array.from(vector) : undefined;
+  }
+
+  getFile(file: string): IndexedFile | undefined {
+    return this.files[file];
+  }
+
+  setFile(file: string, hash: string, chunks: Record<string, string>): void {
+    this.files[file] = { hash, chunks, indexedAt: Date.now() };
+    this.dirty = true;
+  }
+
+  listFiles(): string[] {
+    return Object.keys(this.files);
+  }
+
+  private clearMemory(): void {
+    this.entries.clear();
+    this.byHash.clear();
+    this.files = {};
+    this.dimensions = 0;
+    this.dirty = false;
+  }
+}
+
+function dot(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
@@ -0,0 +1,205 @@
+// qdrant-backend.ts
+// ============================================
+// 🔍 Qdrant Backend - خادم Qdrant خارجي
+// ============================================
+
+import { QdrantClient } from '@qdrant/js-client-rest';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import type {
+  CodeChunk,
+  CodeEmbedding,
+  IndexedFile,
+  SearchFilter,
+  SearchResult,
+  VectorBackend,
+} from './code-vector-db.js';
+
+export interface QdrantBackendConfig {
+  url: string;
+  apiKey?: string;
+  collectionName: string;
+  // The embedder's length, or a probe resolved only when the collection is created
+  vectorSize: number | (() => Promise<number>);
+  manifestPath: string; // local JSON with the per-file hashes
+}
+
+export class QdrantBackend implements VectorBackend {
+  private qdrant: QdrantClient;
+  private config: QdrantBackendConfig;
+  private files: Record<string, IndexedFile> = {};
+  private dirty = false;
+
+  constructor(config: QdrantBackendConfig) {
+    this.config = config;
+    this.qdrant = new QdrantClient({
+      url: config.url,
+      apiKey: config.apiKey || undefined,
+    });
+  }
+
+  async initialize(): Promise<void> {
+    // Check if collection exists
+    const collections = await this.qdrant.getCollections();
+    const exists = collections.collections.some((c) => c.name === this.config.collectionName);
+
+    if (!exists) {
+      // Create collection
+      const { vectorSize } = this.config;
+      await this.qdrant.createCollection(this.config.collectionName, {
+        vectors: {
+          size: typeof vectorSize === 'number' ? vectorSize : await vectorSize(),
+          distance: 'Cosine',
+        },
+      });
+
+      console.log(`✅ Created collection: ${this.config.collectionName}`);
+    } else {
+      console.log(`✅ Collection already exists: ${this.config.collectionName}`);
+    }
+
+    // A manifest without its collection describes nothing
+    this.files = {};
+    if (exists && (await fs.pathExists(this.config.manifestPath))) {
+      try {
+        this.files = (await fs.readJSON(this.config.manifestPath)).files || {};
+      } catch {
+        // corrupt manifest: files get re-indexed on the next pass
+      }
+    }
+  }
+
+  async upsert(embeddings: CodeEmbedding[]): Promise<void> {
+    if (embeddings.length === 0) return;
+
+    await this.qdrant.upsert(this.config.collectionName, {
+      points: embeddings.map((emb) => ({
+        id: pointId(emb.id),
+        vector: emb.vector,
+        payload: {
+          chunkId: emb.id,
+          content: emb.chunk.content,
+          type: emb.chunk.type,
+          hash: emb.chunk.hash,
+          metadata: emb.chunk.metadata,
+        },
+      })),
+    });
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.qdrant.delete(this.config.collectionName, { points: ids.map(pointId) });
+  }
+
+  async deleteFile(file: string): Promise<void> {
+    await this.qdrant.delete(this.config.collectionName, {
+      filter: { must: [{ key: 'metadata.file', match: { value: file } }] },
+    });
+
+    if (this.files[file]) {
+      delete this.files[file];
+      this.dirty = true;
+    }
+  }
+
+  async search(
+    vector: number[],
+    limit: number,
+    filter: SearchFilter = {}
+  ): Promise<SearchResult[]> {
+    const must: Array<{ key: string; match: { value: string } }> = [];
+    if (filter.type) must.push({ key: 'type', match: { value: filter.type } });
+    if (filter.file) must.push({ key: 'metadata.file', match: { value: filter.file } });
+
+    const results = await this.qdrant.search(this.config.collectionName, {
+      vector,
+      limit,
+      with_payload: true,
+      filter: must.length > 0 ? { must } : undefined,
+    });
+
+    return results.map((result) => ({
+      chunk: toChunk(result.id, result.payload),
+      score: result.score,
+      similarity: result.score * 100, // Convert to percentage
+    }));
+  }
+
+  async all(): Promise<CodeEmbedding[]> {
+    const points = await this.qdrant.scroll(this.config.collectionName, {
+      limit: 10000,
+      with_payload: true,
+      with_vector: true,
+    });
+
+    return points.points.map((point) => {
+      const chunk = toChunk(point.id, point.payload);
+      return { id: chunk.id, vector: (point.vector as number[]) || [], chunk };
+    });
+  }
+
+  async count(): Promise<number> {
+    const collection = await this.qdrant.getCollection(this.config.collectionName);
+    return collection.points_count || 0;
+  }
+
+  async flush(): Promise<void> {
+    // Qdrant persists points on every write; only the manifest is pending
+    if (!this.dirty) return;
+
+    await fs.ensureDir(path.dirname(this.config.manifestPath));
+    await fs.writeJSON(`${this.config.manifestPath}.tmp`, { files: this.files });
+    await fs.rename(`${this.config.manifestPath}.tmp`, this.config.manifestPath);
+    this.dirty = false;
+  }
+
+  async clear(): Promise<void> {
+    await this.qdrant.deleteCollection(this.config.collectionName);
+    await fs.remove(this.config.manifestPath);
+    this.files = {};
+    this.dirty = false;
+    console.log(`✅ Deleted collection: ${this.config.collectionName}`);
+  }
+
+  getFile(file: string): IndexedFile | undefined {
+    return this.files[file];
+  }
+
+  setFile(file: string, hash: string, chunks: Record<string, string>): void {
+    this.files[file] = { hash, chunks, indexedAt: Date.now() };
+    this.dirty = true;
+  }
+
+  listFiles(): string[] {
+    return Object.keys(this.files);
+  }
+}
+
+// Qdrant يقبل UUID أو رقماً فقط، فمعرّف القطعة (file_fn_0) يُحوَّل إلى UUIDv5 ثابت
+const POINT_NAMESPACE = Buffer.from('6ba7b8119dad11d180b400c04fd430c8', 'hex'); // URL namespace
+
+export function pointId(chunkId: string): string {
+  const hash = crypto.createHash('sha1').update(POINT_NAMESPACE).update(chunkId).digest();
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+  const hex = hash.subarray(0, 16).toString('hex');
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join('-');
+}
+
+function toChunk(id: string | number, payload?: Record<string, unknown> | null): CodeChunk {
+  return {
+    id: (payload?.chunkId as string | undefined) ?? String(id),
+    content: payload?.content as string,
+    type: payload?.type as CodeChunk['type'],
+    hash: payload?.hash as string | undefined,
+    metadata: payload?.metadata as CodeChunk['metadata'],
+  };
+}